@@ -12,6 +12,11 @@ import Signup from "./pages/Signup";
 import Dashboard from "./pages/Dashboard";
 import SalaryManagement from "./pages/SalaryManagement";
 import ExpenseTracking from "./pages/ExpenseTracking";
+import Goals from "./pages/Goals";
+import Bills from "./pages/Bills";
+import NetWorth from "./pages/NetWorth";
+import Loans from "./pages/Loans";
+import Portfolio from "./pages/Portfolio";
 import InvestmentSuggestions from "./pages/InvestmentSuggestions";
 import Settings from "./pages/Settings";
 
@@ -110,6 +115,46 @@ const App: React.FC = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/goals"
+              element={
+                <ProtectedRoute>
+                  <Goals />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/bills"
+              element={
+                <ProtectedRoute>
+                  <Bills />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/net-worth"
+              element={
+                <ProtectedRoute>
+                  <NetWorth />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/loans"
+              element={
+                <ProtectedRoute>
+                  <Loans />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/portfolio"
+              element={
+                <ProtectedRoute>
+                  <Portfolio />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/investments"
               element={
@@ -94,7 +94,7 @@ export class ApiClient {
 
     // Handle network errors
     if (!error.response) {
-      throw this.createApiError('Network error. Please check your connection.', 0);
+      throw this.createApiError('Network error. Please check your connection.', 0, undefined, 'NETWORK_ERROR');
     }
 
     // Handle other errors
@@ -186,12 +186,12 @@ export class ApiClient {
     }
   }
 
-  private createApiError(message: string, status: number, errors?: any): ApiError {
+  private createApiError(message: string, status: number, errors?: any, code?: string): ApiError {
     return {
       success: false,
       message,
       errors,
-      code: status.toString(),
+      code: code || status.toString(),
       timestamp: new Date().toISOString(),
     };
   }
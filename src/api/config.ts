@@ -96,7 +96,9 @@ export const API_ENDPOINTS = {
   // Notifications
   NOTIFICATIONS: {
     BASE: "/notifications",
+    BY_ID: (id: string) => `/notifications/${id}`,
     MARK_READ: (id: string) => `/notifications/${id}/read`,
+    MARK_ACTIONED: (id: string) => `/notifications/${id}/actioned`,
     MARK_ALL_READ: "/notifications/mark-all-read",
     SETTINGS: "/notifications/settings",
   },
@@ -0,0 +1,60 @@
+/**
+ * Financial Goals API Endpoints
+ */
+
+import { apiClient } from '../client';
+import { API_ENDPOINTS } from '../config';
+import {
+  CreateGoalRequest,
+  UpdateGoalRequest,
+  GoalProgress,
+  GoalsResponse,
+  GoalResponse,
+} from '../../types/financial.types';
+import { ApiResponse } from '../../types/api.types';
+
+export class GoalApiService {
+  /**
+   * Get all goals
+   */
+  async getGoals(): Promise<GoalsResponse> {
+    return apiClient.get(API_ENDPOINTS.GOALS.BASE);
+  }
+
+  /**
+   * Get goal by ID
+   */
+  async getGoalById(goalId: string): Promise<GoalResponse> {
+    return apiClient.get(API_ENDPOINTS.GOALS.BY_ID(goalId));
+  }
+
+  /**
+   * Create new goal
+   */
+  async createGoal(data: CreateGoalRequest): Promise<GoalResponse> {
+    return apiClient.post(API_ENDPOINTS.GOALS.BASE, data);
+  }
+
+  /**
+   * Update goal
+   */
+  async updateGoal(goalId: string, data: UpdateGoalRequest): Promise<GoalResponse> {
+    return apiClient.put(API_ENDPOINTS.GOALS.BY_ID(goalId), data);
+  }
+
+  /**
+   * Delete goal
+   */
+  async deleteGoal(goalId: string): Promise<ApiResponse<void>> {
+    return apiClient.delete(API_ENDPOINTS.GOALS.BY_ID(goalId));
+  }
+
+  /**
+   * Get goal progress as calculated by the server
+   */
+  async getGoalProgress(goalId: string): Promise<ApiResponse<GoalProgress>> {
+    return apiClient.get(API_ENDPOINTS.GOALS.PROGRESS(goalId));
+  }
+}
+
+export const goalApiService = new GoalApiService();
@@ -0,0 +1,69 @@
+/**
+ * Notifications API Endpoints
+ */
+
+import { apiClient } from '../client';
+import { API_ENDPOINTS } from '../config';
+import {
+  NotificationSettings,
+  NotificationsResponse,
+  NotificationResponse,
+} from '../../types/financial.types';
+import { ApiResponse, PaginatedRequest } from '../../types/api.types';
+
+export interface NotificationListRequest extends PaginatedRequest {
+  isRead?: boolean;
+}
+
+export class NotificationApiService {
+  /**
+   * Get a page of notifications, newest first
+   */
+  async getNotifications(params: NotificationListRequest = {}): Promise<NotificationsResponse> {
+    return apiClient.get(API_ENDPOINTS.NOTIFICATIONS.BASE, { params });
+  }
+
+  /**
+   * Mark notification as read
+   */
+  async markAsRead(notificationId: string): Promise<NotificationResponse> {
+    return apiClient.patch(API_ENDPOINTS.NOTIFICATIONS.MARK_READ(notificationId));
+  }
+
+  /**
+   * Mark notification as actioned
+   */
+  async markAsActioned(notificationId: string): Promise<NotificationResponse> {
+    return apiClient.patch(API_ENDPOINTS.NOTIFICATIONS.MARK_ACTIONED(notificationId));
+  }
+
+  /**
+   * Expire notification so it stops counting as unread
+   */
+  async expire(notificationId: string, expiresAt: string): Promise<NotificationResponse> {
+    return apiClient.patch(API_ENDPOINTS.NOTIFICATIONS.BY_ID(notificationId), { expiresAt });
+  }
+
+  /**
+   * Mark all notifications as read
+   */
+  async markAllAsRead(): Promise<ApiResponse<void>> {
+    return apiClient.patch(API_ENDPOINTS.NOTIFICATIONS.MARK_ALL_READ);
+  }
+
+  /**
+   * Get notification settings
+   */
+  async getSettings(): Promise<ApiResponse<NotificationSettings>> {
+    return apiClient.get(API_ENDPOINTS.NOTIFICATIONS.SETTINGS);
+  }
+
+  /**
+   * Update notification settings
+   */
+  async updateSettings(settings: NotificationSettings): Promise<ApiResponse<NotificationSettings>> {
+    return apiClient.put(API_ENDPOINTS.NOTIFICATIONS.SETTINGS, settings);
+  }
+}
+
+export const notificationApiService = new NotificationApiService();
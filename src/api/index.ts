@@ -14,6 +14,8 @@ import { STORAGE_KEYS } from './config';
 export { authApiService, AuthApiService } from './endpoints/auth.api';
 export { userApiService, UserApiService } from './endpoints/user.api';
 export { accountApiService, AccountApiService } from './endpoints/account.api';
+export { goalApiService, GoalApiService } from './endpoints/goal.api';
+export { notificationApiService, NotificationApiService } from './endpoints/notification.api';
 
 // Types
 export type * from '../types/api.types';
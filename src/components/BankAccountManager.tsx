@@ -3,9 +3,27 @@ import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { useBankAccounts } from "../hooks/useBankAccounts";
-import { LinkAccountRequest, AccountType } from "../types/account.types";
+import {
+  LinkAccountRequest,
+  AccountType,
+  LoanKind,
+  LoanTerms,
+} from "../types/account.types";
+import {
+  LOAN_KIND_OPTIONS,
+  validateLoanTerms,
+} from "../utils/loanAmortization";
+import { validateStatementDay } from "../utils/creditCard";
 import { toast } from "sonner";
 
+const DEFAULT_LOAN_TERMS: LoanTerms = {
+  kind: LoanKind.HOME,
+  principal: 0,
+  annualInterestRate: 0,
+  tenureMonths: 0,
+  startDate: "",
+};
+
 interface BankAccountManagerProps {
   onAccountLinked?: () => void;
 }
@@ -35,6 +53,42 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
     }));
   };
 
+  // Loan terms and card details only apply, and are only sent, while their type is selected
+  const handleAccountTypeChange = (accountType: AccountType) => {
+    const isCredit = accountType === AccountType.CREDIT;
+    setFormData((prev) => ({
+      ...prev,
+      accountType,
+      loan:
+        accountType === AccountType.LOAN
+          ? prev.loan || DEFAULT_LOAN_TERMS
+          : undefined,
+      creditLimit: isCredit ? prev.creditLimit : undefined,
+      statementClosingDay: isCredit ? prev.statementClosingDay : undefined,
+      paymentDueDay: isCredit ? prev.paymentDueDay : undefined,
+    }));
+  };
+
+  const handleOptionalNumberChange = (
+    field: "creditLimit" | "statementClosingDay" | "paymentDueDay",
+    value: string
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: value === "" ? undefined : parseFloat(value),
+    }));
+  };
+
+  const handleLoanChange = (
+    field: keyof LoanTerms,
+    value: string | number
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      loan: { ...(prev.loan || DEFAULT_LOAN_TERMS), [field]: value },
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -58,6 +112,25 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
       return;
     }
 
+    if (
+      !validateStatementDay(formData.statementClosingDay) ||
+      !validateStatementDay(formData.paymentDueDay)
+    ) {
+      toast.error("Statement and due days must be between 1 and 31");
+      return;
+    }
+
+    if (formData.creditLimit !== undefined && !(formData.creditLimit > 0)) {
+      toast.error("Credit limit must be greater than zero");
+      return;
+    }
+
+    const loanError = formData.loan ? validateLoanTerms(formData.loan) : null;
+    if (loanError) {
+      toast.error(loanError);
+      return;
+    }
+
     const success = await linkAccount(formData);
     if (success) {
       setFormData({
@@ -164,7 +237,7 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
                   <select
                     value={formData.accountType}
                     onChange={(e) =>
-                      handleInputChange("accountType", e.target.value)
+                      handleAccountTypeChange(e.target.value as AccountType)
                     }
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-primary focus:border-transparent"
                   >
@@ -174,14 +247,170 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
                     </option>
                     <option value={AccountType.CURRENT}>Current Account</option>
                     <option value={AccountType.CREDIT}>Credit Account</option>
+                    <option value={AccountType.LOAN}>Loan Account</option>
                   </select>
                 </div>
               </div>
 
+              {formData.accountType === AccountType.CREDIT && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-brand-dark mb-2">
+                      Credit Limit
+                    </label>
+                    <Input
+                      type="number"
+                      value={formData.creditLimit ?? ""}
+                      onChange={(e) =>
+                        handleOptionalNumberChange(
+                          "creditLimit",
+                          e.target.value
+                        )
+                      }
+                      placeholder="0.00"
+                      min="0"
+                      step="0.01"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-dark mb-2">
+                      Statement Closes On Day
+                    </label>
+                    <Input
+                      type="number"
+                      value={formData.statementClosingDay ?? ""}
+                      onChange={(e) =>
+                        handleOptionalNumberChange(
+                          "statementClosingDay",
+                          e.target.value
+                        )
+                      }
+                      placeholder="20"
+                      min="1"
+                      max="31"
+                      step="1"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-dark mb-2">
+                      Payment Due On Day
+                    </label>
+                    <Input
+                      type="number"
+                      value={formData.paymentDueDay ?? ""}
+                      onChange={(e) =>
+                        handleOptionalNumberChange(
+                          "paymentDueDay",
+                          e.target.value
+                        )
+                      }
+                      placeholder="8"
+                      min="1"
+                      max="31"
+                      step="1"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {formData.loan && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-brand-dark mb-2">
+                      Loan Type
+                    </label>
+                    <select
+                      value={formData.loan.kind}
+                      onChange={(e) => handleLoanChange("kind", e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-primary focus:border-transparent"
+                    >
+                      {LOAN_KIND_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-dark mb-2">
+                      Loan Amount *
+                    </label>
+                    <Input
+                      type="number"
+                      value={formData.loan.principal || ""}
+                      onChange={(e) =>
+                        handleLoanChange(
+                          "principal",
+                          parseFloat(e.target.value) || 0
+                        )
+                      }
+                      placeholder="0.00"
+                      min="0"
+                      step="0.01"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-dark mb-2">
+                      Interest Rate (% p.a.) *
+                    </label>
+                    <Input
+                      type="number"
+                      value={formData.loan.annualInterestRate || ""}
+                      onChange={(e) =>
+                        handleLoanChange(
+                          "annualInterestRate",
+                          parseFloat(e.target.value) || 0
+                        )
+                      }
+                      placeholder="8.5"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-dark mb-2">
+                      Tenure (months) *
+                    </label>
+                    <Input
+                      type="number"
+                      value={formData.loan.tenureMonths || ""}
+                      onChange={(e) =>
+                        handleLoanChange(
+                          "tenureMonths",
+                          parseInt(e.target.value, 10) || 0
+                        )
+                      }
+                      placeholder="240"
+                      min="1"
+                      step="1"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-brand-dark mb-2">
+                      First EMI Date *
+                    </label>
+                    <Input
+                      type="date"
+                      value={formData.loan.startDate}
+                      onChange={(e) =>
+                        handleLoanChange("startDate", e.target.value)
+                      }
+                      required
+                    />
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-brand-dark mb-2">
-                    Current Balance
+                    {formData.accountType === AccountType.LOAN
+                      ? "Outstanding Balance"
+                      : "Current Balance"}
                   </label>
                   <Input
                     type="number"
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from "react";
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Button } from "../ui/button";
+import { Bill } from "../../types/financial.types";
+import { BillOccurrence, getBillOccurrences } from "../../utils/bills";
+import { formatCurrency } from "../../utils/helpers";
+
+interface BillCalendarProps {
+  bills: Bill[];
+  currency: string;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const BillCalendar: React.FC<BillCalendarProps> = ({ bills, currency }) => {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+
+  const days = useMemo(
+    () =>
+      eachDayOfInterval({
+        start: startOfWeek(month),
+        end: endOfWeek(endOfMonth(month)),
+      }),
+    [month]
+  );
+
+  const occurrencesByDay = useMemo(() => {
+    const byDay = new Map<string, BillOccurrence[]>();
+    getBillOccurrences(bills, days[0], days[days.length - 1]).forEach(
+      (occurrence) => {
+        byDay.set(occurrence.dueDate, [
+          ...(byDay.get(occurrence.dueDate) || []),
+          occurrence,
+        ]);
+      }
+    );
+    return byDay;
+  }, [bills, days]);
+
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setMonth((prev) => addMonths(prev, -1))}
+        >
+          Previous
+        </Button>
+        <h3 className="font-semibold text-neutral-900">
+          {format(month, "MMMM yyyy")}
+        </h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setMonth((prev) => addMonths(prev, 1))}
+        >
+          Next
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-xs">
+        {WEEKDAYS.map((day) => (
+          <div
+            key={day}
+            className="text-center font-medium text-neutral-500 py-1"
+          >
+            {day}
+          </div>
+        ))}
+        {days.map((day) => {
+          const key = format(day, "yyyy-MM-dd");
+          const occurrences = occurrencesByDay.get(key) || [];
+          return (
+            <div
+              key={key}
+              className={`min-h-[5rem] p-1 rounded-lg border ${
+                isSameMonth(day, month)
+                  ? "bg-white/60 border-neutral-200"
+                  : "bg-neutral-50/50 border-transparent text-neutral-400"
+              } ${key === today ? "ring-2 ring-brand-400" : ""}`}
+            >
+              <div className="text-right text-neutral-500">
+                {format(day, "d")}
+              </div>
+              <div className="space-y-1">
+                {occurrences.map((occurrence) => (
+                  <div
+                    key={`${occurrence.bill.id}:${occurrence.dueDate}`}
+                    title={`${occurrence.bill.name} · ${formatCurrency(
+                      occurrence.bill.amount,
+                      currency
+                    )}`}
+                    className={`truncate px-1 py-0.5 rounded ${
+                      occurrence.isPaid
+                        ? "bg-success-100 text-success-700 line-through"
+                        : occurrence.dueDate < today
+                        ? "bg-danger-100 text-danger-700"
+                        : "bg-brand-100 text-brand-700"
+                    }`}
+                  >
+                    {occurrence.bill.name}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BillCalendar;
@@ -0,0 +1,207 @@
+import React, { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import { BankAccount } from "../../types/account.types";
+import { TransactionCategory } from "../../types/expense.types";
+import { Bill } from "../../types/financial.types";
+import { BillDraft } from "../../services/bill.service";
+import { BILL_FREQUENCY_OPTIONS, BillFrequency } from "../../utils/bills";
+
+interface BillFormDialogProps {
+  bill?: Bill; // Editing when set, creating otherwise
+  accounts: BankAccount[];
+  onSubmit: (draft: BillDraft) => boolean;
+  onClose: () => void;
+}
+
+const formatCategory = (category: string) =>
+  category.charAt(0).toUpperCase() + category.slice(1).replace("_", " ");
+
+const BillFormDialog: React.FC<BillFormDialogProps> = ({
+  bill,
+  accounts,
+  onSubmit,
+  onClose,
+}) => {
+  const [formData, setFormData] = useState({
+    name: bill?.name || "",
+    merchant: bill?.merchant || "",
+    amount: bill?.amount || 0,
+    dueDate: bill?.dueDate || "",
+    frequency: bill?.frequency || ("monthly" as BillFrequency),
+    category: bill?.category || TransactionCategory.UTILITIES,
+    accountId: bill?.accountId || "",
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = onSubmit({
+      name: formData.name,
+      merchant: formData.merchant || undefined,
+      amount: formData.amount,
+      dueDate: formData.dueDate,
+      frequency: formData.frequency,
+      category: formData.category,
+      accountId: formData.accountId,
+      recurringSeriesId: bill?.recurringSeriesId,
+    });
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+      <Card
+        variant="glass"
+        hover={false}
+        className="w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto custom-scrollbar animate-scale-in"
+      >
+        <CardHeader className="bg-gradient-to-r from-white via-brand-50/30 to-success-50/30 border-b border-white/20">
+          <CardTitle className="text-gradient">
+            {bill ? "Edit Bill" : "New Bill"}
+          </CardTitle>
+          <CardDescription>
+            Bills are marked paid automatically when a matching expense comes
+            in
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <Input
+              label="Bill name"
+              value={formData.name}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, name: e.target.value }))
+              }
+              placeholder="e.g. Electricity"
+              required
+            />
+
+            <Input
+              label="Payee"
+              value={formData.merchant}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, merchant: e.target.value }))
+              }
+              placeholder="As it appears on your statement (defaults to the bill name)"
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Input
+                type="number"
+                label="Amount"
+                value={formData.amount}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    amount: parseFloat(e.target.value) || 0,
+                  }))
+                }
+                min={0.01}
+                step={0.01}
+                required
+              />
+              <Input
+                type="date"
+                label="Next due date"
+                value={formData.dueDate}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, dueDate: e.target.value }))
+                }
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-neutral-700">
+                  Repeats
+                </label>
+                <Select
+                  value={formData.frequency}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      frequency: e.target.value as BillFrequency,
+                    }))
+                  }
+                >
+                  {BILL_FREQUENCY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-neutral-700">
+                  Category
+                </label>
+                <Select
+                  value={formData.category}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      category: e.target.value,
+                    }))
+                  }
+                >
+                  {Object.values(TransactionCategory).map((category) => (
+                    <option key={category} value={category}>
+                      {formatCategory(category)}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-neutral-700">
+                Paid from
+              </label>
+              <Select
+                value={formData.accountId}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    accountId: e.target.value,
+                  }))
+                }
+              >
+                <option value="">Any account</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.accountName} - {account.bankName}
+                  </option>
+                ))}
+              </Select>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" variant="primary" className="flex-1">
+                {bill ? "Save Bill" : "Add Bill"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BillFormDialog;
@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { useCashFlowForecast } from "../../hooks/useCashFlowForecast";
+import { BankAccount } from "../../types/account.types";
+import { RecurringTransaction } from "../../types/expense.types";
+import { Bill } from "../../types/financial.types";
+import {
+  CASH_FLOW_HORIZONS,
+  CashFlowForecastDay,
+  CashFlowHorizon,
+} from "../../utils/cashFlowForecast";
+import { formatCurrency, formatDate } from "../../utils/helpers";
+
+interface CashFlowForecastCardProps {
+  accounts: BankAccount[];
+  recurringTransactions: RecurringTransaction[];
+  bills: Bill[];
+  baseCurrency: string;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+// Projected balance as a line over its confidence band, with the zero line when the range crosses it
+const ForecastChart: React.FC<{ days: CashFlowForecastDay[] }> = ({
+  days,
+}) => {
+  const { line, band, zeroY } = useMemo(() => {
+    const low = Math.min(0, ...days.map((day) => day.lowerBalance));
+    const high = Math.max(...days.map((day) => day.upperBalance), low + 1);
+    const x = (index: number) =>
+      (index / Math.max(days.length - 1, 1)) * CHART_WIDTH;
+    const y = (value: number) =>
+      CHART_HEIGHT - ((value - low) / (high - low)) * CHART_HEIGHT;
+
+    const upper = days.map((day, i) => `${x(i)},${y(day.upperBalance)}`);
+    const lower = days
+      .map((day, i) => `${x(i)},${y(day.lowerBalance)}`)
+      .reverse();
+    return {
+      line: days.map((day, i) => `${x(i)},${y(day.projectedBalance)}`).join(" "),
+      band: [...upper, ...lower].join(" "),
+      zeroY: low < 0 ? y(0) : null,
+    };
+  }, [days]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-40"
+    >
+      <polygon points={band} className="fill-brand-100" />
+      {zeroY !== null && (
+        <line
+          x1={0}
+          x2={CHART_WIDTH}
+          y1={zeroY}
+          y2={zeroY}
+          strokeDasharray="4 4"
+          className="stroke-danger-400"
+        />
+      )}
+      <polyline
+        points={line}
+        fill="none"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+        className="stroke-brand-600"
+      />
+    </svg>
+  );
+};
+
+const CashFlowForecastCard: React.FC<CashFlowForecastCardProps> = ({
+  accounts,
+  recurringTransactions,
+  bills,
+  baseCurrency,
+}) => {
+  const [horizon, setHorizon] = useState<CashFlowHorizon>(30);
+  const { forecast, unconvertedAccounts, error } = useCashFlowForecast(
+    { accounts, recurringTransactions, bills, baseCurrency },
+    horizon
+  );
+
+  const money = (amount: number) => formatCurrency(amount, baseCurrency);
+  const lastDay = forecast.days[forecast.days.length - 1];
+  const lowestDay = forecast.days.reduce(
+    (lowest, day) =>
+      day.projectedBalance < lowest.projectedBalance ? day : lowest,
+    forecast.days[0]
+  );
+  const upcomingEvents = forecast.events.slice(0, 5);
+
+  return (
+    <Card variant="gradient" className="mb-8 animate-slide-up">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="text-gradient">Cash Flow Forecast</CardTitle>
+            <CardDescription>
+              Balances projected from expected income, recurring payments and
+              bills
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {CASH_FLOW_HORIZONS.map((days) => (
+              <Button
+                key={days}
+                variant={horizon === days ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setHorizon(days)}
+              >
+                {days} days
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="mb-4 text-sm text-warning-700">{error}</p>}
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4 text-sm">
+          <div>
+            <p className="text-neutral-600">Today</p>
+            <p className="text-lg font-semibold text-neutral-900">
+              {money(forecast.startingBalance)}
+            </p>
+          </div>
+          <div>
+            <p className="text-neutral-600">
+              In {horizon} days ({Math.round(lastDay.confidence * 100)}%
+              confidence)
+            </p>
+            <p className="text-lg font-semibold text-neutral-900">
+              {money(lastDay.projectedBalance)}
+            </p>
+            <p className="text-xs text-neutral-500">
+              {money(lastDay.lowerBalance)} to {money(lastDay.upperBalance)}
+            </p>
+          </div>
+          <div>
+            <p className="text-neutral-600">Lowest point</p>
+            <p
+              className={`text-lg font-semibold ${
+                lowestDay.projectedBalance < 0
+                  ? "text-danger-700"
+                  : "text-neutral-900"
+              }`}
+            >
+              {money(lowestDay.projectedBalance)}
+            </p>
+            <p className="text-xs text-neutral-500">
+              {formatDate(lowestDay.date)}
+            </p>
+          </div>
+        </div>
+
+        <ForecastChart days={forecast.days} />
+
+        {forecast.shortfalls.length > 0 && (
+          <div className="mt-4 space-y-2">
+            {forecast.shortfalls.map((shortfall) => (
+              <div
+                key={`${shortfall.accountId}:${shortfall.type}:${shortfall.date}`}
+                className={`p-3 rounded-lg text-sm ${
+                  shortfall.type === "overdrawn"
+                    ? "bg-danger-50 text-danger-700"
+                    : "bg-warning-50 text-warning-700"
+                }`}
+              >
+                {shortfall.accountName}{" "}
+                {shortfall.type === "overdrawn"
+                  ? "is projected to go below zero"
+                  : `is projected to drop below its minimum of ${money(
+                      shortfall.threshold
+                    )}`}{" "}
+                on {formatDate(shortfall.date)}, reaching{" "}
+                {money(shortfall.lowestBalance)} by{" "}
+                {formatDate(shortfall.lowestDate)}.
+              </div>
+            ))}
+          </div>
+        )}
+
+        {upcomingEvents.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <p className="text-sm font-medium text-neutral-700">Coming up</p>
+            {upcomingEvents.map((event, index) => (
+              <div
+                key={`${event.source}:${event.label}:${event.date}:${index}`}
+                className="flex justify-between text-sm"
+              >
+                <span className="text-neutral-700">
+                  {formatDate(event.date)} · {event.label}
+                </span>
+                <span
+                  className={
+                    event.amount >= 0 ? "text-success-600" : "text-neutral-900"
+                  }
+                >
+                  {event.amount >= 0 ? "+" : ""}
+                  {money(event.amount)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {unconvertedAccounts.length > 0 && (
+          <p className="mt-4 text-xs text-neutral-500">
+            Not included (no exchange rate to {baseCurrency}):{" "}
+            {unconvertedAccounts.map((account) => account.accountName).join(", ")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CashFlowForecastCard;
@@ -0,0 +1,153 @@
+import React from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { useCreditCards } from "../../hooks/useCreditCards";
+import { BankAccount } from "../../types/account.types";
+import { Transaction } from "../../types/expense.types";
+import { StatementStatus } from "../../utils/creditCard";
+import { formatCurrency, formatDate } from "../../utils/helpers";
+
+interface CreditCardsCardProps {
+  accounts: BankAccount[];
+  transactions: Transaction[];
+}
+
+const STATUS_STYLES: Record<StatementStatus, string> = {
+  paid: "text-success-700 bg-success-100",
+  minimum_paid: "text-brand-700 bg-brand-100",
+  due: "text-warning-700 bg-warning-100",
+  overdue: "text-danger-700 bg-danger-100",
+  no_balance: "text-neutral-700 bg-neutral-100",
+};
+
+const STATUS_LABELS: Record<StatementStatus, string> = {
+  paid: "Paid",
+  minimum_paid: "Minimum paid",
+  due: "Due",
+  overdue: "Overdue",
+  no_balance: "Nothing due",
+};
+
+const CreditCardsCard: React.FC<CreditCardsCardProps> = ({
+  accounts,
+  transactions,
+}) => {
+  const { cards, cardsOverThreshold, utilizationThreshold } = useCreditCards(
+    accounts,
+    transactions
+  );
+
+  if (cards.length === 0) return null;
+
+  return (
+    <Card variant="gradient" className="mb-8 animate-slide-up">
+      <CardHeader>
+        <CardTitle className="text-gradient">Credit Cards</CardTitle>
+        <CardDescription>
+          Statements, minimum due and how much of each limit is in use
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {cardsOverThreshold.length > 0 && (
+          <p className="text-sm text-danger-600">
+            {cardsOverThreshold
+              .map((card) => `${card.account.accountName} (${card.utilization}%)`)
+              .join(", ")}{" "}
+            above your {utilizationThreshold}% utilization limit. Paying these
+            down helps your credit score.
+          </p>
+        )}
+
+        {cards.map((card) => {
+          const money = (amount: number) =>
+            formatCurrency(amount, card.account.currencyCode);
+          const isOver =
+            card.utilization !== null &&
+            card.utilization >= utilizationThreshold;
+          const statement = card.statement;
+
+          return (
+            <div
+              key={card.account.id}
+              className="p-4 border border-neutral-200 rounded-lg bg-white/50 space-y-2"
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-medium text-neutral-900">
+                  {card.account.accountName}
+                </span>
+                <span className="font-semibold">
+                  {money(card.outstanding)}
+                  {card.creditLimit !== null && (
+                    <span className="text-sm font-normal text-neutral-600">
+                      {" "}
+                      of {money(card.creditLimit)}
+                    </span>
+                  )}
+                </span>
+              </div>
+
+              {card.utilization !== null ? (
+                <div>
+                  <div className="w-full h-2 bg-neutral-200 rounded-full overflow-hidden">
+                    <div
+                      className={`h-2 rounded-full ${
+                        isOver ? "bg-danger-500" : "bg-success-500"
+                      }`}
+                      style={{ width: `${Math.min(card.utilization, 100)}%` }}
+                    />
+                  </div>
+                  <p
+                    className={`text-xs mt-1 ${
+                      isOver ? "text-danger-600" : "text-neutral-600"
+                    }`}
+                  >
+                    {card.utilization}% used · {money(card.availableCredit || 0)}{" "}
+                    available
+                  </p>
+                </div>
+              ) : (
+                <p className="text-xs text-neutral-500">
+                  Add a credit limit to track utilization.
+                </p>
+              )}
+
+              {statement ? (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-neutral-600">
+                  <span
+                    className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+                      STATUS_STYLES[statement.status]
+                    }`}
+                  >
+                    {STATUS_LABELS[statement.status]}
+                  </span>
+                  <span>
+                    Statement {formatDate(statement.periodStart, "MMM dd")} –{" "}
+                    {formatDate(statement.periodEnd, "MMM dd")}:{" "}
+                    {money(statement.statementBalance)}, minimum{" "}
+                    {money(statement.minimumDue)}, due{" "}
+                    {formatDate(statement.dueDate)}
+                  </span>
+                  <span className="text-xs text-neutral-500">
+                    {money(card.currentCycleCharges)} spent since; next
+                    statement {formatDate(statement.nextClosingDate)}
+                  </span>
+                </div>
+              ) : (
+                <p className="text-xs text-neutral-500">
+                  Add the statement closing and due days to see statements.
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CreditCardsCard;
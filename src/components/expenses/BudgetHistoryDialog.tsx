@@ -0,0 +1,155 @@
+import React from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Select } from "../ui/select";
+import {
+  Budget,
+  BudgetCarryOver,
+  BudgetPeriodSnapshot,
+} from "../../types/expense.types";
+import { formatCurrency } from "../../utils/helpers";
+import { CARRY_OVER_OPTIONS } from "../../utils/budgetPeriods";
+
+interface BudgetHistoryDialogProps {
+  budget: Budget;
+  periods: BudgetPeriodSnapshot[];
+  currency: string;
+  onCarryOverChange: (carryOver: BudgetCarryOver) => void;
+  onRecalculate: () => void;
+  onClose: () => void;
+}
+
+// Performance of every period a budget has rolled through, newest first
+const BudgetHistoryDialog: React.FC<BudgetHistoryDialogProps> = ({
+  budget,
+  periods,
+  currency,
+  onCarryOverChange,
+  onRecalculate,
+  onClose,
+}) => {
+  const money = (amount: number) => formatCurrency(amount, currency);
+  const closed = periods.filter((period) => period.isClosed);
+  const periodsOnBudget = closed.filter((period) => period.remaining >= 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+      <Card
+        variant="glass"
+        hover={false}
+        className="w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto custom-scrollbar animate-scale-in"
+      >
+        <CardHeader className="bg-gradient-to-r from-white via-brand-50/30 to-success-50/30 border-b border-white/20">
+          <CardTitle className="text-gradient capitalize">
+            {budget.category.replace("_", " ")} budget history
+          </CardTitle>
+          <CardDescription>
+            {budget.period} budget of {money(budget.budgetAmount || budget.amount || 0)}
+            {closed.length > 0 &&
+              ` · on budget in ${periodsOnBudget.length} of ${closed.length} past period(s)`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <label className="text-sm font-medium text-neutral-700">
+                Carry over
+              </label>
+              <Select
+                value={budget.carryOver || BudgetCarryOver.NONE}
+                onChange={(e) =>
+                  onCarryOverChange(e.target.value as BudgetCarryOver)
+                }
+              >
+                {CARRY_OVER_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <Button variant="outline" onClick={onRecalculate}>
+              Recalculate past periods
+            </Button>
+          </div>
+
+          {periods.length === 0 ? (
+            <p className="text-sm text-neutral-600">
+              This budget has no periods yet.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {[...periods].reverse().map((period) => {
+                const available = period.budgetAmount + period.carriedIn;
+                const utilization =
+                  available > 0 ? (period.spent / available) * 100 : 0;
+                const isOver = period.remaining < 0;
+
+                return (
+                  <div
+                    key={period.periodKey}
+                    className="p-4 border border-neutral-200 rounded-lg bg-white/50"
+                  >
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="font-medium text-neutral-900">
+                        {period.startDate} – {period.endDate}
+                        {!period.isClosed && (
+                          <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full text-brand-700 bg-brand-100">
+                            Current
+                          </span>
+                        )}
+                      </span>
+                      <span
+                        className={`text-sm font-semibold ${
+                          isOver ? "text-danger-600" : "text-success-600"
+                        }`}
+                      >
+                        {isOver
+                          ? `${money(-period.remaining)} over`
+                          : `${money(period.remaining)} left`}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 text-xs text-neutral-600 mb-2">
+                      <span>Budget: {money(period.budgetAmount)}</span>
+                      {period.carriedIn !== 0 && (
+                        <span>Carried in: {money(period.carriedIn)}</span>
+                      )}
+                      <span>Spent: {money(period.spent)}</span>
+                    </div>
+                    <div className="w-full bg-neutral-200 rounded-full h-2 overflow-hidden">
+                      <div
+                        className={`h-2 rounded-full ${
+                          isOver ? "bg-danger-500" : "bg-success-500"
+                        }`}
+                        style={{ width: `${Math.min(utilization, 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              className="flex-1"
+            >
+              Close
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BudgetHistoryDialog;
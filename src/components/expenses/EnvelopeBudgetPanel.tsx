@@ -0,0 +1,314 @@
+import React, { useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import {
+  EnvelopeBalance,
+  EnvelopePeriodSummary,
+} from "../../types/envelope.types";
+import { TransactionCategory } from "../../types/expense.types";
+import { EnvelopeDraft } from "../../services/envelope-budget.service";
+import { formatCurrency } from "../../utils/helpers";
+import { formatPeriod, shiftPeriod } from "../../utils/envelopeBudgeting";
+
+interface EnvelopeBudgetPanelProps {
+  summary: EnvelopePeriodSummary;
+  currency: string;
+  onPeriodChange: (period: string) => void;
+  onCreate: (draft: EnvelopeDraft) => boolean;
+  onDelete: (envelopeId: string) => boolean;
+  onAssign: (envelopeId: string, amount: number) => boolean;
+  onMove: (fromEnvelopeId: string, toEnvelopeId: string, amount: number) => boolean;
+}
+
+const formatCategory = (category: string) =>
+  category.charAt(0).toUpperCase() + category.slice(1).replace("_", " ");
+
+// Zero-based budget for one month: income waiting to be assigned and each envelope's balance
+const EnvelopeBudgetPanel: React.FC<EnvelopeBudgetPanelProps> = ({
+  summary,
+  currency,
+  onPeriodChange,
+  onCreate,
+  onDelete,
+  onAssign,
+  onMove,
+}) => {
+  const [draft, setDraft] = useState<EnvelopeDraft | null>(null);
+  const [assignAmounts, setAssignAmounts] = useState<Record<string, string>>({});
+  const [coverSources, setCoverSources] = useState<Record<string, string>>({});
+
+  const money = (amount: number) => formatCurrency(amount, currency);
+  const takenCategories = new Set(
+    summary.envelopes.flatMap((balance) => balance.envelope.categories)
+  );
+  const freeCategories = Object.values(TransactionCategory).filter(
+    (category) =>
+      !takenCategories.has(category) &&
+      category !== TransactionCategory.SALARY
+  );
+
+  const toggleCategory = (category: TransactionCategory) => {
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            categories: prev.categories.includes(category)
+              ? prev.categories.filter((c) => c !== category)
+              : [...prev.categories, category],
+          }
+        : prev
+    );
+  };
+
+  const handleCreate = () => {
+    if (draft && onCreate(draft)) {
+      setDraft(null);
+    }
+  };
+
+  const handleAssign = (envelopeId: string) => {
+    const amount = parseFloat(assignAmounts[envelopeId] || "");
+    if (isNaN(amount)) return;
+    if (onAssign(envelopeId, amount)) {
+      setAssignAmounts((prev) => ({ ...prev, [envelopeId]: "" }));
+    }
+  };
+
+  // Move just enough to bring the overspent envelope back to zero
+  const handleCover = (balance: EnvelopeBalance) => {
+    const source = summary.envelopes.find(
+      (b) => b.envelope.id === coverSources[balance.envelope.id]
+    );
+    if (!source) return;
+    onMove(
+      source.envelope.id,
+      balance.envelope.id,
+      Math.min(-balance.available, source.available)
+    );
+  };
+
+  const toBeAssignedClass =
+    summary.toBeAssigned < 0
+      ? "text-danger-600"
+      : summary.toBeAssigned > 0
+      ? "text-warning-600"
+      : "text-success-600";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onPeriodChange(shiftPeriod(summary.period, -1))}
+          aria-label="Previous month"
+        >
+          ‹
+        </Button>
+        <span className="font-semibold text-neutral-900">
+          {formatPeriod(summary.period)}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onPeriodChange(shiftPeriod(summary.period, 1))}
+          aria-label="Next month"
+        >
+          ›
+        </Button>
+      </div>
+
+      <div className="text-center p-4 rounded-xl bg-neutral-50 border border-neutral-200">
+        <p className="text-sm text-neutral-600">To be assigned</p>
+        <p className={`text-3xl font-bold ${toBeAssignedClass}`}>
+          {money(summary.toBeAssigned)}
+        </p>
+        <p className="text-xs text-neutral-500 mt-1">
+          {money(summary.incomeTotal)} income this month from{" "}
+          {summary.income.length} entr{summary.income.length === 1 ? "y" : "ies"}
+          {summary.uncoveredOverspending > 0 &&
+            ` · ${money(summary.uncoveredOverspending)} overspending carried from earlier months`}
+          {summary.unassignedSpending > 0 &&
+            ` · ${money(summary.unassignedSpending)} spent outside envelopes`}
+        </p>
+        {summary.toBeAssigned < 0 && (
+          <p className="text-xs text-danger-600 mt-1">
+            More has been assigned than received. Return money from an
+            envelope with a negative amount.
+          </p>
+        )}
+      </div>
+
+      {summary.envelopes.length === 0 && !draft && (
+        <p className="text-sm text-neutral-600 text-center">
+          Create envelopes for your spending categories, then assign all of
+          your income to them.
+        </p>
+      )}
+
+      {summary.envelopes.map((balance) => {
+        const coverOptions = summary.envelopes.filter(
+          (b) => b.envelope.id !== balance.envelope.id && b.available > 0
+        );
+
+        return (
+          <div
+            key={balance.envelope.id}
+            className="border border-neutral-200 rounded-xl p-4 bg-gradient-to-br from-white to-neutral-50/50 space-y-3"
+          >
+            <div className="flex justify-between items-start">
+              <div>
+                <h3 className="font-semibold text-neutral-900">
+                  {balance.envelope.name}
+                </h3>
+                <p className="text-xs text-neutral-500">
+                  {balance.envelope.categories.map(formatCategory).join(", ")}
+                </p>
+              </div>
+              <div className="text-right">
+                <p
+                  className={`font-bold ${
+                    balance.available < 0
+                      ? "text-danger-600"
+                      : "text-success-600"
+                  }`}
+                >
+                  {money(balance.available)}
+                </p>
+                <p className="text-xs text-neutral-500">available</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 text-xs text-neutral-600">
+              <span>Rolled over: {money(balance.carriedOver)}</span>
+              <span>Assigned: {money(balance.assigned)}</span>
+              <span>Spent: {money(balance.spent)}</span>
+            </div>
+
+            <div className="flex gap-2 items-end">
+              <Input
+                type="number"
+                step={0.01}
+                placeholder="Amount"
+                value={assignAmounts[balance.envelope.id] || ""}
+                onChange={(e) =>
+                  setAssignAmounts((prev) => ({
+                    ...prev,
+                    [balance.envelope.id]: e.target.value,
+                  }))
+                }
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleAssign(balance.envelope.id)}
+              >
+                Assign
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-danger-600"
+                onClick={() => {
+                  if (
+                    window.confirm(
+                      `Delete ${balance.envelope.name}? Its assigned money goes back to be assigned.`
+                    )
+                  ) {
+                    onDelete(balance.envelope.id);
+                  }
+                }}
+              >
+                Delete
+              </Button>
+            </div>
+
+            {balance.available < 0 && (
+              <div className="flex gap-2 items-center p-2 rounded-lg bg-danger-50">
+                <span className="text-xs text-danger-700 flex-1">
+                  Overspent by {money(-balance.available)}. Cover it from:
+                </span>
+                <Select
+                  value={coverSources[balance.envelope.id] || ""}
+                  onChange={(e) =>
+                    setCoverSources((prev) => ({
+                      ...prev,
+                      [balance.envelope.id]: e.target.value,
+                    }))
+                  }
+                >
+                  <option value="">Choose envelope</option>
+                  {coverOptions.map((option) => (
+                    <option key={option.envelope.id} value={option.envelope.id}>
+                      {option.envelope.name} ({money(option.available)})
+                    </option>
+                  ))}
+                </Select>
+                <Button
+                  size="sm"
+                  variant="primary"
+                  onClick={() => handleCover(balance)}
+                  disabled={!coverSources[balance.envelope.id]}
+                >
+                  Cover
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {draft ? (
+        <div className="space-y-3 p-4 border border-neutral-200 rounded-xl bg-neutral-50">
+          <Input
+            label="Envelope name"
+            value={draft.name}
+            onChange={(e) =>
+              setDraft((prev) => (prev ? { ...prev, name: e.target.value } : prev))
+            }
+            placeholder="e.g. Food"
+          />
+          <div className="flex flex-wrap gap-2">
+            {freeCategories.map((category) => (
+              <label
+                key={category}
+                className="flex items-center space-x-1 text-sm text-neutral-700"
+              >
+                <input
+                  type="checkbox"
+                  checked={draft.categories.includes(category)}
+                  onChange={() => toggleCategory(category)}
+                />
+                <span>{formatCategory(category)}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Button
+              variant="outline"
+              onClick={() => setDraft(null)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleCreate} className="flex-1">
+              Create Envelope
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => setDraft({ name: "", categories: [] })}
+          disabled={freeCategories.length === 0}
+        >
+          New Envelope
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default EnvelopeBudgetPanel;
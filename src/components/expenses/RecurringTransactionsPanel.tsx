@@ -0,0 +1,224 @@
+import React, { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import {
+  RecurringStatus,
+  RecurringTransaction,
+  TransactionType,
+} from "../../types/expense.types";
+import { formatCurrency, formatDate } from "../../utils/helpers";
+import { daysUntil, getMonthlyMultiplier } from "../../utils/recurringDetection";
+
+interface RecurringTransactionsPanelProps {
+  recurringTransactions: RecurringTransaction[];
+  onSetStatus: (seriesId: string, status: RecurringStatus) => void;
+  onCreateBill?: (series: RecurringTransaction) => void;
+  isTrackedAsBill?: (seriesId: string) => boolean;
+}
+
+const STATUS_STYLES: Record<RecurringStatus, string> = {
+  [RecurringStatus.DETECTED]: "bg-brand-100 text-brand-700",
+  [RecurringStatus.CONFIRMED]: "bg-success-100 text-success-700",
+  [RecurringStatus.DISMISSED]: "bg-neutral-100 text-neutral-600",
+  [RecurringStatus.CANCELLED]: "bg-warning-100 text-warning-700",
+};
+
+const RecurringTransactionsPanel: React.FC<RecurringTransactionsPanelProps> = ({
+  recurringTransactions,
+  onSetStatus,
+  onCreateBill,
+  isTrackedAsBill,
+}) => {
+  const [showDismissed, setShowDismissed] = useState(false);
+
+  const visible = recurringTransactions.filter(
+    (series) => showDismissed || series.status !== RecurringStatus.DISMISSED
+  );
+  const dismissedCount = recurringTransactions.filter(
+    (series) => series.status === RecurringStatus.DISMISSED
+  ).length;
+
+  // Monthly cost of the subscriptions the user still pays for
+  const monthlyCommitment = recurringTransactions
+    .filter(
+      (series) =>
+        series.type === TransactionType.EXPENSE &&
+        series.isActive &&
+        (series.status === RecurringStatus.CONFIRMED ||
+          series.status === RecurringStatus.DETECTED)
+    )
+    .reduce(
+      (sum, series) =>
+        sum + series.amount * getMonthlyMultiplier(series.frequency),
+      0
+    );
+
+  if (recurringTransactions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card variant="glass" className="animate-slide-up">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <div>
+            <CardTitle className="text-2xl text-gradient">
+              Subscriptions & recurring
+            </CardTitle>
+            <CardDescription>
+              Detected from your transaction history · about{" "}
+              {formatCurrency(monthlyCommitment)} per month in recurring
+              spending
+            </CardDescription>
+          </div>
+          {dismissedCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowDismissed((prev) => !prev)}
+            >
+              {showDismissed ? "Hide" : "Show"} dismissed ({dismissedCount})
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-6">
+        <div className="space-y-3">
+          {visible.map((series) => {
+            const status = series.status || RecurringStatus.DETECTED;
+            const dueIn = daysUntil(series.nextDate);
+            // A charge after the user cancelled means the cancellation didn't go through
+            const chargedAfterCancel =
+              status === RecurringStatus.CANCELLED &&
+              series.cancelledAt &&
+              series.lastDate &&
+              series.lastDate > series.cancelledAt;
+
+            return (
+              <div
+                key={series.id}
+                className="p-4 border border-neutral-200 rounded-lg bg-white/50 flex flex-col md:flex-row md:items-center gap-3"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-neutral-900 truncate">
+                      {series.merchant || series.description}
+                    </span>
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded-full capitalize ${STATUS_STYLES[status]}`}
+                    >
+                      {status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-neutral-600">
+                    <span
+                      className={
+                        series.type === TransactionType.INCOME
+                          ? "text-success-600"
+                          : "text-neutral-900"
+                      }
+                    >
+                      {formatCurrency(series.amount)}
+                    </span>{" "}
+                    <span className="capitalize">{series.frequency}</span> ·{" "}
+                    {series.occurrences} payments · confidence{" "}
+                    {Math.round(series.confidence * 100)}%
+                  </p>
+                  <p className="text-xs text-neutral-500">
+                    {status === RecurringStatus.CANCELLED
+                      ? `Cancelled ${series.cancelledAt ? formatDate(series.cancelledAt) : ""}`
+                      : series.isActive
+                      ? `Next expected ${formatDate(series.nextDate)}${
+                          dueIn <= 3 ? ` (in ${dueIn} day${dueIn === 1 ? "" : "s"})` : ""
+                        }`
+                      : `No payment since ${series.lastDate ? formatDate(series.lastDate) : "-"}`}
+                  </p>
+                  {chargedAfterCancel && (
+                    <p className="text-xs text-danger-600 font-medium">
+                      Charged again on {formatDate(series.lastDate as Date)}{" "}
+                      after you marked it cancelled
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {status === RecurringStatus.DETECTED && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="success"
+                        onClick={() =>
+                          onSetStatus(series.id, RecurringStatus.CONFIRMED)
+                        }
+                      >
+                        Confirm
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() =>
+                          onSetStatus(series.id, RecurringStatus.DISMISSED)
+                        }
+                      >
+                        Dismiss
+                      </Button>
+                    </>
+                  )}
+                  {(status === RecurringStatus.DETECTED ||
+                    status === RecurringStatus.CONFIRMED) && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        onSetStatus(series.id, RecurringStatus.CANCELLED)
+                      }
+                    >
+                      Mark cancelled
+                    </Button>
+                  )}
+                  {onCreateBill &&
+                    series.type === TransactionType.EXPENSE &&
+                    series.isActive &&
+                    status !== RecurringStatus.DISMISSED &&
+                    status !== RecurringStatus.CANCELLED &&
+                    (isTrackedAsBill?.(series.id) ? (
+                      <span className="text-xs text-success-700 self-center">
+                        Tracked as a bill
+                      </span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onCreateBill(series)}
+                      >
+                        Make bill
+                      </Button>
+                    ))}
+                  {(status === RecurringStatus.DISMISSED ||
+                    status === RecurringStatus.CANCELLED) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() =>
+                        onSetStatus(series.id, RecurringStatus.DETECTED)
+                      }
+                    >
+                      Undo
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecurringTransactionsPanel;
@@ -0,0 +1,220 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import {
+  Transaction,
+  TransactionCategory,
+  TransactionSplit,
+} from "../../types/expense.types";
+import { formatCurrency, generateId } from "../../utils/helpers";
+import {
+  getSplitRemainder,
+  validateSplits,
+} from "../../utils/transactionSplits";
+
+interface SplitTransactionDialogProps {
+  transaction: Transaction;
+  onSave: (splits: TransactionSplit[]) => Promise<unknown>;
+  onClose: () => void;
+}
+
+const SplitTransactionDialog: React.FC<SplitTransactionDialogProps> = ({
+  transaction,
+  onSave,
+  onClose,
+}) => {
+  const parentAmount = Math.abs(transaction.amount);
+  const [splits, setSplits] = useState<TransactionSplit[]>(
+    transaction.splits && transaction.splits.length > 0
+      ? transaction.splits
+      : [
+          { id: generateId(), category: transaction.category, amount: parentAmount },
+          { id: generateId(), category: TransactionCategory.OTHER, amount: 0 },
+        ]
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const remainder = getSplitRemainder(parentAmount, splits);
+  const validationError = validateSplits(parentAmount, splits);
+
+  const updateLine = (id: string, changes: Partial<TransactionSplit>) => {
+    setSplits((prev) =>
+      prev.map((split) => (split.id === id ? { ...split, ...changes } : split))
+    );
+  };
+
+  const addLine = () => {
+    setSplits((prev) => [
+      ...prev,
+      {
+        id: generateId(),
+        category: TransactionCategory.OTHER,
+        amount: Math.max(remainder, 0),
+      },
+    ]);
+  };
+
+  const removeLine = (id: string) => {
+    setSplits((prev) => prev.filter((split) => split.id !== id));
+  };
+
+  const save = async (lines: TransactionSplit[]) => {
+    setIsSaving(true);
+    try {
+      await onSave(lines);
+      toast.success(lines.length > 0 ? "Transaction split saved" : "Split removed");
+      onClose();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to split transaction"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+      <Card
+        variant="glass"
+        hover={false}
+        className="w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto custom-scrollbar animate-scale-in"
+      >
+        <CardHeader className="bg-gradient-to-r from-white via-brand-50/30 to-success-50/30 border-b border-white/20">
+          <CardTitle className="text-gradient">Split Transaction</CardTitle>
+          <CardDescription>
+            {transaction.description} · {formatCurrency(parentAmount)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6 space-y-4">
+          {splits.map((split) => (
+            <div
+              key={split.id}
+              className="grid grid-cols-1 sm:grid-cols-12 gap-3 items-end"
+            >
+              <div className="sm:col-span-4 space-y-2">
+                <label className="text-sm font-medium text-neutral-700">
+                  Category
+                </label>
+                <Select
+                  value={split.category}
+                  onChange={(e) =>
+                    updateLine(split.id, {
+                      category: e.target.value as TransactionCategory,
+                    })
+                  }
+                >
+                  {Object.values(TransactionCategory).map((category) => (
+                    <option key={category} value={category}>
+                      {category.charAt(0).toUpperCase() +
+                        category.slice(1).replace("_", " ")}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="sm:col-span-3">
+                <Input
+                  type="number"
+                  label="Amount"
+                  min={0}
+                  step={0.01}
+                  value={split.amount}
+                  onChange={(e) =>
+                    updateLine(split.id, {
+                      amount: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                />
+              </div>
+              <div className="sm:col-span-4">
+                <Input
+                  label="Note"
+                  value={split.note || ""}
+                  onChange={(e) =>
+                    updateLine(split.id, { note: e.target.value || undefined })
+                  }
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="sm:col-span-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeLine(split.id)}
+                  disabled={splits.length <= 2}
+                  aria-label="Remove line"
+                >
+                  ✕
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <Button type="button" variant="outline" size="sm" onClick={addLine}>
+              Add line
+            </Button>
+            <span
+              className={`text-sm font-medium ${
+                remainder === 0 ? "text-success-700" : "text-danger-600"
+              }`}
+            >
+              {remainder === 0
+                ? "Fully allocated"
+                : remainder > 0
+                ? `${formatCurrency(remainder)} left to allocate`
+                : `${formatCurrency(Math.abs(remainder))} over`}
+            </span>
+          </div>
+
+          {validationError && remainder === 0 && (
+            <p className="text-sm text-danger-600">{validationError}</p>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-3 pt-2">
+            {transaction.splits && transaction.splits.length > 0 && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => save([])}
+                disabled={isSaving}
+              >
+                Remove split
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="primary"
+              className="flex-1"
+              onClick={() => save(splits)}
+              disabled={!!validationError || isSaving}
+              isLoading={isSaving}
+            >
+              Save Split
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SplitTransactionDialog;
@@ -0,0 +1,522 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import { statementImportService } from "../../services/statement-import.service";
+import { detectDateFormat } from "../../utils/importParsers";
+import { Transaction } from "../../types/expense.types";
+import { BankAccount } from "../../types/account.types";
+import {
+  ColumnMapping,
+  ImportField,
+  ImportMappingProfile,
+  ImportPreview,
+  ImportResult,
+  ImportRow,
+  ParsedStatement,
+  STATEMENT_DATE_FORMATS,
+  StatementDateFormat,
+  StructuredStatement,
+} from "../../types/import.types";
+
+interface StatementImportDialogProps {
+  accounts: BankAccount[];
+  existingTransactions: Transaction[];
+  onImport: (rows: ImportRow[]) => Promise<ImportResult>;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  date: "Date",
+  description: "Description",
+  amount: "Amount (signed)",
+  debit: "Debit / Withdrawal",
+  credit: "Credit / Deposit",
+  category: "Category",
+  merchant: "Merchant",
+  reference: "Reference",
+  ignore: "Ignore",
+};
+
+const PREVIEW_LIMIT = 100;
+
+const FORMAT_LABELS: Record<StructuredStatement["format"], string> = {
+  ofx: "OFX / QFX",
+  camt053: "ISO 20022 CAMT.053",
+};
+
+const StatementImportDialog: React.FC<StatementImportDialogProps> = ({
+  accounts,
+  existingTransactions,
+  onImport,
+  onClose,
+}) => {
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [structured, setStructured] = useState<StructuredStatement | null>(
+    null
+  );
+  const [accountId, setAccountId] = useState(accounts[0]?.id || "");
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dateFormat, setDateFormat] =
+    useState<StatementDateFormat>("dd/MM/yyyy");
+  const [invertSign, setInvertSign] = useState(false);
+  const [profiles, setProfiles] = useState<ImportMappingProfile[]>([]);
+  const [profileName, setProfileName] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    setProfiles(statementImportService.getProfiles());
+  }, []);
+
+  const mappingErrors = useMemo(
+    () => statementImportService.validateMapping(mapping),
+    [mapping]
+  );
+
+  const currencyCode = accounts.find(
+    (account) => account.id === accountId
+  )?.currencyCode;
+
+  // Rebuild the preview whenever the mapping or options change
+  useEffect(() => {
+    if (structured && accountId) {
+      setPreview(
+        statementImportService.buildStructuredPreview(
+          structured,
+          accountId,
+          existingTransactions,
+          currencyCode
+        )
+      );
+      return;
+    }
+    if (!statement || mappingErrors.length > 0 || !accountId) {
+      setPreview(null);
+      return;
+    }
+    setPreview(
+      statementImportService.buildPreview(
+        statement,
+        mapping,
+        { accountId, currencyCode, dateFormat, invertSign },
+        existingTransactions
+      )
+    );
+  }, [statement, structured, mapping, dateFormat, invertSign, accountId, currencyCode, mappingErrors, existingTransactions]);
+
+  const applyProfile = (profile: ImportMappingProfile) => {
+    setMapping(profile.mapping);
+    setDateFormat(profile.dateFormat);
+    setInvertSign(profile.invertSign);
+    setProfileName(profile.name);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = await statementImportService.parseStatementFile(file);
+      if (parsed.format !== "csv") {
+        setStatement(null);
+        setStructured(parsed);
+        return;
+      }
+
+      setStructured(null);
+      setStatement(parsed);
+
+      const profile = statementImportService.findProfileForHeaders(parsed.headers);
+      if (profile) {
+        applyProfile(profile);
+        toast.info(`Using saved mapping "${profile.name}"`);
+        return;
+      }
+
+      const suggested = statementImportService.suggestMapping(parsed.headers);
+      const dateColumn = Object.keys(suggested)
+        .map(Number)
+        .find((index) => suggested[index] === "date");
+      setMapping(suggested);
+      setDateFormat(
+        detectDateFormat(
+          dateColumn !== undefined
+            ? parsed.rows.map((row) => row[dateColumn] || "")
+            : []
+        )
+      );
+      setInvertSign(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Could not read the file"
+      );
+    }
+  };
+
+  const handleSaveProfile = () => {
+    if (!statement || !profileName.trim()) return;
+    statementImportService.saveProfile(profileName, statement.headers, mapping, {
+      dateFormat,
+      invertSign,
+    });
+    setProfiles(statementImportService.getProfiles());
+    toast.success(`Mapping "${profileName.trim()}" saved`);
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    if (!preview) return;
+    setPreview(
+      statementImportService.summarize(
+        preview.rows.map((row) =>
+          row.rowNumber === rowNumber && row.transaction
+            ? { ...row, isSelected: !row.isSelected }
+            : row
+        )
+      )
+    );
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setIsImporting(true);
+    try {
+      const result = await onImport(preview.rows);
+      if (result.errors.length > 0) {
+        result.errors.forEach((message) => toast.error(message));
+        return;
+      }
+      toast.success(
+        `Imported ${result.imported} transaction(s), skipped ${result.skipped}`
+      );
+      onClose();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const selectedCount = preview?.rows.filter((r) => r.isSelected).length || 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+      <Card
+        variant="glass"
+        hover={false}
+        className="w-full max-w-5xl mx-4 max-h-[90vh] overflow-y-auto custom-scrollbar animate-scale-in"
+      >
+        <CardHeader className="bg-gradient-to-r from-white via-brand-50/30 to-success-50/30 border-b border-white/20">
+          <CardTitle className="text-gradient">Import Bank Statement</CardTitle>
+          <CardDescription>
+            Upload a CSV, OFX/QFX or CAMT.053 export, confirm how it maps to
+            transactions and review every row before importing
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6 space-y-6">
+          {/* File & account */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-neutral-700">
+                Statement file
+              </label>
+              <input
+                type="file"
+                accept=".csv,.txt,.ofx,.qfx,.xml"
+                onChange={handleFileChange}
+                className="block w-full text-sm text-neutral-700"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-neutral-700">
+                Import into account *
+              </label>
+              <Select
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+              >
+                <option value="">Select an account</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.accountName} - {account.bankName}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          </div>
+
+          {structured && (
+            <div className="p-4 rounded-lg bg-brand-50 text-sm text-neutral-700">
+              {FORMAT_LABELS[structured.format]} statement with{" "}
+              {structured.entries.length} transaction(s)
+              {structured.accountId && ` for account ${structured.accountId}`}
+              {structured.currency && ` in ${structured.currency}`}. Rows
+              already imported are matched by their bank reference and
+              skipped.
+            </div>
+          )}
+
+          {statement && (
+            <>
+              {/* Column mapping */}
+              <div className="space-y-3">
+                <div className="flex flex-col md:flex-row md:items-end gap-4">
+                  <div className="space-y-2 md:w-64">
+                    <label className="text-sm font-medium text-neutral-700">
+                      Saved mapping
+                    </label>
+                    <Select
+                      value=""
+                      onChange={(e) => {
+                        const profile = profiles.find(
+                          (p) => p.id === e.target.value
+                        );
+                        if (profile) applyProfile(profile);
+                      }}
+                    >
+                      <option value="">Apply a saved mapping…</option>
+                      {profiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>
+                          {profile.name}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                  <div className="space-y-2 md:w-48">
+                    <label className="text-sm font-medium text-neutral-700">
+                      Date format
+                    </label>
+                    <Select
+                      value={dateFormat}
+                      onChange={(e) =>
+                        setDateFormat(e.target.value as StatementDateFormat)
+                      }
+                    >
+                      {STATEMENT_DATE_FORMATS.map((format) => (
+                        <option key={format} value={format}>
+                          {format}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                  <label className="flex items-center space-x-2 text-sm text-neutral-700 pb-2">
+                    <input
+                      type="checkbox"
+                      checked={invertSign}
+                      onChange={(e) => setInvertSign(e.target.checked)}
+                    />
+                    <span>Positive amounts are spending</span>
+                  </label>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr>
+                        {statement.headers.map((header, index) => (
+                          <th
+                            key={index}
+                            className="p-2 text-left font-medium text-neutral-700"
+                          >
+                            <div className="mb-1 truncate">
+                              {header || `Column ${index + 1}`}
+                            </div>
+                            <Select
+                              value={mapping[index] || "ignore"}
+                              onChange={(e) =>
+                                setMapping((prev) => ({
+                                  ...prev,
+                                  [index]: e.target.value as ImportField,
+                                }))
+                              }
+                              className="min-w-[9rem]"
+                            >
+                              {Object.entries(FIELD_LABELS).map(
+                                ([field, label]) => (
+                                  <option key={field} value={field}>
+                                    {label}
+                                  </option>
+                                )
+                              )}
+                            </Select>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {statement.rows.slice(0, 3).map((row, rowIndex) => (
+                        <tr key={rowIndex} className="border-t border-neutral-200">
+                          {statement.headers.map((_, index) => (
+                            <td
+                              key={index}
+                              className="p-2 text-neutral-600 truncate max-w-[12rem]"
+                            >
+                              {row[index]}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {mappingErrors.length > 0 && (
+                  <p className="text-sm text-danger-600">
+                    {mappingErrors.join(". ")}
+                  </p>
+                )}
+
+                <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+                  <div className="sm:w-64">
+                    <Input
+                      label="Save mapping as"
+                      value={profileName}
+                      onChange={(e) => setProfileName(e.target.value)}
+                      placeholder="e.g. HDFC Savings"
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleSaveProfile}
+                    disabled={!profileName.trim() || mappingErrors.length > 0}
+                  >
+                    Save mapping
+                  </Button>
+                </div>
+              </div>
+
+            </>
+          )}
+
+          {/* Preview */}
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-3 text-sm">
+                <span className="px-3 py-1 rounded-full bg-success-100 text-success-700">
+                  {preview.validCount} ready
+                </span>
+                <span className="px-3 py-1 rounded-full bg-warning-100 text-warning-700">
+                  {preview.duplicateCount} duplicates
+                </span>
+                <span className="px-3 py-1 rounded-full bg-danger-100 text-danger-700">
+                  {preview.errorCount} with errors
+                </span>
+              </div>
+
+              <div className="overflow-x-auto max-h-80 overflow-y-auto custom-scrollbar border border-neutral-200 rounded-lg">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-neutral-50 sticky top-0">
+                    <tr>
+                      <th className="p-2"></th>
+                      <th className="p-2 text-left">Row</th>
+                      <th className="p-2 text-left">Date</th>
+                      <th className="p-2 text-left">Description</th>
+                      <th className="p-2 text-right">Amount</th>
+                      <th className="p-2 text-left">Category</th>
+                      <th className="p-2 text-left">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                      <tr
+                        key={row.rowNumber}
+                        className={`border-t border-neutral-200 ${
+                          row.errors.length > 0
+                            ? "bg-danger-50"
+                            : row.duplicateOf
+                            ? "bg-warning-50"
+                            : ""
+                        }`}
+                      >
+                        <td className="p-2">
+                          <input
+                            type="checkbox"
+                            checked={row.isSelected}
+                            disabled={!row.transaction}
+                            onChange={() => toggleRow(row.rowNumber)}
+                          />
+                        </td>
+                        <td className="p-2 text-neutral-500">
+                          {row.rowNumber}
+                        </td>
+                        <td className="p-2">
+                          {row.transaction?.transactionDate || "-"}
+                        </td>
+                        <td className="p-2 max-w-[16rem] truncate">
+                          {row.transaction?.description || row.raw.join(", ")}
+                        </td>
+                        <td
+                          className={`p-2 text-right ${
+                            row.transaction?.type === "Expense"
+                              ? "text-danger-600"
+                              : "text-success-600"
+                          }`}
+                        >
+                          {row.transaction
+                            ? `${row.transaction.type === "Expense" ? "-" : "+"}${row.transaction.amount.toLocaleString("en-IN")}`
+                            : "-"}
+                        </td>
+                        <td className="p-2 capitalize">
+                          {row.transaction?.category.replace("_", " ") || "-"}
+                        </td>
+                        <td className="p-2 text-xs">
+                          {row.errors.length > 0 ? (
+                            <span className="text-danger-700">
+                              {row.errors.join("; ")}
+                            </span>
+                          ) : row.duplicateOf ? (
+                            <span className="text-warning-700">
+                              {row.duplicateOf}
+                            </span>
+                          ) : (
+                            <span className="text-success-700">OK</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {preview.rows.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-neutral-500">
+                  Showing the first {PREVIEW_LIMIT} of{" "}
+                  {preview.rows.length} rows
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="primary"
+              className="flex-1"
+              onClick={handleImport}
+              disabled={!preview || selectedCount === 0 || isImporting}
+              isLoading={isImporting}
+            >
+              Import {selectedCount} transaction(s)
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StatementImportDialog;
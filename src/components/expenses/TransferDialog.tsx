@@ -0,0 +1,181 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import { BankAccount } from "../../types/account.types";
+import { CreateTransferRequest } from "../../services/transfer.service";
+
+interface TransferDialogProps {
+  accounts: BankAccount[];
+  onCreate: (request: CreateTransferRequest) => Promise<void>;
+  onClose: () => void;
+}
+
+const TransferDialog: React.FC<TransferDialogProps> = ({
+  accounts,
+  onCreate,
+  onClose,
+}) => {
+  const [formData, setFormData] = useState({
+    fromAccountId: accounts[0]?.id || "",
+    toAccountId: accounts[1]?.id || "",
+    amount: 0,
+    date: new Date().toISOString().split("T")[0],
+    description: "",
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onCreate({
+        ...formData,
+        date: new Date(formData.date),
+      });
+      toast.success("Transfer recorded");
+      onClose();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create transfer"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const accountOptions = accounts.map((account) => (
+    <option key={account.id} value={account.id}>
+      {account.accountName} - {account.bankName}
+    </option>
+  ));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+      <Card
+        variant="glass"
+        hover={false}
+        className="w-full max-w-md mx-4 animate-scale-in"
+      >
+        <CardHeader className="bg-gradient-to-r from-white via-brand-50/30 to-success-50/30 border-b border-white/20">
+          <CardTitle className="text-gradient">Transfer Between Accounts</CardTitle>
+          <CardDescription>
+            Transfers don't count as income, spending or savings
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-neutral-700">
+                From account *
+              </label>
+              <Select
+                value={formData.fromAccountId}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    fromAccountId: e.target.value,
+                  }))
+                }
+                required
+              >
+                <option value="">Select an account</option>
+                {accountOptions}
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-neutral-700">
+                To account *
+              </label>
+              <Select
+                value={formData.toAccountId}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    toAccountId: e.target.value,
+                  }))
+                }
+                required
+              >
+                <option value="">Select an account</option>
+                {accountOptions}
+              </Select>
+            </div>
+
+            <Input
+              type="number"
+              label="Amount"
+              value={formData.amount}
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  amount: parseFloat(e.target.value) || 0,
+                }))
+              }
+              min={0.01}
+              step={0.01}
+              required
+            />
+
+            <Input
+              type="date"
+              label="Date"
+              value={formData.date}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, date: e.target.value }))
+              }
+              required
+            />
+
+            <Input
+              label="Description"
+              value={formData.description}
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  description: e.target.value,
+                }))
+              }
+              placeholder="e.g. Move to savings"
+            />
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="primary"
+                className="flex-1"
+                disabled={
+                  isSaving ||
+                  !formData.fromAccountId ||
+                  formData.fromAccountId === formData.toAccountId
+                }
+                isLoading={isSaving}
+              >
+                Record Transfer
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TransferDialog;
@@ -0,0 +1,81 @@
+import React from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { TransferMatch } from "../../types/expense.types";
+import { BankAccount } from "../../types/account.types";
+import { formatCurrency, formatDate } from "../../utils/helpers";
+
+interface TransferMatchesPanelProps {
+  matches: TransferMatch[];
+  accounts: BankAccount[];
+  onLink: (match: TransferMatch) => void;
+  onDismiss: (match: TransferMatch) => void;
+}
+
+// Expense/income pairs across accounts that look like transfers but weren't linked automatically
+const TransferMatchesPanel: React.FC<TransferMatchesPanelProps> = ({
+  matches,
+  accounts,
+  onLink,
+  onDismiss,
+}) => {
+  if (matches.length === 0) {
+    return null;
+  }
+
+  const accountName = (accountId?: string) =>
+    accounts.find((account) => account.id === accountId)?.accountName ||
+    "Unknown account";
+
+  return (
+    <Card variant="bordered" className="animate-slide-up">
+      <CardHeader>
+        <CardTitle className="text-xl text-neutral-900">
+          Possible transfers
+        </CardTitle>
+        <CardDescription>
+          These look like money moved between your own accounts. Linking them
+          removes both sides from income, spending and budgets.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-3">
+        {matches.map((match) => (
+          <div
+            key={`${match.outgoing.id}-${match.incoming.id}`}
+            className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-neutral-200 rounded-lg bg-white/50"
+          >
+            <div className="text-sm">
+              <p className="font-medium text-neutral-900">
+                {formatCurrency(Math.abs(match.outgoing.amount))} from{" "}
+                {accountName(match.outgoing.bankAccountId || match.outgoing.accountId)}{" "}
+                to{" "}
+                {accountName(match.incoming.bankAccountId || match.incoming.accountId)}
+              </p>
+              <p className="text-neutral-600">
+                {match.outgoing.description} ({formatDate(new Date(match.outgoing.date))})
+                {" · "}
+                {match.incoming.description} ({formatDate(new Date(match.incoming.date))})
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="primary" onClick={() => onLink(match)}>
+                Link as transfer
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => onDismiss(match)}>
+                Not a transfer
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TransferMatchesPanel;
@@ -0,0 +1,286 @@
+import React, { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import { BankAccount } from "../../types/account.types";
+import { GoalType } from "../../types/api.types";
+import { CreateGoalRequest, Goal } from "../../types/financial.types";
+import { CONTRIBUTION_FREQUENCY_OPTIONS } from "../../utils/goalProgress";
+
+type ContributionFrequency = NonNullable<Goal["autoContribution"]>["frequency"];
+
+interface GoalFormDialogProps {
+  goal?: Goal; // Editing when set, creating otherwise
+  savingsAccounts: BankAccount[];
+  onSubmit: (data: CreateGoalRequest) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const GoalFormDialog: React.FC<GoalFormDialogProps> = ({
+  goal,
+  savingsAccounts,
+  onSubmit,
+  onClose,
+}) => {
+  const [formData, setFormData] = useState({
+    name: goal?.name || "",
+    description: goal?.description || "",
+    type: goal?.type || GoalType.SAVINGS,
+    targetAmount: goal?.targetAmount || 0,
+    targetDate: goal?.targetDate.slice(0, 10) || "",
+    priority: goal?.priority || ("medium" as Goal["priority"]),
+    linkedAccountId: goal?.linkedAccountId || "",
+    autoContributionEnabled: goal?.autoContribution?.enabled || false,
+    autoContributionAmount: goal?.autoContribution?.amount || 0,
+    autoContributionFrequency:
+      goal?.autoContribution?.frequency ||
+      ("monthly" as ContributionFrequency),
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const saved = await onSubmit({
+      name: formData.name,
+      description: formData.description || undefined,
+      type: formData.type,
+      targetAmount: formData.targetAmount,
+      targetDate: formData.targetDate,
+      priority: formData.priority,
+      linkedAccountId: formData.linkedAccountId || undefined,
+      autoContribution: {
+        enabled: formData.autoContributionEnabled,
+        amount: formData.autoContributionAmount,
+        frequency: formData.autoContributionFrequency,
+      },
+    });
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+      <Card
+        variant="glass"
+        hover={false}
+        className="w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto custom-scrollbar animate-scale-in"
+      >
+        <CardHeader className="bg-gradient-to-r from-white via-brand-50/30 to-success-50/30 border-b border-white/20">
+          <CardTitle className="text-gradient">
+            {goal ? "Edit Goal" : "New Goal"}
+          </CardTitle>
+          <CardDescription>
+            Set a target and how you plan to get there
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <Input
+              label="Goal name"
+              value={formData.name}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, name: e.target.value }))
+              }
+              placeholder="e.g. Emergency fund"
+              required
+            />
+
+            <Input
+              label="Description"
+              value={formData.description}
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  description: e.target.value,
+                }))
+              }
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-neutral-700">
+                  Type
+                </label>
+                <Select
+                  value={formData.type}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      type: e.target.value as GoalType,
+                    }))
+                  }
+                >
+                  {Object.values(GoalType).map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-neutral-700">
+                  Priority
+                </label>
+                <Select
+                  value={formData.priority}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      priority: e.target.value as Goal["priority"],
+                    }))
+                  }
+                >
+                  <option value="low">Low</option>
+                  <option value="medium">Medium</option>
+                  <option value="high">High</option>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Input
+                type="number"
+                label="Target amount"
+                value={formData.targetAmount}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    targetAmount: parseFloat(e.target.value) || 0,
+                  }))
+                }
+                min={0.01}
+                step={0.01}
+                required
+              />
+              <Input
+                type="date"
+                label="Target date"
+                value={formData.targetDate}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    targetDate: e.target.value,
+                  }))
+                }
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-neutral-700">
+                Linked savings account
+              </label>
+              <Select
+                value={formData.linkedAccountId}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    linkedAccountId: e.target.value,
+                  }))
+                }
+              >
+                <option value="">Not linked</option>
+                {savingsAccounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.accountName} - {account.bankName}
+                  </option>
+                ))}
+              </Select>
+              {savingsAccounts.length === 0 && (
+                <p className="text-xs text-neutral-500">
+                  Link a savings account to track this goal against its
+                  balance.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-3 p-4 border border-neutral-200 rounded-lg bg-white/50">
+              <label className="flex items-center gap-2 text-sm font-medium text-neutral-700">
+                <input
+                  type="checkbox"
+                  checked={formData.autoContributionEnabled}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      autoContributionEnabled: e.target.checked,
+                    }))
+                  }
+                />
+                Contribute automatically
+              </label>
+              {formData.autoContributionEnabled && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <Input
+                    type="number"
+                    label="Amount"
+                    value={formData.autoContributionAmount}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        autoContributionAmount: parseFloat(e.target.value) || 0,
+                      }))
+                    }
+                    min={0.01}
+                    step={0.01}
+                    required
+                  />
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-neutral-700">
+                      Every
+                    </label>
+                    <Select
+                      value={formData.autoContributionFrequency}
+                      onChange={(e) =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          autoContributionFrequency: e.target
+                            .value as ContributionFrequency,
+                        }))
+                      }
+                    >
+                      {CONTRIBUTION_FREQUENCY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="primary"
+                className="flex-1"
+                disabled={isSaving}
+                isLoading={isSaving}
+              >
+                {goal ? "Save Goal" : "Create Goal"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default GoalFormDialog;
@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "../../context/AuthContext";
 import { Button } from "../ui/button";
+import NotificationCenter from "../notifications/NotificationCenter";
 import logo from "../../assets/images/logo.png";
 
 interface AppLayoutProps {
@@ -81,6 +82,106 @@ const AppLayout: React.FC<AppLayoutProps> = ({
       ),
       description: "Track & Budget",
     },
+    {
+      path: "/goals",
+      label: "Goals",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9"
+          />
+        </svg>
+      ),
+      description: "Savings Targets",
+    },
+    {
+      path: "/bills",
+      label: "Bills",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+          />
+        </svg>
+      ),
+      description: "Due Dates & Reminders",
+    },
+    {
+      path: "/net-worth",
+      label: "Net Worth",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3"
+          />
+        </svg>
+      ),
+      description: "Assets & Liabilities",
+    },
+    {
+      path: "/loans",
+      label: "Loans",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            d="M8 14v3m4-3v3m4-3v3M3 21h18M3 10h18M3 7l9-4 9 4M4 10h16v11H4V10z"
+          />
+        </svg>
+      ),
+      description: "EMIs & Prepayments",
+    },
+    {
+      path: "/portfolio",
+      label: "Portfolio",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z"
+          />
+        </svg>
+      ),
+      description: "Holdings & Returns",
+    },
     {
       path: "/investments",
       label: "Investments",
@@ -215,24 +316,7 @@ const AppLayout: React.FC<AppLayoutProps> = ({
             {/* Right Section - User & Actions */}
             <div className="flex items-center space-x-4">
               {/* Notifications */}
-              <button className="relative p-3 rounded-xl bg-white/60 hover:bg-white/80 border border-white/30 transition-all duration-300 group shadow-lg">
-                <svg
-                  className="w-5 h-5 text-slate-600 group-hover:text-brand-600 transition-colors"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth="2"
-                    d="M15 17h5l-5 5v-5zM11 19H7a2 2 0 01-2-2V7a2 2 0 012-2h4m4 0V3a2 2 0 00-2-2H7a2 2 0 00-2 2v2"
-                  />
-                </svg>
-                <div className="absolute -top-1 -right-1 w-4 h-4 bg-gradient-to-r from-red-500 to-pink-500 rounded-full flex items-center justify-center">
-                  <span className="text-xs font-bold text-white">3</span>
-                </div>
-              </button>
+              <NotificationCenter />
 
               {/* User Profile */}
               <div className="flex items-center space-x-3 px-4 py-2 rounded-2xl bg-gradient-to-r from-white/70 to-white/50 backdrop-blur-sm border border-white/30 shadow-lg">
@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Input } from "../ui/input";
+import {
+  PREPAYMENT_STRATEGY_LABELS,
+  PrepaymentScenario,
+} from "../../utils/loanAmortization";
+import { formatCurrency, formatDate } from "../../utils/helpers";
+
+interface PrepaymentSimulatorProps {
+  currency: string;
+  currentEmi: number;
+  payoffDate: string;
+  simulate: (amount: number, date: string) => PrepaymentScenario[];
+}
+
+const PrepaymentSimulator: React.FC<PrepaymentSimulatorProps> = ({
+  currency,
+  currentEmi,
+  payoffDate,
+  simulate,
+}) => {
+  const [amount, setAmount] = useState(0);
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const money = (value: number) => formatCurrency(value, currency);
+  const scenarios = amount > 0 && date ? simulate(amount, date) : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Input
+          type="number"
+          label="Prepayment amount"
+          value={amount || ""}
+          onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+          placeholder="0.00"
+          min={0}
+          step={0.01}
+        />
+        <Input
+          type="date"
+          label="Paid on"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+        />
+      </div>
+
+      {scenarios.length === 0 ? (
+        <p className="text-sm text-neutral-600">
+          Enter an amount to compare finishing sooner with lowering your EMI.
+          Today you pay {money(currentEmi)} a month until{" "}
+          {formatDate(payoffDate)}.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {scenarios.map((scenario) => (
+            <div
+              key={scenario.strategy}
+              className="p-4 border border-neutral-200 rounded-lg bg-white/50 space-y-1"
+            >
+              <p className="font-medium text-neutral-900">
+                {PREPAYMENT_STRATEGY_LABELS[scenario.strategy]}
+              </p>
+              <p className="text-sm text-neutral-600">
+                EMI {money(scenario.emi)} · paid off{" "}
+                {formatDate(scenario.payoffDate)}
+                {scenario.monthsSaved > 0 &&
+                  ` (${scenario.monthsSaved} months sooner)`}
+              </p>
+              <p className="text-sm text-success-600 font-medium">
+                Saves {money(scenario.interestSaved)} in interest
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrepaymentSimulator;
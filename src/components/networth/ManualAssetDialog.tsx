@@ -0,0 +1,151 @@
+import React, { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import { ManualAssetDraft } from "../../services/net-worth.service";
+import {
+  ManualAsset,
+  ManualAssetClass,
+  NetWorthClass,
+} from "../../types/networth.types";
+import { MANUAL_ASSET_CLASS_OPTIONS } from "../../utils/netWorth";
+
+interface ManualAssetDialogProps {
+  asset?: ManualAsset; // Editing when set, creating otherwise
+  onSubmit: (draft: ManualAssetDraft) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const ManualAssetDialog: React.FC<ManualAssetDialogProps> = ({
+  asset,
+  onSubmit,
+  onClose,
+}) => {
+  const [formData, setFormData] = useState({
+    name: asset?.name || "",
+    assetClass: asset?.assetClass || (NetWorthClass.PROPERTY as ManualAssetClass),
+    value: asset?.value || 0,
+    notes: asset?.notes || "",
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const saved = await onSubmit({
+      name: formData.name,
+      assetClass: formData.assetClass,
+      value: formData.value,
+      notes: formData.notes || undefined,
+    });
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+      <Card
+        variant="glass"
+        hover={false}
+        className="w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto custom-scrollbar animate-scale-in"
+      >
+        <CardHeader className="bg-gradient-to-r from-white via-brand-50/30 to-success-50/30 border-b border-white/20">
+          <CardTitle className="text-gradient">
+            {asset ? "Edit Asset" : "New Asset"}
+          </CardTitle>
+          <CardDescription>
+            Property, vehicles and anything else no account reports
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <Input
+              label="Name"
+              value={formData.name}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, name: e.target.value }))
+              }
+              placeholder="e.g. Apartment"
+              required
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-neutral-700">
+                  Type
+                </label>
+                <Select
+                  value={formData.assetClass}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      assetClass: e.target.value as ManualAssetClass,
+                    }))
+                  }
+                >
+                  {MANUAL_ASSET_CLASS_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <Input
+                type="number"
+                label="Current value"
+                value={formData.value}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    value: parseFloat(e.target.value) || 0,
+                  }))
+                }
+                min={0}
+                step={0.01}
+                required
+              />
+            </div>
+
+            <Input
+              label="Notes"
+              value={formData.notes}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, notes: e.target.value }))
+              }
+              placeholder="e.g. Valued from a recent listing"
+            />
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="primary"
+                className="flex-1"
+                disabled={isSaving}
+                isLoading={isSaving}
+              >
+                {asset ? "Save Asset" : "Add Asset"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ManualAssetDialog;
@@ -0,0 +1,247 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "../ui/button";
+import { useNotifications } from "../../hooks/useNotifications";
+import { Notification } from "../../types/financial.types";
+import {
+  isInternalActionUrl,
+  isNotificationExpired,
+  isNotificationUnread,
+} from "../../utils/notifications";
+
+const getPriorityDot = (priority: Notification["priority"]): string => {
+  switch (priority) {
+    case "urgent":
+      return "bg-danger-500";
+    case "high":
+      return "bg-warning-500";
+    case "medium":
+      return "bg-brand-500";
+    default:
+      return "bg-neutral-400";
+  }
+};
+
+// Bell with unread count and a paginated dropdown of the user's notifications
+const NotificationCenter: React.FC = () => {
+  const navigate = useNavigate();
+  const {
+    notifications,
+    pagination,
+    page,
+    unreadOnly,
+    unreadCount,
+    isLoading,
+    error,
+    fetchNotifications,
+    fetchUnreadCount,
+    markAsRead,
+    markAsActioned,
+    expireNotification,
+    markAllAsRead,
+  } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggle = () => {
+    if (!isOpen) {
+      fetchNotifications(1, unreadOnly);
+      fetchUnreadCount();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  // Following the action link counts as acting on the notification
+  const openAction = async (notification: Notification) => {
+    if (!notification.actionUrl) return;
+    await markAsActioned(notification);
+    if (isInternalActionUrl(notification.actionUrl)) {
+      setIsOpen(false);
+      navigate(notification.actionUrl);
+    } else {
+      window.open(notification.actionUrl, "_blank", "noopener,noreferrer");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className="relative p-3 rounded-xl bg-white/60 hover:bg-white/80 border border-white/30 transition-all duration-300 group shadow-lg"
+        aria-label={`Notifications (${unreadCount} unread)`}
+      >
+        <svg
+          className="w-5 h-5 text-slate-600 group-hover:text-brand-600 transition-colors"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            d="M15 17h5l-5 5v-5zM11 19H7a2 2 0 01-2-2V7a2 2 0 012-2h4m4 0V3a2 2 0 00-2-2H7a2 2 0 00-2 2v2"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <div className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 bg-gradient-to-r from-red-500 to-pink-500 rounded-full flex items-center justify-center">
+            <span className="text-xs font-bold text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          </div>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-3 z-50 w-96 max-w-[calc(100vw-2rem)] rounded-2xl bg-white/95 backdrop-blur-xl border border-white/30 shadow-2xl shadow-black/10 animate-fade-in">
+            <div className="p-4 border-b border-neutral-200 flex items-center justify-between gap-2">
+              <div>
+                <h3 className="font-bold text-slate-800">Notifications</h3>
+                <p className="text-xs text-slate-500">{unreadCount} unread</p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant={unreadOnly ? "primary" : "outline"}
+                  size="xs"
+                  onClick={() => fetchNotifications(1, !unreadOnly)}
+                >
+                  Unread only
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="xs"
+                  onClick={markAllAsRead}
+                  disabled={unreadCount === 0}
+                >
+                  Mark all read
+                </Button>
+              </div>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto custom-scrollbar">
+              {error ? (
+                <p className="p-4 text-sm text-danger-600">{error}</p>
+              ) : isLoading && notifications.length === 0 ? (
+                <p className="p-4 text-sm text-neutral-600">
+                  Loading notifications...
+                </p>
+              ) : notifications.length === 0 ? (
+                <p className="p-4 text-sm text-neutral-600">
+                  {unreadOnly ? "No unread notifications." : "You're all caught up."}
+                </p>
+              ) : (
+                <ul className="divide-y divide-neutral-100">
+                  {notifications.map((notification) => {
+                    const isExpired = isNotificationExpired(notification);
+                    const isUnread = isNotificationUnread(notification);
+
+                    return (
+                      <li
+                        key={notification.id}
+                        className={`p-4 ${isUnread ? "bg-brand-50/40" : ""} ${
+                          isExpired ? "opacity-60" : ""
+                        }`}
+                      >
+                        <div className="flex items-start gap-3">
+                          <span
+                            className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${getPriorityDot(
+                              notification.priority
+                            )}`}
+                          />
+                          <div className="flex-1 min-w-0">
+                            <p
+                              className={`text-sm text-slate-800 ${
+                                isUnread ? "font-semibold" : "font-medium"
+                              }`}
+                            >
+                              {notification.title}
+                            </p>
+                            <p className="text-sm text-slate-600 mt-0.5">
+                              {notification.message}
+                            </p>
+                            <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-slate-500">
+                              <span>
+                                {formatDistanceToNow(
+                                  new Date(notification.createdAt),
+                                  { addSuffix: true }
+                                )}
+                              </span>
+                              {notification.isActioned && (
+                                <span className="px-2 py-0.5 rounded-full text-success-700 bg-success-100">
+                                  Done
+                                </span>
+                              )}
+                              {isExpired && (
+                                <span className="px-2 py-0.5 rounded-full text-neutral-700 bg-neutral-100">
+                                  Expired
+                                </span>
+                              )}
+                            </div>
+                            <div className="flex flex-wrap gap-3 mt-2 text-xs font-medium">
+                              {notification.actionUrl && !isExpired && (
+                                <button
+                                  className="text-brand-600 hover:underline"
+                                  onClick={() => openAction(notification)}
+                                >
+                                  {notification.actionText || "View"}
+                                </button>
+                              )}
+                              {isUnread && (
+                                <button
+                                  className="text-slate-600 hover:underline"
+                                  onClick={() => markAsRead(notification)}
+                                >
+                                  Mark read
+                                </button>
+                              )}
+                              {!isExpired && (
+                                <button
+                                  className="text-slate-600 hover:underline"
+                                  onClick={() => expireNotification(notification)}
+                                >
+                                  Dismiss
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="p-3 border-t border-neutral-200 flex items-center justify-between text-xs text-slate-600">
+                <Button
+                  variant="outline"
+                  size="xs"
+                  onClick={() => fetchNotifications(page - 1)}
+                  disabled={!pagination.hasPreviousPage || isLoading}
+                >
+                  Previous
+                </Button>
+                <span>
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="xs"
+                  onClick={() => fetchNotifications(page + 1)}
+                  disabled={!pagination.hasNextPage || isLoading}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NotificationCenter;
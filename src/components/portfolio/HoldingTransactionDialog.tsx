@@ -0,0 +1,214 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import { HoldingTransactionDraft } from "../../services/holdings.service";
+import {
+  HoldingTransactionType,
+  Investment,
+} from "../../types/investment.types";
+import { HOLDING_TRANSACTION_TYPE_OPTIONS } from "../../utils/holdings";
+
+interface HoldingTransactionDialogProps {
+  investment: Investment;
+  onSubmit: (draft: HoldingTransactionDraft) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const HoldingTransactionDialog: React.FC<HoldingTransactionDialogProps> = ({
+  investment,
+  onSubmit,
+  onClose,
+}) => {
+  const [formData, setFormData] = useState({
+    type: HoldingTransactionType.BUY,
+    date: format(new Date(), "yyyy-MM-dd"),
+    quantity: 0,
+    price: 0,
+    amount: 0,
+    fees: 0,
+    splitRatio: 2,
+    notes: "",
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isTrade =
+    formData.type === HoldingTransactionType.BUY ||
+    formData.type === HoldingTransactionType.SELL;
+  const isCash =
+    formData.type === HoldingTransactionType.DIVIDEND ||
+    formData.type === HoldingTransactionType.FEE;
+
+  const setNumber = (field: keyof typeof formData, value: string) =>
+    setFormData((prev) => ({ ...prev, [field]: parseFloat(value) || 0 }));
+
+  // Only the fields that apply to the chosen type are sent
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const saved = await onSubmit({
+      type: formData.type,
+      date: formData.date,
+      quantity: isTrade ? formData.quantity : 0,
+      price: isTrade ? formData.price : 0,
+      amount: isCash ? formData.amount : 0,
+      fees: isTrade ? formData.fees : 0,
+      splitRatio:
+        formData.type === HoldingTransactionType.SPLIT
+          ? formData.splitRatio
+          : undefined,
+      notes: formData.notes || undefined,
+    });
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+      <Card
+        variant="glass"
+        hover={false}
+        className="w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto custom-scrollbar animate-scale-in"
+      >
+        <CardHeader className="bg-gradient-to-r from-white via-brand-50/30 to-success-50/30 border-b border-white/20">
+          <CardTitle className="text-gradient">New Transaction</CardTitle>
+          <CardDescription>{investment.name}</CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-neutral-700">
+                  Type
+                </label>
+                <Select
+                  value={formData.type}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      type: e.target.value as HoldingTransactionType,
+                    }))
+                  }
+                >
+                  {HOLDING_TRANSACTION_TYPE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <Input
+                type="date"
+                label="Date"
+                value={formData.date}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, date: e.target.value }))
+                }
+                required
+              />
+            </div>
+
+            {isTrade && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <Input
+                  type="number"
+                  label="Units"
+                  value={formData.quantity || ""}
+                  onChange={(e) => setNumber("quantity", e.target.value)}
+                  min={0}
+                  step="any"
+                  required
+                />
+                <Input
+                  type="number"
+                  label="Price per unit"
+                  value={formData.price || ""}
+                  onChange={(e) => setNumber("price", e.target.value)}
+                  min={0}
+                  step="any"
+                  required
+                />
+                <Input
+                  type="number"
+                  label="Fees"
+                  value={formData.fees || ""}
+                  onChange={(e) => setNumber("fees", e.target.value)}
+                  min={0}
+                  step={0.01}
+                  placeholder="0.00"
+                />
+              </div>
+            )}
+
+            {isCash && (
+              <Input
+                type="number"
+                label={
+                  formData.type === HoldingTransactionType.DIVIDEND
+                    ? "Amount received"
+                    : "Amount paid"
+                }
+                value={formData.amount || ""}
+                onChange={(e) => setNumber("amount", e.target.value)}
+                min={0}
+                step={0.01}
+                required
+              />
+            )}
+
+            {formData.type === HoldingTransactionType.SPLIT && (
+              <Input
+                type="number"
+                label="Units held after, per unit held before"
+                value={formData.splitRatio || ""}
+                onChange={(e) => setNumber("splitRatio", e.target.value)}
+                min={0}
+                step="any"
+                placeholder="e.g. 2 for a 2:1 split, 1.5 for a 1:2 bonus"
+                required
+              />
+            )}
+
+            <Input
+              label="Notes"
+              value={formData.notes}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, notes: e.target.value }))
+              }
+            />
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="primary"
+                className="flex-1"
+                disabled={isSaving}
+                isLoading={isSaving}
+              >
+                Record Transaction
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default HoldingTransactionDialog;
@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Investment } from "../../types/investment.types";
+
+interface ManualPriceDialogProps {
+  investment: Investment;
+  defaultDate: string;
+  onSubmit: (date: string, price: number) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const ManualPriceDialog: React.FC<ManualPriceDialogProps> = ({
+  investment,
+  defaultDate,
+  onSubmit,
+  onClose,
+}) => {
+  const [date, setDate] = useState(defaultDate);
+  const [price, setPrice] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const saved = await onSubmit(date, price);
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+      <Card
+        variant="glass"
+        hover={false}
+        className="w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto custom-scrollbar animate-scale-in"
+      >
+        <CardHeader className="bg-gradient-to-r from-white via-brand-50/30 to-success-50/30 border-b border-white/20">
+          <CardTitle className="text-gradient">Set Price</CardTitle>
+          <CardDescription>
+            {investment.name}
+            {investment.symbol && ` · ${investment.symbol}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Input
+                type="date"
+                label="Price date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+              <Input
+                type="number"
+                label="Price per unit"
+                value={price || ""}
+                onChange={(e) => setPrice(parseFloat(e.target.value) || 0)}
+                min={0}
+                step="any"
+                required
+              />
+            </div>
+            <p className="text-sm text-neutral-600">
+              The price applies from this date until a newer one is imported or
+              entered.
+            </p>
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="primary"
+                className="flex-1"
+                disabled={isSaving}
+                isLoading={isSaving}
+              >
+                Save Price
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ManualPriceDialog;
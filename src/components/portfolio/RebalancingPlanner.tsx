@@ -0,0 +1,218 @@
+import React, { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import TargetAllocationDialog from "./TargetAllocationDialog";
+import { useRebalancing } from "../../hooks/useRebalancing";
+import { Investment } from "../../types/investment.types";
+import { formatCurrency } from "../../utils/helpers";
+import { ASSET_CLASS_LABELS } from "../../utils/investmentSuggestions";
+import { RebalanceMode } from "../../utils/rebalancing";
+
+interface RebalancingPlannerProps {
+  investments: Investment[];
+  currency: string;
+}
+
+const MODE_OPTIONS: { value: RebalanceMode; label: string }[] = [
+  { value: "buy_sell", label: "Buy and sell" },
+  { value: "contributions_only", label: "New contributions only" },
+];
+
+const formatDrift = (drift: number) =>
+  `${drift > 0 ? "+" : ""}${drift.toFixed(1)} pts`;
+
+const RebalancingPlanner: React.FC<RebalancingPlannerProps> = ({
+  investments,
+  currency,
+}) => {
+  const {
+    settings,
+    target,
+    profileTarget,
+    riskProfile,
+    drift,
+    plan,
+    mode,
+    contribution,
+    setMode,
+    setContribution,
+    saveTarget,
+  } = useRebalancing(investments);
+  const [isEditingTarget, setIsEditingTarget] = useState(false);
+
+  const money = (amount: number) => formatCurrency(amount, currency);
+  const stillOutsideBand = plan.projectedDrift.some(
+    (projected) => projected.isOutsideBand
+  );
+
+  return (
+    <Card variant="elevated" className="animate-fade-in">
+      <CardHeader className="bg-gradient-to-r from-white to-brand-50/30">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-gradient">Rebalancing</CardTitle>
+            <CardDescription>
+              {settings.source === "manual"
+                ? "Measured against the target you set"
+                : `Measured against the target for your ${
+                    riskProfile || "balanced"
+                  } risk profile`}
+              {` · ±${settings.toleranceBand} pts tolerance`}
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setIsEditingTarget(true)}
+          >
+            Edit target
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-neutral-500">
+                <th className="py-2 font-medium">Asset class</th>
+                <th className="py-2 font-medium text-right">Value</th>
+                <th className="py-2 font-medium text-right">Current</th>
+                <th className="py-2 font-medium text-right">Target</th>
+                <th className="py-2 font-medium text-right">Drift</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200">
+              {drift.map((row) => (
+                <tr key={row.assetClass}>
+                  <td className="py-2 text-neutral-900">
+                    {ASSET_CLASS_LABELS[row.assetClass]}
+                  </td>
+                  <td className="py-2 text-right">{money(row.currentValue)}</td>
+                  <td className="py-2 text-right">
+                    {row.currentPercentage.toFixed(1)}%
+                  </td>
+                  <td className="py-2 text-right">{row.targetPercentage}%</td>
+                  <td
+                    className={`py-2 text-right font-medium ${
+                      row.isOutsideBand ? "text-danger-600" : "text-neutral-600"
+                    }`}
+                  >
+                    {formatDrift(row.drift)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {settings.source !== "manual" && (
+          <ul className="space-y-1 text-xs text-neutral-500 list-disc pl-5">
+            {target.reasons.map((reason) => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex gap-2">
+            {MODE_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={mode === option.value ? "secondary" : "ghost"}
+                onClick={() => setMode(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <div className="w-full md:w-56">
+            <Input
+              type="number"
+              label="New money to invest"
+              value={contribution || ""}
+              onChange={(e) => setContribution(parseFloat(e.target.value) || 0)}
+              min={0}
+              step="any"
+            />
+          </div>
+        </div>
+
+        <div>
+          <h4 className="font-medium text-neutral-900 mb-2">Plan</h4>
+          {plan.trades.length === 0 ? (
+            <p className="text-sm text-neutral-600">
+              {plan.isNeeded
+                ? "Enter an amount to invest to see where it should go."
+                : "Every asset class is within its tolerance band. Nothing to do."}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {plan.trades.map((trade) => (
+                <div
+                  key={trade.assetClass}
+                  className="p-3 border border-neutral-200 rounded-lg bg-white/50 text-sm"
+                >
+                  <div className="flex justify-between font-medium">
+                    <span
+                      className={
+                        trade.action === "buy"
+                          ? "text-success-600"
+                          : "text-danger-600"
+                      }
+                    >
+                      {trade.action === "buy" ? "Buy" : "Sell"}{" "}
+                      {ASSET_CLASS_LABELS[trade.assetClass]}
+                    </span>
+                    <span>{money(trade.amount)}</span>
+                  </div>
+                  {trade.holdings.length === 0 ? (
+                    <p className="text-neutral-500">
+                      No holding in this class yet; choose a new one.
+                    </p>
+                  ) : (
+                    <ul className="text-neutral-600">
+                      {trade.holdings.map((holding) => (
+                        <li
+                          key={holding.investmentId}
+                          className="flex justify-between"
+                        >
+                          <span>{holding.name}</span>
+                          <span>{money(holding.amount)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+              <p className="text-sm text-neutral-600">
+                Buys {money(plan.totalBuys)}
+                {plan.totalSells > 0 && ` · Sells ${money(plan.totalSells)}`}
+                {stillOutsideBand &&
+                  " · Some classes stay outside the band; a larger contribution or a buy and sell plan would close the gap."}
+              </p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      {isEditingTarget && (
+        <TargetAllocationDialog
+          settings={settings}
+          currentTarget={target.allocation}
+          profileTarget={profileTarget.allocation}
+          onSubmit={saveTarget}
+          onClose={() => setIsEditingTarget(false)}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default RebalancingPlanner;
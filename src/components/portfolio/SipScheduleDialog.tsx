@@ -0,0 +1,158 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { SipScheduleDraft } from "../../services/sip.service";
+import { Investment, SipSchedule } from "../../types/investment.types";
+
+interface SipScheduleDialogProps {
+  investment: Investment;
+  schedule?: SipSchedule;
+  onSubmit: (draft: SipScheduleDraft) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const SipScheduleDialog: React.FC<SipScheduleDialogProps> = ({
+  investment,
+  schedule,
+  onSubmit,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<SipScheduleDraft>(
+    schedule
+      ? {
+          investmentId: schedule.investmentId,
+          amount: schedule.amount,
+          dayOfMonth: schedule.dayOfMonth,
+          stepUpPercentage: schedule.stepUpPercentage,
+          startDate: schedule.startDate,
+          endDate: schedule.endDate,
+        }
+      : {
+          investmentId: investment.id,
+          amount: 0,
+          dayOfMonth: new Date().getDate(),
+          stepUpPercentage: 0,
+          startDate: format(new Date(), "yyyy-MM-dd"),
+        }
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (changes: Partial<SipScheduleDraft>) =>
+    setDraft((prev) => ({ ...prev, ...changes }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const saved = await onSubmit(draft);
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+      <Card
+        variant="glass"
+        hover={false}
+        className="w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto custom-scrollbar animate-scale-in"
+      >
+        <CardHeader className="bg-gradient-to-r from-white via-brand-50/30 to-success-50/30 border-b border-white/20">
+          <CardTitle className="text-gradient">
+            {schedule ? "Edit SIP" : "Set Up SIP"}
+          </CardTitle>
+          <CardDescription>{investment.name}</CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Input
+                type="number"
+                label="Monthly amount"
+                value={draft.amount || ""}
+                onChange={(e) =>
+                  update({ amount: parseFloat(e.target.value) || 0 })
+                }
+                min={0}
+                step="any"
+                required
+              />
+              <Input
+                type="number"
+                label="Day of month"
+                value={draft.dayOfMonth || ""}
+                onChange={(e) =>
+                  update({ dayOfMonth: parseInt(e.target.value, 10) || 0 })
+                }
+                min={1}
+                max={31}
+                required
+              />
+              <Input
+                type="number"
+                label="Annual step-up %"
+                value={draft.stepUpPercentage || ""}
+                onChange={(e) =>
+                  update({
+                    stepUpPercentage: parseFloat(e.target.value) || 0,
+                  })
+                }
+                min={0}
+                max={100}
+                step="any"
+              />
+              <Input
+                type="date"
+                label="Start date"
+                value={draft.startDate}
+                onChange={(e) => update({ startDate: e.target.value })}
+                required
+              />
+              <Input
+                type="date"
+                label="End date (optional)"
+                value={draft.endDate || ""}
+                onChange={(e) =>
+                  update({ endDate: e.target.value || undefined })
+                }
+              />
+            </div>
+            <p className="text-sm text-neutral-600">
+              Installments fall due on this day each month, or the last day of
+              shorter months, and grow by the step-up on each anniversary.
+              Debits mentioning SIP, NACH or the fund's name settle them.
+            </p>
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="primary"
+                className="flex-1"
+                disabled={isSaving}
+                isLoading={isSaving}
+              >
+                Save SIP
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SipScheduleDialog;
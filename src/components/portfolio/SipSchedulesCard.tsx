@@ -0,0 +1,242 @@
+import React, { useMemo } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { SipOverview } from "../../hooks/useSips";
+import { SipSchedule } from "../../types/investment.types";
+import { formatCurrency, formatDate } from "../../utils/helpers";
+import { InstallmentStatus } from "../../utils/loanAmortization";
+import { SipProjectionPoint } from "../../utils/sip";
+
+interface SipSchedulesCardProps {
+  overviews: SipOverview[];
+  currency: string;
+  onEdit: (overview: SipOverview) => void;
+  onToggle: (schedule: SipSchedule) => void;
+  onDelete: (scheduleId: string) => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 120;
+
+// Installments shown per SIP, most recent first
+const RECENT_INSTALLMENTS = 6;
+
+const STATUS_STYLES: Record<InstallmentStatus, string> = {
+  paid: "text-success-600",
+  due: "text-warning-600",
+  missed: "text-danger-600",
+  upcoming: "text-neutral-500",
+};
+
+const ordinal = (day: number) => {
+  const suffix =
+    day % 10 === 1 && day !== 11
+      ? "st"
+      : day % 10 === 2 && day !== 12
+      ? "nd"
+      : day % 10 === 3 && day !== 13
+      ? "rd"
+      : "th";
+  return `${day}${suffix}`;
+};
+
+// Projected value over the cumulative amount invested
+const CorpusChart: React.FC<{ points: SipProjectionPoint[] }> = ({
+  points,
+}) => {
+  const { value, invested } = useMemo(() => {
+    const high = Math.max(...points.map((point) => point.value), 1);
+    const x = (index: number) =>
+      (index / Math.max(points.length - 1, 1)) * CHART_WIDTH;
+    const y = (amount: number) =>
+      CHART_HEIGHT - (Math.max(amount, 0) / high) * CHART_HEIGHT;
+    return {
+      value: points.map((point, i) => `${x(i)},${y(point.value)}`).join(" "),
+      invested: points
+        .map((point, i) => `${x(i)},${y(point.invested)}`)
+        .join(" "),
+    };
+  }, [points]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-28"
+    >
+      <polyline
+        points={invested}
+        fill="none"
+        strokeWidth={2}
+        strokeDasharray="4 4"
+        vectorEffect="non-scaling-stroke"
+        className="stroke-neutral-400"
+      />
+      <polyline
+        points={value}
+        fill="none"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+        className="stroke-brand-600"
+      />
+    </svg>
+  );
+};
+
+const SipSchedulesCard: React.FC<SipSchedulesCardProps> = ({
+  overviews,
+  currency,
+  onEdit,
+  onToggle,
+  onDelete,
+}) => {
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  const handleDelete = (overview: SipOverview) => {
+    if (window.confirm(`Remove the SIP into ${overview.investment.name}?`)) {
+      onDelete(overview.schedule.id);
+    }
+  };
+
+  return (
+    <Card variant="elevated" className="animate-fade-in">
+      <CardHeader className="bg-gradient-to-r from-white to-brand-50/30">
+        <CardTitle className="text-gradient">SIPs</CardTitle>
+        <CardDescription>
+          Installments are matched to debits within a few days of their due
+          date. Projections use each holding type's long-run expected return.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {overviews.map((overview) => {
+          const { schedule, investment, payments, nextInstallment } = overview;
+          const recent = payments
+            .filter((payment) => payment.status !== "upcoming")
+            .slice(-RECENT_INSTALLMENTS)
+            .reverse();
+          const last = overview.projection[overview.projection.length - 1];
+
+          return (
+            <div
+              key={schedule.id}
+              className="p-4 border border-neutral-200 rounded-lg bg-white/50 space-y-3"
+            >
+              <div className="flex flex-col md:flex-row md:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <span className="font-medium text-neutral-900">
+                    {investment.name}
+                  </span>
+                  {!schedule.isActive && (
+                    <span className="ml-2 text-xs text-neutral-500">Paused</span>
+                  )}
+                  <p className="text-sm text-neutral-600">
+                    {money(schedule.amount)} on the{" "}
+                    {ordinal(schedule.dayOfMonth)}
+                    {schedule.stepUpPercentage > 0 &&
+                      ` · +${schedule.stepUpPercentage}% a year`}
+                    {schedule.endDate &&
+                      ` · until ${formatDate(schedule.endDate)}`}
+                  </p>
+                  <p className="text-sm">
+                    {nextInstallment && schedule.isActive && (
+                      <span className="text-neutral-600">
+                        Next {money(nextInstallment.installment.amount)} on{" "}
+                        {formatDate(nextInstallment.installment.dueDate)}
+                      </span>
+                    )}
+                    {overview.missedCount > 0 && (
+                      <span className="ml-2 text-danger-600">
+                        {overview.missedCount} missed
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onEdit(overview)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onToggle(schedule)}
+                  >
+                    {schedule.isActive ? "Pause" : "Resume"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(overview)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <h4 className="font-medium text-neutral-900 mb-2">
+                    Recent installments
+                  </h4>
+                  {recent.length === 0 ? (
+                    <p className="text-neutral-600">None due yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-neutral-200">
+                      {recent.map((payment) => (
+                        <li
+                          key={payment.installment.dueDate}
+                          className="py-2 flex justify-between gap-2"
+                        >
+                          <span>
+                            {formatDate(payment.installment.dueDate)} ·{" "}
+                            {money(
+                              payment.transaction
+                                ? Math.abs(payment.transaction.amount)
+                                : payment.installment.amount
+                            )}
+                          </span>
+                          <span
+                            className={`capitalize ${
+                              STATUS_STYLES[payment.status]
+                            }`}
+                          >
+                            {payment.status}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                {last && (
+                  <div>
+                    <h4 className="font-medium text-neutral-900 mb-2">
+                      Projected by {formatDate(last.date)}
+                    </h4>
+                    <CorpusChart points={overview.projection} />
+                    <p className="text-neutral-600">
+                      <span className="text-brand-700 font-medium">
+                        {money(last.value)}
+                      </span>{" "}
+                      from {money(last.invested)} invested
+                    </p>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SipSchedulesCard;
@@ -0,0 +1,183 @@
+import React, { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import {
+  ASSET_CLASSES,
+  ASSET_CLASS_LABELS,
+  AssetAllocation,
+} from "../../utils/investmentSuggestions";
+import {
+  RebalanceSettings,
+  TargetAllocationSource,
+} from "../../utils/rebalancing";
+import { REBALANCE_MAX_TOLERANCE } from "../../utils/constants";
+
+interface TargetAllocationDialogProps {
+  settings: RebalanceSettings;
+  currentTarget: AssetAllocation;
+  profileTarget: AssetAllocation;
+  onSubmit: (
+    source: TargetAllocationSource,
+    allocation: AssetAllocation,
+    toleranceBand: number
+  ) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const SOURCE_OPTIONS: {
+  value: TargetAllocationSource;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "risk_profile",
+    label: "Follow my risk profile",
+    description: "Updates whenever you retake the questionnaire",
+  },
+  {
+    value: "manual",
+    label: "Set my own",
+    description: "Stays as entered until you change it",
+  },
+];
+
+const TargetAllocationDialog: React.FC<TargetAllocationDialogProps> = ({
+  settings,
+  currentTarget,
+  profileTarget,
+  onSubmit,
+  onClose,
+}) => {
+  const [source, setSource] = useState<TargetAllocationSource>(
+    settings.source
+  );
+  const [allocation, setAllocation] = useState<AssetAllocation>(currentTarget);
+  const [toleranceBand, setToleranceBand] = useState(settings.toleranceBand);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const shown = source === "manual" ? allocation : profileTarget;
+  const total = ASSET_CLASSES.reduce(
+    (sum, assetClass) => sum + shown[assetClass],
+    0
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const saved = await onSubmit(source, allocation, toleranceBand);
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+      <Card
+        variant="glass"
+        hover={false}
+        className="w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto custom-scrollbar animate-scale-in"
+      >
+        <CardHeader className="bg-gradient-to-r from-white via-brand-50/30 to-success-50/30 border-b border-white/20">
+          <CardTitle className="text-gradient">Target Allocation</CardTitle>
+          <CardDescription>
+            The mix your portfolio is rebalanced towards
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {SOURCE_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setSource(option.value)}
+                  className={`text-left p-3 rounded-lg border text-sm transition-colors ${
+                    source === option.value
+                      ? "border-brand-500 bg-brand-50 text-brand-800"
+                      : "border-neutral-200 bg-white/50 text-neutral-700 hover:bg-neutral-50"
+                  }`}
+                >
+                  <span className="font-medium block">{option.label}</span>
+                  <span className="text-xs">{option.description}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {ASSET_CLASSES.map((assetClass) => (
+                <Input
+                  key={assetClass}
+                  type="number"
+                  label={`${ASSET_CLASS_LABELS[assetClass]} %`}
+                  value={shown[assetClass]}
+                  onChange={(e) =>
+                    setAllocation((prev) => ({
+                      ...prev,
+                      [assetClass]: parseFloat(e.target.value) || 0,
+                    }))
+                  }
+                  min={0}
+                  max={100}
+                  step="any"
+                  disabled={source !== "manual"}
+                />
+              ))}
+            </div>
+            <p
+              className={`text-sm ${
+                Math.round(total * 100) === 10000
+                  ? "text-neutral-600"
+                  : "text-danger-600"
+              }`}
+            >
+              Total {Math.round(total * 100) / 100}% of 100%
+            </p>
+
+            <Input
+              type="number"
+              label="Drift tolerance (percentage points)"
+              value={toleranceBand || ""}
+              onChange={(e) => setToleranceBand(parseFloat(e.target.value) || 0)}
+              min={0}
+              max={REBALANCE_MAX_TOLERANCE}
+              step="any"
+              required
+            />
+            <p className="text-sm text-neutral-600">
+              An asset class further than this from its target triggers a
+              rebalance. A wider band means fewer, larger trades.
+            </p>
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="primary"
+                className="flex-1"
+                disabled={isSaving}
+                isLoading={isSaving}
+              >
+                Save Target
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TargetAllocationDialog;
@@ -0,0 +1,458 @@
+import React, { useMemo, useState } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  Pencil,
+  Play,
+  Plus,
+  Tags,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "../ui/button";
+import { Card } from "../ui/card";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import { useClassificationRules } from "../../hooks/useClassificationRules";
+import { useExpenses } from "../../hooks/useExpenses";
+import { useBankAccounts } from "../../hooks/useBankAccounts";
+import { RuleDraft } from "../../services/classification-rules.service";
+import { validateRulePattern } from "../../utils/classificationRules";
+import {
+  RuleMatchField,
+  RuleMatchType,
+  TransactionCategory,
+  TransactionClassificationRule,
+  TransactionType,
+} from "../../types/expense.types";
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: "",
+  pattern: "",
+  matchType: RuleMatchType.CONTAINS,
+  matchField: RuleMatchField.ANY,
+  category: TransactionCategory.OTHER,
+  isActive: true,
+};
+
+const formatCategory = (category: string) =>
+  category.charAt(0).toUpperCase() + category.slice(1).replace("_", " ");
+
+const describeRule = (rule: TransactionClassificationRule | RuleDraft) => {
+  const field =
+    rule.matchField === RuleMatchField.ANY ? "merchant or description" : rule.matchField;
+  const conditions = [`${field} ${rule.matchType} "${rule.pattern}"`];
+  if (rule.minAmount !== undefined) conditions.push(`amount ≥ ${rule.minAmount}`);
+  if (rule.maxAmount !== undefined) conditions.push(`amount ≤ ${rule.maxAmount}`);
+  if (rule.type) conditions.push(`${rule.type} only`);
+  return conditions.join(", ");
+};
+
+const CategorizationRulesSection: React.FC = () => {
+  const { rules, createRule, updateRule, deleteRule, moveRule, previewRule } =
+    useClassificationRules();
+  const { transactions, recategorizeTransactions } = useExpenses();
+  const { activeAccounts } = useBankAccounts();
+
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [includeManual, setIncludeManual] = useState(false);
+  const [applyingRuleId, setApplyingRuleId] = useState<string | null>(null);
+
+  const patternError = draft
+    ? validateRulePattern(draft.pattern, draft.matchType)
+    : null;
+
+  // Live preview of what the rule being edited would change
+  const draftPreview = useMemo(() => {
+    if (!draft || patternError) return null;
+    const candidate: TransactionClassificationRule = {
+      ...draft,
+      id: editingRuleId || "draft",
+      priority: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    return previewRule(candidate, transactions, includeManual);
+  }, [draft, patternError, editingRuleId, transactions, includeManual, previewRule]);
+
+  const updateDraft = (changes: Partial<RuleDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const parseAmount = (value: string) =>
+    value === "" ? undefined : Math.max(0, parseFloat(value) || 0);
+
+  const startCreate = () => {
+    setEditingRuleId(null);
+    setDraft({ ...EMPTY_DRAFT });
+  };
+
+  const startEdit = (rule: TransactionClassificationRule) => {
+    setEditingRuleId(rule.id);
+    setDraft({
+      name: rule.name,
+      pattern: rule.pattern,
+      matchType: rule.matchType,
+      matchField: rule.matchField,
+      minAmount: rule.minAmount,
+      maxAmount: rule.maxAmount,
+      accountId: rule.accountId,
+      type: rule.type,
+      category: rule.category,
+      isActive: rule.isActive,
+    });
+  };
+
+  const closeForm = () => {
+    setDraft(null);
+    setEditingRuleId(null);
+  };
+
+  const applyToTransactions = async (
+    transactionIds: string[],
+    category: TransactionCategory
+  ) => {
+    if (transactionIds.length === 0) {
+      toast.info("No transactions need recategorizing");
+      return;
+    }
+    const { updated, failed } = await recategorizeTransactions(
+      transactionIds,
+      category
+    );
+    if (failed > 0) {
+      toast.error(`Recategorized ${updated}, ${failed} failed`);
+    } else {
+      toast.success(`Recategorized ${updated} transaction(s)`);
+    }
+  };
+
+  const handleSave = async (applyRetroactively: boolean) => {
+    if (!draft) return;
+    const saved = editingRuleId
+      ? updateRule(editingRuleId, draft)
+      : createRule(draft);
+    if (!saved) return;
+
+    if (applyRetroactively && draftPreview) {
+      await applyToTransactions(
+        draftPreview.toRecategorize.map((t) => t.id),
+        saved.category
+      );
+    }
+    closeForm();
+  };
+
+  const handleApplyExisting = async (rule: TransactionClassificationRule) => {
+    const preview = previewRule(rule, transactions, includeManual);
+    if (
+      preview.toRecategorize.length > 0 &&
+      !window.confirm(
+        `Recategorize ${preview.toRecategorize.length} of ${preview.matched.length} matching transaction(s) as ${formatCategory(rule.category)}?`
+      )
+    ) {
+      return;
+    }
+
+    setApplyingRuleId(rule.id);
+    try {
+      await applyToTransactions(
+        preview.toRecategorize.map((t) => t.id),
+        rule.category
+      );
+    } finally {
+      setApplyingRuleId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-gray-900">
+          <Tags className="h-5 w-5 inline mr-2" />
+          Categorization Rules
+        </h2>
+        {!draft && (
+          <Button onClick={startCreate} variant="outline" size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Rule
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Rules run from top to bottom on manual entries and statement imports;
+        the first matching rule sets the category.
+      </p>
+
+      {draft && (
+        <div className="space-y-4 mb-6 p-4 border border-gray-200 rounded-lg bg-gray-50">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Rule name"
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              placeholder="e.g. Food delivery"
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Set category to
+              </label>
+              <Select
+                value={draft.category}
+                onChange={(e) =>
+                  updateDraft({ category: e.target.value as TransactionCategory })
+                }
+              >
+                {Object.values(TransactionCategory).map((category) => (
+                  <option key={category} value={category}>
+                    {formatCategory(category)}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Match on
+              </label>
+              <Select
+                value={draft.matchField}
+                onChange={(e) =>
+                  updateDraft({ matchField: e.target.value as RuleMatchField })
+                }
+              >
+                <option value={RuleMatchField.ANY}>Merchant or description</option>
+                <option value={RuleMatchField.MERCHANT}>Merchant</option>
+                <option value={RuleMatchField.DESCRIPTION}>Description</option>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Condition
+              </label>
+              <Select
+                value={draft.matchType}
+                onChange={(e) =>
+                  updateDraft({ matchType: e.target.value as RuleMatchType })
+                }
+              >
+                <option value={RuleMatchType.CONTAINS}>Contains</option>
+                <option value={RuleMatchType.EQUALS}>Equals</option>
+                <option value={RuleMatchType.REGEX}>Matches regex</option>
+              </Select>
+            </div>
+            <div className="md:col-span-2">
+              <Input
+                label="Pattern"
+                value={draft.pattern}
+                onChange={(e) => updateDraft({ pattern: e.target.value })}
+                placeholder={
+                  draft.matchType === RuleMatchType.REGEX
+                    ? "e.g. ^(swiggy|zomato)"
+                    : "e.g. swiggy"
+                }
+                error={draft.pattern ? patternError || undefined : undefined}
+              />
+            </div>
+            <Input
+              label="Minimum amount"
+              type="number"
+              min="0"
+              value={draft.minAmount ?? ""}
+              onChange={(e) => updateDraft({ minAmount: parseAmount(e.target.value) })}
+            />
+            <Input
+              label="Maximum amount"
+              type="number"
+              min="0"
+              value={draft.maxAmount ?? ""}
+              onChange={(e) => updateDraft({ maxAmount: parseAmount(e.target.value) })}
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Account
+              </label>
+              <Select
+                value={draft.accountId || ""}
+                onChange={(e) =>
+                  updateDraft({ accountId: e.target.value || undefined })
+                }
+              >
+                <option value="">Any account</option>
+                {activeAccounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.accountName} - {account.bankName}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Transaction type
+              </label>
+              <Select
+                value={draft.type || ""}
+                onChange={(e) =>
+                  updateDraft({
+                    type: (e.target.value as TransactionType) || undefined,
+                  })
+                }
+              >
+                <option value="">Income or expense</option>
+                <option value={TransactionType.EXPENSE}>Expense</option>
+                <option value={TransactionType.INCOME}>Income</option>
+              </Select>
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.isActive}
+              onChange={(e) => updateDraft({ isActive: e.target.checked })}
+            />
+            <span>Active</span>
+          </label>
+
+          {draftPreview && (
+            <div className="text-sm text-gray-700 p-3 bg-white rounded-md border border-gray-200">
+              <p>
+                Matches <strong>{draftPreview.matched.length}</strong> past
+                transaction(s);{" "}
+                <strong>{draftPreview.toRecategorize.length}</strong> would be
+                recategorized.
+              </p>
+              <label className="flex items-center space-x-2 mt-2 text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={includeManual}
+                  onChange={(e) => setIncludeManual(e.target.checked)}
+                />
+                <span>Include transactions I categorized by hand</span>
+              </label>
+              {draftPreview.toRecategorize.length > 0 && (
+                <ul className="mt-2 space-y-1 text-gray-600">
+                  {draftPreview.toRecategorize.slice(0, 5).map((t) => (
+                    <li key={t.id} className="truncate">
+                      {t.description} · {formatCategory(t.category)} →{" "}
+                      {formatCategory(draft.category)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={closeForm} variant="outline" size="sm">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => handleSave(false)}
+              disabled={!!patternError}
+              size="sm"
+            >
+              Save Rule
+            </Button>
+            <Button
+              onClick={() => handleSave(true)}
+              disabled={!!patternError || !draftPreview?.toRecategorize.length}
+              variant="secondary"
+              size="sm"
+            >
+              Save & Apply to {draftPreview?.toRecategorize.length || 0}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No rules yet. Transactions are categorized by the built-in keyword
+          matcher.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {rules.map((rule, index) => (
+            <li
+              key={rule.id}
+              className={`py-3 flex items-center gap-3 ${
+                rule.isActive ? "" : "opacity-60"
+              }`}
+            >
+              <div className="flex flex-col">
+                <button
+                  onClick={() => moveRule(rule.id, "up")}
+                  disabled={index === 0}
+                  className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  aria-label="Move rule up"
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => moveRule(rule.id, "down")}
+                  disabled={index === rules.length - 1}
+                  className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  aria-label="Move rule down"
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 truncate">
+                  {rule.name}{" "}
+                  <span className="text-sm font-normal text-gray-500">
+                    → {formatCategory(rule.category)}
+                  </span>
+                </p>
+                <p className="text-sm text-gray-600 truncate">
+                  {describeRule(rule)}
+                </p>
+              </div>
+              <label className="flex items-center text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={rule.isActive}
+                  onChange={(e) =>
+                    updateRule(rule.id, { isActive: e.target.checked })
+                  }
+                  className="mr-1"
+                />
+                Active
+              </label>
+              <Button
+                onClick={() => handleApplyExisting(rule)}
+                variant="ghost"
+                size="sm"
+                disabled={applyingRuleId !== null}
+                isLoading={applyingRuleId === rule.id}
+                aria-label="Apply to past transactions"
+              >
+                <Play className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={() => startEdit(rule)}
+                variant="ghost"
+                size="sm"
+                aria-label="Edit rule"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={() => deleteRule(rule.id)}
+                variant="ghost"
+                size="sm"
+                className="text-red-600"
+                aria-label="Delete rule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+export default CategorizationRulesSection;
@@ -0,0 +1,189 @@
+import React, { useRef, useState } from "react";
+import { ArrowRightLeft, Plus, Trash2, Upload } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card } from "../ui/card";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import { useAuth } from "../../context/AuthContext";
+import { useFxRates } from "../../hooks/useFxRates";
+import { FxRateDraft } from "../../services/fx-rate.service";
+import {
+  DEFAULT_BASE_CURRENCY,
+  DEFAULT_CURRENCIES,
+} from "../../utils/constants";
+
+const ExchangeRatesSection: React.FC = () => {
+  const { user } = useAuth();
+  const { rates, isImporting, addRate, deleteRate, importRates } =
+    useFxRates();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const baseCurrency = user?.currency || DEFAULT_BASE_CURRENCY;
+  const emptyDraft = (): FxRateDraft => ({
+    fromCurrency:
+      DEFAULT_CURRENCIES.find((currency) => currency !== baseCurrency) ||
+      "USD",
+    toCurrency: baseCurrency,
+    rate: 0,
+    date: new Date().toISOString().split("T")[0],
+  });
+  const [draft, setDraft] = useState<FxRateDraft | null>(null);
+
+  const currencies = Array.from(new Set([baseCurrency, ...DEFAULT_CURRENCIES]));
+
+  const updateDraft = (changes: Partial<FxRateDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (addRate(draft)) {
+      setDraft(null);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      await importRates(file);
+    }
+    e.target.value = "";
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-gray-900">
+          <ArrowRightLeft className="h-5 w-5 inline mr-2" />
+          Exchange Rates
+        </h2>
+        <div className="flex gap-2">
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            variant="outline"
+            size="sm"
+            isLoading={isImporting}
+            disabled={isImporting}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          {!draft && (
+            <Button onClick={() => setDraft(emptyDraft())} variant="outline" size="sm">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rate
+            </Button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.txt"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Totals are shown in {baseCurrency}. Each transaction is converted with
+        the latest rate on or before its date. Import files need the columns
+        date, from currency, to currency and rate.
+      </p>
+
+      {draft && (
+        <div className="space-y-4 mb-6 p-4 border border-gray-200 rounded-lg bg-gray-50">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                From
+              </label>
+              <Select
+                value={draft.fromCurrency}
+                onChange={(e) => updateDraft({ fromCurrency: e.target.value })}
+              >
+                {currencies.map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                To
+              </label>
+              <Select
+                value={draft.toCurrency}
+                onChange={(e) => updateDraft({ toCurrency: e.target.value })}
+              >
+                {currencies.map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <Input
+              label={`1 ${draft.fromCurrency} =`}
+              type="number"
+              min="0"
+              step="0.0001"
+              value={draft.rate || ""}
+              onChange={(e) =>
+                updateDraft({ rate: parseFloat(e.target.value) || 0 })
+              }
+            />
+            <Input
+              label="Effective date"
+              type="date"
+              value={draft.date}
+              onChange={(e) => updateDraft({ date: e.target.value })}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => setDraft(null)} variant="outline" size="sm">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!(draft.rate > 0)} size="sm">
+              Save Rate
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {rates.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No exchange rates yet. Transactions in other currencies are left out
+          of totals until a rate is added.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {rates.map((rate) => (
+            <li key={rate.id} className="py-3 flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900">
+                  1 {rate.fromCurrency} = {rate.rate} {rate.toCurrency}
+                </p>
+                <p className="text-sm text-gray-600">
+                  From {rate.date} ·{" "}
+                  {rate.source === "import" ? "Imported" : "Entered manually"}
+                </p>
+              </div>
+              <Button
+                onClick={() => deleteRate(rate.id)}
+                variant="ghost"
+                size="sm"
+                className="text-red-600"
+                aria-label="Delete rate"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+export default ExchangeRatesSection;
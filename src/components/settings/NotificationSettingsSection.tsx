@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from "react";
+import { Bell } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card } from "../ui/card";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import { useNotificationSettings } from "../../hooks/useNotificationSettings";
+import { NotificationSettings } from "../../types/financial.types";
+
+type EmailOption = keyof NotificationSettings["emailNotifications"];
+type PushOption = keyof NotificationSettings["pushNotifications"];
+
+const EMAIL_OPTIONS: { key: EmailOption; label: string }[] = [
+  { key: "budgetAlerts", label: "Budget alerts" },
+  { key: "goalMilestones", label: "Goal milestones" },
+  { key: "billReminders", label: "Bill reminders" },
+  { key: "weeklyReports", label: "Weekly reports" },
+  { key: "monthlyReports", label: "Monthly reports" },
+  { key: "securityAlerts", label: "Security alerts" },
+];
+
+const PUSH_OPTIONS: { key: PushOption; label: string }[] = [
+  { key: "budgetAlerts", label: "Budget alerts" },
+  { key: "goalMilestones", label: "Goal milestones" },
+  { key: "billReminders", label: "Bill reminders" },
+  { key: "transactionAlerts", label: "Transaction alerts" },
+  { key: "securityAlerts", label: "Security alerts" },
+];
+
+const NotificationSettingsSection: React.FC = () => {
+  const { settings, isLoading, isSaving, saveSettings } =
+    useNotificationSettings();
+  const [draft, setDraft] = useState<NotificationSettings>(settings);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const toggleEmail = (key: EmailOption) => {
+    setDraft((prev) => ({
+      ...prev,
+      emailNotifications: {
+        ...prev.emailNotifications,
+        [key]: !prev.emailNotifications[key],
+      },
+    }));
+  };
+
+  const togglePush = (key: PushOption) => {
+    setDraft((prev) => ({
+      ...prev,
+      pushNotifications: {
+        ...prev.pushNotifications,
+        [key]: !prev.pushNotifications[key],
+      },
+    }));
+  };
+
+  const updateFrequency = (
+    changes: Partial<NotificationSettings["frequency"]>
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      frequency: { ...prev.frequency, ...changes },
+    }));
+  };
+
+  const updateThresholds = (
+    changes: Partial<NotificationSettings["thresholds"]>
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      thresholds: { ...prev.thresholds, ...changes },
+    }));
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-gray-900">
+          <Bell className="h-5 w-5 inline mr-2" />
+          Notifications
+        </h2>
+        <Button
+          onClick={() => saveSettings(draft)}
+          size="sm"
+          disabled={!hasChanges || isSaving || isLoading}
+          isLoading={isSaving}
+        >
+          Save Settings
+        </Button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Choose what reaches you by email and as push notifications. Everything
+        still appears in the notification center.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Email</h3>
+          <div className="space-y-2">
+            {EMAIL_OPTIONS.map((option) => (
+              <label
+                key={option.key}
+                className="flex items-center gap-2 text-sm text-gray-700"
+              >
+                <input
+                  type="checkbox"
+                  checked={draft.emailNotifications[option.key]}
+                  onChange={() => toggleEmail(option.key)}
+                  disabled={isLoading}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Push</h3>
+          <div className="space-y-2">
+            {PUSH_OPTIONS.map((option) => (
+              <label
+                key={option.key}
+                className="flex items-center gap-2 text-sm text-gray-700"
+              >
+                <input
+                  type="checkbox"
+                  checked={draft.pushNotifications[option.key]}
+                  onChange={() => togglePush(option.key)}
+                  disabled={isLoading}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Digest frequency
+          </label>
+          <Select
+            value={draft.frequency.digestFrequency}
+            onChange={(e) =>
+              updateFrequency({
+                digestFrequency: e.target
+                  .value as NotificationSettings["frequency"]["digestFrequency"],
+              })
+            }
+            disabled={isLoading}
+          >
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+          </Select>
+        </div>
+        <Input
+          label="Remind me this many days before bills are due"
+          type="number"
+          min="0"
+          max="30"
+          step="1"
+          value={draft.frequency.reminderDays}
+          onChange={(e) =>
+            updateFrequency({ reminderDays: parseInt(e.target.value) || 0 })
+          }
+          disabled={isLoading}
+        />
+        <Input
+          label="Warn me when a credit card's utilization passes (%)"
+          type="number"
+          min="1"
+          max="100"
+          step="1"
+          value={draft.thresholds.creditUtilization}
+          onChange={(e) =>
+            updateThresholds({
+              creditUtilization: parseInt(e.target.value) || 0,
+            })
+          }
+          disabled={isLoading}
+        />
+      </div>
+    </Card>
+  );
+};
+
+export default NotificationSettingsSection;
@@ -0,0 +1,114 @@
+import React, { useState } from "react";
+import { AlertTriangle, Gauge } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card } from "../ui/card";
+import RiskQuestionnaireDialog from "./RiskQuestionnaireDialog";
+import { useRiskProfile } from "../../hooks/useRiskProfile";
+import { UserProfile } from "../../types/auth.types";
+import { formatDate } from "../../utils/helpers";
+import {
+  RISK_PROFILE_DESCRIPTIONS,
+  scoreRiskQuestionnaire,
+} from "../../utils/riskQuestionnaire";
+
+interface RiskProfileSectionProps {
+  profile: UserProfile | null;
+}
+
+const RiskProfileSection: React.FC<RiskProfileSectionProps> = ({ profile }) => {
+  const { assessments, latestAssessment, reassessmentReason, submitAssessment } =
+    useRiskProfile(profile);
+  const [isTakingQuestionnaire, setIsTakingQuestionnaire] = useState(false);
+
+  const pastAssessments = assessments.slice(0, -1).reverse();
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-gray-900">
+          <Gauge className="h-5 w-5 inline mr-2" />
+          Risk Profile
+        </h2>
+        <Button
+          onClick={() => setIsTakingQuestionnaire(true)}
+          variant="outline"
+          size="sm"
+        >
+          {latestAssessment ? "Retake Questionnaire" : "Take Questionnaire"}
+        </Button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Four questions about your horizon, how you handle losses, your income
+        and your dependents decide which investments are suggested to you.
+      </p>
+
+      {reassessmentReason && latestAssessment && (
+        <div className="flex items-start gap-2 mb-6 p-3 rounded-lg bg-yellow-50 text-sm text-yellow-800">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{reassessmentReason}</span>
+        </div>
+      )}
+
+      {!latestAssessment ? (
+        <p className="text-sm text-gray-500">
+          No risk profile yet. Suggestions assume a balanced profile until you
+          take the questionnaire.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <p className="text-lg font-semibold text-gray-900 capitalize">
+              {latestAssessment.riskProfile}
+              <span className="ml-2 text-sm font-normal text-gray-600 normal-case">
+                Score {latestAssessment.score} of {latestAssessment.maxScore} ·{" "}
+                {formatDate(latestAssessment.completedAt)}
+              </span>
+            </p>
+            <p className="text-sm text-gray-700">
+              {RISK_PROFILE_DESCRIPTIONS[latestAssessment.riskProfile]}
+            </p>
+          </div>
+          <ul className="space-y-1 text-sm text-gray-600 list-disc pl-5">
+            {scoreRiskQuestionnaire(latestAssessment.answers).explanation.map(
+              (line) => (
+                <li key={line}>{line}</li>
+              )
+            )}
+          </ul>
+
+          {pastAssessments.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">
+                Earlier results
+              </h3>
+              <ul className="divide-y divide-gray-200 text-sm">
+                {pastAssessments.map((assessment) => (
+                  <li
+                    key={assessment.id}
+                    className="py-2 flex justify-between text-gray-600"
+                  >
+                    <span>{formatDate(assessment.completedAt)}</span>
+                    <span className="capitalize">
+                      {assessment.riskProfile} ({assessment.score}/
+                      {assessment.maxScore})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isTakingQuestionnaire && (
+        <RiskQuestionnaireDialog
+          initialAnswers={latestAssessment?.answers}
+          onSubmit={submitAssessment}
+          onClose={() => setIsTakingQuestionnaire(false)}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default RiskProfileSection;
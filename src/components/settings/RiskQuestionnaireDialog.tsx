@@ -0,0 +1,150 @@
+import React, { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import {
+  RiskAssessment,
+  RiskQuestionnaireAnswers,
+} from "../../types/investment.types";
+import {
+  RISK_PROFILE_DESCRIPTIONS,
+  RISK_QUESTIONS,
+  scoreRiskQuestionnaire,
+} from "../../utils/riskQuestionnaire";
+
+interface RiskQuestionnaireDialogProps {
+  initialAnswers?: RiskQuestionnaireAnswers;
+  onSubmit: (
+    answers: Partial<RiskQuestionnaireAnswers>
+  ) => RiskAssessment | null;
+  onClose: () => void;
+}
+
+// One question per step, then the result and why
+const RiskQuestionnaireDialog: React.FC<RiskQuestionnaireDialogProps> = ({
+  initialAnswers,
+  onSubmit,
+  onClose,
+}) => {
+  const [step, setStep] = useState(0);
+  const [answers, setAnswers] = useState<Partial<RiskQuestionnaireAnswers>>(
+    initialAnswers || {}
+  );
+  const [result, setResult] = useState<RiskAssessment | null>(null);
+
+  const question = RISK_QUESTIONS[step];
+  const isLastStep = step === RISK_QUESTIONS.length - 1;
+
+  const handleNext = () => {
+    if (!isLastStep) {
+      setStep((prev) => prev + 1);
+      return;
+    }
+    setResult(onSubmit(answers));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+      <Card
+        variant="glass"
+        hover={false}
+        className="w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto custom-scrollbar animate-scale-in"
+      >
+        <CardHeader className="bg-gradient-to-r from-white via-brand-50/30 to-success-50/30 border-b border-white/20">
+          <CardTitle className="text-gradient">Risk Questionnaire</CardTitle>
+          <CardDescription>
+            {result
+              ? "Your result"
+              : `Question ${step + 1} of ${RISK_QUESTIONS.length} · ${
+                  question.title
+                }`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          {result ? (
+            <div className="space-y-6">
+              <div className="text-center p-4 bg-gradient-to-br from-brand-50 to-brand-100 rounded-xl">
+                <div className="text-2xl font-bold text-brand-700 mb-2 capitalize">
+                  {result.riskProfile}
+                </div>
+                <p className="text-sm text-brand-600 font-medium">
+                  Score {result.score} of {result.maxScore}
+                </p>
+              </div>
+              <p className="text-sm text-neutral-700">
+                {RISK_PROFILE_DESCRIPTIONS[result.riskProfile]}
+              </p>
+              <ul className="space-y-2 text-sm text-neutral-600 list-disc pl-5">
+                {scoreRiskQuestionnaire(result.answers).explanation.map(
+                  (line) => (
+                    <li key={line}>{line}</li>
+                  )
+                )}
+              </ul>
+              <Button variant="primary" className="w-full" onClick={onClose}>
+                Done
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <p className="font-medium text-neutral-900">
+                {question.question}
+              </p>
+              <div className="space-y-2">
+                {question.options.map((option) => {
+                  const isSelected = answers[question.id] === option.value;
+                  return (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() =>
+                        setAnswers((prev) => ({
+                          ...prev,
+                          [question.id]: option.value,
+                        }))
+                      }
+                      className={`w-full text-left p-3 rounded-lg border text-sm transition-colors ${
+                        isSelected
+                          ? "border-brand-500 bg-brand-50 text-brand-800"
+                          : "border-neutral-200 bg-white/50 text-neutral-700 hover:bg-neutral-50"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="flex flex-col sm:flex-row gap-3 pt-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={step === 0 ? onClose : () => setStep(step - 1)}
+                  className="flex-1"
+                >
+                  {step === 0 ? "Cancel" : "Back"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="primary"
+                  className="flex-1"
+                  disabled={!answers[question.id]}
+                  onClick={handleNext}
+                >
+                  {isLastStep ? "See My Profile" : "Next"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RiskQuestionnaireDialog;
@@ -0,0 +1,164 @@
+import { useState, useEffect, useMemo } from "react";
+import { toast } from "sonner";
+import { useAuth } from "../context/AuthContext";
+import { billService, BillDraft } from "../services/bill.service";
+import { Bill } from "../types/financial.types";
+import { RecurringTransaction, Transaction } from "../types/expense.types";
+import { getBillStatus, getMonthlyBillTotal, BillStatus } from "../utils/bills";
+import { DEFAULT_BASE_CURRENCY } from "../utils/constants";
+import { useNotificationSettings } from "./useNotificationSettings";
+
+export const useBills = (transactions: Transaction[] = []) => {
+  const { user } = useAuth();
+  const { settings } = useNotificationSettings();
+  const [bills, setBills] = useState<Bill[]>(() => billService.getBills());
+  const [error, setError] = useState<string | null>(null);
+
+  const currency = user?.currency || DEFAULT_BASE_CURRENCY;
+  const reminderDays = settings.frequency.reminderDays;
+  const remindersEnabled = settings.pushNotifications.billReminders;
+
+  // Settle bills against newly loaded transactions, then raise reminders for what is still open
+  useEffect(() => {
+    const result = billService.reconcile(transactions);
+    setBills(result.bills);
+    result.matched.forEach(({ bill, transaction }) =>
+      toast.success(`${bill.name} marked as paid`, {
+        description: transaction.description,
+      })
+    );
+  }, [transactions]);
+
+  useEffect(() => {
+    if (remindersEnabled) {
+      billService.sendReminders(bills, reminderDays, currency);
+    }
+  }, [bills, reminderDays, remindersEnabled, currency]);
+
+  const statusByBill = useMemo(() => {
+    const statuses = new Map<string, BillStatus>();
+    bills.forEach((bill) =>
+      statuses.set(bill.id, getBillStatus(bill, reminderDays))
+    );
+    return statuses;
+  }, [bills, reminderDays]);
+
+  const getStatus = (billId: string): BillStatus =>
+    statusByBill.get(billId) || "upcoming";
+
+  const upcomingBills = useMemo(
+    () => bills.filter((bill) => !bill.isPaid),
+    [bills]
+  );
+
+  const monthlyTotal = useMemo(() => getMonthlyBillTotal(bills), [bills]);
+
+  const replaceBill = (bill: Bill) => {
+    setBills((prev) => prev.map((b) => (b.id === bill.id ? bill : b)));
+  };
+
+  // Runs a bill mutation and reports failures as toasts
+  const run = <T>(
+    action: () => T,
+    successMessage: string,
+    failureMessage: string
+  ): T | null => {
+    setError(null);
+    try {
+      const result = action();
+      toast.success(successMessage);
+      return result;
+    } catch (err: any) {
+      const errorMessage = err.message || failureMessage;
+      setError(errorMessage);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  const createBill = (draft: BillDraft) =>
+    run(
+      () => {
+        const bill = billService.createBill(draft);
+        setBills(billService.getBills());
+        return bill;
+      },
+      "Bill added",
+      "Failed to add bill"
+    );
+
+  const updateBill = (billId: string, changes: Partial<BillDraft>) =>
+    run(
+      () => {
+        const bill = billService.updateBill(billId, changes);
+        replaceBill(bill);
+        return bill;
+      },
+      "Bill updated",
+      "Failed to update bill"
+    );
+
+  const deleteBill = (billId: string) =>
+    run(
+      () => {
+        billService.deleteBill(billId);
+        setBills((prev) => prev.filter((b) => b.id !== billId));
+        return true;
+      },
+      "Bill deleted",
+      "Failed to delete bill"
+    );
+
+  const markPaid = (billId: string) =>
+    run(
+      () => {
+        const bill = billService.markPaid(billId);
+        replaceBill(bill);
+        return bill;
+      },
+      "Bill marked as paid",
+      "Failed to update bill"
+    );
+
+  const markUnpaid = (billId: string) =>
+    run(
+      () => {
+        const bill = billService.markUnpaid(billId);
+        replaceBill(bill);
+        return bill;
+      },
+      "Bill marked as unpaid",
+      "Failed to update bill"
+    );
+
+  const createFromRecurring = (series: RecurringTransaction) =>
+    run(
+      () => {
+        const bill = billService.createFromRecurring(series);
+        setBills(billService.getBills());
+        return bill;
+      },
+      `${series.merchant || series.description} added to bills`,
+      "Failed to create bill"
+    );
+
+  const isTrackedAsBill = (seriesId: string): boolean =>
+    bills.some((bill) => bill.recurringSeriesId === seriesId);
+
+  return {
+    bills,
+    upcomingBills,
+    monthlyTotal,
+    currency,
+    reminderDays,
+    error,
+    getStatus,
+    createBill,
+    updateBill,
+    deleteBill,
+    markPaid,
+    markUnpaid,
+    createFromRecurring,
+    isTrackedAsBill,
+  };
+};
@@ -0,0 +1,122 @@
+import { useState, useEffect, useMemo } from "react";
+import { incomePlanService } from "../services/income-plan.service";
+import { salaryService } from "../services/salary.service";
+import { fxRateService } from "../services/fx-rate.service";
+import { AccountType, BankAccount } from "../types/account.types";
+import { RecurringTransaction } from "../types/expense.types";
+import { Bill } from "../types/financial.types";
+import { IncomePlanSource } from "../types/income.types";
+import { SalaryPlan } from "../types/salary.types";
+import {
+  CashFlowHorizon,
+  ForecastAccount,
+  forecastCashFlow,
+} from "../utils/cashFlowForecast";
+
+interface CashFlowForecastSources {
+  accounts: BankAccount[];
+  recurringTransactions: RecurringTransaction[];
+  bills: Bill[];
+  baseCurrency: string;
+}
+
+export const useCashFlowForecast = (
+  { accounts, recurringTransactions, bills, baseCurrency }: CashFlowForecastSources,
+  horizonDays: CashFlowHorizon
+) => {
+  const [incomeSources, setIncomeSources] = useState<IncomePlanSource[]>([]);
+  const [salaryPlans, setSalaryPlans] = useState<SalaryPlan[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Expected income comes from every active income plan's sources and the salary plans
+  const fetchExpectedIncome = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [plans, salary] = await Promise.all([
+        incomePlanService.getIncomePlans(),
+        salaryService.mockGetSalaryPlans(),
+      ]);
+      const sources = await Promise.all(
+        plans
+          .filter((plan) => plan.isActive)
+          .map((plan) => incomePlanService.getIncomeSources(plan.id))
+      );
+      setIncomeSources(sources.flat());
+      setSalaryPlans(salary);
+    } catch (err: any) {
+      setError(err.message || "Failed to load expected income");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchExpectedIncome();
+  }, []);
+
+  // Credit cards and loans are debt rather than cash, and accounts without a rate to the base currency are left out
+  const { forecastAccounts, unconvertedAccounts } = useMemo(() => {
+    const converted: ForecastAccount[] = [];
+    const unconverted: BankAccount[] = [];
+    accounts
+      .filter(
+        (account) =>
+          account.isActive &&
+          account.accountType !== AccountType.CREDIT &&
+          account.accountType !== AccountType.LOAN
+      )
+      .forEach((account) => {
+        const convert = (amount: number) =>
+          account.currencyCode === baseCurrency
+            ? amount
+            : fxRateService.convert(amount, account.currencyCode, baseCurrency);
+        const balance = convert(account.balance);
+        if (balance === null) {
+          unconverted.push(account);
+          return;
+        }
+        converted.push({
+          id: account.id,
+          name: account.accountName,
+          balance,
+          minimumBalance:
+            account.minimumBalance !== undefined
+              ? convert(account.minimumBalance) ?? undefined
+              : undefined,
+        });
+      });
+    return { forecastAccounts: converted, unconvertedAccounts: unconverted };
+  }, [accounts, baseCurrency]);
+
+  const forecast = useMemo(
+    () =>
+      forecastCashFlow(
+        {
+          accounts: forecastAccounts,
+          salaryPlans,
+          incomeSources,
+          recurringTransactions,
+          bills,
+        },
+        horizonDays
+      ),
+    [
+      forecastAccounts,
+      salaryPlans,
+      incomeSources,
+      recurringTransactions,
+      bills,
+      horizonDays,
+    ]
+  );
+
+  return {
+    forecast,
+    unconvertedAccounts,
+    isLoading,
+    error,
+    fetchExpectedIncome,
+  };
+};
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import {
+  classificationRulesService,
+  RuleDraft,
+} from "../services/classification-rules.service";
+import {
+  RulePreview,
+  Transaction,
+  TransactionClassificationRule,
+} from "../types/expense.types";
+
+export const useClassificationRules = () => {
+  const [rules, setRules] = useState<TransactionClassificationRule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = () => {
+    setRules(classificationRulesService.getRules());
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  // Create a rule; it is added with the lowest priority
+  const createRule = (draft: RuleDraft): TransactionClassificationRule | null => {
+    setError(null);
+    try {
+      const rule = classificationRulesService.createRule(draft);
+      loadRules();
+      toast.success("Rule created");
+      return rule;
+    } catch (err: any) {
+      const errorMessage = err.message || "Failed to create rule";
+      setError(errorMessage);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  // Update a rule
+  const updateRule = (
+    ruleId: string,
+    changes: Partial<RuleDraft>
+  ): TransactionClassificationRule | null => {
+    setError(null);
+    try {
+      const rule = classificationRulesService.updateRule(ruleId, changes);
+      loadRules();
+      return rule;
+    } catch (err: any) {
+      const errorMessage = err.message || "Failed to update rule";
+      setError(errorMessage);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  // Delete a rule
+  const deleteRule = (ruleId: string) => {
+    classificationRulesService.deleteRule(ruleId);
+    loadRules();
+    toast.success("Rule deleted");
+  };
+
+  // Change evaluation order
+  const moveRule = (ruleId: string, direction: "up" | "down") => {
+    setRules(classificationRulesService.moveRule(ruleId, direction));
+  };
+
+  // Stable so live previews only recompute when their inputs change
+  const previewRule = useCallback(
+    (
+      rule: TransactionClassificationRule,
+      transactions: Transaction[],
+      includeManuallyClassified: boolean = false
+    ): RulePreview =>
+      classificationRulesService.previewRule(
+        rule,
+        transactions,
+        includeManuallyClassified
+      ),
+    []
+  );
+
+  return {
+    rules,
+    error,
+    createRule,
+    updateRule,
+    deleteRule,
+    moveRule,
+    previewRule,
+  };
+};
@@ -0,0 +1,44 @@
+import { useEffect, useMemo } from "react";
+import { creditCardService } from "../services/credit-card.service";
+import { AccountType, BankAccount } from "../types/account.types";
+import { Transaction } from "../types/expense.types";
+import { CreditCardSummary, summarizeCreditCard } from "../utils/creditCard";
+import { useNotificationSettings } from "./useNotificationSettings";
+
+export const useCreditCards = (
+  accounts: BankAccount[],
+  transactions: Transaction[]
+) => {
+  const { settings } = useNotificationSettings();
+  const reminderDays = settings.frequency.reminderDays;
+  const remindersEnabled = settings.pushNotifications.billReminders;
+  const utilizationThreshold = settings.thresholds.creditUtilization;
+
+  const cards = useMemo<CreditCardSummary[]>(
+    () =>
+      accounts
+        .filter(
+          (account) =>
+            account.isActive && account.accountType === AccountType.CREDIT
+        )
+        .map((account) => summarizeCreditCard(account, transactions)),
+    [accounts, transactions]
+  );
+
+  useEffect(() => {
+    if (remindersEnabled) {
+      creditCardService.sendReminders(cards, reminderDays);
+    }
+  }, [cards, reminderDays, remindersEnabled]);
+
+  const cardsOverThreshold = useMemo(
+    () =>
+      cards.filter(
+        (card) =>
+          card.utilization !== null && card.utilization >= utilizationThreshold
+      ),
+    [cards, utilizationThreshold]
+  );
+
+  return { cards, cardsOverThreshold, utilizationThreshold };
+};
@@ -0,0 +1,102 @@
+import { useState, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import { envelopeBudgetService, EnvelopeDraft } from '../services/envelope-budget.service';
+import { BudgetingMode, Envelope, EnvelopeAssignment } from '../types/envelope.types';
+import { Transaction } from '../types/expense.types';
+import { IncomeEntry } from '../types/income.types';
+import { collectEnvelopeIncome, summarizeEnvelopePeriod, toPeriodKey } from '../utils/envelopeBudgeting';
+
+// Transactions should already be converted to the base currency
+export const useEnvelopeBudget = (transactions: Transaction[]) => {
+  const [mode, setModeState] = useState<BudgetingMode>(envelopeBudgetService.getMode());
+  const [envelopes, setEnvelopes] = useState<Envelope[]>([]);
+  const [assignments, setAssignments] = useState<EnvelopeAssignment[]>([]);
+  const [incomeEntries, setIncomeEntries] = useState<IncomeEntry[]>([]);
+  const [period, setPeriod] = useState(toPeriodKey(new Date()));
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEnvelopes = () => {
+    setEnvelopes(envelopeBudgetService.getEnvelopes());
+    setAssignments(envelopeBudgetService.getAssignments());
+  };
+
+  useEffect(() => {
+    loadEnvelopes();
+  }, []);
+
+  // Income plan entries only matter once envelope mode is on
+  useEffect(() => {
+    if (mode !== BudgetingMode.ENVELOPE) return;
+
+    envelopeBudgetService
+      .getIncomeEntries()
+      .then(setIncomeEntries)
+      .catch(() => setIncomeEntries([]));
+  }, [mode]);
+
+  const summary = useMemo(
+    () =>
+      summarizeEnvelopePeriod(
+        envelopes,
+        assignments,
+        transactions,
+        collectEnvelopeIncome(transactions, incomeEntries),
+        period
+      ),
+    [transactions, incomeEntries, envelopes, assignments, period]
+  );
+
+  const setMode = (nextMode: BudgetingMode) => {
+    envelopeBudgetService.setMode(nextMode);
+    setModeState(nextMode);
+  };
+
+  // Runs a service call, reloads state and reports failures as toasts
+  const run = (action: () => void, successMessage: string): boolean => {
+    setError(null);
+    try {
+      action();
+      loadEnvelopes();
+      toast.success(successMessage);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update envelopes';
+      setError(errorMessage);
+      toast.error(errorMessage);
+      return false;
+    }
+  };
+
+  const createEnvelope = (draft: EnvelopeDraft) =>
+    run(() => envelopeBudgetService.createEnvelope(draft), 'Envelope created');
+
+  const updateEnvelope = (envelopeId: string, draft: EnvelopeDraft) =>
+    run(() => envelopeBudgetService.updateEnvelope(envelopeId, draft), 'Envelope updated');
+
+  const deleteEnvelope = (envelopeId: string) =>
+    run(() => envelopeBudgetService.deleteEnvelope(envelopeId), 'Envelope deleted');
+
+  const assignToEnvelope = (envelopeId: string, amount: number) =>
+    run(
+      () => envelopeBudgetService.assign(summary, envelopeId, amount),
+      amount > 0 ? 'Money assigned' : 'Money returned to be assigned'
+    );
+
+  const moveMoney = (fromEnvelopeId: string, toEnvelopeId: string, amount: number) =>
+    run(() => envelopeBudgetService.moveMoney(summary, fromEnvelopeId, toEnvelopeId, amount), 'Money moved');
+
+  return {
+    mode,
+    envelopes,
+    period,
+    summary,
+    error,
+    setMode,
+    setPeriod,
+    createEnvelope,
+    updateEnvelope,
+    deleteEnvelope,
+    assignToEnvelope,
+    moveMoney,
+  };
+};
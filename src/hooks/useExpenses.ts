@@ -1,13 +1,30 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
 import { useAuth } from '../context/AuthContext';
 import { expenseService } from '../services/expense.service';
+import { statementImportService } from '../services/statement-import.service';
+import { transferService, CreateTransferRequest } from '../services/transfer.service';
+import { fxRateService } from '../services/fx-rate.service';
+import { budgetPeriodService } from '../services/budget-period.service';
+import { budgetAlertService } from '../services/budget-alert.service';
 import {
   Transaction,
   Budget,
+  BudgetCarryOver,
+  BudgetPeriodSnapshot,
   BankAccount,
   TransactionCategory,
-  TransactionType
+  SyncConflict,
+  RecurringTransaction,
+  RecurringStatus,
+  TransactionSplit,
+  TransferMatch,
+  TransferOrigin
 } from '../types/expense.types';
+import { BudgetAlert } from '../types/financial.types';
+import { ImportRow, ImportResult } from '../types/import.types';
+import { DEFAULT_BASE_CURRENCY } from '../utils/constants';
+import { forecastBudgetOverrun, BudgetOverrunForecast } from '../utils/budgetAlerts';
 
 export const useExpenses = () => {
   const { user } = useAuth();
@@ -16,21 +33,84 @@ export const useExpenses = () => {
   const [bankAccounts] = useState<BankAccount[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [recurringTransactions, setRecurringTransactions] = useState<RecurringTransaction[]>([]);
+  const [hasLoadedTransactions, setHasLoadedTransactions] = useState(false);
+  const [budgetAlertRecords, setBudgetAlertRecords] = useState<BudgetAlert[]>(budgetAlertService.getAlerts());
+
+  // Refresh offline ledger state (pending mutations and unresolved conflicts)
+  const refreshSyncState = async () => {
+    try {
+      setPendingSyncCount(await expenseService.getPendingMutationCount());
+      setSyncConflicts(await expenseService.getSyncConflicts());
+    } catch {
+      // IndexedDB unavailable (e.g. private browsing) - offline mode is simply disabled
+    }
+  };
 
   // Fetch transactions
-  const fetchTransactions = async () => {
-    if (!user) return;
+  const fetchTransactions = async (): Promise<Transaction[]> => {
+    if (!user) return [];
     
     try {
       setIsLoading(true);
       setError(null);
       // Use real API instead of mock
       const result = await expenseService.getTransactions();
-      setTransactions(result.transactions);
+      const merged = await expenseService.mergeWithLocalLedger(result.transactions);
+      const withTransfers = transferService.applyTransfers(merged);
+      setTransactions(withTransfers);
+      setHasLoadedTransactions(true);
+      return withTransfers;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch transactions');
+      return [];
     } finally {
       setIsLoading(false);
+      await refreshSyncState();
+    }
+  };
+
+  // Replay changes recorded while offline
+  const syncPendingTransactions = async () => {
+    if (!user || isSyncing) return;
+
+    try {
+      setIsSyncing(true);
+      const result = await expenseService.syncPendingTransactions();
+      transferService.remapTransactionIds(result.createdIds);
+
+      if (result.synced > 0) {
+        toast.success(`Synced ${result.synced} offline change(s)`);
+      }
+      if (result.conflicts > 0) {
+        toast.warning(`${result.conflicts} transaction(s) changed on the server. Please review the conflicts.`);
+      }
+      result.errors.forEach(message => toast.error(message));
+
+      if (result.synced > 0 || result.conflicts > 0 || result.errors.length > 0) {
+        await fetchTransactions();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync offline changes');
+    } finally {
+      setIsSyncing(false);
+      await refreshSyncState();
+    }
+  };
+
+  // Resolve a sync conflict by keeping either the local edit or the server row
+  const resolveSyncConflict = async (conflictId: string, resolution: 'local' | 'server') => {
+    try {
+      setError(null);
+      await expenseService.resolveSyncConflict(conflictId, resolution);
+      await fetchTransactions();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to resolve conflict';
+      setError(errorMessage);
+      throw new Error(errorMessage);
     }
   };
 
@@ -64,6 +144,7 @@ export const useExpenses = () => {
       // Call ONLY the actual API service - no mocks
       const newTransaction = await expenseService.createTransaction(transactionData);
       setTransactions(prev => [newTransaction, ...prev]);
+      await refreshSyncState();
       return newTransaction;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to add transaction';
@@ -72,6 +153,41 @@ export const useExpenses = () => {
     }
   };
 
+  // Update transaction
+  const updateTransaction = async (transactionId: string, transactionData: Partial<Transaction>) => {
+    try {
+      setError(null);
+      const current = transactions.find(t => t.id === transactionId);
+      const updatedTransaction = await expenseService.updateTransaction(transactionId, transactionData, current);
+      setTransactions(prev =>
+        prev.map(transaction =>
+          transaction.id === transactionId ? { ...transaction, ...updatedTransaction } : transaction
+        )
+      );
+      await refreshSyncState();
+      return updatedTransaction;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update transaction';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
+  // Delete transaction
+  const deleteTransaction = async (transactionId: string) => {
+    try {
+      setError(null);
+      const current = transactions.find(t => t.id === transactionId);
+      await expenseService.deleteTransaction(transactionId, current);
+      setTransactions(prev => prev.filter(transaction => transaction.id !== transactionId));
+      await refreshSyncState();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete transaction';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
   // Update transaction category
   const updateTransactionCategory = async (transactionId: string, category: TransactionCategory) => {
     try {
@@ -90,6 +206,26 @@ export const useExpenses = () => {
     }
   };
 
+  // Apply a category to existing transactions, e.g. when a rule is run retroactively
+  const recategorizeTransactions = async (
+    transactionIds: string[],
+    category: TransactionCategory
+  ): Promise<{ updated: number; failed: number }> => {
+    let updated = 0;
+    let failed = 0;
+
+    for (const transactionId of transactionIds) {
+      try {
+        await updateTransaction(transactionId, { category, isManuallyClassified: false });
+        updated++;
+      } catch {
+        failed++;
+      }
+    }
+
+    return { updated, failed };
+  };
+
   // Create budget
   const createBudget = async (budgetData: Omit<Budget, 'id' | 'userId' | 'spent' | 'createdAt' | 'updatedAt'>) => {
     try {
@@ -101,6 +237,9 @@ export const useExpenses = () => {
       
       // Call ONLY the actual API service - no mocks
       const newBudget = await expenseService.createBudget(budgetData);
+      if (budgetData.carryOver) {
+        budgetPeriodService.setCarryOver(newBudget.id, budgetData.carryOver);
+      }
       setBudgets(prev => [...prev, newBudget]);
       return newBudget;
     } catch (err) {
@@ -134,15 +273,22 @@ export const useExpenses = () => {
     }
   };
 
-  // Import CSV transactions
-  const importCSVTransactions = async (csvData: any[]) => {
+  // Import confirmed statement rows
+  const importStatementRows = async (rows: ImportRow[]): Promise<ImportResult> => {
     try {
       setIsLoading(true);
       setError(null);
-      const result = await expenseService.mockImportCSV(csvData);
+      const result = await statementImportService.commitImport(rows);
       
-      // Refresh transactions after import
-      await fetchTransactions();
+      // Refresh transactions after import and link the transfers it completed
+      if (result.imported > 0) {
+        const refreshed = await fetchTransactions();
+        const linked = transferService.autoLinkMatches(refreshed, result.transactionIds);
+        if (linked.length > 0) {
+          setTransactions(transferService.applyTransfers(refreshed));
+          toast.info(`Matched ${linked.length} transfer(s) between your accounts`);
+        }
+      }
       
       return result;
     } catch (err) {
@@ -154,20 +300,178 @@ export const useExpenses = () => {
     }
   };
 
+  // Totals are reported in the user's base currency; rows without a known rate are left out
+  const baseCurrency = user?.currency || DEFAULT_BASE_CURRENCY;
+  const { converted: baseTransactions, missing: missingFxRates } = useMemo(
+    () => fxRateService.convertTransactions(transactions, baseCurrency),
+    [transactions, baseCurrency]
+  );
+
+  const baseAmounts = useMemo(
+    () => new Map(baseTransactions.map(t => [t.id, t.amount])),
+    [baseTransactions]
+  );
+
+  const getConvertedAmount = (transactionId: string): number | null => baseAmounts.get(transactionId) ?? null;
+
+  // Each budget rolled into its current period, with spending re-attributed from split parents
+  // to their category lines and any surplus or deficit carried in from the previous period
+  const budgetsWithSplits = useMemo(
+    () =>
+      budgets.map(budget =>
+        budgetPeriodService.getCurrentInstance(
+          budget,
+          baseTransactions,
+          expenseService.calculateBudgetSpent(budget, baseTransactions)
+        )
+      ),
+    [budgets, baseTransactions]
+  );
+
+  // Snapshot periods that have ended from the complete history they cover, converted and with
+  // transfers marked the same way as the loaded transactions
+  useEffect(() => {
+    if (!user || budgets.length === 0) return;
+    budgetPeriodService
+      .closeEndedPeriods(budgets, async (startDate, endDate) => {
+        const fetched = await expenseService.getAllTransactions(startDate, endDate);
+        const merged = await expenseService.mergeWithLocalLedger(fetched);
+        return fxRateService.convertTransactions(transferService.applyTransfers(merged), baseCurrency).converted;
+      })
+      .catch(() => {
+        // Periods stay open until their transactions can be loaded in full
+      });
+  }, [user, budgets, baseCurrency]);
+
+  // Raise alerts for budgets that crossed a level since the last evaluation; stored crossings keep
+  // other hook instances and later renders from alerting twice
+  useEffect(() => {
+    if (!hasLoadedTransactions) return;
+    const raised = budgetAlertService.evaluate(budgetsWithSplits, baseCurrency);
+    raised.forEach(alert => (alert.type === 'exceeded' ? toast.error(alert.message) : toast.warning(alert.message)));
+    setBudgetAlertRecords(budgetAlertService.getAlerts());
+  }, [hasLoadedTransactions, budgetsWithSplits, baseCurrency]);
+
+  const budgetForecasts = useMemo(
+    () =>
+      budgetsWithSplits
+        .filter(budget => budget.isActive)
+        .map(budget => forecastBudgetOverrun(budget))
+        .filter((forecast): forecast is BudgetOverrunForecast => forecast !== null),
+    [budgetsWithSplits]
+  );
+
+  const dashboardAlerts = useMemo(
+    () => budgetAlertService.toDashboardAlerts(budgetAlertRecords, budgetForecasts, budgetsWithSplits, baseCurrency),
+    [budgetAlertRecords, budgetForecasts, budgetsWithSplits, baseCurrency]
+  );
+
+  const markBudgetAlertRead = (alertId: string) => {
+    budgetAlertService.markAsRead(alertId);
+    setBudgetAlertRecords(budgetAlertService.getAlerts());
+  };
+
+  const getBudgetForecast = (budgetId: string): BudgetOverrunForecast | undefined =>
+    budgetForecasts.find(forecast => forecast.budgetId === budgetId);
+
+  // Past and current periods of a budget, oldest first
+  const getBudgetHistory = (budgetId: string): BudgetPeriodSnapshot[] => {
+    const budget = budgets.find(b => b.id === budgetId);
+    if (!budget) return [];
+    return budgetPeriodService.getPeriods(budget, baseTransactions, expenseService.calculateBudgetSpent(budget, baseTransactions));
+  };
+
+  const setBudgetCarryOver = (budgetId: string, carryOver: BudgetCarryOver) => {
+    budgetPeriodService.setCarryOver(budgetId, carryOver);
+    // Budget periods are derived from stored settings, so re-derive them
+    setBudgets(prev => [...prev]);
+  };
+
+  // Drop stored snapshots so closed periods are recalculated from current transactions
+  const recalculateBudgetHistory = (budgetId: string) => {
+    budgetPeriodService.resetSnapshots(budgetId);
+    setBudgets(prev => [...prev]);
+  };
+
+  // Split a transaction across categories (an empty list removes the split)
+  const splitTransaction = async (transactionId: string, splits: TransactionSplit[]) => {
+    const transaction = transactions.find(t => t.id === transactionId);
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    try {
+      setError(null);
+      const updatedTransaction = await expenseService.splitTransaction(transaction, splits);
+      setTransactions(prev =>
+        prev.map(t => (t.id === transactionId ? { ...t, ...updatedTransaction, splits } : t))
+      );
+      await refreshSyncState();
+      return updatedTransaction;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to split transaction';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
+  // Transfers between own accounts
+  const createTransfer = async (request: CreateTransferRequest) => {
+    try {
+      setError(null);
+      const { legs } = await transferService.createTransfer(request);
+      setTransactions(prev => [...legs, ...prev]);
+      await refreshSyncState();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create transfer';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
+  const transferMatches = useMemo(() => transferService.findMatches(transactions), [transactions]);
+
+  const linkTransfer = (match: TransferMatch) => {
+    transferService.linkMatch(match, TransferOrigin.MATCHED);
+    setTransactions(prev => transferService.applyTransfers(prev));
+  };
+
+  const dismissTransferMatch = (match: TransferMatch) => {
+    transferService.dismissMatch(match);
+    setTransactions(prev => transferService.applyTransfers(prev));
+  };
+
+  const unlinkTransfer = async (transferId: string) => {
+    try {
+      transferService.unlinkTransfer(transferId);
+      // The linked rows go back to the income/expense the server has on record
+      await fetchTransactions();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to unlink transfer';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
   // Calculate totals
   const getTotalIncome = (): number => {
     if (!transactions || !Array.isArray(transactions)) return 0;
-    return expenseService.getTotalIncome(transactions);
+    return expenseService.getTotalIncome(baseTransactions);
   };
 
   const getTotalExpenses = (): number => {
     if (!transactions || !Array.isArray(transactions)) return 0;
-    return expenseService.getTotalExpenses(transactions);
+    return expenseService.getTotalExpenses(baseTransactions);
+  };
+
+  const getAverageMonthlyExpenses = (months: number): number => {
+    if (!transactions || !Array.isArray(transactions)) return 0;
+    return expenseService.getAverageMonthlyExpenses(baseTransactions, months);
   };
 
   const getNetSavings = (): number => {
     if (!transactions || !Array.isArray(transactions)) return 0;
-    return expenseService.getNetSavings(transactions);
+    return expenseService.getNetSavings(baseTransactions);
   };
 
   // Get spending by category
@@ -175,22 +479,7 @@ export const useExpenses = () => {
     if (!transactions || !Array.isArray(transactions)) {
       return [];
     }
-    
-    const expenses = transactions.filter(t => t.type === TransactionType.EXPENSE);
-    const totalExpenses = Math.abs(expenses.reduce((sum, t) => sum + t.amount, 0));
-    
-    const categoryTotals: Record<string, number> = {};
-    
-    expenses.forEach(transaction => {
-      const category = transaction.category;
-      categoryTotals[category] = (categoryTotals[category] || 0) + Math.abs(transaction.amount);
-    });
-    
-    return Object.entries(categoryTotals).map(([category, amount]) => ({
-      category,
-      amount,
-      percentage: totalExpenses > 0 ? (amount / totalExpenses) * 100 : 0,
-    }));
+    return expenseService.getCategorySpending(baseTransactions);
   };
 
   // Check budget alerts
@@ -198,7 +487,7 @@ export const useExpenses = () => {
     if (!budgets || !Array.isArray(budgets)) {
       return [];
     }
-    return budgets.filter(budget => {
+    return budgetsWithSplits.filter(budget => {
       const utilization = expenseService.calculateBudgetUtilization(budget);
       return utilization >= budget.alertThreshold;
     });
@@ -209,7 +498,7 @@ export const useExpenses = () => {
     if (!budgets || !Array.isArray(budgets)) {
       return [];
     }
-    return budgets.filter(budget => expenseService.isBudgetExceeded(budget));
+    return budgetsWithSplits.filter(budget => expenseService.isBudgetExceeded(budget));
   };
 
   // Initialize data on mount
@@ -218,25 +507,83 @@ export const useExpenses = () => {
     fetchBudgets();
   }, [user]);
 
+  // Re-run recurring detection whenever the transaction history changes
+  const refreshRecurringTransactions = async () => {
+    setRecurringTransactions(await expenseService.detectRecurringTransactions(transactions));
+  };
+
+  useEffect(() => {
+    refreshRecurringTransactions();
+  }, [transactions]);
+
+  // Confirm, dismiss or cancel a detected series
+  const setRecurringStatus = async (seriesId: string, status: RecurringStatus) => {
+    expenseService.setRecurringStatus(seriesId, status);
+    await refreshRecurringTransactions();
+  };
+
+  // Replay the offline ledger whenever connectivity returns
+  useEffect(() => {
+    if (!user) return;
+
+    if (navigator.onLine) {
+      syncPendingTransactions();
+    }
+
+    const handleOnline = () => {
+      syncPendingTransactions();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [user]);
+
   return {
     transactions,
-    budgets,
+    budgets: budgetsWithSplits,
     bankAccounts,
     isLoading,
     error,
+    pendingSyncCount,
+    syncConflicts,
+    isSyncing,
+    recurringTransactions,
+    transferMatches,
+    baseCurrency,
+    baseTransactions,
+    missingFxRates,
+    getConvertedAmount,
     fetchTransactions,
     fetchBudgets,
     addTransaction,
+    updateTransaction,
+    deleteTransaction,
+    syncPendingTransactions,
+    resolveSyncConflict,
+    setRecurringStatus,
     updateTransactionCategory,
+    recategorizeTransactions,
+    splitTransaction,
+    createTransfer,
+    linkTransfer,
+    dismissTransferMatch,
+    unlinkTransfer,
     createBudget,
     updateBudget,
-    importCSVTransactions,
+    getBudgetHistory,
+    setBudgetCarryOver,
+    recalculateBudgetHistory,
+    importStatementRows,
     getTotalIncome,
     getTotalExpenses,
+    getAverageMonthlyExpenses,
     getNetSavings,
     getSpendingByCategory,
     getBudgetAlerts,
     getExceededBudgets,
+    budgetAlerts: budgetAlertRecords,
+    dashboardAlerts,
+    markBudgetAlertRead,
+    getBudgetForecast,
   };
 };
 
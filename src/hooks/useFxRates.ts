@@ -0,0 +1,75 @@
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { fxRateService, FxRateDraft } from "../services/fx-rate.service";
+import { FxRate } from "../types/currency.types";
+
+export const useFxRates = () => {
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRates = () => {
+    setRates(fxRateService.getRates());
+  };
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  // Add a rate; an existing rate for the same pair and day is replaced
+  const addRate = (draft: FxRateDraft): FxRate | null => {
+    setError(null);
+    try {
+      const rate = fxRateService.addRate(draft);
+      loadRates();
+      toast.success("Exchange rate saved");
+      return rate;
+    } catch (err: any) {
+      const errorMessage = err.message || "Failed to save exchange rate";
+      setError(errorMessage);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  // Delete a rate
+  const deleteRate = (rateId: string) => {
+    fxRateService.deleteRate(rateId);
+    loadRates();
+    toast.success("Exchange rate deleted");
+  };
+
+  // Import rates from a CSV file
+  const importRates = async (file: File) => {
+    setError(null);
+    setIsImporting(true);
+    try {
+      const result = await fxRateService.importRates(file);
+      loadRates();
+      if (result.errors.length > 0) {
+        toast.warning(
+          `Imported ${result.imported} rate(s), skipped ${result.errors.length}: ${result.errors[0]}`
+        );
+      } else {
+        toast.success(`Imported ${result.imported} rate(s)`);
+      }
+      return result;
+    } catch (err: any) {
+      const errorMessage = err.message || "Failed to import exchange rates";
+      setError(errorMessage);
+      toast.error(errorMessage);
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return {
+    rates,
+    isImporting,
+    error,
+    addRate,
+    deleteRate,
+    importRates,
+  };
+};
@@ -0,0 +1,139 @@
+import { useState, useEffect, useMemo } from "react";
+import { toast } from "sonner";
+import { goalService } from "../services/goal.service";
+import { BankAccount } from "../types/account.types";
+import {
+  CreateGoalRequest,
+  Goal,
+  GoalProgress,
+  UpdateGoalRequest,
+} from "../types/financial.types";
+import { calculateGoalProgress } from "../utils/goalProgress";
+
+export const useGoals = () => {
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const replaceGoal = (goal: Goal) => {
+    setGoals((prev) => prev.map((g) => (g.id === goal.id ? goal : g)));
+  };
+
+  // Fetch goals and add any auto-contributions that fell due since the last visit
+  const fetchGoals = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const fetched = await goalService.getGoals();
+      const result = await goalService.applyDueContributions(fetched);
+      setGoals(result.goals);
+      if (result.applied > 0) {
+        toast.success(`Added ${result.applied} scheduled goal contribution(s)`);
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to fetch goals");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchGoals();
+  }, []);
+
+  const progressByGoal = useMemo(() => {
+    const progress = new Map<string, GoalProgress>();
+    goals.forEach((goal) => progress.set(goal.id, calculateGoalProgress(goal)));
+    return progress;
+  }, [goals]);
+
+  const getGoalProgress = (goalId: string): GoalProgress | undefined =>
+    progressByGoal.get(goalId);
+
+  // Runs a goal mutation and reports failures as toasts
+  const run = async <T>(
+    action: () => Promise<T>,
+    successMessage: string,
+    failureMessage: string
+  ): Promise<T | null> => {
+    setError(null);
+    try {
+      const result = await action();
+      toast.success(successMessage);
+      return result;
+    } catch (err: any) {
+      const errorMessage = err.message || failureMessage;
+      setError(errorMessage);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  const createGoal = (data: CreateGoalRequest) =>
+    run(
+      async () => {
+        const goal = await goalService.createGoal(data);
+        setGoals((prev) => [...prev, goal]);
+        return goal;
+      },
+      "Goal created",
+      "Failed to create goal"
+    );
+
+  const updateGoal = (goal: Goal, data: UpdateGoalRequest) =>
+    run(
+      async () => {
+        const updated = await goalService.updateGoal(goal, data);
+        replaceGoal(updated);
+        return updated;
+      },
+      "Goal updated",
+      "Failed to update goal"
+    );
+
+  const deleteGoal = (goalId: string) =>
+    run(
+      async () => {
+        await goalService.deleteGoal(goalId);
+        setGoals((prev) => prev.filter((g) => g.id !== goalId));
+        return true;
+      },
+      "Goal deleted",
+      "Failed to delete goal"
+    );
+
+  const contribute = (goal: Goal, amount: number) =>
+    run(
+      async () => {
+        const updated = await goalService.contribute(goal, amount);
+        replaceGoal(updated);
+        return updated;
+      },
+      "Contribution added",
+      "Failed to add contribution"
+    );
+
+  const syncWithAccount = (goal: Goal, account: BankAccount) =>
+    run(
+      async () => {
+        const updated = await goalService.syncWithAccount(goal, account);
+        replaceGoal(updated);
+        return updated;
+      },
+      `Goal updated from ${account.accountName}`,
+      "Failed to sync goal with account"
+    );
+
+  return {
+    goals,
+    isLoading,
+    error,
+    fetchGoals,
+    getGoalProgress,
+    createGoal,
+    updateGoal,
+    deleteGoal,
+    contribute,
+    syncWithAccount,
+  };
+};
@@ -0,0 +1,226 @@
+import { useState, useEffect, useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { useAuth } from "../context/AuthContext";
+import { investmentService } from "../services/investment.service";
+import {
+  holdingsService,
+  HoldingTransactionDraft,
+} from "../services/holdings.service";
+import { priceService } from "../services/price.service";
+import {
+  HoldingTransaction,
+  Investment,
+  InvestmentPortfolio,
+  PricePoint,
+} from "../types/investment.types";
+import { DEFAULT_BASE_CURRENCY } from "../utils/constants";
+import {
+  buildHoldingPosition,
+  summarizePortfolioPerformance,
+} from "../utils/holdings";
+import { getPriceSymbol, revalueInvestment } from "../utils/valuation";
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+export const useHoldings = () => {
+  const { user } = useAuth();
+  const [portfolio, setPortfolio] = useState<InvestmentPortfolio | null>(null);
+  const [transactions, setTransactions] = useState<HoldingTransaction[]>(() =>
+    holdingsService.getTransactions()
+  );
+  const [valuationDate, setValuationDate] = useState(today);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currency = user?.currency || DEFAULT_BASE_CURRENCY;
+  const investments = useMemo(() => portfolio?.investments || [], [portfolio]);
+
+  // Investments come back revalued from stored prices as of the valuation date
+  const fetchPortfolio = async (asOf: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setPortfolio(await investmentService.getValuedPortfolio(parseISO(asOf)));
+    } catch (err: any) {
+      setError(err.message || "Failed to load portfolio");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPortfolio(today());
+  }, []);
+
+  const performance = useMemo(
+    () =>
+      summarizePortfolioPerformance(
+        investments,
+        transactions,
+        parseISO(valuationDate)
+      ),
+    [investments, transactions, valuationDate]
+  );
+
+  // The investment as saved, not as revalued for the valuation date on screen, which can be
+  // a date before it was bought
+  const getStoredInvestment = async (investmentId: string) => {
+    const stored = (await investmentService.getPortfolio()).investments.find(
+      (inv) => inv.id === investmentId
+    );
+    if (!stored) throw new Error("holding not found");
+    return stored;
+  };
+
+  // Keeps the investment's own totals in step with its ledger and today's price so other views agree
+  const syncInvestment = async (investment: Investment) => {
+    const ledger = holdingsService.getTransactions();
+    try {
+      const stored = await getStoredInvestment(investment.id);
+      const { investment: current } = revalueInvestment(
+        stored,
+        ledger,
+        (symbol, date) => priceService.getPriceOn(symbol, date)
+      );
+      const position = buildHoldingPosition(current, ledger);
+      await investmentService.updateInvestment(investment.id, {
+        quantity: position.quantity,
+        investedAmount: position.costBasis,
+        currentValue: position.marketValue,
+        returns: position.unrealizedGain,
+        returnPercentage:
+          position.costBasis > 0
+            ? (position.unrealizedGain / position.costBasis) * 100
+            : 0,
+        lastUpdated: current.lastUpdated,
+      });
+    } catch (err: any) {
+      toast.warning(
+        `Saved, but ${investment.name}'s totals couldn't be updated: ${
+          err.message || "request failed"
+        }`
+      );
+    }
+    await fetchPortfolio(valuationDate);
+  };
+
+  const addTransaction = async (
+    investment: Investment,
+    draft: HoldingTransactionDraft
+  ): Promise<boolean> => {
+    try {
+      // The first entry also records the opening buy, which needs the stored cost and units
+      holdingsService.addTransaction(
+        await getStoredInvestment(investment.id),
+        draft
+      );
+      setTransactions(holdingsService.getTransactions());
+      toast.success("Transaction recorded");
+    } catch (err: any) {
+      toast.error(err.message || "Failed to record transaction");
+      return false;
+    }
+    await syncInvestment(investment);
+    return true;
+  };
+
+  const deleteTransaction = async (
+    investment: Investment,
+    transactionId: string
+  ): Promise<boolean> => {
+    try {
+      holdingsService.deleteTransaction(transactionId);
+      setTransactions(holdingsService.getTransactions());
+      toast.success("Transaction removed");
+    } catch (err: any) {
+      toast.error(err.message || "Failed to remove transaction");
+      return false;
+    }
+    await syncInvestment(investment);
+    return true;
+  };
+
+  const getTransactions = (investmentId: string): HoldingTransaction[] =>
+    transactions.filter((t) => t.investmentId === investmentId);
+
+  const changeValuationDate = async (date: string) => {
+    if (!date) return;
+    setValuationDate(date);
+    await fetchPortfolio(date);
+  };
+
+  // The price the holding is valued at, or null when it still uses its last valuation
+  const getPrice = (investment: Investment): PricePoint | null =>
+    priceService.getPriceOn(getPriceSymbol(investment), valuationDate);
+
+  const importPrices = async (file: File): Promise<boolean> => {
+    setIsImporting(true);
+    try {
+      const result = await priceService.importFile(
+        file,
+        investments.map(getPriceSymbol)
+      );
+      if (result.imported === 0) {
+        toast.info(
+          `None of the ${result.skipped} prices in ${file.name} match your holdings`
+        );
+        return false;
+      }
+      toast.success(
+        `Imported ${result.imported} price${result.imported === 1 ? "" : "s"}${
+          result.skipped > 0 ? `, skipped ${result.skipped} not held` : ""
+        }`
+      );
+      if (result.errors.length > 0) {
+        toast.warning(
+          `${result.errors.length} line${
+            result.errors.length === 1 ? "" : "s"
+          } couldn't be read: ${result.errors[0]}`
+        );
+      }
+    } catch (err: any) {
+      toast.error(err.message || "Failed to import prices");
+      return false;
+    } finally {
+      setIsImporting(false);
+    }
+    await fetchPortfolio(valuationDate);
+    return true;
+  };
+
+  const addManualPrice = async (
+    investment: Investment,
+    date: string,
+    price: number
+  ): Promise<boolean> => {
+    try {
+      priceService.addManualPrice(getPriceSymbol(investment), date, price);
+      toast.success(`Price saved for ${investment.name}`);
+    } catch (err: any) {
+      toast.error(err.message || "Failed to save price");
+      return false;
+    }
+    await fetchPortfolio(valuationDate);
+    return true;
+  };
+
+  return {
+    investments,
+    performance,
+    currency,
+    valuationDate,
+    isLoading,
+    isImporting,
+    error,
+    fetchPortfolio,
+    changeValuationDate,
+    getTransactions,
+    addTransaction,
+    deleteTransaction,
+    getPrice,
+    importPrices,
+    addManualPrice,
+  };
+};
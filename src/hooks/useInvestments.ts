@@ -1,15 +1,23 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
 import { useAuth } from '../context/AuthContext';
 import { investmentService } from '../services/investment.service';
+import { suggestionService } from '../services/suggestion.service';
+import { Transaction } from '../types/expense.types';
 import {
   InvestmentSuggestion,
+  PendingInvestment,
   SavingsProjection,
   InvestmentRecommendationParams
 } from '../types/investment.types';
+import { DEFAULT_BASE_CURRENCY } from '../utils/constants';
+import { getRegenerationReason, matchInvestmentDebits } from '../utils/suggestionLifecycle';
 
-export const useInvestments = () => {
+// Transactions are only needed to spot the debits for accepted suggestions
+export const useInvestments = (transactions: Transaction[] = []) => {
   const { user } = useAuth();
   const [suggestions, setSuggestions] = useState<InvestmentSuggestion[]>([]);
+  const [pendingInvestments, setPendingInvestments] = useState<PendingInvestment[]>([]);
   const [savingsProjection, setSavingsProjection] = useState<SavingsProjection | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -21,8 +29,8 @@ export const useInvestments = () => {
     try {
       setIsLoading(true);
       setError(null);
-      const suggestionList = await investmentService.mockGetInvestmentSuggestions();
-      setSuggestions(suggestionList);
+      setSuggestions(suggestionService.getSuggestions());
+      setPendingInvestments(suggestionService.getPendingInvestments());
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch investment suggestions');
     } finally {
@@ -31,16 +39,21 @@ export const useInvestments = () => {
   };
 
   // Generate investment suggestions
-  const generateSuggestions = async (params: InvestmentRecommendationParams): Promise<InvestmentSuggestion[]> => {
+  const generateSuggestions = async (
+    params: InvestmentRecommendationParams,
+    context: { liquidSavings: number; monthlyExpenses: number }
+  ): Promise<InvestmentSuggestion[]> => {
     try {
       setIsLoading(true);
       setError(null);
       
-      const newSuggestions = await investmentService.mockGenerateInvestmentSuggestions(params);
+      const newSuggestions = await investmentService.generateRuleBasedSuggestions(params, {
+        ...context,
+        userId: user?.id || '',
+        currency: user?.currency || DEFAULT_BASE_CURRENCY
+      });
       
-      // Store suggestions for persistence
-      localStorage.setItem('mock_investment_suggestions', JSON.stringify(newSuggestions));
-      setSuggestions(newSuggestions);
+      setSuggestions(suggestionService.saveGeneratedSuggestions(newSuggestions, params.surplusAmount));
       
       return newSuggestions;
     } catch (err) {
@@ -52,20 +65,13 @@ export const useInvestments = () => {
     }
   };
 
-  // Accept suggestion
-  const acceptSuggestion = async (suggestionId: string): Promise<void> => {
+  // Accept suggestion; the investment waits for its debit before joining the portfolio
+  const acceptSuggestion = async (suggestionId: string, investmentAmount?: number): Promise<void> => {
     try {
       setError(null);
-      await investmentService.mockAcceptSuggestion(suggestionId);
-      
-      // Update local state
-      setSuggestions(prev => 
-        prev.map(suggestion => 
-          suggestion.id === suggestionId 
-            ? { ...suggestion, status: 'accepted' as any, updatedAt: new Date() }
-            : suggestion
-        )
-      );
+      suggestionService.acceptSuggestion(suggestionId, investmentAmount);
+      setSuggestions(suggestionService.getSuggestions());
+      setPendingInvestments(suggestionService.getPendingInvestments());
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to accept suggestion';
       setError(errorMessage);
@@ -77,16 +83,8 @@ export const useInvestments = () => {
   const rejectSuggestion = async (suggestionId: string): Promise<void> => {
     try {
       setError(null);
-      await investmentService.mockRejectSuggestion(suggestionId);
-      
-      // Update local state
-      setSuggestions(prev => 
-        prev.map(suggestion => 
-          suggestion.id === suggestionId 
-            ? { ...suggestion, status: 'rejected' as any, updatedAt: new Date() }
-            : suggestion
-        )
-      );
+      suggestionService.rejectSuggestion(suggestionId);
+      setSuggestions(suggestionService.getSuggestions());
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to reject suggestion';
       setError(errorMessage);
@@ -94,6 +92,39 @@ export const useInvestments = () => {
     }
   };
 
+  // Debits that look like the payment for each investment still awaiting one
+  const debitMatches = useMemo(
+    () => matchInvestmentDebits(pendingInvestments, transactions),
+    [pendingInvestments, transactions]
+  );
+
+  const confirmPendingInvestment = async (pending: PendingInvestment): Promise<boolean> => {
+    const debit = debitMatches.get(pending.id);
+    if (!debit) {
+      toast.error('No matching debit found yet');
+      return false;
+    }
+    try {
+      await suggestionService.confirmPendingInvestment(pending, debit);
+      setPendingInvestments(suggestionService.getPendingInvestments());
+      toast.success(`${pending.name} added to your portfolio`);
+      return true;
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to add the investment');
+      return false;
+    }
+  };
+
+  const cancelPendingInvestment = (pendingId: string) => {
+    suggestionService.cancelPendingInvestment(pendingId);
+    setPendingInvestments(suggestionService.getPendingInvestments());
+    toast.success('Investment cancelled');
+  };
+
+  // Why stored suggestions no longer fit this projection, or null when they do
+  const getStaleReason = (projection: SavingsProjection): string | null =>
+    getRegenerationReason(suggestionService.getSuggestions(), projection.surplusAmount);
+
   // Calculate savings projection
   const calculateSavingsProjection = async (
     currentIncome: number, 
@@ -131,6 +162,11 @@ export const useInvestments = () => {
     return suggestions.filter(s => s.status === 'accepted');
   };
 
+  // Get investments still waiting for their debit
+  const getAwaitingInvestments = (): PendingInvestment[] => {
+    return pendingInvestments.filter(p => p.status === 'awaiting_debit');
+  };
+
   // Get total suggested amount
   const getTotalSuggestedAmount = (): number => {
     return getPendingSuggestions().reduce((total, suggestion) => total + suggestion.suggestedAmount, 0);
@@ -152,16 +188,22 @@ export const useInvestments = () => {
 
   return {
     suggestions,
+    pendingInvestments,
+    debitMatches,
     savingsProjection,
     isLoading,
     error,
     generateSuggestions,
     acceptSuggestion,
     rejectSuggestion,
+    confirmPendingInvestment,
+    cancelPendingInvestment,
+    getStaleReason,
     calculateSavingsProjection,
     fetchSuggestions,
     getPendingSuggestions,
     getAcceptedSuggestions,
+    getAwaitingInvestments,
     getTotalSuggestedAmount,
     getAverageExpectedReturn,
   };
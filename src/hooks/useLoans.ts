@@ -0,0 +1,60 @@
+import { useMemo } from "react";
+import { AccountType, BankAccount } from "../types/account.types";
+import { Transaction } from "../types/expense.types";
+import {
+  AmortizationRow,
+  InstallmentPayment,
+  LoanSummary,
+  buildAmortizationSchedule,
+  matchEmiPayments,
+  simulatePrepayment,
+  summarizeLoan,
+} from "../utils/loanAmortization";
+
+export interface LoanOverview {
+  account: BankAccount;
+  schedule: AmortizationRow[];
+  summary: LoanSummary;
+  payments: InstallmentPayment[];
+  missedCount: number;
+}
+
+export const useLoans = (
+  accounts: BankAccount[],
+  transactions: Transaction[]
+) => {
+  // Loan accounts linked before terms could be recorded have nothing to schedule
+  const loans = useMemo<LoanOverview[]>(
+    () =>
+      accounts
+        .filter(
+          (account) =>
+            account.accountType === AccountType.LOAN && account.loan
+        )
+        .map((account) => {
+          const schedule = buildAmortizationSchedule(account.loan!);
+          const payments = matchEmiPayments(account, schedule, transactions);
+          return {
+            account,
+            schedule,
+            summary: summarizeLoan(schedule, payments),
+            payments,
+            missedCount: payments.filter(
+              (payment) => payment.status === "missed"
+            ).length,
+          };
+        }),
+    [accounts, transactions]
+  );
+
+  const loansWithoutTerms = accounts.filter(
+    (account) => account.accountType === AccountType.LOAN && !account.loan
+  );
+
+  const simulate = (account: BankAccount, amount: number, date: string) =>
+    account.loan && amount > 0
+      ? simulatePrepayment(account.loan, amount, date)
+      : [];
+
+  return { loans, loansWithoutTerms, simulate };
+};
@@ -0,0 +1,119 @@
+import { useState, useEffect, useMemo } from "react";
+import { toast } from "sonner";
+import { useAuth } from "../context/AuthContext";
+import {
+  netWorthService,
+  ManualAssetDraft,
+} from "../services/net-worth.service";
+import { Account } from "../types/financial.types";
+import { Investment } from "../types/investment.types";
+import { ManualAsset, NetWorthSnapshot } from "../types/networth.types";
+import { DEFAULT_BASE_CURRENCY } from "../utils/constants";
+import { getMonthlyNetWorthChanges } from "../utils/netWorth";
+
+export const useNetWorth = () => {
+  const { user } = useAuth();
+  const [snapshots, setSnapshots] = useState<NetWorthSnapshot[]>(() =>
+    netWorthService.getSnapshots()
+  );
+  const [manualAssets, setManualAssets] = useState<ManualAsset[]>(() =>
+    netWorthService.getManualAssets()
+  );
+  const [unconvertedAccounts, setUnconvertedAccounts] = useState<Account[]>(
+    []
+  );
+  const [unconvertedInvestments, setUnconvertedInvestments] = useState<
+    Investment[]
+  >([]);
+  const [failedSources, setFailedSources] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseCurrency = user?.currency || DEFAULT_BASE_CURRENCY;
+
+  // Value everything held today and add it to the time series
+  const captureSnapshot = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await netWorthService.captureSnapshot(baseCurrency);
+      setSnapshots(netWorthService.getSnapshots());
+      setUnconvertedAccounts(result.unconvertedAccounts);
+      setUnconvertedInvestments(result.unconvertedInvestments);
+      setFailedSources(result.failedSources);
+    } catch (err: any) {
+      setError(err.message || "Failed to update net worth");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    captureSnapshot();
+  }, []);
+
+  const current = snapshots[snapshots.length - 1] || null;
+  const monthlyChanges = useMemo(
+    () => getMonthlyNetWorthChanges(snapshots),
+    [snapshots]
+  );
+
+  // Manual asset changes are reflected in today's snapshot straight away
+  const runAssetChange = async (
+    action: () => void,
+    successMessage: string,
+    failureMessage: string
+  ): Promise<boolean> => {
+    try {
+      action();
+      setManualAssets(netWorthService.getManualAssets());
+      toast.success(successMessage);
+      await captureSnapshot();
+      return true;
+    } catch (err: any) {
+      toast.error(err.message || failureMessage);
+      return false;
+    }
+  };
+
+  const addManualAsset = (draft: ManualAssetDraft) =>
+    runAssetChange(
+      () => netWorthService.addManualAsset(draft),
+      "Asset added",
+      "Failed to add asset"
+    );
+
+  const updateManualAsset = (
+    assetId: string,
+    changes: Partial<ManualAssetDraft>
+  ) =>
+    runAssetChange(
+      () => netWorthService.updateManualAsset(assetId, changes),
+      "Asset updated",
+      "Failed to update asset"
+    );
+
+  const deleteManualAsset = (assetId: string) =>
+    runAssetChange(
+      () => netWorthService.deleteManualAsset(assetId),
+      "Asset removed",
+      "Failed to remove asset"
+    );
+
+  return {
+    snapshots,
+    current,
+    monthlyChanges,
+    manualAssets,
+    unconvertedAccounts,
+    unconvertedInvestments,
+    failedSources,
+    baseCurrency,
+    isLoading,
+    error,
+    captureSnapshot,
+    addManualAsset,
+    updateManualAsset,
+    deleteManualAsset,
+  };
+};
@@ -0,0 +1,81 @@
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { notificationApiService } from "../api/endpoints/notification.api";
+import { NotificationSettings } from "../types/financial.types";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "../utils/notifications";
+
+export const useNotificationSettings = () => {
+  const [settings, setSettings] = useState<NotificationSettings>(
+    DEFAULT_NOTIFICATION_SETTINGS
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch saved settings; defaults stay in place when none exist yet
+  const fetchSettings = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await notificationApiService.getSettings();
+      // Settings saved before a group existed pick up that group's defaults
+      if (response.data) {
+        setSettings({ ...DEFAULT_NOTIFICATION_SETTINGS, ...response.data });
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to fetch notification settings");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const saveSettings = async (
+    nextSettings: NotificationSettings
+  ): Promise<boolean> => {
+    if (
+      !Number.isInteger(nextSettings.frequency.reminderDays) ||
+      nextSettings.frequency.reminderDays < 0 ||
+      nextSettings.frequency.reminderDays > 30
+    ) {
+      toast.error("Reminder days must be a whole number between 0 and 30");
+      return false;
+    }
+    if (
+      !(nextSettings.thresholds.creditUtilization > 0) ||
+      nextSettings.thresholds.creditUtilization > 100
+    ) {
+      toast.error("Credit utilization warning must be between 1 and 100%");
+      return false;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await notificationApiService.updateSettings(
+        nextSettings
+      );
+      setSettings(response.data || nextSettings);
+      toast.success("Notification settings saved");
+      return true;
+    } catch (err: any) {
+      const errorMessage = err.message || "Failed to save notification settings";
+      setError(errorMessage);
+      toast.error(errorMessage);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    settings,
+    isLoading,
+    isSaving,
+    error,
+    saveSettings,
+  };
+};
@@ -0,0 +1,172 @@
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { notificationApiService } from "../api/endpoints/notification.api";
+import { localNotificationService } from "../services/local-notification.service";
+import { PaginationInfo } from "../types/api.types";
+import { Notification } from "../types/financial.types";
+import {
+  NOTIFICATIONS_PAGE_SIZE,
+  isNotificationUnread,
+} from "../utils/notifications";
+
+export const useNotifications = () => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [page, setPage] = useState(1);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Count unread notifications; unread ones beyond the first page are assumed not to have expired
+  const fetchUnreadCount = async () => {
+    const localUnread = localNotificationService
+      .getNotifications()
+      .filter((n) => isNotificationUnread(n)).length;
+    try {
+      const response = await notificationApiService.getNotifications({
+        isRead: false,
+        pageSize: NOTIFICATIONS_PAGE_SIZE,
+      });
+      const firstPage = response.data || [];
+      const beyondFirstPage = Math.max(
+        (response.pagination?.totalItems ?? firstPage.length) - firstPage.length,
+        0
+      );
+      setUnreadCount(
+        firstPage.filter((n) => isNotificationUnread(n)).length +
+          beyondFirstPage +
+          localUnread
+      );
+    } catch {
+      setUnreadCount(localUnread);
+    }
+  };
+
+  // Fetch one page of the notification list; notifications raised locally lead the first page
+  const fetchNotifications = async (
+    pageNumber: number = page,
+    onlyUnread: boolean = unreadOnly
+  ) => {
+    setIsLoading(true);
+    setError(null);
+    const local =
+      pageNumber === 1
+        ? localNotificationService
+            .getNotifications()
+            .filter((n) => !onlyUnread || isNotificationUnread(n))
+        : [];
+    try {
+      const response = await notificationApiService.getNotifications({
+        page: pageNumber,
+        pageSize: NOTIFICATIONS_PAGE_SIZE,
+        sortBy: "createdAt",
+        sortOrder: "desc",
+        ...(onlyUnread && { isRead: false }),
+      });
+      setNotifications([...local, ...(response.data || [])]);
+      setPagination(response.pagination || null);
+    } catch (err: any) {
+      setNotifications(local);
+      setPagination(null);
+      if (local.length === 0) {
+        setError(err.message || "Failed to fetch notifications");
+      }
+    } finally {
+      setPage(pageNumber);
+      setUnreadOnly(onlyUnread);
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUnreadCount();
+  }, []);
+
+  const replaceNotification = (notification: Notification) => {
+    setNotifications((prev) =>
+      prev.map((n) => (n.id === notification.id ? notification : n))
+    );
+  };
+
+  // Runs a status change, then refreshes the unread count. Local notifications are updated in place.
+  const updateStatus = async (
+    action: () => Promise<{ data: Notification }>,
+    localAction: () => Notification | null,
+    fallback: Notification,
+    failureMessage: string
+  ): Promise<Notification | null> => {
+    if (localNotificationService.isLocalId(fallback.id)) {
+      const updated = localAction() || fallback;
+      replaceNotification(updated);
+      fetchUnreadCount();
+      return updated;
+    }
+    try {
+      const response = await action();
+      replaceNotification(response.data || fallback);
+      fetchUnreadCount();
+      return response.data || fallback;
+    } catch (err: any) {
+      toast.error(err.message || failureMessage);
+      return null;
+    }
+  };
+
+  const markAsRead = (notification: Notification) =>
+    updateStatus(
+      () => notificationApiService.markAsRead(notification.id),
+      () => localNotificationService.markAsRead(notification.id),
+      { ...notification, isRead: true, readAt: new Date().toISOString() },
+      "Failed to mark notification as read"
+    );
+
+  const markAsActioned = (notification: Notification) =>
+    updateStatus(
+      () => notificationApiService.markAsActioned(notification.id),
+      () => localNotificationService.markAsActioned(notification.id),
+      { ...notification, isRead: true, isActioned: true },
+      "Failed to update notification"
+    );
+
+  const expireNotification = (notification: Notification) => {
+    const expiresAt = new Date().toISOString();
+    return updateStatus(
+      () => notificationApiService.expire(notification.id, expiresAt),
+      () => localNotificationService.expire(notification.id),
+      { ...notification, expiresAt },
+      "Failed to dismiss notification"
+    );
+  };
+
+  const markAllAsRead = async () => {
+    try {
+      localNotificationService.markAllAsRead();
+      await notificationApiService.markAllAsRead();
+      const readAt = new Date().toISOString();
+      setNotifications((prev) =>
+        prev.map((n) => (n.isRead ? n : { ...n, isRead: true, readAt }))
+      );
+      setUnreadCount(0);
+      toast.success("All notifications marked as read");
+    } catch (err: any) {
+      toast.error(err.message || "Failed to mark notifications as read");
+    }
+  };
+
+  return {
+    notifications,
+    pagination,
+    page,
+    unreadOnly,
+    unreadCount,
+    isLoading,
+    error,
+    fetchNotifications,
+    fetchUnreadCount,
+    markAsRead,
+    markAsActioned,
+    expireNotification,
+    markAllAsRead,
+  };
+};
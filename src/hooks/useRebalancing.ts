@@ -0,0 +1,89 @@
+import { useState, useMemo } from "react";
+import { toast } from "sonner";
+import { useRiskProfile } from "./useRiskProfile";
+import { rebalancingService } from "../services/rebalancing.service";
+import { RiskProfile } from "../types/auth.types";
+import { Investment } from "../types/investment.types";
+import { AssetAllocation } from "../utils/investmentSuggestions";
+import {
+  buildRebalancePlan,
+  getAllocationDrift,
+  RebalanceMode,
+  RebalanceSettings,
+  TargetAllocationSource,
+} from "../utils/rebalancing";
+
+// Drift and a rebalancing plan for investments already valued as of the date being viewed
+export const useRebalancing = (investments: Investment[]) => {
+  const { riskProfile, age } = useRiskProfile();
+  const [settings, setSettings] = useState<RebalanceSettings>(() =>
+    rebalancingService.getSettings()
+  );
+  const [mode, setMode] = useState<RebalanceMode>("buy_sell");
+  const [contribution, setContribution] = useState(0);
+
+  const profileTarget = useMemo(
+    () =>
+      rebalancingService.getRiskProfileTarget(
+        riskProfile || RiskProfile.BALANCED, // Until the questionnaire is taken
+        age ?? 30
+      ),
+    [riskProfile, age]
+  );
+
+  const target = useMemo(
+    () => rebalancingService.resolveTargetAllocation(settings, profileTarget),
+    [settings, profileTarget]
+  );
+
+  const drift = useMemo(
+    () =>
+      getAllocationDrift(investments, target.allocation, settings.toleranceBand),
+    [investments, target, settings.toleranceBand]
+  );
+
+  const plan = useMemo(
+    () =>
+      buildRebalancePlan(investments, target.allocation, {
+        mode,
+        toleranceBand: settings.toleranceBand,
+        contribution,
+      }),
+    [investments, target, settings.toleranceBand, mode, contribution]
+  );
+
+  const saveTarget = async (
+    source: TargetAllocationSource,
+    allocation: AssetAllocation,
+    toleranceBand: number
+  ): Promise<boolean> => {
+    try {
+      setSettings(
+        rebalancingService.saveSettings({ source, allocation, toleranceBand })
+      );
+      toast.success(
+        source === "manual"
+          ? "Target allocation saved"
+          : "Target now follows your risk profile"
+      );
+      return true;
+    } catch (err: any) {
+      toast.error(err.message || "Failed to save target allocation");
+      return false;
+    }
+  };
+
+  return {
+    settings,
+    target,
+    profileTarget,
+    riskProfile,
+    drift,
+    plan,
+    mode,
+    contribution,
+    setMode,
+    setContribution,
+    saveTarget,
+  };
+};
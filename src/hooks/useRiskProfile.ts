@@ -0,0 +1,65 @@
+import { useState, useEffect, useMemo } from "react";
+import { toast } from "sonner";
+import { userApiService } from "../api/endpoints/user.api";
+import { riskProfileService } from "../services/risk-profile.service";
+import { UserProfile } from "../types/auth.types";
+import {
+  RiskAssessment,
+  RiskQuestionnaireAnswers,
+} from "../types/investment.types";
+import {
+  getAgeFromDateOfBirth,
+  getReassessmentReason,
+} from "../utils/riskQuestionnaire";
+
+// Pass the profile when the caller already has it; otherwise it's fetched here
+export const useRiskProfile = (profile?: UserProfile | null) => {
+  const [assessments, setAssessments] = useState<RiskAssessment[]>(() =>
+    riskProfileService.getAssessments()
+  );
+  const [fetchedProfile, setFetchedProfile] = useState<UserProfile | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (profile !== undefined) return;
+    userApiService
+      .getProfile()
+      .then((response) => setFetchedProfile(response.data))
+      .catch(() => setFetchedProfile(null));
+  }, [profile]);
+
+  const currentProfile = profile !== undefined ? profile : fetchedProfile;
+  const latestAssessment = assessments[assessments.length - 1] || null;
+
+  const reassessmentReason = useMemo(
+    () => getReassessmentReason(latestAssessment, currentProfile),
+    [latestAssessment, currentProfile]
+  );
+
+  const submitAssessment = (
+    answers: Partial<RiskQuestionnaireAnswers>
+  ): RiskAssessment | null => {
+    try {
+      const assessment = riskProfileService.submitAssessment(
+        answers,
+        currentProfile
+      );
+      setAssessments(riskProfileService.getAssessments());
+      toast.success(`Your risk profile is ${assessment.riskProfile}`);
+      return assessment;
+    } catch (err: any) {
+      toast.error(err.message || "Failed to save your answers");
+      return null;
+    }
+  };
+
+  return {
+    assessments,
+    latestAssessment,
+    riskProfile: latestAssessment?.riskProfile || null,
+    age: getAgeFromDateOfBirth(currentProfile?.dateOfBirth),
+    reassessmentReason,
+    submitAssessment,
+  };
+};
@@ -0,0 +1,140 @@
+import { useState, useEffect, useMemo } from "react";
+import { toast } from "sonner";
+import { sipService, SipScheduleDraft } from "../services/sip.service";
+import { Transaction } from "../types/expense.types";
+import { Investment, SipSchedule } from "../types/investment.types";
+import {
+  SipInstallmentPayment,
+  SipProjectionPoint,
+  buildSipInstallments,
+  matchSipInstallments,
+  projectSipCorpus,
+} from "../utils/sip";
+import { useNotificationSettings } from "./useNotificationSettings";
+
+export interface SipOverview {
+  schedule: SipSchedule;
+  investment: Investment;
+  payments: SipInstallmentPayment[];
+  nextInstallment: SipInstallmentPayment | null;
+  missedCount: number;
+  projection: SipProjectionPoint[];
+}
+
+export const useSips = (
+  investments: Investment[],
+  transactions: Transaction[],
+  currency: string
+) => {
+  const { settings } = useNotificationSettings();
+  const [schedules, setSchedules] = useState<SipSchedule[]>(() =>
+    sipService.getSchedules()
+  );
+
+  const remindersEnabled = settings.pushNotifications.billReminders;
+
+  // Schedules whose holding has since been removed have nothing to invest into.
+  // All schedules are matched together so one debit never settles installments on two SIPs.
+  const overviews = useMemo<SipOverview[]>(() => {
+    const inputs = schedules.flatMap((schedule) => {
+      const investment = investments.find(
+        (inv) => inv.id === schedule.investmentId
+      );
+      return investment
+        ? [
+            {
+              schedule,
+              investment,
+              installments: buildSipInstallments(schedule),
+            },
+          ]
+        : [];
+    });
+    const paymentsBySchedule = matchSipInstallments(inputs, transactions);
+
+    return inputs.map(({ schedule, investment }) => {
+      const payments = paymentsBySchedule.get(schedule.id) || [];
+      return {
+        schedule,
+        investment,
+        payments,
+        nextInstallment:
+          payments.find((payment) => payment.status === "upcoming") || null,
+        // Like the alerts, only counts installments due since the SIP was added
+        missedCount: payments.filter(
+          (payment) =>
+            payment.status === "missed" &&
+            payment.installment.dueDate >= schedule.createdAt.slice(0, 10)
+        ).length,
+        projection: schedule.isActive
+          ? projectSipCorpus(schedule, investment)
+          : [],
+      };
+    });
+  }, [schedules, investments, transactions]);
+
+  useEffect(() => {
+    if (remindersEnabled) {
+      sipService.sendMissedAlerts(
+        overviews.filter((overview) => overview.schedule.isActive),
+        currency
+      );
+    }
+  }, [overviews, remindersEnabled, currency]);
+
+  const getSchedule = (investmentId: string): SipSchedule | undefined =>
+    schedules.find((schedule) => schedule.investmentId === investmentId);
+
+  // Runs a schedule mutation and reports failures as toasts
+  const run = (
+    action: () => void,
+    successMessage: string,
+    failureMessage: string
+  ): boolean => {
+    try {
+      action();
+      setSchedules(sipService.getSchedules());
+      toast.success(successMessage);
+      return true;
+    } catch (err: any) {
+      toast.error(err.message || failureMessage);
+      return false;
+    }
+  };
+
+  const saveSchedule = async (
+    draft: SipScheduleDraft,
+    scheduleId?: string
+  ): Promise<boolean> =>
+    run(
+      () =>
+        scheduleId
+          ? sipService.updateSchedule(scheduleId, draft)
+          : sipService.createSchedule(draft),
+      scheduleId ? "SIP updated" : "SIP added",
+      "Failed to save SIP"
+    );
+
+  const toggleSchedule = (schedule: SipSchedule) =>
+    run(
+      () => sipService.setActive(schedule.id, !schedule.isActive),
+      schedule.isActive ? "SIP paused" : "SIP resumed",
+      "Failed to update SIP"
+    );
+
+  const deleteSchedule = (scheduleId: string) =>
+    run(
+      () => sipService.deleteSchedule(scheduleId),
+      "SIP removed",
+      "Failed to remove SIP"
+    );
+
+  return {
+    schedules,
+    overviews,
+    getSchedule,
+    saveSchedule,
+    toggleSchedule,
+    deleteSchedule,
+  };
+};
@@ -0,0 +1,266 @@
+import React, { useState } from "react";
+import { useExpenses } from "../hooks/useExpenses";
+import { useBills } from "../hooks/useBills";
+import { useBankAccounts } from "../hooks/useBankAccounts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import AppLayout from "../components/layout/AppLayout";
+import BillFormDialog from "../components/bills/BillFormDialog";
+import BillCalendar from "../components/bills/BillCalendar";
+import { BillDraft } from "../services/bill.service";
+import { Bill } from "../types/financial.types";
+import { BILL_FREQUENCY_OPTIONS, BillStatus } from "../utils/bills";
+import { formatCurrency, formatDate } from "../utils/helpers";
+
+const STATUS_STYLES: Record<BillStatus, string> = {
+  paid: "text-success-700 bg-success-100",
+  overdue: "text-danger-700 bg-danger-100",
+  due_soon: "text-warning-700 bg-warning-100",
+  upcoming: "text-neutral-700 bg-neutral-100",
+};
+
+const STATUS_LABELS: Record<BillStatus, string> = {
+  paid: "Paid",
+  overdue: "Overdue",
+  due_soon: "Due soon",
+  upcoming: "Upcoming",
+};
+
+const Bills: React.FC = () => {
+  const { baseTransactions } = useExpenses();
+  const { activeAccounts } = useBankAccounts();
+  const {
+    bills,
+    monthlyTotal,
+    currency,
+    reminderDays,
+    error,
+    getStatus,
+    createBill,
+    updateBill,
+    deleteBill,
+    markPaid,
+    markUnpaid,
+  } = useBills(baseTransactions);
+
+  const [view, setView] = useState<"list" | "calendar">("list");
+  const [showForm, setShowForm] = useState(false);
+  const [editingBill, setEditingBill] = useState<Bill | null>(null);
+
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  const overdue = bills.filter((bill) => getStatus(bill.id) === "overdue");
+  const dueSoon = bills.filter((bill) => getStatus(bill.id) === "due_soon");
+  const unpaidTotal = bills
+    .filter((bill) => !bill.isPaid)
+    .reduce((sum, bill) => sum + bill.amount, 0);
+
+  const frequencyLabel = (bill: Bill) =>
+    BILL_FREQUENCY_OPTIONS.find((option) => option.value === bill.frequency)
+      ?.label || bill.frequency;
+
+  const handleSubmit = (draft: BillDraft) => {
+    const saved = editingBill
+      ? updateBill(editingBill.id, draft)
+      : createBill(draft);
+    return saved !== null;
+  };
+
+  const handleDelete = (bill: Bill) => {
+    if (window.confirm(`Delete the bill "${bill.name}"?`)) {
+      deleteBill(bill.id);
+    }
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingBill(null);
+  };
+
+  return (
+    <AppLayout title="Bills">
+      <div className="space-y-8">
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="text-center p-4 bg-gradient-to-br from-danger-50 to-danger-100 rounded-xl">
+            <div className="text-2xl font-bold text-danger-700 mb-2">
+              {overdue.length}
+            </div>
+            <p className="text-sm text-danger-600 font-medium">Overdue</p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-warning-50 to-warning-100 rounded-xl">
+            <div className="text-2xl font-bold text-warning-700 mb-2">
+              {dueSoon.length}
+            </div>
+            <p className="text-sm text-warning-600 font-medium">
+              Due in {reminderDays} day(s)
+            </p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-brand-50 to-brand-100 rounded-xl">
+            <div className="text-2xl font-bold text-brand-700 mb-2">
+              {money(unpaidTotal)}
+            </div>
+            <p className="text-sm text-brand-600 font-medium">Still to Pay</p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-neutral-50 to-neutral-100 rounded-xl">
+            <div className="text-2xl font-bold text-neutral-700 mb-2">
+              {money(monthlyTotal)}
+            </div>
+            <p className="text-sm text-neutral-600 font-medium">Per Month</p>
+          </div>
+        </div>
+
+        <Card variant="elevated" className="animate-fade-in">
+          <CardHeader className="bg-gradient-to-r from-white to-brand-50/30">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div>
+                <CardTitle className="text-gradient">Your Bills</CardTitle>
+                <CardDescription>
+                  Matching expenses mark bills as paid; paid bills move on to
+                  their next due date once it passes
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant={view === "list" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setView("list")}
+                >
+                  List
+                </Button>
+                <Button
+                  variant={view === "calendar" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setView("calendar")}
+                >
+                  Calendar
+                </Button>
+                <Button variant="primary" onClick={() => setShowForm(true)}>
+                  New Bill
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6">
+            {error && <p className="mb-4 text-sm text-danger-600">{error}</p>}
+
+            {bills.length === 0 ? (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-semibold text-neutral-900 mb-2">
+                  No bills yet
+                </h3>
+                <p className="text-neutral-600 mb-6">
+                  Add rent, utilities or subscriptions, or turn a recurring
+                  payment on the Expenses page into a bill.
+                </p>
+                <Button variant="primary" onClick={() => setShowForm(true)}>
+                  Add your first bill
+                </Button>
+              </div>
+            ) : view === "calendar" ? (
+              <BillCalendar bills={bills} currency={currency} />
+            ) : (
+              <div className="space-y-3">
+                {bills.map((bill) => {
+                  const status = getStatus(bill.id);
+                  const lastPayment = (bill.payments || [])[
+                    (bill.payments || []).length - 1
+                  ];
+
+                  return (
+                    <div
+                      key={bill.id}
+                      className="p-4 border border-neutral-200 rounded-lg bg-white/50 flex flex-col md:flex-row md:items-center gap-3"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-neutral-900 truncate">
+                            {bill.name}
+                          </span>
+                          <span
+                            className={`text-xs font-medium px-2 py-0.5 rounded-full ${STATUS_STYLES[status]}`}
+                          >
+                            {STATUS_LABELS[status]}
+                          </span>
+                        </div>
+                        <p className="text-sm text-neutral-600">
+                          <span className="text-neutral-900">
+                            {money(bill.amount)}
+                          </span>{" "}
+                          {frequencyLabel(bill)} · due{" "}
+                          {formatDate(bill.dueDate)}
+                        </p>
+                        {lastPayment && (
+                          <p className="text-xs text-neutral-500">
+                            Last paid {money(lastPayment.amount)} on{" "}
+                            {formatDate(lastPayment.paidAt)}
+                            {lastPayment.transactionId
+                              ? " (matched from transactions)"
+                              : ""}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {bill.isPaid ? (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => markUnpaid(bill.id)}
+                          >
+                            Mark unpaid
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="success"
+                            onClick={() => markPaid(bill.id)}
+                          >
+                            Mark paid
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            setEditingBill(bill);
+                            setShowForm(true);
+                          }}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDelete(bill)}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {showForm && (
+        <BillFormDialog
+          bill={editingBill || undefined}
+          accounts={activeAccounts}
+          onSubmit={handleSubmit}
+          onClose={closeForm}
+        />
+      )}
+    </AppLayout>
+  );
+};
+
+export default Bills;
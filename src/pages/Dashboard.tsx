@@ -5,6 +5,7 @@ import { useIncomePlans } from "../hooks/useIncomePlans";
 import { useExpenses } from "../hooks/useExpenses";
 import { useInvestments } from "../hooks/useInvestments";
 import { useBankAccounts } from "../hooks/useBankAccounts";
+import { useBills } from "../hooks/useBills";
 import {
   Card,
   CardContent,
@@ -15,13 +16,29 @@ import {
 } from "../components/ui/card";
 import { Button } from "../components/ui/button";
 import AppLayout from "../components/layout/AppLayout";
+import CashFlowForecastCard from "../components/cashflow/CashFlowForecastCard";
+import CreditCardsCard from "../components/creditcards/CreditCardsCard";
+import { formatCurrency } from "../utils/helpers";
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const { hasLinkedAccounts } = useBankAccounts();
+  const { accounts, hasLinkedAccounts } = useBankAccounts();
   const { getMonthlyIncome, getNextPayDate } = useIncomePlans();
-  const { getTotalExpenses, getNetSavings, getBudgetAlerts } = useExpenses();
+  const {
+    getTotalExpenses,
+    getNetSavings,
+    dashboardAlerts,
+    markBudgetAlertRead,
+    baseCurrency,
+    baseTransactions,
+    recurringTransactions,
+  } = useExpenses();
+  const {
+    bills,
+    upcomingBills,
+    getStatus: getBillStatus,
+  } = useBills(baseTransactions);
   const { calculateSavingsProjection, savingsProjection } = useInvestments();
 
   const [dashboardData, setDashboardData] = useState({
@@ -59,12 +76,7 @@ const Dashboard: React.FC = () => {
     loadDashboardData();
   }, [user]);
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-    }).format(amount);
-  };
+  const money = (amount: number) => formatCurrency(amount, baseCurrency);
 
   const formatDate = (date: Date | null): string => {
     if (!date) return "Not set";
@@ -75,7 +87,17 @@ const Dashboard: React.FC = () => {
     });
   };
 
-  const budgetAlerts = getBudgetAlerts();
+  const getSeverityColor = (severity: string): string => {
+    switch (severity) {
+      case "high":
+        return "text-danger-700 bg-danger-100";
+      case "medium":
+        return "text-warning-700 bg-warning-100";
+      default:
+        return "text-brand-700 bg-brand-100";
+    }
+  };
+
   const savingsRate =
     dashboardData.monthlyIncome > 0
       ? (dashboardData.netSavings / dashboardData.monthlyIncome) * 100
@@ -84,7 +106,7 @@ const Dashboard: React.FC = () => {
   return (
     <AppLayout title="Dashboard">
       {/* Budget Alerts */}
-      {budgetAlerts.length > 0 && (
+      {dashboardAlerts.length > 0 && (
         <div className="mb-8 animate-slide-down">
           <Card
             variant="glass"
@@ -112,30 +134,58 @@ const Dashboard: React.FC = () => {
                     Budget Alerts
                   </CardTitle>
                   <CardDescription className="text-warning-700">
-                    You have {budgetAlerts.length} budget(s) that need attention
+                    You have {dashboardAlerts.length} budget alert(s) that need
+                    attention
                   </CardDescription>
                 </div>
               </div>
             </CardHeader>
             <CardContent>
               <div className="space-y-2">
-                {budgetAlerts.map((budget) => (
+                {dashboardAlerts.map((alert) => (
                   <div
-                    key={budget.id}
-                    className="flex items-center justify-between p-3 bg-white/50 rounded-lg"
+                    key={alert.id}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 bg-white/50 rounded-lg"
                   >
-                    <span className="font-medium text-warning-800">
-                      {budget.category}
-                    </span>
-                    <span className="text-sm text-warning-700">
-                      {budget.amount
-                        ? (
-                            (Math.abs(budget.spent) / budget.amount) *
-                            100
-                          ).toFixed(1)
-                        : 0}
-                      % used
-                    </span>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-warning-800">
+                          {alert.title}
+                        </span>
+                        <span
+                          className={`text-xs font-medium px-2 py-0.5 rounded-full capitalize ${getSeverityColor(
+                            alert.severity
+                          )}`}
+                        >
+                          {alert.type === "budget_forecast"
+                            ? "Forecast"
+                            : alert.severity}
+                        </span>
+                      </div>
+                      <p className="text-sm text-warning-700">
+                        {alert.message}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      {alert.actionUrl && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => alert.actionUrl && navigate(alert.actionUrl)}
+                        >
+                          View
+                        </Button>
+                      )}
+                      {alert.type !== "budget_forecast" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => markBudgetAlertRead(alert.id)}
+                        >
+                          Dismiss
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 ))}
               </div>
@@ -148,7 +198,7 @@ const Dashboard: React.FC = () => {
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 mb-8">
         <StatsCard
           title="Monthly Income"
-          value={formatCurrency(dashboardData.monthlyIncome)}
+          value={money(dashboardData.monthlyIncome)}
           valueColor="success"
           icon={
             <svg
@@ -171,7 +221,7 @@ const Dashboard: React.FC = () => {
 
         <StatsCard
           title="Total Expenses"
-          value={formatCurrency(dashboardData.totalExpenses)}
+          value={money(dashboardData.totalExpenses)}
           valueColor="danger"
           icon={
             <svg
@@ -194,7 +244,7 @@ const Dashboard: React.FC = () => {
 
         <StatsCard
           title="Net Savings"
-          value={formatCurrency(dashboardData.netSavings)}
+          value={money(dashboardData.netSavings)}
           valueColor={dashboardData.netSavings >= 0 ? "success" : "danger"}
           trend={{
             value: savingsRate,
@@ -242,6 +292,74 @@ const Dashboard: React.FC = () => {
         />
       </div>
 
+      {/* Cash Flow Forecast */}
+      {hasLinkedAccounts && (
+        <CashFlowForecastCard
+          accounts={accounts}
+          recurringTransactions={recurringTransactions}
+          bills={bills}
+          baseCurrency={baseCurrency}
+        />
+      )}
+
+      {/* Credit Cards */}
+      <CreditCardsCard accounts={accounts} transactions={baseTransactions} />
+
+      {/* Upcoming Bills */}
+      {upcomingBills.length > 0 && (
+        <Card variant="gradient" className="mb-8 animate-slide-up">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-gradient">Upcoming Bills</CardTitle>
+                <CardDescription>
+                  {upcomingBills.length} unpaid bill(s)
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate("/bills")}
+              >
+                View all
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {upcomingBills.slice(0, 5).map((bill) => {
+                const status = getBillStatus(bill.id);
+                return (
+                  <div
+                    key={bill.id}
+                    className="flex justify-between items-center"
+                  >
+                    <div>
+                      <span className="font-medium text-neutral-900">
+                        {bill.name}
+                      </span>
+                      <span className="ml-2 text-sm text-neutral-600">
+                        {formatDate(new Date(`${bill.dueDate}T00:00:00`))}
+                      </span>
+                      {(status === "overdue" || status === "due_soon") && (
+                        <span
+                          className={`ml-2 text-xs font-medium px-2 py-0.5 rounded-full ${getSeverityColor(
+                            status === "overdue" ? "high" : "medium"
+                          )}`}
+                        >
+                          {status === "overdue" ? "Overdue" : "Due soon"}
+                        </span>
+                      )}
+                    </div>
+                    <span className="font-semibold">{money(bill.amount)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Savings Projection & Quick Actions */}
       {savingsProjection && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
@@ -259,7 +377,7 @@ const Dashboard: React.FC = () => {
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-neutral-600">6 months</span>
                   <span className="font-semibold">
-                    {formatCurrency(
+                    {money(
                       savingsProjection.currentSavings +
                         savingsProjection.surplusAmount * 6
                     )}
@@ -268,7 +386,7 @@ const Dashboard: React.FC = () => {
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-neutral-600">1 year</span>
                   <span className="font-semibold">
-                    {formatCurrency(
+                    {money(
                       savingsProjection.currentSavings +
                         savingsProjection.surplusAmount * 12
                     )}
@@ -277,7 +395,7 @@ const Dashboard: React.FC = () => {
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-neutral-600">5 years</span>
                   <span className="font-semibold">
-                    {formatCurrency(
+                    {money(
                       savingsProjection.currentSavings +
                         savingsProjection.surplusAmount * 60
                     )}
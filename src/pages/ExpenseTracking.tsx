@@ -1,7 +1,10 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
 import { useAuth } from "../context/AuthContext";
 import { useExpenses } from "../hooks/useExpenses";
 import { useBankAccounts } from "../hooks/useBankAccounts";
+import { useEnvelopeBudget } from "../hooks/useEnvelopeBudget";
+import { useBills } from "../hooks/useBills";
 import {
   Card,
   CardContent,
@@ -12,8 +15,30 @@ import {
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
 import { Select } from "../components/ui/select";
-import { TransactionCategory, TransactionType } from "../types/expense.types";
+import {
+  Budget,
+  BudgetCarryOver,
+  BudgetPeriodType,
+  SyncStatus,
+  Transaction,
+  TransactionCategory,
+  TransactionType,
+} from "../types/expense.types";
+import { BudgetingMode } from "../types/envelope.types";
 import AppLayout from "../components/layout/AppLayout";
+import StatementImportDialog from "../components/expenses/StatementImportDialog";
+import RecurringTransactionsPanel from "../components/expenses/RecurringTransactionsPanel";
+import SplitTransactionDialog from "../components/expenses/SplitTransactionDialog";
+import TransferDialog from "../components/expenses/TransferDialog";
+import TransferMatchesPanel from "../components/expenses/TransferMatchesPanel";
+import EnvelopeBudgetPanel from "../components/expenses/EnvelopeBudgetPanel";
+import BudgetHistoryDialog from "../components/expenses/BudgetHistoryDialog";
+import { classificationRulesService } from "../services/classification-rules.service";
+import {
+  CARRY_OVER_OPTIONS,
+  getInitialPeriodWindow,
+} from "../utils/budgetPeriods";
+import { formatCurrency, formatDate } from "../utils/helpers";
 
 const ExpenseTracking: React.FC = () => {
   const {} = useAuth();
@@ -28,15 +53,47 @@ const ExpenseTracking: React.FC = () => {
     createBudget,
     addTransaction,
     isLoading,
+    pendingSyncCount,
+    syncConflicts,
+    isSyncing,
+    syncPendingTransactions,
+    resolveSyncConflict,
+    importStatementRows,
+    recurringTransactions,
+    setRecurringStatus,
+    splitTransaction,
+    transferMatches,
+    createTransfer,
+    linkTransfer,
+    dismissTransferMatch,
+    unlinkTransfer,
+    baseCurrency,
+    baseTransactions,
+    missingFxRates,
+    getConvertedAmount,
+    getBudgetHistory,
+    getBudgetForecast,
+    setBudgetCarryOver,
+    recalculateBudgetHistory,
   } = useExpenses();
+  const envelopeBudget = useEnvelopeBudget(baseTransactions);
+  const { createFromRecurring, isTrackedAsBill } = useBills(baseTransactions);
+  const isEnvelopeMode = envelopeBudget.mode === BudgetingMode.ENVELOPE;
 
   const [showBudgetForm, setShowBudgetForm] = useState(false);
   const [showTransactionForm, setShowTransactionForm] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showTransferDialog, setShowTransferDialog] = useState(false);
+  const [splittingTransaction, setSplittingTransaction] =
+    useState<Transaction | null>(null);
   const [budgetFormData, setBudgetFormData] = useState({
     category: TransactionCategory.GROCERIES,
     amount: 0,
     alertThreshold: 80,
+    period: BudgetPeriodType.MONTHLY,
+    carryOver: BudgetCarryOver.NONE,
   });
+  const [historyBudget, setHistoryBudget] = useState<Budget | null>(null);
   const [transactionFormData, setTransactionFormData] = useState({
     description: "",
     amount: 0,
@@ -45,12 +102,43 @@ const ExpenseTracking: React.FC = () => {
     date: new Date().toISOString().split("T")[0],
     linkedAccountId: "",
   });
+  // Categorization rules pick the category until the user chooses one
+  const [isCategoryManual, setIsCategoryManual] = useState(false);
+
+  useEffect(() => {
+    if (isCategoryManual || !transactionFormData.description) return;
+    const category = classificationRulesService.categorize({
+      description: transactionFormData.description,
+      amount: transactionFormData.amount,
+      accountId: transactionFormData.linkedAccountId || undefined,
+      type: transactionFormData.type,
+    });
+    setTransactionFormData((prev) =>
+      prev.category === category ? prev : { ...prev, category }
+    );
+  }, [
+    isCategoryManual,
+    transactionFormData.description,
+    transactionFormData.amount,
+    transactionFormData.linkedAccountId,
+    transactionFormData.type,
+  ]);
+
+  const money = (amount: number, currency: string = baseCurrency) =>
+    formatCurrency(amount, currency);
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-    }).format(amount);
+  const handleResolveConflict = async (
+    conflictId: string,
+    resolution: "local" | "server"
+  ) => {
+    try {
+      await resolveSyncConflict(conflictId, resolution);
+      toast.success(
+        resolution === "local" ? "Your version was saved" : "Server version kept"
+      );
+    } catch (err: any) {
+      toast.error(err.message || "Failed to resolve conflict");
+    }
   };
 
   const handleBudgetSubmit = async (e: React.FormEvent) => {
@@ -60,32 +148,33 @@ const ExpenseTracking: React.FC = () => {
       const currentMonth = currentDate.getMonth() + 1;
       const currentYear = currentDate.getFullYear();
 
-      const startDate = `${currentYear}-${currentMonth
-        .toString()
-        .padStart(2, "0")}-01`;
-      const lastDay = new Date(currentYear, currentMonth, 0).getDate();
-      const endDate = `${currentYear}-${currentMonth
-        .toString()
-        .padStart(2, "0")}-${lastDay}`;
+      // The first period starts at the beginning of the current week/month/quarter/year
+      const { startDate, endDate } = getInitialPeriodWindow(
+        budgetFormData.period,
+        currentDate
+      );
 
       await createBudget({
-        name: `${budgetFormData.category} Budget - ${currentMonth}/${currentYear}`,
+        name: `${budgetFormData.category} Budget - ${budgetFormData.period}`,
         category: budgetFormData.category,
         budgetAmount: budgetFormData.amount,
         amount: budgetFormData.amount,
-        period: "Monthly",
+        period: budgetFormData.period,
         startDate,
         endDate,
         month: currentMonth,
         year: currentYear,
         alertThreshold: budgetFormData.alertThreshold,
         isActive: true,
+        carryOver: budgetFormData.carryOver,
       });
       setShowBudgetForm(false);
       setBudgetFormData({
         category: TransactionCategory.GROCERIES,
         amount: 0,
         alertThreshold: 80,
+        period: BudgetPeriodType.MONTHLY,
+        carryOver: BudgetCarryOver.NONE,
       });
     } catch (err) {
       }
@@ -114,10 +203,14 @@ const ExpenseTracking: React.FC = () => {
         date: new Date(transactionFormData.date),
         source: "manual" as any,
         isRecurring: false,
-        isManuallyClassified: true,
+        isManuallyClassified: isCategoryManual,
         bankAccountId: transactionFormData.linkedAccountId,
+        currencyCode: activeAccounts.find(
+          (account) => account.id === transactionFormData.linkedAccountId
+        )?.currencyCode,
       });
       setShowTransactionForm(false);
+      setIsCategoryManual(false);
       setTransactionFormData({
         description: "",
         amount: 0,
@@ -172,6 +265,118 @@ const ExpenseTracking: React.FC = () => {
           </Card>
         )}
 
+        {/* Offline Sync Status */}
+        {(pendingSyncCount > 0 || syncConflicts.length > 0) && (
+          <Card className="border-warning-200 bg-warning-50">
+            <CardContent className="p-6 space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                  <h3 className="font-medium text-warning-800">
+                    Offline changes
+                  </h3>
+                  <p className="text-sm text-warning-700">
+                    {pendingSyncCount > 0
+                      ? `${pendingSyncCount} change(s) are saved on this device and waiting to sync.`
+                      : "All offline changes have been sent."}{" "}
+                    {syncConflicts.length > 0 &&
+                      `${syncConflicts.length} conflict(s) need your review.`}
+                  </p>
+                </div>
+                {pendingSyncCount > 0 && (
+                  <Button
+                    variant="secondary"
+                    onClick={syncPendingTransactions}
+                    isLoading={isSyncing}
+                    disabled={isSyncing}
+                  >
+                    Sync now
+                  </Button>
+                )}
+              </div>
+
+              {syncConflicts.map((conflict) => (
+                <div
+                  key={conflict.id}
+                  className="p-4 border border-danger-200 rounded-lg bg-white"
+                >
+                  <p className="font-medium text-neutral-900 mb-2">
+                    {conflict.serverTransaction.description} was changed on
+                    the server after you edited it offline
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm mb-4">
+                    <div>
+                      <p className="font-medium text-neutral-700 mb-1">
+                        Your version
+                      </p>
+                      {Object.entries(conflict.localChanges)
+                        .filter(([field]) => field !== "syncStatus")
+                        .map(([field, value]) => (
+                          <p key={field} className="text-neutral-600">
+                            {field}: {String(value)}
+                          </p>
+                        ))}
+                    </div>
+                    <div>
+                      <p className="font-medium text-neutral-700 mb-1">
+                        Server version
+                      </p>
+                      {Object.keys(conflict.localChanges)
+                        .filter((field) => field !== "syncStatus")
+                        .map((field) => (
+                          <p key={field} className="text-neutral-600">
+                            {field}:{" "}
+                            {String(
+                              conflict.serverTransaction[
+                                field as keyof typeof conflict.serverTransaction
+                              ] ?? "-"
+                            )}
+                          </p>
+                        ))}
+                    </div>
+                  </div>
+                  <div className="flex gap-3">
+                    <Button
+                      size="sm"
+                      variant="primary"
+                      onClick={() => handleResolveConflict(conflict.id, "local")}
+                    >
+                      Keep mine
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleResolveConflict(conflict.id, "server")}
+                    >
+                      Use server version
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Transactions left out of totals for lack of an exchange rate */}
+        {missingFxRates.length > 0 && (
+          <Card className="border-warning-200 bg-warning-50">
+            <CardContent className="p-6">
+              <h3 className="font-medium text-warning-800">
+                Missing exchange rates
+              </h3>
+              <p className="text-sm text-warning-700">
+                Totals are in {baseCurrency} and leave out{" "}
+                {missingFxRates
+                  .map(
+                    (missing) =>
+                      `${missing.count} ${missing.fromCurrency} transaction(s)`
+                  )
+                  .join(", ")}
+                . Add rates under Settings → Exchange Rates.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Financial Summary Cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <Card variant="glass" className="animate-scale-in">
@@ -195,7 +400,7 @@ const ExpenseTracking: React.FC = () => {
                 Total Income
               </h3>
               <p className="text-2xl font-bold text-success-600">
-                {formatCurrency(totalIncome)}
+                {money(totalIncome)}
               </p>
             </CardContent>
           </Card>
@@ -225,7 +430,7 @@ const ExpenseTracking: React.FC = () => {
                 Total Expenses
               </h3>
               <p className="text-2xl font-bold text-danger-600">
-                {formatCurrency(Math.abs(totalExpenses))}
+                {money(Math.abs(totalExpenses))}
               </p>
             </CardContent>
           </Card>
@@ -259,7 +464,7 @@ const ExpenseTracking: React.FC = () => {
                   netSavings >= 0 ? "text-success-600" : "text-danger-600"
                 }`}
               >
-                {formatCurrency(netSavings)}
+                {money(netSavings)}
               </p>
             </CardContent>
           </Card>
@@ -313,8 +518,92 @@ const ExpenseTracking: React.FC = () => {
           >
             Add Transaction
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowImportDialog(true)}
+            className="flex-1"
+            disabled={!hasLinkedAccounts}
+            icon={
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
+                />
+              </svg>
+            }
+          >
+            Import Statement
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowTransferDialog(true)}
+            className="flex-1"
+            disabled={activeAccounts.length < 2}
+            icon={
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+                />
+              </svg>
+            }
+          >
+            Transfer
+          </Button>
         </div>
 
+        {/* Transfer Modal */}
+        {showTransferDialog && (
+          <TransferDialog
+            accounts={activeAccounts}
+            onCreate={createTransfer}
+            onClose={() => setShowTransferDialog(false)}
+          />
+        )}
+
+        {/* Possible Transfers */}
+        <TransferMatchesPanel
+          matches={transferMatches}
+          accounts={activeAccounts}
+          onLink={linkTransfer}
+          onDismiss={dismissTransferMatch}
+        />
+
+        {/* Statement Import Modal */}
+        {showImportDialog && (
+          <StatementImportDialog
+            accounts={activeAccounts}
+            existingTransactions={transactions}
+            onImport={importStatementRows}
+            onClose={() => setShowImportDialog(false)}
+          />
+        )}
+
+        {/* Split Transaction Modal */}
+        {splittingTransaction && (
+          <SplitTransactionDialog
+            transaction={splittingTransaction}
+            onSave={(splits) =>
+              splitTransaction(splittingTransaction.id, splits)
+            }
+            onClose={() => setSplittingTransaction(null)}
+          />
+        )}
+
         {/* Budget Form Modal */}
         {showBudgetForm && (
           <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
@@ -399,6 +688,51 @@ const ExpenseTracking: React.FC = () => {
                     }
                   />
 
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-neutral-700">
+                        Period
+                      </label>
+                      <Select
+                        value={budgetFormData.period}
+                        onChange={(e) =>
+                          setBudgetFormData((prev) => ({
+                            ...prev,
+                            period: e.target.value as BudgetPeriodType,
+                          }))
+                        }
+                      >
+                        {Object.values(BudgetPeriodType)
+                          .filter((period) => period !== BudgetPeriodType.DAILY)
+                          .map((period) => (
+                            <option key={period} value={period}>
+                              {period}
+                            </option>
+                          ))}
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-neutral-700">
+                        Carry over
+                      </label>
+                      <Select
+                        value={budgetFormData.carryOver}
+                        onChange={(e) =>
+                          setBudgetFormData((prev) => ({
+                            ...prev,
+                            carryOver: e.target.value as BudgetCarryOver,
+                          }))
+                        }
+                      >
+                        {CARRY_OVER_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </Select>
+                    </div>
+                  </div>
+
                   <Input
                     type="number"
                     label="Alert Threshold (%)"
@@ -440,6 +774,20 @@ const ExpenseTracking: React.FC = () => {
           </div>
         )}
 
+        {historyBudget && (
+          <BudgetHistoryDialog
+            budget={historyBudget}
+            periods={getBudgetHistory(historyBudget.id)}
+            currency={baseCurrency}
+            onCarryOverChange={(carryOver) => {
+              setBudgetCarryOver(historyBudget.id, carryOver);
+              setHistoryBudget({ ...historyBudget, carryOver });
+            }}
+            onRecalculate={() => recalculateBudgetHistory(historyBudget.id)}
+            onClose={() => setHistoryBudget(null)}
+          />
+        )}
+
         {/* Transaction Form Modal */}
         {showTransactionForm && (
           <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
@@ -579,12 +927,13 @@ const ExpenseTracking: React.FC = () => {
                     </label>
                     <Select
                       value={transactionFormData.category}
-                      onChange={(e) =>
+                      onChange={(e) => {
+                        setIsCategoryManual(true);
                         setTransactionFormData((prev) => ({
                           ...prev,
                           category: e.target.value as TransactionCategory,
-                        }))
-                      }
+                        }));
+                      }}
                       required
                     >
                       {Object.values(TransactionCategory).map((category) => (
@@ -594,6 +943,11 @@ const ExpenseTracking: React.FC = () => {
                         </option>
                       ))}
                     </Select>
+                    {!isCategoryManual && transactionFormData.description && (
+                      <p className="text-xs text-neutral-500">
+                        Set automatically by your categorization rules
+                      </p>
+                    )}
                   </div>
 
                   <Input
@@ -670,10 +1024,40 @@ const ExpenseTracking: React.FC = () => {
                 </svg>
                 Budgets
               </CardTitle>
-              <CardDescription>Track your spending limits</CardDescription>
+              <CardDescription>
+                {isEnvelopeMode
+                  ? "Give every unit of income a job"
+                  : "Track your spending limits"}
+              </CardDescription>
+              <div className="flex gap-2 pt-2">
+                <Button
+                  size="sm"
+                  variant={isEnvelopeMode ? "outline" : "primary"}
+                  onClick={() => envelopeBudget.setMode(BudgetingMode.CAP)}
+                >
+                  Category limits
+                </Button>
+                <Button
+                  size="sm"
+                  variant={isEnvelopeMode ? "primary" : "outline"}
+                  onClick={() => envelopeBudget.setMode(BudgetingMode.ENVELOPE)}
+                >
+                  Envelopes
+                </Button>
+              </div>
             </CardHeader>
             <CardContent className="p-6">
-              {budgets.length === 0 ? (
+              {isEnvelopeMode ? (
+                <EnvelopeBudgetPanel
+                  summary={envelopeBudget.summary}
+                  currency={baseCurrency}
+                  onPeriodChange={envelopeBudget.setPeriod}
+                  onCreate={envelopeBudget.createEnvelope}
+                  onDelete={envelopeBudget.deleteEnvelope}
+                  onAssign={envelopeBudget.assignToEnvelope}
+                  onMove={envelopeBudget.moveMoney}
+                />
+              ) : budgets.length === 0 ? (
                 <div className="text-center py-12">
                   <div className="w-20 h-20 mx-auto mb-6 bg-gradient-to-br from-brand-500 to-brand-600 rounded-2xl flex items-center justify-center">
                     <svg
@@ -706,12 +1090,15 @@ const ExpenseTracking: React.FC = () => {
               ) : (
                 <div className="space-y-6">
                   {budgets.map((budget) => {
+                    const effectiveAmount =
+                      (budget.amount || 0) + (budget.carriedIn || 0);
                     const utilization =
-                      budget.amount && budget.amount > 0
-                        ? (Math.abs(budget.spent) / budget.amount) * 100
+                      effectiveAmount > 0
+                        ? (Math.abs(budget.spent) / effectiveAmount) * 100
                         : 0;
                     const isNearLimit = utilization >= budget.alertThreshold;
                     const isOverBudget = utilization >= 100;
+                    const forecast = getBudgetForecast(budget.id);
 
                     return (
                       <div
@@ -747,15 +1134,41 @@ const ExpenseTracking: React.FC = () => {
                           <span className="font-medium">
                             Spent:{" "}
                             <span className="text-neutral-900">
-                              {formatCurrency(Math.abs(budget.spent))}
+                              {money(Math.abs(budget.spent))}
                             </span>
                           </span>
                           <span className="font-medium">
                             Budget:{" "}
                             <span className="text-neutral-900">
-                              {formatCurrency(budget.amount || 0)}
+                              {money(budget.amount || 0)}
                             </span>
+                            {!!budget.carriedIn && (
+                              <span
+                                className={
+                                  budget.carriedIn > 0
+                                    ? "text-success-600"
+                                    : "text-danger-600"
+                                }
+                              >
+                                {" "}
+                                {budget.carriedIn > 0 ? "+" : "−"}
+                                {money(Math.abs(budget.carriedIn))} carried
+                              </span>
+                            )}
+                          </span>
+                        </div>
+                        <div className="flex justify-between text-xs text-neutral-500 mb-3">
+                          <span>
+                            {budget.period} · {budget.startDate} –{" "}
+                            {budget.endDate}
                           </span>
+                          <button
+                            type="button"
+                            onClick={() => setHistoryBudget(budget)}
+                            className="font-medium text-brand-600 hover:text-brand-700"
+                          >
+                            History
+                          </button>
                         </div>
                         <div className="w-full bg-neutral-200 rounded-full h-3 overflow-hidden">
                           <div
@@ -769,6 +1182,13 @@ const ExpenseTracking: React.FC = () => {
                             style={{ width: `${Math.min(utilization, 100)}%` }}
                           />
                         </div>
+                        {forecast && (
+                          <p className="text-xs text-warning-700 mt-3">
+                            At this pace you'll exceed this budget by{" "}
+                            {formatDate(forecast.exceedDate)} and finish{" "}
+                            {money(forecast.projectedOverrun)} over
+                          </p>
+                        )}
                       </div>
                     );
                   })}
@@ -871,9 +1291,40 @@ const ExpenseTracking: React.FC = () => {
                             {transaction.description}
                           </p>
                           <p className="text-sm text-neutral-500 capitalize">
-                            {transaction.category.replace("_", " ")} •{" "}
+                            {transaction.splits && transaction.splits.length > 0
+                              ? transaction.splits
+                                  .map((split) => split.category.replace("_", " "))
+                                  .join(" + ")
+                              : transaction.category.replace("_", " ")}{" "}
+                            •{" "}
                             {new Date(transaction.date).toLocaleDateString()}
                           </p>
+                          {transaction.type === TransactionType.TRANSFER && (
+                            <span className="inline-block mt-1 mr-1 text-xs font-medium px-2 py-0.5 rounded-full text-brand-700 bg-brand-100">
+                              Transfer
+                              {transaction.isMatchedTransfer && transaction.transferId && (
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    unlinkTransfer(transaction.transferId as string)
+                                  }
+                                  className="ml-2 underline"
+                                >
+                                  Unlink
+                                </button>
+                              )}
+                            </span>
+                          )}
+                          {transaction.syncStatus === SyncStatus.PENDING && (
+                            <span className="inline-block mt-1 text-xs font-medium px-2 py-0.5 rounded-full text-warning-700 bg-warning-100">
+                              Pending sync
+                            </span>
+                          )}
+                          {transaction.syncStatus === SyncStatus.CONFLICT && (
+                            <span className="inline-block mt-1 text-xs font-medium px-2 py-0.5 rounded-full text-danger-700 bg-danger-100">
+                              Sync conflict
+                            </span>
+                          )}
                         </div>
                       </div>
                       <div className="text-right">
@@ -885,8 +1336,32 @@ const ExpenseTracking: React.FC = () => {
                           }`}
                         >
                           {transaction.amount >= 0 ? "+" : ""}
-                          {formatCurrency(transaction.amount)}
+                          {money(
+                            transaction.amount,
+                            transaction.currencyCode || baseCurrency
+                          )}
                         </p>
+                        {transaction.currencyCode &&
+                          transaction.currencyCode !== baseCurrency && (
+                            <p className="text-xs text-neutral-500">
+                              {getConvertedAmount(transaction.id) !== null
+                                ? `≈ ${money(
+                                    getConvertedAmount(transaction.id) as number
+                                  )}`
+                                : `No ${transaction.currencyCode} rate`}
+                            </p>
+                          )}
+                        {transaction.type === TransactionType.EXPENSE && (
+                          <button
+                            type="button"
+                            onClick={() => setSplittingTransaction(transaction)}
+                            className="text-xs font-medium text-brand-600 hover:text-brand-700"
+                          >
+                            {transaction.splits && transaction.splits.length > 0
+                              ? "Edit split"
+                              : "Split"}
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -896,6 +1371,14 @@ const ExpenseTracking: React.FC = () => {
           </Card>
         </div>
 
+        {/* Subscriptions & Recurring */}
+        <RecurringTransactionsPanel
+          recurringTransactions={recurringTransactions}
+          onSetStatus={setRecurringStatus}
+          onCreateBill={createFromRecurring}
+          isTrackedAsBill={isTrackedAsBill}
+        />
+
         {/* Spending by Category */}
         {spendingByCategory.length > 0 && (
           <Card variant="gradient" className="animate-slide-up">
@@ -917,7 +1400,7 @@ const ExpenseTracking: React.FC = () => {
                         {item.category.replace("_", " ")}
                       </span>
                       <span className="font-semibold text-neutral-700">
-                        {formatCurrency(Math.abs(item.amount))}
+                        {money(Math.abs(item.amount))}
                       </span>
                     </div>
                     <div className="w-full bg-neutral-200 rounded-full h-2">
@@ -0,0 +1,368 @@
+import React, { useState } from "react";
+import { useAuth } from "../context/AuthContext";
+import { useGoals } from "../hooks/useGoals";
+import { useBankAccounts } from "../hooks/useBankAccounts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import AppLayout from "../components/layout/AppLayout";
+import GoalFormDialog from "../components/goals/GoalFormDialog";
+import { goalService } from "../services/goal.service";
+import { CreateGoalRequest, Goal } from "../types/financial.types";
+import { DEFAULT_BASE_CURRENCY } from "../utils/constants";
+import { formatCurrency, formatDate } from "../utils/helpers";
+import {
+  getUpcomingContributionDates,
+  isMilestoneReached,
+} from "../utils/goalProgress";
+
+const Goals: React.FC = () => {
+  const { user } = useAuth();
+  const { accounts } = useBankAccounts();
+  const {
+    goals,
+    isLoading,
+    error,
+    getGoalProgress,
+    createGoal,
+    updateGoal,
+    deleteGoal,
+    contribute,
+    syncWithAccount,
+  } = useGoals();
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [contributions, setContributions] = useState<Record<string, number>>(
+    {}
+  );
+
+  const baseCurrency = user?.currency || DEFAULT_BASE_CURRENCY;
+  const money = (amount: number) => formatCurrency(amount, baseCurrency);
+  const savingsAccounts = goalService.getLinkableAccounts(accounts);
+
+  const activeGoals = goals.filter((goal) => !goal.isCompleted);
+  const totalSaved = goals.reduce((sum, goal) => sum + goal.currentAmount, 0);
+  const totalTarget = goals.reduce((sum, goal) => sum + goal.targetAmount, 0);
+  const onTrackCount = activeGoals.filter(
+    (goal) => getGoalProgress(goal.id)?.isOnTrack
+  ).length;
+
+  const handleSubmit = async (data: CreateGoalRequest) => {
+    const saved = editingGoal
+      ? await updateGoal(editingGoal, data)
+      : await createGoal(data);
+    return saved !== null;
+  };
+
+  const handleContribute = async (goal: Goal) => {
+    const saved = await contribute(goal, contributions[goal.id] || 0);
+    if (saved) {
+      setContributions((prev) => ({ ...prev, [goal.id]: 0 }));
+    }
+  };
+
+  const handleDelete = async (goal: Goal) => {
+    if (window.confirm(`Delete the goal "${goal.name}"?`)) {
+      await deleteGoal(goal.id);
+    }
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingGoal(null);
+  };
+
+  const getPriorityColor = (priority: Goal["priority"]): string => {
+    switch (priority) {
+      case "high":
+        return "text-danger-700 bg-danger-100";
+      case "medium":
+        return "text-warning-700 bg-warning-100";
+      default:
+        return "text-neutral-700 bg-neutral-100";
+    }
+  };
+
+  return (
+    <AppLayout title="Goals">
+      <div className="space-y-8">
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="text-center p-4 bg-gradient-to-br from-brand-50 to-brand-100 rounded-xl">
+            <div className="text-2xl font-bold text-brand-700 mb-2">
+              {activeGoals.length}
+            </div>
+            <p className="text-sm text-brand-600 font-medium">Active Goals</p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-success-50 to-success-100 rounded-xl">
+            <div className="text-2xl font-bold text-success-700 mb-2">
+              {money(totalSaved)}
+            </div>
+            <p className="text-sm text-success-600 font-medium">Saved So Far</p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-warning-50 to-warning-100 rounded-xl">
+            <div className="text-2xl font-bold text-warning-700 mb-2">
+              {money(totalTarget)}
+            </div>
+            <p className="text-sm text-warning-600 font-medium">
+              Total Targets
+            </p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-neutral-50 to-neutral-100 rounded-xl">
+            <div className="text-2xl font-bold text-neutral-700 mb-2">
+              {onTrackCount} / {activeGoals.length}
+            </div>
+            <p className="text-sm text-neutral-600 font-medium">On Track</p>
+          </div>
+        </div>
+
+        <Card variant="elevated" className="animate-fade-in">
+          <CardHeader className="bg-gradient-to-r from-white to-brand-50/30">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div>
+                <CardTitle className="text-gradient">Your Goals</CardTitle>
+                <CardDescription>
+                  Progress, the monthly amount each goal still needs and
+                  whether you're on pace to hit the target date
+                </CardDescription>
+              </div>
+              <Button variant="primary" onClick={() => setShowForm(true)}>
+                New Goal
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6">
+            {error && (
+              <p className="mb-4 text-sm text-danger-600">{error}</p>
+            )}
+
+            {isLoading && goals.length === 0 ? (
+              <p className="text-sm text-neutral-600">Loading goals...</p>
+            ) : goals.length === 0 ? (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-semibold text-neutral-900 mb-2">
+                  No goals yet
+                </h3>
+                <p className="text-neutral-600 mb-6">
+                  Save towards an emergency fund, a purchase or paying off
+                  debt.
+                </p>
+                <Button variant="primary" onClick={() => setShowForm(true)}>
+                  Create your first goal
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {goals.map((goal) => {
+                  const progress = getGoalProgress(goal.id);
+                  const linkedAccount = accounts.find(
+                    (account) => account.id === goal.linkedAccountId
+                  );
+                  const upcoming = goal.isCompleted
+                    ? []
+                    : getUpcomingContributionDates(goal, 3);
+                  const milestonesReached = goal.milestones.filter(
+                    (milestone) => isMilestoneReached(goal, milestone)
+                  ).length;
+
+                  return (
+                    <div
+                      key={goal.id}
+                      className="p-5 border border-neutral-200 rounded-xl bg-white/50"
+                    >
+                      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-3 mb-3">
+                        <div>
+                          <h3 className="font-semibold text-neutral-900">
+                            {goal.name}
+                          </h3>
+                          <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+                            <span className="text-neutral-600">
+                              {goal.type}
+                            </span>
+                            <span
+                              className={`font-medium px-2 py-0.5 rounded-full capitalize ${getPriorityColor(
+                                goal.priority
+                              )}`}
+                            >
+                              {goal.priority}
+                            </span>
+                            {progress && !goal.isCompleted && (
+                              <span
+                                className={`font-medium px-2 py-0.5 rounded-full ${
+                                  progress.isOnTrack
+                                    ? "text-success-700 bg-success-100"
+                                    : "text-danger-700 bg-danger-100"
+                                }`}
+                              >
+                                {progress.isOnTrack ? "On track" : "Behind"}
+                              </span>
+                            )}
+                            {goal.isCompleted && (
+                              <span className="font-medium px-2 py-0.5 rounded-full text-success-700 bg-success-100">
+                                Completed
+                              </span>
+                            )}
+                          </div>
+                          {goal.description && (
+                            <p className="text-sm text-neutral-600 mt-2">
+                              {goal.description}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setEditingGoal(goal);
+                              setShowForm(true);
+                            }}
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(goal)}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-neutral-700">
+                          {money(goal.currentAmount)} of{" "}
+                          {money(goal.targetAmount)}
+                        </span>
+                        <span className="font-medium text-neutral-900">
+                          {(progress?.progress || 0).toFixed(0)}%
+                        </span>
+                      </div>
+                      <div className="w-full bg-neutral-200 rounded-full h-2 overflow-hidden mb-3">
+                        <div
+                          className={`h-2 rounded-full ${
+                            progress?.isOnTrack
+                              ? "bg-success-500"
+                              : "bg-warning-500"
+                          }`}
+                          style={{
+                            width: `${Math.min(progress?.progress || 0, 100)}%`,
+                          }}
+                        />
+                      </div>
+
+                      {progress && (
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs text-neutral-600 mb-3">
+                          <span>
+                            Target date: {formatDate(goal.targetDate)} (
+                            {progress.timeToTarget.months} month(s) left)
+                          </span>
+                          <span>
+                            Needs {money(progress.monthlyContributionNeeded)}{" "}
+                            / month
+                          </span>
+                          <span>
+                            {progress.projectedCompletionDate
+                              ? `Projected: ${formatDate(
+                                  progress.projectedCompletionDate
+                                )}`
+                              : "Not enough history to project"}
+                          </span>
+                        </div>
+                      )}
+
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-neutral-600 mb-3">
+                        {linkedAccount ? (
+                          <span>
+                            Linked to {linkedAccount.accountName} (
+                            {money(linkedAccount.balance)})
+                            <button
+                              type="button"
+                              className="ml-2 text-brand-600 hover:underline"
+                              onClick={() =>
+                                syncWithAccount(goal, linkedAccount)
+                              }
+                            >
+                              Use balance
+                            </button>
+                          </span>
+                        ) : (
+                          goal.linkedAccountId && (
+                            <span>Linked account is no longer available</span>
+                          )
+                        )}
+                        {goal.autoContribution?.enabled && (
+                          <span>
+                            Auto-contributing{" "}
+                            {money(goal.autoContribution.amount)}{" "}
+                            {goal.autoContribution.frequency}
+                            {upcoming.length > 0 &&
+                              ` · next ${upcoming
+                                .map((date) => formatDate(date))
+                                .join(", ")}`}
+                          </span>
+                        )}
+                        {goal.milestones.length > 0 && (
+                          <span>
+                            {milestonesReached} of {goal.milestones.length}{" "}
+                            milestone(s) reached
+                          </span>
+                        )}
+                      </div>
+
+                      {!goal.isCompleted && (
+                        <div className="flex flex-col sm:flex-row gap-2">
+                          <Input
+                            type="number"
+                            inputSize="sm"
+                            placeholder="Add a contribution"
+                            value={contributions[goal.id] || ""}
+                            onChange={(e) =>
+                              setContributions((prev) => ({
+                                ...prev,
+                                [goal.id]: parseFloat(e.target.value) || 0,
+                              }))
+                            }
+                            min={0.01}
+                            step={0.01}
+                          />
+                          <Button
+                            variant="success"
+                            size="sm"
+                            onClick={() => handleContribute(goal)}
+                            disabled={!(contributions[goal.id] > 0)}
+                          >
+                            Contribute
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {showForm && (
+        <GoalFormDialog
+          goal={editingGoal || undefined}
+          savingsAccounts={savingsAccounts}
+          onSubmit={handleSubmit}
+          onClose={closeForm}
+        />
+      )}
+    </AppLayout>
+  );
+};
+
+export default Goals;
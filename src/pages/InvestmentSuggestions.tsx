@@ -1,10 +1,12 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect } from "react";
+import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../context/AuthContext";
 import { useInvestments } from "../hooks/useInvestments";
 import { useIncomePlans } from "../hooks/useIncomePlans";
 import { useExpenses } from "../hooks/useExpenses";
 import { useBankAccounts } from "../hooks/useBankAccounts";
+import { useRiskProfile } from "../hooks/useRiskProfile";
 import {
   Card,
   CardContent,
@@ -18,37 +20,50 @@ import {
   TimeHorizon,
 } from "../types/investment.types";
 import { RiskProfile } from "../types/auth.types";
+import { AccountType } from "../types/account.types";
+import { formatCurrency, formatDate } from "../utils/helpers";
+import {
+  DEFAULT_BASE_CURRENCY,
+  SUGGESTION_EXPENSE_AVERAGE_MONTHS,
+} from "../utils/constants";
 import AppLayout from "../components/layout/AppLayout";
 
 const InvestmentSuggestions: React.FC = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const { hasLinkedAccounts } = useBankAccounts();
+  const { activeAccounts, hasLinkedAccounts } = useBankAccounts();
+  const { getMonthlyIncome } = useIncomePlans();
+  const { getAverageMonthlyExpenses, baseTransactions } = useExpenses();
   const {
+    suggestions,
+    debitMatches,
     generateSuggestions,
     acceptSuggestion,
     rejectSuggestion,
+    confirmPendingInvestment,
+    cancelPendingInvestment,
+    getStaleReason,
     savingsProjection,
     calculateSavingsProjection,
     getPendingSuggestions,
     getAcceptedSuggestions,
+    getAwaitingInvestments,
     isLoading,
-  } = useInvestments();
-  const { getMonthlyIncome } = useIncomePlans();
-  const { getTotalExpenses } = useExpenses();
-
-  const [hasGeneratedSuggestions, setHasGeneratedSuggestions] = useState(false);
+  } = useInvestments(baseTransactions);
+  const { riskProfile, age, reassessmentReason } = useRiskProfile();
 
   useEffect(() => {
     const initializeData = async () => {
       const monthlyIncome = getMonthlyIncome();
-      const totalExpenses = getTotalExpenses();
+      const monthlyExpenses = getAverageMonthlyExpenses(
+        SUGGESTION_EXPENSE_AVERAGE_MONTHS
+      );
       const hardcodedSavingsThreshold = 10000; // Hardcoded savings threshold (INR)
 
       if (monthlyIncome > 0) {
         await calculateSavingsProjection(
           monthlyIncome,
-          totalExpenses,
+          monthlyExpenses,
           hardcodedSavingsThreshold
         );
       }
@@ -57,21 +72,45 @@ const InvestmentSuggestions: React.FC = () => {
     initializeData();
   }, [user]);
 
+  // Suggestions that expired or were made for a noticeably different surplus are replaced.
+  // Runs after the render with the new projection so accounts and profile are current.
+  useEffect(() => {
+    if (!savingsProjection || savingsProjection.surplusAmount <= 0) return;
+    const staleReason = getStaleReason(savingsProjection);
+    if (staleReason) {
+      toast.info(`${staleReason} Here are fresh ones.`);
+      handleGenerateSuggestions();
+    }
+  }, [savingsProjection]);
+
   const handleGenerateSuggestions = async () => {
     if (!user || !savingsProjection) return;
 
     const params: InvestmentRecommendationParams = {
       surplusAmount: savingsProjection.surplusAmount,
-      riskProfile: RiskProfile.BALANCED, // Hardcoded risk profile
-      age: 30, // Mock age
+      riskProfile: riskProfile || RiskProfile.BALANCED, // Until the questionnaire is taken
+      age: age ?? 30, // When the profile has no date of birth
       monthlyIncome: getMonthlyIncome(),
       existingInvestments: 0, // Mock existing investments
       timeHorizon: TimeHorizon.LONG_TERM,
     };
 
+    // Cash the user could reach tomorrow counts towards the emergency fund
+    const liquidSavings = activeAccounts
+      .filter((account) =>
+        [AccountType.SAVINGS, AccountType.CHECKING, AccountType.CURRENT].includes(
+          account.accountType
+        )
+      )
+      .reduce((sum, account) => sum + Math.max(account.balance, 0), 0);
+
     try {
-      await generateSuggestions(params);
-      setHasGeneratedSuggestions(true);
+      await generateSuggestions(params, {
+        liquidSavings,
+        monthlyExpenses: getAverageMonthlyExpenses(
+          SUGGESTION_EXPENSE_AVERAGE_MONTHS
+        ),
+      });
     } catch (error) {
       }
   };
@@ -90,12 +129,8 @@ const InvestmentSuggestions: React.FC = () => {
       }
   };
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: user?.currency || "INR",
-    }).format(amount);
-  };
+  const money = (amount: number) =>
+    formatCurrency(amount, user?.currency || DEFAULT_BASE_CURRENCY);
 
   const getRiskColor = (riskLevel: string): string => {
     switch (riskLevel.toLowerCase()) {
@@ -112,10 +147,33 @@ const InvestmentSuggestions: React.FC = () => {
 
   const pendingSuggestions = getPendingSuggestions();
   const acceptedSuggestions = getAcceptedSuggestions();
+  const awaitingInvestments = getAwaitingInvestments();
+  const expiredCount = suggestions.filter(
+    (suggestion) => suggestion.status === "expired"
+  ).length;
 
   return (
     <AppLayout title="Investment Suggestions">
       <div className="space-y-8">
+        {/* Risk Profile Prompt */}
+        {reassessmentReason && (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4 p-4 rounded-xl border border-warning-200 bg-warning-50">
+            <p className="flex-1 text-sm text-warning-800">
+              {reassessmentReason}{" "}
+              {riskProfile
+                ? `Suggestions still use your ${riskProfile} profile.`
+                : "Suggestions assume a balanced profile until you do."}
+            </p>
+            <Button
+              variant="warning"
+              size="sm"
+              onClick={() => navigate("/settings")}
+            >
+              {riskProfile ? "Retake Questionnaire" : "Take Questionnaire"}
+            </Button>
+          </div>
+        )}
+
         {/* Savings Projection Summary */}
         {savingsProjection && (
           <Card variant="elevated" className="animate-fade-in">
@@ -144,7 +202,7 @@ const InvestmentSuggestions: React.FC = () => {
               <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
                 <div className="text-center p-4 bg-gradient-to-br from-brand-50 to-brand-100 rounded-xl">
                   <div className="text-2xl font-bold text-brand-700 mb-2">
-                    {formatCurrency(savingsProjection.currentSavings)}
+                    {money(savingsProjection.currentSavings)}
                   </div>
                   <p className="text-sm text-brand-600 font-medium">
                     Current Savings
@@ -152,7 +210,7 @@ const InvestmentSuggestions: React.FC = () => {
                 </div>
                 <div className="text-center p-4 bg-gradient-to-br from-success-50 to-success-100 rounded-xl">
                   <div className="text-2xl font-bold text-success-700 mb-2">
-                    {formatCurrency(savingsProjection.projectedMonthEndSavings)}
+                    {money(savingsProjection.projectedMonthEndSavings)}
                   </div>
                   <p className="text-sm text-success-600 font-medium">
                     Projected Month-End
@@ -160,7 +218,7 @@ const InvestmentSuggestions: React.FC = () => {
                 </div>
                 <div className="text-center p-4 bg-gradient-to-br from-warning-50 to-warning-100 rounded-xl">
                   <div className="text-2xl font-bold text-warning-700 mb-2">
-                    {formatCurrency(savingsProjection.surplusAmount)}
+                    {money(savingsProjection.surplusAmount)}
                   </div>
                   <p className="text-sm text-warning-600 font-medium">
                     Available for Investment
@@ -183,8 +241,15 @@ const InvestmentSuggestions: React.FC = () => {
               </div>
 
               {savingsProjection.surplusAmount > 0 &&
-                !hasGeneratedSuggestions && (
+                pendingSuggestions.length === 0 && (
                   <div className="mt-8 text-center">
+                    {expiredCount > 0 && (
+                      <p className="mb-4 text-sm text-neutral-600">
+                        {expiredCount} earlier suggestion
+                        {expiredCount === 1 ? "" : "s"} expired. Suggestions
+                        last a day so they reflect your latest numbers.
+                      </p>
+                    )}
                     <Button
                       onClick={handleGenerateSuggestions}
                       disabled={isLoading || !hasLinkedAccounts}
@@ -207,7 +272,7 @@ const InvestmentSuggestions: React.FC = () => {
                         </svg>
                       }
                     >
-                      Generate AI Investment Suggestions
+                      Generate Investment Suggestions
                     </Button>
                   </div>
                 )}
@@ -249,7 +314,7 @@ const InvestmentSuggestions: React.FC = () => {
                 </div>
                 <p className="text-sm text-brand-700">
                   Aim to save at least{" "}
-                  {formatCurrency(10000)} per month
+                  {money(10000)} per month
                   before investing. This ensures you have a safety net for
                   unexpected expenses.
                 </p>
@@ -275,7 +340,7 @@ const InvestmentSuggestions: React.FC = () => {
                   d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
                 />
               </svg>
-              AI-Powered Investment Suggestions
+              Investment Suggestions
             </h2>
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
               {pendingSuggestions.map((suggestion, index) => (
@@ -292,6 +357,7 @@ const InvestmentSuggestions: React.FC = () => {
                           {suggestion.title}
                         </CardTitle>
                         <CardDescription className="mt-2 font-medium">
+                          {suggestion.rank && `#${suggestion.rank} · `}
                           {suggestion.type.replace("_", " ").toUpperCase()}
                         </CardDescription>
                       </div>
@@ -315,7 +381,7 @@ const InvestmentSuggestions: React.FC = () => {
                           Suggested Amount:
                         </span>
                         <span className="font-bold text-brand-700">
-                          {formatCurrency(suggestion.suggestedAmount)}
+                          {money(suggestion.suggestedAmount)}
                         </span>
                       </div>
                       <div className="flex justify-between items-center p-3 bg-success-50 rounded-lg">
@@ -334,6 +400,16 @@ const InvestmentSuggestions: React.FC = () => {
                           {suggestion.timeHorizon.replace("_", " ")}
                         </span>
                       </div>
+                      {suggestion.targetAllocation !== undefined && (
+                        <div className="flex justify-between items-center p-3 bg-brand-50 rounded-lg">
+                          <span className="text-neutral-600 font-medium">
+                            Target Allocation:
+                          </span>
+                          <span className="font-bold text-brand-700">
+                            {suggestion.targetAllocation}% of portfolio
+                          </span>
+                        </div>
+                      )}
                     </div>
 
                     <div className="bg-gradient-to-r from-brand-50 to-success-50 border border-brand-200 rounded-xl p-6 mb-6">
@@ -399,6 +475,66 @@ const InvestmentSuggestions: React.FC = () => {
           </div>
         )}
 
+        {/* Accepted, Awaiting Payment */}
+        {awaitingInvestments.length > 0 && (
+          <Card variant="elevated" className="animate-fade-in">
+            <CardHeader className="bg-gradient-to-r from-white to-brand-50/30">
+              <CardTitle className="text-gradient">Awaiting Payment</CardTitle>
+              <CardDescription>
+                Accepted investments join your portfolio once you confirm the
+                debit that paid for them
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-6">
+              <ul className="divide-y divide-neutral-200">
+                {awaitingInvestments.map((pending) => {
+                  const debit = debitMatches.get(pending.id);
+                  return (
+                    <li
+                      key={pending.id}
+                      className="py-3 flex flex-col md:flex-row md:items-center gap-3"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-neutral-900">
+                          {pending.name} · {money(pending.amount)}
+                        </p>
+                        <p className="text-sm text-neutral-600">
+                          {debit
+                            ? `Debit of ${money(
+                                Math.abs(debit.amount)
+                              )} on ${formatDate(debit.date)}: ${
+                                debit.description
+                              }`
+                            : `Accepted ${formatDate(
+                                pending.acceptedAt
+                              )}. Waiting for a debit of about this amount.`}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => cancelPendingInvestment(pending.id)}
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="primary"
+                          disabled={!debit}
+                          onClick={() => confirmPendingInvestment(pending)}
+                        >
+                          Confirm
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Accepted Suggestions */}
         {acceptedSuggestions.length > 0 && (
           <div className="space-y-6">
@@ -448,7 +584,7 @@ const InvestmentSuggestions: React.FC = () => {
                           Investment Amount:
                         </span>
                         <span className="font-bold text-success-700">
-                          {formatCurrency(suggestion.suggestedAmount)}
+                          {money(suggestion.suggestedAmount)}
                         </span>
                       </div>
                       <div className="flex justify-between items-center p-3 bg-neutral-50 rounded-lg">
@@ -481,9 +617,11 @@ const InvestmentSuggestions: React.FC = () => {
                         </span>
                       </div>
                       <p className="text-sm text-success-700 leading-relaxed">
-                        Contact a financial advisor or investment platform to
-                        execute this investment. Always conduct your own
-                        research before investing.
+                        Make this investment through your bank or investment
+                        platform. When the debit shows up in your transactions,
+                        confirm it under Awaiting Payment to add it to your
+                        portfolio. Always conduct your own research before
+                        investing.
                       </p>
                     </div>
                   </CardContent>
@@ -535,7 +673,7 @@ const InvestmentSuggestions: React.FC = () => {
               </h3>
               <p className="text-neutral-600 mb-8 max-w-2xl mx-auto leading-relaxed">
                 Set up your income plan and track your expenses to receive
-                AI-powered investment recommendations tailored to your financial
+                investment recommendations tailored to your financial
                 situation and risk profile.
               </p>
               <div className="flex flex-col sm:flex-row justify-center gap-4">
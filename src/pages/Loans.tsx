@@ -0,0 +1,249 @@
+import React, { useState } from "react";
+import { useExpenses } from "../hooks/useExpenses";
+import { useBankAccounts } from "../hooks/useBankAccounts";
+import { LoanOverview, useLoans } from "../hooks/useLoans";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import AppLayout from "../components/layout/AppLayout";
+import PrepaymentSimulator from "../components/loans/PrepaymentSimulator";
+import {
+  InstallmentStatus,
+  LOAN_KIND_OPTIONS,
+  PrepaymentScenario,
+} from "../utils/loanAmortization";
+import { formatCurrency, formatDate } from "../utils/helpers";
+
+const STATUS_STYLES: Record<InstallmentStatus, string> = {
+  paid: "text-success-700 bg-success-100",
+  missed: "text-danger-700 bg-danger-100",
+  due: "text-warning-700 bg-warning-100",
+  upcoming: "text-neutral-700 bg-neutral-100",
+};
+
+const STATUS_LABELS: Record<InstallmentStatus, string> = {
+  paid: "Paid",
+  missed: "No payment found",
+  due: "Due",
+  upcoming: "Upcoming",
+};
+
+interface LoanCardProps {
+  loan: LoanOverview;
+  simulate: (amount: number, date: string) => PrepaymentScenario[];
+}
+
+const LoanCard: React.FC<LoanCardProps> = ({ loan, simulate }) => {
+  const [panel, setPanel] = useState<"none" | "schedule" | "prepayment">(
+    "none"
+  );
+  const { account, summary, payments, missedCount } = loan;
+  const money = (amount: number) => formatCurrency(amount, account.currencyCode);
+  const kindLabel =
+    LOAN_KIND_OPTIONS.find((option) => option.value === account.loan?.kind)
+      ?.label || "Loan";
+
+  const togglePanel = (next: "schedule" | "prepayment") =>
+    setPanel((current) => (current === next ? "none" : next));
+
+  return (
+    <Card variant="elevated" className="animate-fade-in">
+      <CardHeader className="bg-gradient-to-r from-white to-brand-50/30">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="text-gradient">{account.accountName}</CardTitle>
+            <CardDescription>
+              {kindLabel} · {account.bankName} · {money(account.loan!.principal)}{" "}
+              at {account.loan!.annualInterestRate}% over{" "}
+              {account.loan!.tenureMonths} months
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant={panel === "schedule" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => togglePanel("schedule")}
+            >
+              Schedule
+            </Button>
+            <Button
+              variant={panel === "prepayment" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => togglePanel("prepayment")}
+            >
+              Prepayment
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="text-center p-4 bg-gradient-to-br from-brand-50 to-brand-100 rounded-xl">
+            <div className="text-2xl font-bold text-brand-700 mb-2">
+              {money(summary.outstandingPrincipal)}
+            </div>
+            <p className="text-sm text-brand-600 font-medium">
+              Outstanding Principal
+            </p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-danger-50 to-danger-100 rounded-xl">
+            <div className="text-2xl font-bold text-danger-700 mb-2">
+              {money(summary.interestPaidToDate)}
+            </div>
+            <p className="text-sm text-danger-600 font-medium">
+              Interest Paid So Far
+            </p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-success-50 to-success-100 rounded-xl">
+            <div className="text-2xl font-bold text-success-700 mb-2">
+              {money(summary.emi)}
+            </div>
+            <p className="text-sm text-success-600 font-medium">
+              EMI ({summary.installmentsPaid}/
+              {summary.installmentsPaid + summary.installmentsRemaining} paid)
+            </p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-neutral-50 to-neutral-100 rounded-xl">
+            <div className="text-2xl font-bold text-neutral-700 mb-2">
+              {formatDate(summary.payoffDate, "MMM yyyy")}
+            </div>
+            <p className="text-sm text-neutral-600 font-medium">
+              Paid Off ({money(summary.totalInterest)} interest in total)
+            </p>
+          </div>
+        </div>
+
+        {missedCount > 0 && (
+          <p className="text-sm text-danger-600">
+            {missedCount} past EMI(s) have no matching payment in your
+            transactions.
+          </p>
+        )}
+
+        {panel === "schedule" && (
+          <div className="overflow-x-auto max-h-96 custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-neutral-600">
+                  <th className="py-2 pr-4 font-medium">#</th>
+                  <th className="py-2 px-2 font-medium">Due</th>
+                  <th className="py-2 px-2 font-medium text-right">EMI</th>
+                  <th className="py-2 px-2 font-medium text-right">
+                    Principal
+                  </th>
+                  <th className="py-2 px-2 font-medium text-right">
+                    Interest
+                  </th>
+                  <th className="py-2 px-2 font-medium text-right">Balance</th>
+                  <th className="py-2 pl-4 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-200">
+                {payments.map(({ row, status, transaction }) => (
+                  <tr key={row.installment}>
+                    <td className="py-2 pr-4 text-neutral-600">
+                      {row.installment}
+                    </td>
+                    <td className="py-2 px-2 text-neutral-900">
+                      {formatDate(row.dueDate)}
+                    </td>
+                    <td className="py-2 px-2 text-right">{money(row.emi)}</td>
+                    <td className="py-2 px-2 text-right">
+                      {money(row.principal)}
+                    </td>
+                    <td className="py-2 px-2 text-right">
+                      {money(row.interest)}
+                    </td>
+                    <td className="py-2 px-2 text-right">
+                      {money(row.closingBalance)}
+                    </td>
+                    <td className="py-2 pl-4">
+                      <span
+                        className={`text-xs font-medium px-2 py-0.5 rounded-full ${STATUS_STYLES[status]}`}
+                        title={
+                          transaction
+                            ? `${transaction.description} on ${formatDate(
+                                transaction.date
+                              )}`
+                            : undefined
+                        }
+                      >
+                        {STATUS_LABELS[status]}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {panel === "prepayment" && (
+          <PrepaymentSimulator
+            currency={account.currencyCode}
+            currentEmi={summary.emi}
+            payoffDate={summary.payoffDate}
+            simulate={simulate}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const Loans: React.FC = () => {
+  const { baseTransactions } = useExpenses();
+  const { accounts, isLoading } = useBankAccounts();
+  const { loans, loansWithoutTerms, simulate } = useLoans(
+    accounts,
+    baseTransactions
+  );
+
+  return (
+    <AppLayout title="Loans">
+      <div className="space-y-8">
+        {loansWithoutTerms.length > 0 && (
+          <p className="text-sm text-warning-700">
+            No loan terms recorded for{" "}
+            {loansWithoutTerms.map((account) => account.accountName).join(", ")}
+            ; link them again with their amount, rate and tenure to see a
+            schedule.
+          </p>
+        )}
+
+        {loans.length === 0 ? (
+          <Card variant="elevated" className="animate-fade-in">
+            <CardContent className="p-6">
+              <div className="text-center py-12">
+                <h3 className="text-lg font-semibold text-neutral-900 mb-2">
+                  {isLoading ? "Loading loans..." : "No loans yet"}
+                </h3>
+                {!isLoading && (
+                  <p className="text-neutral-600">
+                    Link a loan account with its amount, interest rate, tenure
+                    and first EMI date to track your EMIs here.
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          loans.map((loan) => (
+            <LoanCard
+              key={loan.account.id}
+              loan={loan}
+              simulate={(amount, date) => simulate(loan.account, amount, date)}
+            />
+          ))
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default Loans;
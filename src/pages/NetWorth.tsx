@@ -0,0 +1,344 @@
+import React, { useMemo, useState } from "react";
+import { useNetWorth } from "../hooks/useNetWorth";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import AppLayout from "../components/layout/AppLayout";
+import ManualAssetDialog from "../components/networth/ManualAssetDialog";
+import { ManualAssetDraft } from "../services/net-worth.service";
+import { ManualAsset, NetWorthSnapshot } from "../types/networth.types";
+import { formatCurrency, formatDate } from "../utils/helpers";
+import {
+  NET_WORTH_CLASSES,
+  getNetWorthClassLabel,
+} from "../utils/netWorth";
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+
+const NetWorthChart: React.FC<{ snapshots: NetWorthSnapshot[] }> = ({
+  snapshots,
+}) => {
+  const points = useMemo(() => {
+    const values = snapshots.map((snapshot) => snapshot.netWorth);
+    const low = Math.min(...values);
+    const high = Math.max(...values, low + 1);
+    return snapshots
+      .map((snapshot, i) => {
+        const x = (i / Math.max(snapshots.length - 1, 1)) * CHART_WIDTH;
+        const y =
+          CHART_HEIGHT -
+          ((snapshot.netWorth - low) / (high - low)) * (CHART_HEIGHT - 10) -
+          5;
+        return `${x},${y}`;
+      })
+      .join(" ");
+  }, [snapshots]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-44"
+    >
+      <polyline
+        points={points}
+        fill="none"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+        className="stroke-brand-600"
+      />
+    </svg>
+  );
+};
+
+const NetWorth: React.FC = () => {
+  const {
+    snapshots,
+    current,
+    monthlyChanges,
+    manualAssets,
+    unconvertedAccounts,
+    unconvertedInvestments,
+    failedSources,
+    baseCurrency,
+    isLoading,
+    error,
+    addManualAsset,
+    updateManualAsset,
+    deleteManualAsset,
+  } = useNetWorth();
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingAsset, setEditingAsset] = useState<ManualAsset | null>(null);
+
+  const money = (amount: number) => formatCurrency(amount, baseCurrency);
+  const latestMonth = monthlyChanges[monthlyChanges.length - 1];
+  const recentMonths = [...monthlyChanges].reverse().slice(0, 6);
+
+  const handleSubmit = (draft: ManualAssetDraft) =>
+    editingAsset
+      ? updateManualAsset(editingAsset.id, draft)
+      : addManualAsset(draft);
+
+  const handleDelete = async (asset: ManualAsset) => {
+    if (window.confirm(`Remove "${asset.name}" from your net worth?`)) {
+      await deleteManualAsset(asset.id);
+    }
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingAsset(null);
+  };
+
+  const changeColor = (change: number) =>
+    change > 0
+      ? "text-success-600"
+      : change < 0
+      ? "text-danger-600"
+      : "text-neutral-600";
+
+  return (
+    <AppLayout title="Net Worth">
+      <div className="space-y-8">
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="text-center p-4 bg-gradient-to-br from-brand-50 to-brand-100 rounded-xl">
+            <div className="text-2xl font-bold text-brand-700 mb-2">
+              {money(current?.netWorth || 0)}
+            </div>
+            <p className="text-sm text-brand-600 font-medium">Net Worth</p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-success-50 to-success-100 rounded-xl">
+            <div className="text-2xl font-bold text-success-700 mb-2">
+              {money(current?.totalAssets || 0)}
+            </div>
+            <p className="text-sm text-success-600 font-medium">Assets</p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-danger-50 to-danger-100 rounded-xl">
+            <div className="text-2xl font-bold text-danger-700 mb-2">
+              {money(current?.totalLiabilities || 0)}
+            </div>
+            <p className="text-sm text-danger-600 font-medium">Liabilities</p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-neutral-50 to-neutral-100 rounded-xl">
+            <div
+              className={`text-2xl font-bold mb-2 ${changeColor(
+                latestMonth?.change || 0
+              )}`}
+            >
+              {latestMonth && latestMonth.change > 0 ? "+" : ""}
+              {money(latestMonth?.change || 0)}
+            </div>
+            <p className="text-sm text-neutral-600 font-medium">
+              This Month
+            </p>
+          </div>
+        </div>
+
+        {(error ||
+          failedSources.length > 0 ||
+          unconvertedAccounts.length > 0 ||
+          unconvertedInvestments.length > 0) && (
+          <div className="space-y-1 text-sm text-warning-700">
+            {error && <p>{error}</p>}
+            {failedSources.length > 0 && (
+              <p>
+                Couldn't load {failedSources.join(" and ")};{" "}
+                {current
+                  ? "their last known values are used."
+                  : "net worth will be recorded once they load."}
+              </p>
+            )}
+            {(unconvertedAccounts.length > 0 ||
+              unconvertedInvestments.length > 0) && (
+              <p>
+                Not included (no exchange rate to {baseCurrency}):{" "}
+                {[
+                  ...unconvertedAccounts.map((account) => account.accountName),
+                  ...unconvertedInvestments.map((investment) => investment.name),
+                ].join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+
+        <Card variant="elevated" className="animate-fade-in">
+          <CardHeader className="bg-gradient-to-r from-white to-brand-50/30">
+            <CardTitle className="text-gradient">Net Worth Over Time</CardTitle>
+            <CardDescription>
+              A snapshot is taken each day you open this page
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6">
+            {isLoading && snapshots.length === 0 ? (
+              <p className="text-sm text-neutral-600">Loading balances...</p>
+            ) : snapshots.length < 2 ? (
+              <p className="text-sm text-neutral-600">
+                Your history starts today. Check back to see how your net worth
+                changes over time.
+              </p>
+            ) : (
+              <>
+                <NetWorthChart snapshots={snapshots} />
+                <div className="flex justify-between text-xs text-neutral-500 mt-1">
+                  <span>{formatDate(snapshots[0].date)}</span>
+                  <span>
+                    {formatDate(snapshots[snapshots.length - 1].date)}
+                  </span>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {recentMonths.length > 0 && (
+          <Card variant="elevated" className="animate-fade-in">
+            <CardHeader className="bg-gradient-to-r from-white to-brand-50/30">
+              <CardTitle className="text-gradient">Month over Month</CardTitle>
+              <CardDescription>
+                What moved your net worth, by asset class. Paying down debt
+                counts as a gain.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-6 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-neutral-600">
+                    <th className="py-2 pr-4 font-medium">Month</th>
+                    {NET_WORTH_CLASSES.map((option) => (
+                      <th
+                        key={option.value}
+                        className="py-2 px-2 font-medium text-right"
+                      >
+                        {option.label}
+                      </th>
+                    ))}
+                    <th className="py-2 pl-4 font-medium text-right">
+                      Net change
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-200">
+                  {recentMonths.map((month) => (
+                    <tr key={month.month}>
+                      <td className="py-2 pr-4 text-neutral-900">
+                        {formatDate(`${month.month}-01`, "MMM yyyy")}
+                      </td>
+                      {month.classChanges.map((classChange) => (
+                        <td
+                          key={classChange.assetClass}
+                          className={`py-2 px-2 text-right ${changeColor(
+                            classChange.change
+                          )}`}
+                          title={`${getNetWorthClassLabel(
+                            classChange.assetClass
+                          )}: ${money(classChange.current)}`}
+                        >
+                          {classChange.change === 0
+                            ? "-"
+                            : money(classChange.change)}
+                        </td>
+                      ))}
+                      <td
+                        className={`py-2 pl-4 text-right font-medium ${changeColor(
+                          month.change
+                        )}`}
+                      >
+                        {money(month.change)} ({month.changePercentage}%)
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card variant="elevated" className="animate-fade-in">
+          <CardHeader className="bg-gradient-to-r from-white to-brand-50/30">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div>
+                <CardTitle className="text-gradient">Other Assets</CardTitle>
+                <CardDescription>
+                  Assets you value yourself, like property and vehicles
+                </CardDescription>
+              </div>
+              <Button variant="primary" onClick={() => setShowForm(true)}>
+                Add Asset
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6">
+            {manualAssets.length === 0 ? (
+              <p className="text-sm text-neutral-600">
+                No assets added yet. Accounts and investments are included
+                automatically.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {manualAssets.map((asset) => (
+                  <div
+                    key={asset.id}
+                    className="p-4 border border-neutral-200 rounded-lg bg-white/50 flex flex-col md:flex-row md:items-center gap-3"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <span className="font-medium text-neutral-900">
+                        {asset.name}
+                      </span>
+                      <p className="text-sm text-neutral-600">
+                        {getNetWorthClassLabel(asset.assetClass)} ·{" "}
+                        {money(asset.value)} · valued{" "}
+                        {formatDate(asset.updatedAt)}
+                      </p>
+                      {asset.notes && (
+                        <p className="text-xs text-neutral-500">
+                          {asset.notes}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setEditingAsset(asset);
+                          setShowForm(true);
+                        }}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDelete(asset)}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {showForm && (
+        <ManualAssetDialog
+          asset={editingAsset || undefined}
+          onSubmit={handleSubmit}
+          onClose={closeForm}
+        />
+      )}
+    </AppLayout>
+  );
+};
+
+export default NetWorth;
@@ -0,0 +1,439 @@
+import React, { useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import { useHoldings } from "../hooks/useHoldings";
+import { useExpenses } from "../hooks/useExpenses";
+import { useSips } from "../hooks/useSips";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import AppLayout from "../components/layout/AppLayout";
+import HoldingTransactionDialog from "../components/portfolio/HoldingTransactionDialog";
+import ManualPriceDialog from "../components/portfolio/ManualPriceDialog";
+import RebalancingPlanner from "../components/portfolio/RebalancingPlanner";
+import SipScheduleDialog from "../components/portfolio/SipScheduleDialog";
+import SipSchedulesCard from "../components/portfolio/SipSchedulesCard";
+import {
+  HoldingPosition,
+  HoldingTransaction,
+  HoldingTransactionType,
+  Investment,
+  SipSchedule,
+} from "../types/investment.types";
+import { formatCurrency, formatDate } from "../utils/helpers";
+import {
+  HOLDING_TRANSACTION_TYPE_OPTIONS,
+  sortHoldingTransactions,
+} from "../utils/holdings";
+
+const formatUnits = (quantity: number) =>
+  quantity.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const formatXirr = (xirr: number | null) => (xirr === null ? "—" : `${xirr}%`);
+
+const Portfolio: React.FC = () => {
+  const {
+    investments,
+    performance,
+    currency,
+    valuationDate,
+    isLoading,
+    isImporting,
+    error,
+    changeValuationDate,
+    getTransactions,
+    addTransaction,
+    deleteTransaction,
+    getPrice,
+    importPrices,
+    addManualPrice,
+  } = useHoldings();
+  const { baseTransactions } = useExpenses();
+  const {
+    overviews,
+    getSchedule,
+    saveSchedule,
+    toggleSchedule,
+    deleteSchedule,
+  } = useSips(investments, baseTransactions, currency);
+
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [recordingFor, setRecordingFor] = useState<Investment | null>(null);
+  const [pricingFor, setPricingFor] = useState<Investment | null>(null);
+  const [sipFor, setSipFor] = useState<{
+    investment: Investment;
+    schedule?: SipSchedule;
+  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const money = (amount: number) => formatCurrency(amount, currency);
+  const gainColor = (amount: number) =>
+    amount > 0
+      ? "text-success-600"
+      : amount < 0
+      ? "text-danger-600"
+      : "text-neutral-600";
+  const typeLabel = (type: HoldingTransactionType) =>
+    HOLDING_TRANSACTION_TYPE_OPTIONS.find((option) => option.value === type)
+      ?.label || type;
+
+  const positionFor = (investmentId: string): HoldingPosition | undefined =>
+    performance.positions.find(
+      (position) => position.investmentId === investmentId
+    );
+
+  const describeTransaction = (transaction: HoldingTransaction) => {
+    switch (transaction.type) {
+      case HoldingTransactionType.BUY:
+      case HoldingTransactionType.SELL:
+        return `${formatUnits(transaction.quantity)} @ ${money(
+          transaction.price
+        )}${transaction.fees > 0 ? ` + ${money(transaction.fees)} fees` : ""}`;
+      case HoldingTransactionType.SPLIT:
+        return `${transaction.splitRatio} units per unit held`;
+      default:
+        return money(transaction.amount);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      await importPrices(file);
+    }
+    e.target.value = "";
+  };
+
+  const handleDelete = async (investment: Investment, transactionId: string) => {
+    if (window.confirm("Remove this transaction from the ledger?")) {
+      await deleteTransaction(investment, transactionId);
+    }
+  };
+
+  return (
+    <AppLayout title="Portfolio">
+      <div className="space-y-8">
+        {/* Valuation */}
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="w-full md:w-56">
+            <Input
+              type="date"
+              label="Valued as of"
+              value={valuationDate}
+              onChange={(e) => changeValuationDate(e.target.value)}
+            />
+          </div>
+          <p className="flex-1 text-sm text-neutral-600">
+            Holdings are valued at the latest price on or before this date.
+            Import a CSV of symbol, date and price, or an AMFI NAV file; mutual
+            funds match on scheme code or ISIN.
+          </p>
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            isLoading={isImporting}
+            disabled={isImporting}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import Prices
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="text-center p-4 bg-gradient-to-br from-brand-50 to-brand-100 rounded-xl">
+            <div className="text-2xl font-bold text-brand-700 mb-2">
+              {money(performance.marketValue)}
+            </div>
+            <p className="text-sm text-brand-600 font-medium">
+              Market Value ({money(performance.costBasis)} invested)
+            </p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-success-50 to-success-100 rounded-xl">
+            <div
+              className={`text-2xl font-bold mb-2 ${gainColor(
+                performance.unrealizedGain
+              )}`}
+            >
+              {money(performance.unrealizedGain)}
+            </div>
+            <p className="text-sm text-success-600 font-medium">Unrealized</p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-warning-50 to-warning-100 rounded-xl">
+            <div
+              className={`text-2xl font-bold mb-2 ${gainColor(
+                performance.realizedGain + performance.dividends
+              )}`}
+            >
+              {money(performance.realizedGain + performance.dividends)}
+            </div>
+            <p className="text-sm text-warning-600 font-medium">
+              Realized + Dividends
+            </p>
+          </div>
+          <div className="text-center p-4 bg-gradient-to-br from-neutral-50 to-neutral-100 rounded-xl">
+            <div className="text-2xl font-bold text-neutral-700 mb-2">
+              {formatXirr(performance.xirr)}
+            </div>
+            <p className="text-sm text-neutral-600 font-medium">
+              XIRR (annualised)
+            </p>
+          </div>
+        </div>
+
+        <Card variant="elevated" className="animate-fade-in">
+          <CardHeader className="bg-gradient-to-r from-white to-brand-50/30">
+            <CardTitle className="text-gradient">Holdings</CardTitle>
+            <CardDescription>
+              Sells are matched to your oldest units first. Holdings without a
+              ledger use their invested amount as a single purchase.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6">
+            {error && <p className="mb-4 text-sm text-danger-600">{error}</p>}
+
+            {investments.length === 0 ? (
+              <p className="text-sm text-neutral-600">
+                {isLoading ? "Loading holdings..." : "No investments yet."}
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {investments.map((investment) => {
+                  const position = positionFor(investment.id);
+                  if (!position) return null;
+                  const price = getPrice(investment);
+                  const isExpanded = expandedId === investment.id;
+                  const ledger = sortHoldingTransactions(
+                    getTransactions(investment.id)
+                  ).reverse();
+
+                  return (
+                    <div
+                      key={investment.id}
+                      className="p-4 border border-neutral-200 rounded-lg bg-white/50 space-y-3"
+                    >
+                      <div className="flex flex-col md:flex-row md:items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                          <span className="font-medium text-neutral-900">
+                            {investment.name}
+                          </span>
+                          {investment.symbol && (
+                            <span className="ml-2 text-sm text-neutral-500">
+                              {investment.symbol}
+                            </span>
+                          )}
+                          <p className="text-sm text-neutral-600">
+                            {formatUnits(position.quantity)} units · avg{" "}
+                            {money(position.averageCost)} ·{" "}
+                            {money(position.marketValue)}
+                          </p>
+                          <p className="text-sm">
+                            <span className={gainColor(position.unrealizedGain)}>
+                              Unrealized {money(position.unrealizedGain)}
+                            </span>
+                            {" · "}
+                            <span className={gainColor(position.realizedGain)}>
+                              Realized {money(position.realizedGain)}
+                            </span>
+                            {position.dividends > 0 &&
+                              ` · Dividends ${money(position.dividends)}`}
+                            {" · "}XIRR {formatXirr(position.xirr)}
+                          </p>
+                          <p className="text-xs text-neutral-500">
+                            {price
+                              ? `Priced at ${money(price.price)} on ${formatDate(
+                                  price.date
+                                )} (${price.source})`
+                              : "No price on file; using the last valuation"}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="primary"
+                            onClick={() => setRecordingFor(investment)}
+                          >
+                            Add transaction
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setPricingFor(investment)}
+                          >
+                            Set price
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() =>
+                              setSipFor({
+                                investment,
+                                schedule: getSchedule(investment.id),
+                              })
+                            }
+                          >
+                            {getSchedule(investment.id) ? "Edit SIP" : "Add SIP"}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant={isExpanded ? "secondary" : "ghost"}
+                            onClick={() =>
+                              setExpandedId(isExpanded ? null : investment.id)
+                            }
+                          >
+                            Ledger
+                          </Button>
+                        </div>
+                      </div>
+
+                      {isExpanded && (
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 text-sm">
+                          <div>
+                            <h4 className="font-medium text-neutral-900 mb-2">
+                              Transactions
+                            </h4>
+                            {ledger.length === 0 ? (
+                              <p className="text-neutral-600">
+                                Nothing recorded yet.
+                              </p>
+                            ) : (
+                              <ul className="divide-y divide-neutral-200">
+                                {ledger.map((transaction) => (
+                                  <li
+                                    key={transaction.id}
+                                    className="py-2 flex justify-between gap-2"
+                                  >
+                                    <span>
+                                      {formatDate(transaction.date)} ·{" "}
+                                      {typeLabel(transaction.type)} ·{" "}
+                                      {describeTransaction(transaction)}
+                                    </span>
+                                    <Button
+                                      size="xs"
+                                      variant="ghost"
+                                      onClick={() =>
+                                        handleDelete(investment, transaction.id)
+                                      }
+                                    >
+                                      Remove
+                                    </Button>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                          <div>
+                            <h4 className="font-medium text-neutral-900 mb-2">
+                              Open lots
+                            </h4>
+                            {position.lots.length === 0 ? (
+                              <p className="text-neutral-600">No units held.</p>
+                            ) : (
+                              <ul className="divide-y divide-neutral-200">
+                                {position.lots.map((lot) => (
+                                  <li
+                                    key={lot.buyTransactionId}
+                                    className="py-2 flex justify-between"
+                                  >
+                                    <span>Bought {formatDate(lot.date)}</span>
+                                    <span>
+                                      {formatUnits(lot.quantity)} @{" "}
+                                      {money(lot.costPerUnit)}
+                                    </span>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {position.realizedGains.length > 0 && (
+                              <>
+                                <h4 className="font-medium text-neutral-900 mt-4 mb-2">
+                                  Realized gains
+                                </h4>
+                                <ul className="divide-y divide-neutral-200">
+                                  {position.realizedGains.map((gain) => (
+                                    <li
+                                      key={gain.sellTransactionId}
+                                      className="py-2 flex justify-between"
+                                    >
+                                      <span>
+                                        Sold {formatUnits(gain.quantity)} on{" "}
+                                        {formatDate(gain.date)}
+                                      </span>
+                                      <span className={gainColor(gain.gain)}>
+                                        {money(gain.gain)}
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {overviews.length > 0 && (
+          <SipSchedulesCard
+            overviews={overviews}
+            currency={currency}
+            onEdit={({ investment, schedule }) =>
+              setSipFor({ investment, schedule })
+            }
+            onToggle={toggleSchedule}
+            onDelete={deleteSchedule}
+          />
+        )}
+
+        {investments.length > 0 && (
+          <RebalancingPlanner investments={investments} currency={currency} />
+        )}
+      </div>
+
+      {recordingFor && (
+        <HoldingTransactionDialog
+          investment={recordingFor}
+          onSubmit={(draft) => addTransaction(recordingFor, draft)}
+          onClose={() => setRecordingFor(null)}
+        />
+      )}
+
+      {pricingFor && (
+        <ManualPriceDialog
+          investment={pricingFor}
+          defaultDate={valuationDate}
+          onSubmit={(date, price) => addManualPrice(pricingFor, date, price)}
+          onClose={() => setPricingFor(null)}
+        />
+      )}
+
+      {sipFor && (
+        <SipScheduleDialog
+          investment={sipFor.investment}
+          schedule={sipFor.schedule}
+          onSubmit={(draft) => saveSchedule(draft, sipFor.schedule?.id)}
+          onClose={() => setSipFor(null)}
+        />
+      )}
+    </AppLayout>
+  );
+};
+
+export default Portfolio;
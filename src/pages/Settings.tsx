@@ -7,6 +7,7 @@ import {
   Phone,
   Calendar,
   Briefcase,
+  Wallet,
   Save,
   Send,
   Check,
@@ -14,11 +15,16 @@ import {
 import { Button } from "../components/ui/button";
 import { Card } from "../components/ui/card";
 import { Input } from "../components/ui/input";
+import CategorizationRulesSection from "../components/settings/CategorizationRulesSection";
+import ExchangeRatesSection from "../components/settings/ExchangeRatesSection";
+import NotificationSettingsSection from "../components/settings/NotificationSettingsSection";
+import RiskProfileSection from "../components/settings/RiskProfileSection";
 import { useAuth } from "../context/AuthContext";
 import { userApiService } from "../api/endpoints/user.api";
 import { UpdateProfileRequest, UserProfile } from "../types/auth.types";
 import { API_CONFIG, STORAGE_KEYS } from "../api/config";
 import { toast } from "sonner";
+import { formatCurrency } from "../utils/helpers";
 
 const Settings: React.FC = () => {
   const { user, logout } = useAuth();
@@ -39,6 +45,7 @@ const Settings: React.FC = () => {
     phoneNumber: "",
     dateOfBirth: "",
     occupation: "",
+    annualIncome: "",
   });
 
   // Load user profile on component mount
@@ -55,6 +62,7 @@ const Settings: React.FC = () => {
           phoneNumber: profile.phoneNumber || "",
           dateOfBirth: profile.dateOfBirth || "",
           occupation: profile.occupation || "",
+          annualIncome: profile.annualIncome ? String(profile.annualIncome) : "",
         });
       } catch (error: any) {
         // Failed to load user profile
@@ -68,6 +76,7 @@ const Settings: React.FC = () => {
             phoneNumber: "",
             dateOfBirth: "",
             occupation: "",
+            annualIncome: "",
           });
         }
       } finally {
@@ -99,6 +108,7 @@ const Settings: React.FC = () => {
         phoneNumber: formData.phoneNumber,
         dateOfBirth: formData.dateOfBirth,
         occupation: formData.occupation,
+        annualIncome: parseFloat(formData.annualIncome) || undefined,
       };
 
       await userApiService.updateProfile(updateData);
@@ -381,6 +391,34 @@ const Settings: React.FC = () => {
                     </p>
                   )}
                 </div>
+
+                {/* Annual Income */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Wallet className="h-4 w-4 inline mr-2" />
+                    Annual Income
+                  </label>
+                  {isEditing ? (
+                    <Input
+                      type="number"
+                      min="0"
+                      value={formData.annualIncome}
+                      onChange={(e) =>
+                        handleInputChange("annualIncome", e.target.value)
+                      }
+                      placeholder="Enter your annual income"
+                    />
+                  ) : (
+                    <p className="text-gray-900 py-2 px-3 bg-gray-50 rounded-md">
+                      {formData.annualIncome
+                        ? formatCurrency(
+                            parseFloat(formData.annualIncome),
+                            userProfile?.currency || user.currency
+                          )
+                        : "Not provided"}
+                    </p>
+                  )}
+                </div>
               </div>
             </Card>
           </div>
@@ -515,6 +553,26 @@ const Settings: React.FC = () => {
             </Card>
           </div>
         </div>
+
+        {/* Risk Profile */}
+        <div className="mt-8">
+          <RiskProfileSection profile={userProfile} />
+        </div>
+
+        {/* Categorization Rules */}
+        <div className="mt-8">
+          <CategorizationRulesSection />
+        </div>
+
+        {/* Exchange Rates */}
+        <div className="mt-8">
+          <ExchangeRatesSection />
+        </div>
+
+        {/* Notifications */}
+        <div className="mt-8">
+          <NotificationSettingsSection />
+        </div>
       </div>
     </div>
   );
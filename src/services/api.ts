@@ -150,9 +150,18 @@ class ApiService {
     const response = error.response;
     const responseData = response?.data as any;
     
+    // No response at all means the backend could not be reached
+    if (!response) {
+      return {
+        message: 'Network error. Please check your connection.',
+        status: 0,
+        code: 'NETWORK_ERROR',
+      };
+    }
+
     return {
       message: responseData?.message || error.message || 'An unexpected error occurred',
-      status: response?.status || 500,
+      status: response.status || 500,
       code: responseData?.code,
     };
   }
@@ -0,0 +1,232 @@
+/**
+ * Bill Service
+ * Stores bills, settles them against matching expense transactions, rolls paid bills
+ * into their next cycle and raises due-soon and overdue reminders
+ */
+
+import { format } from 'date-fns';
+import { Bill, BillPayment } from '../types/financial.types';
+import { RecurringTransaction, Transaction } from '../types/expense.types';
+import { localNotificationService } from './local-notification.service';
+import { findBillPayment, getBillStatus, rollBillForward } from '../utils/bills';
+import { formatCurrency, formatDate, generateId } from '../utils/helpers';
+
+const BILLS_STORAGE_KEY = 'wealthify_bills';
+
+// Enough history to show a couple of years of monthly payments
+const MAX_BILL_PAYMENTS = 24;
+
+export type BillDraft = Omit<Bill, 'id' | 'isPaid' | 'payments' | 'createdAt'>;
+
+export interface BillReconcileResult {
+  bills: Bill[];
+  matched: { bill: Bill; transaction: Transaction }[];
+}
+
+class BillService {
+  // Bill storage
+  getBills(): Bill[] {
+    try {
+      const stored = localStorage.getItem(BILLS_STORAGE_KEY);
+      const bills: Bill[] = stored ? JSON.parse(stored) : [];
+      return bills.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+    } catch {
+      return [];
+    }
+  }
+
+  private saveBills(bills: Bill[]): void {
+    localStorage.setItem(BILLS_STORAGE_KEY, JSON.stringify(bills));
+  }
+
+  private validate(bill: BillDraft): void {
+    if (!bill.name.trim()) {
+      throw new Error('Bill name is required');
+    }
+    if (!(bill.amount > 0)) {
+      throw new Error('Bill amount must be greater than zero');
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(bill.dueDate)) {
+      throw new Error('Due date is required');
+    }
+  }
+
+  createBill(draft: BillDraft): Bill {
+    this.validate(draft);
+
+    const bill: Bill = {
+      ...draft,
+      name: draft.name.trim(),
+      merchant: draft.merchant?.trim() || undefined,
+      id: generateId(),
+      isPaid: false,
+      payments: [],
+      createdAt: new Date().toISOString()
+    };
+
+    this.saveBills([...this.getBills(), bill]);
+    return bill;
+  }
+
+  updateBill(billId: string, changes: Partial<BillDraft>): Bill {
+    const bills = this.getBills();
+    const existing = bills.find(b => b.id === billId);
+    if (!existing) {
+      throw new Error('Bill not found');
+    }
+
+    const updated: Bill = { ...existing, ...changes };
+    this.validate(updated);
+
+    this.saveBills(bills.map(b => (b.id === billId ? updated : b)));
+    return updated;
+  }
+
+  deleteBill(billId: string): void {
+    const bill = this.getBills().find(b => b.id === billId);
+    if (bill) {
+      this.clearReminders(bill);
+    }
+    this.saveBills(this.getBills().filter(b => b.id !== billId));
+  }
+
+  // One click from a detected recurring series; the series' next date becomes the first due date
+  createFromRecurring(series: RecurringTransaction, accountId: string = ''): Bill {
+    const existing = this.getBills().find(b => b.recurringSeriesId === series.id);
+    if (existing) {
+      throw new Error(`${existing.name} is already tracked as a bill`);
+    }
+
+    return this.createBill({
+      name: series.merchant || series.description,
+      amount: Math.round(Math.abs(series.amount) * 100) / 100,
+      dueDate: format(new Date(series.nextDate), 'yyyy-MM-dd'),
+      frequency: series.frequency,
+      category: series.category,
+      accountId,
+      merchant: series.merchant || series.description,
+      recurringSeriesId: series.id
+    });
+  }
+
+  // Payments
+  private settle(bill: Bill, payment: BillPayment): Bill {
+    this.clearReminders(bill);
+    return {
+      ...bill,
+      isPaid: true,
+      payments: [...(bill.payments || []), payment].slice(-MAX_BILL_PAYMENTS)
+    };
+  }
+
+  markPaid(billId: string): Bill {
+    const bill = this.getBills().find(b => b.id === billId);
+    if (!bill) {
+      throw new Error('Bill not found');
+    }
+    if (bill.isPaid) return bill;
+
+    const paid = this.settle(bill, { dueDate: bill.dueDate, amount: bill.amount, paidAt: new Date().toISOString() });
+    this.saveBills(this.getBills().map(b => (b.id === billId ? paid : b)));
+    return paid;
+  }
+
+  // Undoes the current cycle's payment; a matched transaction stays free to settle it again
+  markUnpaid(billId: string): Bill {
+    const bill = this.getBills().find(b => b.id === billId);
+    if (!bill) {
+      throw new Error('Bill not found');
+    }
+
+    const unpaid: Bill = {
+      ...bill,
+      isPaid: false,
+      payments: (bill.payments || []).filter(payment => payment.dueDate !== bill.dueDate)
+    };
+    this.saveBills(this.getBills().map(b => (b.id === billId ? unpaid : b)));
+    return unpaid;
+  }
+
+  // Settles every cycle a transaction has paid, moving each bill on to its next unpaid cycle
+  reconcile(transactions: Transaction[], asOf: Date = new Date()): BillReconcileResult {
+    const bills = this.getBills();
+    const usedTransactionIds = new Set(
+      bills.flatMap(bill => (bill.payments || []).map(payment => payment.transactionId).filter((id): id is string => !!id))
+    );
+    const matched: BillReconcileResult['matched'] = [];
+
+    const reconciled = bills.map(original => {
+      let bill = rollBillForward(original, asOf);
+      while (!bill.isPaid) {
+        const transaction = findBillPayment(bill, transactions, usedTransactionIds);
+        if (!transaction) break;
+
+        usedTransactionIds.add(transaction.id);
+        bill = this.settle(bill, {
+          dueDate: bill.dueDate,
+          amount: Math.abs(transaction.amount),
+          paidAt: new Date(transaction.date).toISOString(),
+          transactionId: transaction.id
+        });
+        matched.push({ bill, transaction });
+
+        const next = rollBillForward(bill, asOf);
+        // A cycle that is still current stays paid until its due date passes
+        if (next.dueDate === bill.dueDate) break;
+        bill = next;
+      }
+      return bill;
+    });
+
+    this.saveBills(reconciled);
+    return { bills: reconciled, matched };
+  }
+
+  // Reminders
+  private reminderKeys(bill: Bill): string[] {
+    return [`bill_due:${bill.id}:${bill.dueDate}`, `bill_overdue:${bill.id}:${bill.dueDate}`];
+  }
+
+  private clearReminders(bill: Bill): void {
+    this.reminderKeys(bill).forEach(key => localNotificationService.expire(key));
+  }
+
+  // Raises each bill's reminder once per cycle; returns how many were new
+  sendReminders(bills: Bill[], reminderDays: number, currency: string, asOf: Date = new Date()): number {
+    let raised = 0;
+
+    bills.forEach(bill => {
+      const status = getBillStatus(bill, reminderDays, asOf);
+      if (status !== 'due_soon' && status !== 'overdue') return;
+
+      const [dueKey, overdueKey] = this.reminderKeys(bill);
+      const amount = formatCurrency(bill.amount, currency);
+      const notification =
+        status === 'overdue'
+          ? localNotificationService.notify(overdueKey, {
+              type: 'bill_reminder',
+              title: `${bill.name} is overdue`,
+              message: `${amount} was due on ${formatDate(bill.dueDate)}.`,
+              priority: 'high',
+              actionUrl: '/bills',
+              actionText: 'View bills',
+              relatedEntityId: bill.id
+            })
+          : localNotificationService.notify(dueKey, {
+              type: 'bill_reminder',
+              title: `${bill.name} is due ${bill.dueDate === format(asOf, 'yyyy-MM-dd') ? 'today' : `on ${formatDate(bill.dueDate)}`}`,
+              message: `${amount} is due soon.`,
+              priority: 'medium',
+              actionUrl: '/bills',
+              actionText: 'View bills',
+              relatedEntityId: bill.id
+            });
+      if (notification) raised++;
+    });
+
+    return raised;
+  }
+}
+
+export const billService = new BillService();
+export default billService;
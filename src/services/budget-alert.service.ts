@@ -0,0 +1,148 @@
+/**
+ * Budget Alert Service
+ * Raises milestone, threshold and exceeded alerts the first time a budget crosses each level
+ * in a period, and keeps them so they survive reloads
+ */
+
+import { Budget } from '../types/expense.types';
+import { BudgetAlert } from '../types/financial.types';
+import { DashboardAlert } from './dashboard.service';
+import {
+  BudgetOverrunForecast,
+  describeBudgetAlert,
+  getBudgetAlertLevels,
+  getCrossedLevels
+} from '../utils/budgetAlerts';
+import { formatCurrency, formatDate, generateId } from '../utils/helpers';
+
+const BUDGET_ALERTS_STORAGE_KEY = 'wealthify_budget_alerts';
+const BUDGET_ALERT_LEVELS_STORAGE_KEY = 'wealthify_budget_alert_levels';
+
+// Keep roughly a year of monthly alerts for a handful of budgets
+const MAX_STORED_ALERTS = 200;
+
+class BudgetAlertService {
+  // Alert storage
+  getAlerts(): BudgetAlert[] {
+    try {
+      const stored = localStorage.getItem(BUDGET_ALERTS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveAlerts(alerts: BudgetAlert[]): void {
+    localStorage.setItem(BUDGET_ALERTS_STORAGE_KEY, JSON.stringify(alerts.slice(-MAX_STORED_ALERTS)));
+  }
+
+  markAsRead(alertId: string): void {
+    this.saveAlerts(this.getAlerts().map(alert => (alert.id === alertId ? { ...alert, isRead: true } : alert)));
+  }
+
+  markAllAsRead(): void {
+    this.saveAlerts(this.getAlerts().map(alert => ({ ...alert, isRead: true })));
+  }
+
+  // Levels each budget period is currently above, keyed by budget id and period start
+  private getCrossedLevelState(): Record<string, number[]> {
+    try {
+      const stored = localStorage.getItem(BUDGET_ALERT_LEVELS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private saveCrossedLevelState(state: Record<string, number[]>): void {
+    localStorage.setItem(BUDGET_ALERT_LEVELS_STORAGE_KEY, JSON.stringify(state));
+  }
+
+  // Alert engine
+  // Budgets should already be rolled into their current period. A level only alerts again
+  // after spending has dropped back below it (e.g. a refund) and crossed it a second time.
+  evaluate(budgets: Budget[], currency: string): BudgetAlert[] {
+    const state = this.getCrossedLevelState();
+    const evaluated = new Set(budgets.map(budget => budget.id));
+    // Earlier periods of the budgets being evaluated no longer matter
+    const nextState: Record<string, number[]> = Object.fromEntries(
+      Object.entries(state).filter(([key]) => !evaluated.has(key.split(':')[0]))
+    );
+    const raised: BudgetAlert[] = [];
+    const money = (amount: number) => formatCurrency(amount, currency);
+
+    budgets
+      .filter(budget => budget.isActive)
+      .forEach(budget => {
+        const key = `${budget.id}:${budget.startDate.slice(0, 10)}`;
+        const crossed = getCrossedLevels(budget);
+        const previous = new Set(state[key] || []);
+        nextState[key] = crossed;
+
+        const newlyCrossed = getBudgetAlertLevels(budget).filter(
+          level => crossed.includes(level.threshold) && !previous.has(level.threshold)
+        );
+        // Jumping past several levels at once only needs the highest one
+        const level = newlyCrossed[newlyCrossed.length - 1];
+        if (!level) return;
+
+        raised.push({
+          id: generateId(),
+          budgetId: budget.id,
+          type: level.type,
+          message: describeBudgetAlert(budget, level, money),
+          threshold: level.threshold,
+          currentAmount: Math.abs(budget.spent),
+          isRead: false,
+          createdAt: new Date().toISOString(),
+          periodKey: budget.startDate.slice(0, 10)
+        });
+      });
+
+    this.saveCrossedLevelState(nextState);
+    if (raised.length > 0) {
+      this.saveAlerts([...this.getAlerts(), ...raised]);
+    }
+    return raised;
+  }
+
+  // Dashboard feed
+  toDashboardAlerts(alerts: BudgetAlert[], forecasts: BudgetOverrunForecast[], budgets: Budget[], currency: string): DashboardAlert[] {
+    const names = new Map(budgets.map(budget => [budget.id, budget.name || budget.category]));
+    const currentPeriods = new Map(budgets.map(budget => [budget.id, budget.startDate.slice(0, 10)]));
+
+    const forecastAlerts: DashboardAlert[] = forecasts.map(forecast => ({
+      id: `forecast:${forecast.budgetId}`,
+      type: 'budget_forecast',
+      title: `${names.get(forecast.budgetId) || 'Budget'} is on pace to overspend`,
+      message: `At ${formatCurrency(forecast.dailyBurnRate, currency)} a day you will exceed this budget by ${formatDate(
+        forecast.exceedDate
+      )} and end the period ${formatCurrency(forecast.projectedOverrun, currency)} over.`,
+      severity: 'medium',
+      timestamp: new Date().toISOString(),
+      isRead: false,
+      actionUrl: '/expenses'
+    }));
+
+    const storedAlerts: DashboardAlert[] = alerts
+      .filter(alert => !alert.isRead && currentPeriods.get(alert.budgetId) === alert.periodKey)
+      .map(alert => ({
+        id: alert.id,
+        type: alert.type === 'exceeded' ? 'budget_exceeded' : 'budget_threshold',
+        title:
+          alert.type === 'exceeded'
+            ? `${names.get(alert.budgetId)} budget exceeded`
+            : `${names.get(alert.budgetId)} budget ${alert.threshold}% used`,
+        message: alert.message,
+        severity: alert.type === 'exceeded' ? 'high' : alert.type === 'threshold' ? 'medium' : 'low',
+        timestamp: alert.createdAt,
+        isRead: alert.isRead,
+        actionUrl: '/expenses'
+      }));
+
+    return [...storedAlerts.reverse(), ...forecastAlerts];
+  }
+}
+
+export const budgetAlertService = new BudgetAlertService();
+export default budgetAlertService;
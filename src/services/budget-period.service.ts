@@ -0,0 +1,165 @@
+/**
+ * Budget Period Service
+ * Rolls recurring budgets into consecutive weekly/monthly/quarterly/yearly periods,
+ * applies carry-over between them and keeps snapshots of closed periods
+ */
+
+import { endOfDay, parseISO } from 'date-fns';
+import { Budget, BudgetCarryOver, BudgetPeriodSnapshot, Transaction } from '../types/expense.types';
+import { materializeBudgetPeriods } from '../utils/budgetPeriods';
+
+const BUDGET_SETTINGS_STORAGE_KEY = 'wealthify_budget_settings';
+const BUDGET_SNAPSHOTS_STORAGE_KEY = 'wealthify_budget_snapshots';
+
+// Budget options the backend has no field for
+interface BudgetSettings {
+  carryOver: BudgetCarryOver;
+}
+
+class BudgetPeriodService {
+  private closingInFlight: Promise<number> | null = null;
+
+  // Carry-over settings
+  private getSettings(): Record<string, BudgetSettings> {
+    try {
+      const stored = localStorage.getItem(BUDGET_SETTINGS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  getCarryOver(budgetId: string): BudgetCarryOver {
+    return this.getSettings()[budgetId]?.carryOver || BudgetCarryOver.NONE;
+  }
+
+  // Changing carry-over reopens history so earlier periods are recalculated with the new rule
+  setCarryOver(budgetId: string, carryOver: BudgetCarryOver): void {
+    const settings = this.getSettings();
+    settings[budgetId] = { ...settings[budgetId], carryOver };
+    localStorage.setItem(BUDGET_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    this.resetSnapshots(budgetId);
+  }
+
+  withSettings(budget: Budget): Budget {
+    return { ...budget, carryOver: this.getCarryOver(budget.id) };
+  }
+
+  // Snapshot storage
+  private getAllSnapshots(): Record<string, BudgetPeriodSnapshot[]> {
+    try {
+      const stored = localStorage.getItem(BUDGET_SNAPSHOTS_STORAGE_KEY);
+      const all: Record<string, BudgetPeriodSnapshot[]> = stored ? JSON.parse(stored) : {};
+      Object.keys(all).forEach(budgetId => {
+        all[budgetId] = all[budgetId].map(snapshot => ({
+          ...snapshot,
+          closedAt: snapshot.closedAt ? new Date(snapshot.closedAt) : undefined
+        }));
+      });
+      return all;
+    } catch {
+      return {};
+    }
+  }
+
+  private saveAllSnapshots(all: Record<string, BudgetPeriodSnapshot[]>): void {
+    localStorage.setItem(BUDGET_SNAPSHOTS_STORAGE_KEY, JSON.stringify(all));
+  }
+
+  getSnapshots(budgetId: string): BudgetPeriodSnapshot[] {
+    return this.getAllSnapshots()[budgetId] || [];
+  }
+
+  resetSnapshots(budgetId: string): void {
+    const all = this.getAllSnapshots();
+    delete all[budgetId];
+    this.saveAllSnapshots(all);
+  }
+
+  // Period engine
+  getPeriods(budget: Budget, transactions: Transaction[], serverSpent?: number, asOf: Date = new Date()): BudgetPeriodSnapshot[] {
+    const stored = this.getSnapshots(budget.id);
+    const periods = materializeBudgetPeriods(this.withSettings(budget), transactions, asOf, stored, serverSpent);
+
+    // Snapshots older than the materialized range are still part of the budget's history
+    const firstKey = periods[0]?.periodKey;
+    const older = firstKey ? stored.filter(snapshot => snapshot.periodKey < firstKey) : [];
+    return [...older, ...periods];
+  }
+
+  // The budget as it applies today: current period dates, spending and carried-in amount
+  getCurrentInstance(budget: Budget, transactions: Transaction[], serverSpent?: number): Budget {
+    const periods = this.getPeriods(budget, transactions, serverSpent);
+    const current = periods[periods.length - 1];
+    if (!current) {
+      return { ...this.withSettings(budget), spent: serverSpent ?? budget.spent };
+    }
+
+    return {
+      ...this.withSettings(budget),
+      startDate: current.startDate,
+      endDate: current.endDate,
+      spent: current.spent,
+      carriedIn: current.carriedIn
+    };
+  }
+
+  // Freeze periods that have ended so later edits to the budget don't rewrite history
+  closePeriods(budget: Budget, transactions: Transaction[], serverSpent?: number, asOf: Date = new Date()): number {
+    const stored = this.getSnapshots(budget.id);
+    const storedKeys = new Set(stored.filter(s => s.isClosed).map(s => s.periodKey));
+    const newlyClosed = this.getPeriods(budget, transactions, serverSpent, asOf)
+      .filter(period => period.isClosed && !storedKeys.has(period.periodKey))
+      .map(period => ({ ...period, closedAt: new Date() }));
+
+    if (newlyClosed.length > 0) {
+      const all = this.getAllSnapshots();
+      all[budget.id] = [...stored, ...newlyClosed].sort((a, b) => a.periodKey.localeCompare(b.periodKey));
+      this.saveAllSnapshots(all);
+    }
+    return newlyClosed.length;
+  }
+
+  // Ended periods without a snapshot yet, as the date range of transactions needed to close them
+  private getClosableRange(budget: Budget, asOf: Date): { startDate: string; endDate: string } | null {
+    const closedKeys = new Set(this.getSnapshots(budget.id).filter(s => s.isClosed).map(s => s.periodKey));
+    const ended = this.getPeriods(budget, [], undefined, asOf)
+      .filter(period => period.isClosed && !closedKeys.has(period.periodKey));
+    return ended.length > 0 ? { startDate: ended[0].startDate, endDate: ended[ended.length - 1].endDate } : null;
+  }
+
+  // Closes every budget's ended periods from all the transactions they cover, never from whatever page
+  // happens to be loaded. Every view shares one run, and nothing is fetched when nothing has ended.
+  closeEndedPeriods(
+    budgets: Budget[],
+    loadTransactions: (startDate: Date, endDate: Date) => Promise<Transaction[]>,
+    asOf: Date = new Date()
+  ): Promise<number> {
+    if (!this.closingInFlight) {
+      this.closingInFlight = this.runClosing(budgets, loadTransactions, asOf).finally(() => {
+        this.closingInFlight = null;
+      });
+    }
+    return this.closingInFlight;
+  }
+
+  private async runClosing(
+    budgets: Budget[],
+    loadTransactions: (startDate: Date, endDate: Date) => Promise<Transaction[]>,
+    asOf: Date
+  ): Promise<number> {
+    const closable = budgets
+      .map(budget => ({ budget, range: this.getClosableRange(budget, asOf) }))
+      .filter((entry): entry is { budget: Budget; range: { startDate: string; endDate: string } } => !!entry.range);
+    if (closable.length === 0) return 0;
+
+    const startDate = closable.map(entry => entry.range.startDate).sort()[0];
+    const endDate = closable.map(entry => entry.range.endDate).sort()[closable.length - 1];
+    const transactions = await loadTransactions(parseISO(startDate), endOfDay(parseISO(endDate)));
+
+    return closable.reduce((total, { budget }) => total + this.closePeriods(budget, transactions, undefined, asOf), 0);
+  }
+}
+
+export const budgetPeriodService = new BudgetPeriodService();
+export default budgetPeriodService;
@@ -0,0 +1,141 @@
+/**
+ * Classification Rules Service
+ * Stores user-defined categorization rules and evaluates them for manual entry,
+ * statement import and retroactive recategorization
+ */
+
+import {
+  Transaction,
+  TransactionCategory,
+  TransactionClassificationRule,
+  ClassificationInput,
+  RulePreview
+} from '../types/expense.types';
+import { findMatchingRule, ruleMatches, sortRules, validateRulePattern } from '../utils/classificationRules';
+import { autoClassifyTransaction, generateId } from '../utils/helpers';
+
+const RULES_STORAGE_KEY = 'wealthify_classification_rules';
+
+export type RuleDraft = Omit<TransactionClassificationRule, 'id' | 'priority' | 'createdAt' | 'updatedAt'>;
+
+class ClassificationRulesService {
+  // Rule storage
+  getRules(): TransactionClassificationRule[] {
+    try {
+      const stored = localStorage.getItem(RULES_STORAGE_KEY);
+      const rules: TransactionClassificationRule[] = stored ? JSON.parse(stored) : [];
+      return sortRules(rules.map(rule => ({
+        ...rule,
+        createdAt: new Date(rule.createdAt),
+        updatedAt: new Date(rule.updatedAt)
+      })));
+    } catch {
+      return [];
+    }
+  }
+
+  private saveRules(rules: TransactionClassificationRule[]): void {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+  }
+
+  private validate(rule: RuleDraft): void {
+    const patternError = validateRulePattern(rule.pattern, rule.matchType);
+    if (patternError) {
+      throw new Error(patternError);
+    }
+    if (rule.minAmount !== undefined && rule.maxAmount !== undefined && rule.minAmount > rule.maxAmount) {
+      throw new Error('Minimum amount cannot be greater than maximum amount');
+    }
+  }
+
+  createRule(draft: RuleDraft): TransactionClassificationRule {
+    this.validate(draft);
+
+    const rules = this.getRules();
+    const now = new Date();
+    const rule: TransactionClassificationRule = {
+      ...draft,
+      name: draft.name.trim() || draft.pattern.trim(),
+      id: generateId(),
+      priority: rules.length > 0 ? Math.max(...rules.map(r => r.priority)) + 1 : 1,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.saveRules([...rules, rule]);
+    return rule;
+  }
+
+  updateRule(ruleId: string, changes: Partial<RuleDraft>): TransactionClassificationRule {
+    const rules = this.getRules();
+    const existing = rules.find(r => r.id === ruleId);
+    if (!existing) {
+      throw new Error('Rule not found');
+    }
+
+    const updated: TransactionClassificationRule = { ...existing, ...changes, updatedAt: new Date() };
+    this.validate(updated);
+
+    this.saveRules(rules.map(r => (r.id === ruleId ? updated : r)));
+    return updated;
+  }
+
+  deleteRule(ruleId: string): void {
+    this.saveRules(this.getRules().filter(r => r.id !== ruleId));
+  }
+
+  // Swap with the neighbouring rule and renumber priorities 1..n
+  moveRule(ruleId: string, direction: 'up' | 'down'): TransactionClassificationRule[] {
+    const rules = this.getRules();
+    const index = rules.findIndex(r => r.id === ruleId);
+    const target = direction === 'up' ? index - 1 : index + 1;
+
+    if (index === -1 || target < 0 || target >= rules.length) {
+      return rules;
+    }
+
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    const reordered = rules.map((rule, i) => ({ ...rule, priority: i + 1 }));
+    this.saveRules(reordered);
+    return reordered;
+  }
+
+  // Evaluation
+  toClassificationInput(transaction: Transaction): ClassificationInput {
+    return {
+      description: transaction.description,
+      merchant: transaction.merchant,
+      amount: transaction.amount,
+      accountId: transaction.bankAccountId || transaction.accountId,
+      type: transaction.type
+    };
+  }
+
+  findRule(input: ClassificationInput): TransactionClassificationRule | undefined {
+    return findMatchingRule(this.getRules(), input);
+  }
+
+  // User rules first, then the built-in keyword classifier
+  categorize(input: ClassificationInput): TransactionCategory {
+    const rule = this.findRule(input);
+    return rule ? rule.category : autoClassifyTransaction(input.description).category;
+  }
+
+  // Which existing transactions a (possibly unsaved or inactive) rule would recategorize
+  previewRule(
+    rule: TransactionClassificationRule,
+    transactions: Transaction[],
+    includeManuallyClassified: boolean = false
+  ): RulePreview {
+    const candidate = { ...rule, isActive: true };
+    const matched = transactions.filter(t => ruleMatches(candidate, this.toClassificationInput(t)));
+    const toRecategorize = matched.filter(t =>
+      t.category !== rule.category && (includeManuallyClassified || !t.isManuallyClassified)
+    );
+
+    return { matched, toRecategorize };
+  }
+}
+
+export const classificationRulesService = new ClassificationRulesService();
+export default classificationRulesService;
@@ -0,0 +1,70 @@
+/**
+ * Credit Card Service
+ * Raises payment-due reminders for credit card statements and clears them once
+ * at least the minimum has been paid
+ */
+
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { localNotificationService } from './local-notification.service';
+import { CreditCardSummary } from '../utils/creditCard';
+import { formatCurrency, formatDate } from '../utils/helpers';
+
+class CreditCardService {
+  private reminderKeys(card: CreditCardSummary): string[] {
+    const dueDate = card.statement?.dueDate || '';
+    return [`card_due:${card.account.id}:${dueDate}`, `card_overdue:${card.account.id}:${dueDate}`];
+  }
+
+  // Raises each statement's reminder once; returns how many were new
+  sendReminders(cards: CreditCardSummary[], reminderDays: number, asOf: Date = new Date()): number {
+    let raised = 0;
+
+    cards.forEach(card => {
+      const statement = card.statement;
+      if (!statement) return;
+
+      const [dueKey, overdueKey] = this.reminderKeys(card);
+      if (statement.status === 'paid' || statement.status === 'minimum_paid' || statement.status === 'no_balance') {
+        localNotificationService.expire(dueKey);
+        localNotificationService.expire(overdueKey);
+        return;
+      }
+
+      const daysUntilDue = differenceInCalendarDays(parseISO(statement.dueDate), asOf);
+      if (statement.status === 'due' && daysUntilDue > reminderDays) return;
+
+      const money = (amount: number) => formatCurrency(amount, card.account.currencyCode);
+      const amounts = `${money(statement.statementBalance)} (minimum ${money(statement.minimumDue)})`;
+      const notification =
+        statement.status === 'overdue'
+          ? localNotificationService.notify(overdueKey, {
+              type: 'bill_reminder',
+              title: `${card.account.accountName} payment is overdue`,
+              message: `${amounts} was due on ${formatDate(statement.dueDate)}.`,
+              priority: 'high',
+              actionUrl: '/dashboard',
+              actionText: 'View cards',
+              relatedEntityId: card.account.id,
+              relatedEntityType: 'account'
+            })
+          : localNotificationService.notify(dueKey, {
+              type: 'bill_reminder',
+              title: `${card.account.accountName} payment is due ${
+                statement.dueDate === format(asOf, 'yyyy-MM-dd') ? 'today' : `on ${formatDate(statement.dueDate)}`
+              }`,
+              message: `${amounts} is due soon.`,
+              priority: 'medium',
+              actionUrl: '/dashboard',
+              actionText: 'View cards',
+              relatedEntityId: card.account.id,
+              relatedEntityType: 'account'
+            });
+      if (notification) raised++;
+    });
+
+    return raised;
+  }
+}
+
+export const creditCardService = new CreditCardService();
+export default creditCardService;
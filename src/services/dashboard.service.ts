@@ -37,7 +37,7 @@ export interface DashboardActivity {
 
 export interface DashboardAlert {
   id: string;
-  type: 'budget_exceeded' | 'low_savings' | 'investment_opportunity' | 'payment_due';
+  type: 'budget_exceeded' | 'budget_threshold' | 'budget_forecast' | 'low_savings' | 'investment_opportunity' | 'payment_due';
   title: string;
   message: string;
   severity: 'low' | 'medium' | 'high';
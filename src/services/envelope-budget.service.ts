@@ -0,0 +1,201 @@
+/**
+ * Envelope Budget Service
+ * Zero-based budgeting mode: stores envelopes and the money assigned to them per month,
+ * and moves money between envelopes to cover overspending
+ */
+
+import { incomePlanService } from './income-plan.service';
+import {
+  BudgetingMode,
+  Envelope,
+  EnvelopeAssignment,
+  EnvelopePeriodSummary
+} from '../types/envelope.types';
+import { TransactionCategory } from '../types/expense.types';
+import { IncomeEntry } from '../types/income.types';
+import { generateId } from '../utils/helpers';
+
+const BUDGETING_MODE_STORAGE_KEY = 'wealthify_budgeting_mode';
+const ENVELOPES_STORAGE_KEY = 'wealthify_envelopes';
+const ENVELOPE_ASSIGNMENTS_STORAGE_KEY = 'wealthify_envelope_assignments';
+
+export interface EnvelopeDraft {
+  name: string;
+  categories: TransactionCategory[];
+}
+
+class EnvelopeBudgetService {
+  // Budgeting mode
+  getMode(): BudgetingMode {
+    return localStorage.getItem(BUDGETING_MODE_STORAGE_KEY) === BudgetingMode.ENVELOPE
+      ? BudgetingMode.ENVELOPE
+      : BudgetingMode.CAP;
+  }
+
+  setMode(mode: BudgetingMode): void {
+    localStorage.setItem(BUDGETING_MODE_STORAGE_KEY, mode);
+  }
+
+  // Envelope storage
+  getEnvelopes(): Envelope[] {
+    try {
+      const stored = localStorage.getItem(ENVELOPES_STORAGE_KEY);
+      const envelopes: Envelope[] = stored ? JSON.parse(stored) : [];
+      return envelopes.map(envelope => ({
+        ...envelope,
+        createdAt: new Date(envelope.createdAt),
+        updatedAt: new Date(envelope.updatedAt)
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  private saveEnvelopes(envelopes: Envelope[]): void {
+    localStorage.setItem(ENVELOPES_STORAGE_KEY, JSON.stringify(envelopes));
+  }
+
+  private validate(draft: EnvelopeDraft, envelopeId?: string): void {
+    if (!draft.name.trim()) {
+      throw new Error('Envelope name is required');
+    }
+    if (draft.categories.length === 0) {
+      throw new Error('Pick at least one category for the envelope');
+    }
+
+    const taken = this.getEnvelopes().find(
+      envelope => envelope.id !== envelopeId && envelope.categories.some(c => draft.categories.includes(c))
+    );
+    if (taken) {
+      throw new Error(`Some of these categories already belong to "${taken.name}"`);
+    }
+  }
+
+  createEnvelope(draft: EnvelopeDraft): Envelope {
+    this.validate(draft);
+
+    const now = new Date();
+    const envelope: Envelope = {
+      id: generateId(),
+      name: draft.name.trim(),
+      categories: draft.categories,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.saveEnvelopes([...this.getEnvelopes(), envelope]);
+    return envelope;
+  }
+
+  updateEnvelope(envelopeId: string, draft: EnvelopeDraft): Envelope {
+    const envelopes = this.getEnvelopes();
+    const existing = envelopes.find(e => e.id === envelopeId);
+    if (!existing) {
+      throw new Error('Envelope not found');
+    }
+    this.validate(draft, envelopeId);
+
+    const updated: Envelope = { ...existing, name: draft.name.trim(), categories: draft.categories, updatedAt: new Date() };
+    this.saveEnvelopes(envelopes.map(e => (e.id === envelopeId ? updated : e)));
+    return updated;
+  }
+
+  // Money assigned to a deleted envelope goes back to be assigned
+  deleteEnvelope(envelopeId: string): void {
+    this.saveEnvelopes(this.getEnvelopes().filter(e => e.id !== envelopeId));
+    this.saveAssignments(this.getAssignments().filter(a => a.envelopeId !== envelopeId));
+  }
+
+  // Assignments
+  getAssignments(): EnvelopeAssignment[] {
+    try {
+      const stored = localStorage.getItem(ENVELOPE_ASSIGNMENTS_STORAGE_KEY);
+      const assignments: EnvelopeAssignment[] = stored ? JSON.parse(stored) : [];
+      return assignments.map(a => ({ ...a, createdAt: new Date(a.createdAt) }));
+    } catch {
+      return [];
+    }
+  }
+
+  private saveAssignments(assignments: EnvelopeAssignment[]): void {
+    localStorage.setItem(ENVELOPE_ASSIGNMENTS_STORAGE_KEY, JSON.stringify(assignments));
+  }
+
+  private getBalance(summary: EnvelopePeriodSummary, envelopeId: string) {
+    const balance = summary.envelopes.find(b => b.envelope.id === envelopeId);
+    if (!balance) {
+      throw new Error('Envelope not found');
+    }
+    return balance;
+  }
+
+  // Positive amounts come out of "to be assigned", negative amounts return unspent money to it
+  assign(summary: EnvelopePeriodSummary, envelopeId: string, amount: number): EnvelopeAssignment {
+    const balance = this.getBalance(summary, envelopeId);
+    if (!amount) {
+      throw new Error('Enter an amount to assign');
+    }
+    if (amount > 0 && amount > summary.toBeAssigned) {
+      throw new Error('You can only assign income that has not been assigned yet');
+    }
+    if (amount < 0 && -amount > Math.max(balance.available, 0)) {
+      throw new Error(`Only ${balance.available.toFixed(2)} is available in ${balance.envelope.name}`);
+    }
+
+    const assignment: EnvelopeAssignment = {
+      id: generateId(),
+      envelopeId,
+      period: summary.period,
+      amount,
+      source: 'assign',
+      createdAt: new Date()
+    };
+    this.saveAssignments([...this.getAssignments(), assignment]);
+    return assignment;
+  }
+
+  // Covering overspending means taking available money from another envelope in the same month
+  moveMoney(summary: EnvelopePeriodSummary, fromEnvelopeId: string, toEnvelopeId: string, amount: number): void {
+    if (fromEnvelopeId === toEnvelopeId) {
+      throw new Error('Pick two different envelopes');
+    }
+    if (!(amount > 0)) {
+      throw new Error('Amount must be greater than zero');
+    }
+    const from = this.getBalance(summary, fromEnvelopeId);
+    this.getBalance(summary, toEnvelopeId);
+    if (amount > from.available) {
+      throw new Error(`Only ${Math.max(from.available, 0).toFixed(2)} is available in ${from.envelope.name}`);
+    }
+
+    const moveId = generateId();
+    const now = new Date();
+    this.saveAssignments([
+      ...this.getAssignments(),
+      { id: generateId(), envelopeId: fromEnvelopeId, period: summary.period, amount: -amount, source: 'move', moveId, createdAt: now },
+      { id: generateId(), envelopeId: toEnvelopeId, period: summary.period, amount, source: 'move', moveId, createdAt: now }
+    ]);
+  }
+
+  // Income entries recorded against the user's income plans; unavailable plans are skipped
+  async getIncomeEntries(): Promise<IncomeEntry[]> {
+    const plans = await incomePlanService.getIncomePlans();
+    const entries: IncomeEntry[] = [];
+
+    for (const plan of plans) {
+      try {
+        const sources = await incomePlanService.getIncomeSources(plan.id);
+        for (const source of sources) {
+          entries.push(...(await incomePlanService.getIncomeEntries(plan.id, source.id)));
+        }
+      } catch {
+        // Keep whatever income could be loaded
+      }
+    }
+
+    return entries;
+  }
+}
+
+export const envelopeBudgetService = new EnvelopeBudgetService();
+export default envelopeBudgetService;
@@ -1,15 +1,39 @@
+import { format, startOfMonth, subMonths } from 'date-fns';
 import { apiService } from './api';
 import {
   Transaction,
   BankAccount,
   Budget,
+  BudgetPeriodType,
   RecurringTransaction,
+  RecurringStatus,
   TransactionCategory,
   TransactionType,
   CSVTransactionImport,
-  AccountType
+  AccountType,
+  SyncStatus,
+  SyncConflict,
+  TransactionSplit
 } from '../types/expense.types';
 import { autoClassifyTransaction } from '../utils/helpers';
+import { isNetworkError } from '../utils/errorHandling';
+import { offlineLedgerService, ReplayHandlers, ReplayResult } from './offline-ledger.service';
+import { statementImportService } from './statement-import.service';
+import { classificationRulesService } from './classification-rules.service';
+import { detectRecurringSeries } from '../utils/recurringDetection';
+import { getCategoryLines, getExpenseCategoryLines, isSplit, validateSplits } from '../utils/transactionSplits';
+
+// Series id -> the user's decision about a detected recurring series
+const RECURRING_DECISIONS_STORAGE_KEY = 'wealthify_recurring_decisions';
+
+// Transactions requested per page when a complete date range is needed
+const TRANSACTION_PAGE_SIZE = 500;
+
+interface RecurringDecision {
+  status: RecurringStatus;
+  cancelledAt?: string;
+  updatedAt: string;
+}
 
 class ExpenseService {
   // Transaction Management
@@ -40,15 +64,56 @@ class ExpenseService {
     };
   }
 
+  // Every transaction in the date range, reading page after page until the server has sent them all
+  async getAllTransactions(startDate: Date, endDate: Date): Promise<Transaction[]> {
+    const transactions: Transaction[] = [];
+    for (let page = 1; ; page++) {
+      const result = await this.getTransactions({ page, limit: TRANSACTION_PAGE_SIZE, startDate, endDate });
+      transactions.push(...result.transactions);
+      if (result.transactions.length === 0 || transactions.length >= result.total) {
+        return transactions;
+      }
+    }
+  }
+
   async createTransaction(transactionData: Omit<Transaction, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<Transaction> {
+    // Validate that bankAccountId is provided
+    if (!transactionData.bankAccountId) {
+      throw new Error('Bank account must be selected for transaction');
+    }
+
+    // Categorization rules only apply when the user didn't pick the category themselves
+    if (!transactionData.isManuallyClassified && transactionData.type !== TransactionType.TRANSFER) {
+      transactionData = {
+        ...transactionData,
+        category: classificationRulesService.categorize({
+          description: transactionData.description,
+          merchant: transactionData.merchant,
+          amount: transactionData.amount,
+          accountId: transactionData.bankAccountId,
+          type: transactionData.type
+        })
+      };
+    }
+
+    try {
+      return await this.postTransaction(transactionData);
+    } catch (error) {
+      // Backend unreachable - keep the transaction in the local ledger until it can be synced
+      if (isNetworkError(error)) {
+        return await offlineLedgerService.recordCreate(transactionData);
+      }
+      throw error;
+    }
+  }
+
+  private async postTransaction(transactionData: Omit<Transaction, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<Transaction> {
     try {
       // Transform frontend Transaction to API payload format
       const amount = Math.abs(transactionData.amount);
-      
-      // Validate that bankAccountId is provided
-      if (!transactionData.bankAccountId) {
-        throw new Error('Bank account must be selected for transaction');
-      }
+      const isTransfer = transactionData.type === TransactionType.TRANSFER;
+      // Transfer legs are sent with the direction of the money movement
+      const isOutgoing = isTransfer ? transactionData.amount < 0 : transactionData.type === TransactionType.EXPENSE;
 
       const apiPayload = {
         request: {
@@ -56,16 +121,16 @@ class ExpenseService {
           merchantId: null, // Will be set when merchant data is available
           categoryId: null, // Will be set when category mapping is available
           amount: Math.max(amount, 0.01), // Ensure minimum 0.01
-          currencyCode: "INR", // Default currency
-          transactionType: transactionData.type === TransactionType.EXPENSE ? "Expense" : "Income",
+          currencyCode: transactionData.currencyCode || "INR", // Account currency, INR when unknown
+          transactionType: isOutgoing ? "Expense" : "Income",
           description: transactionData.description,
           referenceNumber: `REF_${Date.now()}`, // Generate unique reference number
           transactionDate: transactionData.date.toISOString().split('T')[0], // YYYY-MM-DD format
           postedDate: transactionData.date.toISOString().split('T')[0], // Same as transaction date
           isRecurring: transactionData.isRecurring || false,
           recurringFrequency: transactionData.isRecurring ? "Monthly" : null, // Only set if recurring
-          isTransfer: false, // Default to false
-          transferToAccountId: null, // Only set if it's a transfer
+          isTransfer,
+          transferToAccountId: isTransfer && isOutgoing ? transactionData.transferAccountId : null,
           externalTransactionId: `EXT_${Date.now()}` // Generate unique external ID
         }
       };
@@ -77,6 +142,7 @@ class ExpenseService {
         id: result.id || `temp_${Date.now()}`,
         userId: result.userId || 'current-user',
         amount: transactionData.amount, // Keep original amount with sign
+        currencyCode: transactionData.currencyCode,
         description: transactionData.description,
         date: transactionData.date,
         category: transactionData.category,
@@ -91,6 +157,9 @@ class ExpenseService {
         recurringId: transactionData.recurringId,
         bankAccountId: transactionData.bankAccountId,
         isManuallyClassified: transactionData.isManuallyClassified,
+        transferId: transactionData.transferId,
+        transferAccountId: transactionData.transferAccountId,
+        syncStatus: SyncStatus.SYNCED,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -158,12 +227,99 @@ class ExpenseService {
     return categoryMap[categoryName] || TransactionCategory.OTHER;
   }
 
-  async updateTransaction(transactionId: string, transactionData: Partial<Transaction>): Promise<Transaction> {
-    return await apiService.put<Transaction>(`/transactions/${transactionId}`, transactionData);
+  async updateTransaction(transactionId: string, transactionData: Partial<Transaction>, current?: Transaction): Promise<Transaction> {
+    // Rows that only exist locally have to go through the ledger until their create is synced
+    if (offlineLedgerService.isLocalId(transactionId)) {
+      return await offlineLedgerService.recordUpdate(transactionId, transactionData, current);
+    }
+
+    try {
+      return await apiService.put<Transaction>(`/transactions/${transactionId}`, transactionData);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return await offlineLedgerService.recordUpdate(transactionId, transactionData, current);
+      }
+      throw error;
+    }
+  }
+
+  async deleteTransaction(transactionId: string, current?: Transaction): Promise<void> {
+    if (offlineLedgerService.isLocalId(transactionId)) {
+      await offlineLedgerService.recordDelete(transactionId, current);
+      return;
+    }
+
+    try {
+      await apiService.delete(`/transactions/${transactionId}`);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        await offlineLedgerService.recordDelete(transactionId, current);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  // Replace the split lines of a transaction; an empty list removes the split
+  async splitTransaction(transaction: Transaction, splits: TransactionSplit[]): Promise<Transaction> {
+    if (splits.length > 0) {
+      const error = validateSplits(transaction.amount, splits);
+      if (error) {
+        throw new Error(error);
+      }
+    }
+
+    return await this.updateTransaction(transaction.id, { splits }, transaction);
+  }
+
+  async getTransactionById(transactionId: string): Promise<Transaction | null> {
+    try {
+      const response = await apiService.get<any>(`/transactions/${transactionId}`, undefined, false);
+      return response?.data ?? response ?? null;
+    } catch (error) {
+      if ((error as any)?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Offline Sync
+  private get replayHandlers(): ReplayHandlers {
+    return {
+      create: (transaction) => this.postTransaction(transaction),
+      update: (transactionId, changes) =>
+        apiService.put<Transaction>(`/transactions/${transactionId}`, changes),
+      delete: async (transactionId) => {
+        try {
+          await apiService.delete(`/transactions/${transactionId}`);
+        } catch (error) {
+          // Already gone on the server - nothing left to sync
+          if ((error as any)?.status !== 404) throw error;
+        }
+      },
+      fetch: (transactionId) => this.getTransactionById(transactionId)
+    };
+  }
+
+  async syncPendingTransactions(): Promise<ReplayResult> {
+    return await offlineLedgerService.replay(this.replayHandlers);
+  }
+
+  async resolveSyncConflict(conflictId: string, resolution: 'local' | 'server'): Promise<Transaction> {
+    return await offlineLedgerService.resolveConflict(conflictId, resolution, this.replayHandlers);
+  }
+
+  async getSyncConflicts(): Promise<SyncConflict[]> {
+    return await offlineLedgerService.getConflicts();
   }
 
-  async deleteTransaction(transactionId: string): Promise<void> {
-    await apiService.delete(`/transactions/${transactionId}`);
+  async getPendingMutationCount(): Promise<number> {
+    return (await offlineLedgerService.getPendingMutations()).length;
+  }
+
+  async mergeWithLocalLedger(transactions: Transaction[]): Promise<Transaction[]> {
+    return await offlineLedgerService.mergeWithServer(transactions);
   }
 
   async categorizeTransaction(transactionId: string, category: TransactionCategory): Promise<Transaction> {
@@ -194,23 +350,23 @@ class ExpenseService {
   // Helper function to map numeric periodType to string
   private mapPeriodTypeToString(periodType: number): string {
     const periodTypeMap: Record<number, string> = {
-      0: 'Daily',
-      1: 'Weekly', 
-      2: 'Monthly',
-      3: 'Quarterly',
-      4: 'Yearly'
+      0: BudgetPeriodType.DAILY,
+      1: BudgetPeriodType.WEEKLY,
+      2: BudgetPeriodType.MONTHLY,
+      3: BudgetPeriodType.QUARTERLY,
+      4: BudgetPeriodType.YEARLY
     };
-    return periodTypeMap[periodType] || 'Monthly';
+    return periodTypeMap[periodType] || BudgetPeriodType.MONTHLY;
   }
 
   // Helper function to map string period to numeric enum
   private mapStringToPeriodType(period: string): number {
     const periodTypeMap: Record<string, number> = {
-      'Daily': 0,
-      'Weekly': 1,
-      'Monthly': 2,
-      'Quarterly': 3,
-      'Yearly': 4
+      [BudgetPeriodType.DAILY]: 0,
+      [BudgetPeriodType.WEEKLY]: 1,
+      [BudgetPeriodType.MONTHLY]: 2,
+      [BudgetPeriodType.QUARTERLY]: 3,
+      [BudgetPeriodType.YEARLY]: 4
     };
     return periodTypeMap[period] ?? 2; // Default to Monthly
   }
@@ -322,8 +478,47 @@ class ExpenseService {
     return await apiService.get<RecurringTransaction[]>('/recurring-transactions');
   }
 
-  async detectRecurringTransactions(): Promise<RecurringTransaction[]> {
-    return await apiService.post<RecurringTransaction[]>('/transactions/detect-recurring');
+  // Runs locally over the user's transaction history; confirm/dismiss/cancel decisions are kept per series
+  async detectRecurringTransactions(transactions: Transaction[]): Promise<RecurringTransaction[]> {
+    const decisions = this.getRecurringDecisions();
+
+    return detectRecurringSeries(transactions).map(series => {
+      const decision = decisions[series.id];
+      if (!decision) return series;
+
+      const cancelledAt = decision.cancelledAt ? new Date(decision.cancelledAt) : undefined;
+      return {
+        ...series,
+        status: decision.status,
+        cancelledAt,
+        isActive: decision.status === RecurringStatus.CANCELLED ? false : series.isActive
+      };
+    });
+  }
+
+  setRecurringStatus(seriesId: string, status: RecurringStatus): void {
+    const decisions = this.getRecurringDecisions();
+    const now = new Date().toISOString();
+
+    if (status === RecurringStatus.DETECTED) {
+      delete decisions[seriesId];
+    } else {
+      decisions[seriesId] = {
+        status,
+        cancelledAt: status === RecurringStatus.CANCELLED ? now : undefined,
+        updatedAt: now
+      };
+    }
+    localStorage.setItem(RECURRING_DECISIONS_STORAGE_KEY, JSON.stringify(decisions));
+  }
+
+  private getRecurringDecisions(): Record<string, RecurringDecision> {
+    try {
+      const stored = localStorage.getItem(RECURRING_DECISIONS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
   }
 
   // Analytics
@@ -474,42 +669,54 @@ class ExpenseService {
   }
 
   // Utility functions
-  parseCSVFile(file: File): Promise<CSVTransactionImport[]> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const csv = e.target?.result as string;
-          const lines = csv.split('\n');
-          const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-          
-          const transactions: CSVTransactionImport[] = [];
-          
-          for (let i = 1; i < lines.length; i++) {
-            const values = lines[i].split(',');
-            if (values.length >= 3) {
-              const transaction: CSVTransactionImport = {
-                date: values[headers.indexOf('date')] || values[0],
-                description: values[headers.indexOf('description')] || values[1],
-                amount: values[headers.indexOf('amount')] || values[2],
-                category: values[headers.indexOf('category')] || undefined
-              };
-              transactions.push(transaction);
-            }
-          }
-          
-          resolve(transactions);
-        } catch (error) {
-          reject(error);
-        }
-      };
-      reader.readAsText(file);
-    });
+  async parseCSVFile(file: File): Promise<CSVTransactionImport[]> {
+    const statement = await statementImportService.parseCSVStatement(file);
+    const mapping = statementImportService.suggestMapping(statement.headers);
+    const columnFor = (field: string) =>
+      Object.keys(mapping).map(Number).find(index => mapping[index] === field);
+
+    const dateColumn = columnFor('date') ?? 0;
+    const descriptionColumn = columnFor('description') ?? 1;
+    const amountColumn = columnFor('amount') ?? 2;
+    const categoryColumn = columnFor('category');
+
+    return statement.rows.map(row => ({
+      date: row[dateColumn] || '',
+      description: row[descriptionColumn] || '',
+      amount: row[amountColumn] || '',
+      category: categoryColumn !== undefined ? row[categoryColumn] || undefined : undefined
+    }));
   }
 
-  calculateBudgetUtilization(budget: Budget): number {
-    const budgetValue = budget.budgetAmount || budget.amount || 0;
-    return budgetValue > 0 ? (Math.abs(budget.spent) / budgetValue) * 100 : 0;
+  // The backend counts a split transaction in its parent category; move that amount onto the split lines
+  calculateBudgetSpent(budget: Budget, transactions: Transaction[] = []): number {
+    const start = new Date(budget.startDate);
+    const end = new Date(budget.endDate);
+    const inPeriod = (date: Date) =>
+      (isNaN(start.getTime()) || date >= start) && (isNaN(end.getTime()) || date <= end);
+
+    // Matched transfers are still expenses to the backend, so take their outgoing side back out
+    const transferAdjustment = transactions
+      .filter(t => t.isMatchedTransfer && t.amount < 0 && t.category === budget.category && inPeriod(new Date(t.date)))
+      .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+
+    const adjustment = transactions
+      .filter(t => t.type === TransactionType.EXPENSE && isSplit(t) && inPeriod(new Date(t.date)))
+      .reduce((sum, t) => {
+        const splitAmount = getCategoryLines(t)
+          .filter(line => line.category === budget.category)
+          .reduce((lineSum, line) => lineSum + Math.abs(line.amount), 0);
+        const parentAmount = t.category === budget.category ? Math.abs(t.amount) : 0;
+        return sum + splitAmount - parentAmount;
+      }, 0);
+
+    return Math.max(0, Math.abs(budget.spent) + adjustment - transferAdjustment);
+  }
+
+  calculateBudgetUtilization(budget: Budget, transactions: Transaction[] = []): number {
+    const budgetValue = (budget.budgetAmount || budget.amount || 0) + (budget.carriedIn || 0);
+    const spent = this.calculateBudgetSpent(budget, transactions);
+    return budgetValue > 0 ? (spent / budgetValue) * 100 : 0;
   }
 
   isBudgetNearLimit(budget: Budget): boolean {
@@ -532,9 +739,44 @@ class ExpenseService {
       .reduce((sum, t) => sum + t.amount, 0));
   }
 
+  // Average spend over the completed months before asOf, ignoring months with no expenses yet recorded
+  getAverageMonthlyExpenses(transactions: Transaction[], months: number, asOf: Date = new Date()): number {
+    const end = startOfMonth(asOf);
+    const start = subMonths(end, months);
+    const totals = new Map<string, number>();
+    transactions
+      .filter(t => t.type === TransactionType.EXPENSE)
+      .forEach(t => {
+        const date = new Date(t.date);
+        if (date < start || date >= end) return;
+        const month = format(date, 'yyyy-MM');
+        totals.set(month, (totals.get(month) || 0) + Math.abs(t.amount));
+      });
+
+    if (totals.size === 0) return 0;
+    return Array.from(totals.values()).reduce((sum, total) => sum + total, 0) / totals.size;
+  }
+
   getNetSavings(transactions: Transaction[]): number {
     return this.getTotalIncome(transactions) - this.getTotalExpenses(transactions);
   }
+
+  // Expense totals per category, counting split lines instead of their parent transaction
+  getCategorySpending(transactions: Transaction[]): { category: string; amount: number; percentage: number }[] {
+    const lines = getExpenseCategoryLines(transactions);
+    const totalExpenses = lines.reduce((sum, line) => sum + Math.abs(line.amount), 0);
+
+    const categoryTotals: Record<string, number> = {};
+    lines.forEach(line => {
+      categoryTotals[line.category] = (categoryTotals[line.category] || 0) + Math.abs(line.amount);
+    });
+
+    return Object.entries(categoryTotals).map(([category, amount]) => ({
+      category,
+      amount,
+      percentage: totalExpenses > 0 ? (amount / totalExpenses) * 100 : 0,
+    }));
+  }
 }
 
 export const expenseService = new ExpenseService();
@@ -0,0 +1,136 @@
+/**
+ * FX Rate Service
+ * Keeps the user's exchange rate table (entered manually or imported from a file)
+ * and converts amounts between currencies using the rate in effect on a given date
+ */
+
+import { FxRate, FxRateImportResult, FxRateSource, MissingFxRate } from '../types/currency.types';
+import { Transaction } from '../types/expense.types';
+import { statementImportService } from './statement-import.service';
+import { parseCSV, detectDelimiter } from '../utils/csvParser';
+import { detectDateFormat, parseStatementAmount, parseStatementDate, toISODate } from '../utils/importParsers';
+import { convertAmount, convertTransactions, normalizeCurrencyCode, toRateDate } from '../utils/fxConversion';
+import { generateId } from '../utils/helpers';
+
+const FX_RATES_STORAGE_KEY = 'wealthify_fx_rates';
+
+export type FxRateDraft = Pick<FxRate, 'fromCurrency' | 'toCurrency' | 'rate' | 'date'>;
+
+class FxRateService {
+  // Rate storage
+  getRates(): FxRate[] {
+    try {
+      const stored = localStorage.getItem(FX_RATES_STORAGE_KEY);
+      const rates: FxRate[] = stored ? JSON.parse(stored) : [];
+      return rates
+        .map(rate => ({ ...rate, createdAt: new Date(rate.createdAt) }))
+        .sort((a, b) => b.date.localeCompare(a.date) || a.fromCurrency.localeCompare(b.fromCurrency));
+    } catch {
+      return [];
+    }
+  }
+
+  private saveRates(rates: FxRate[]): void {
+    localStorage.setItem(FX_RATES_STORAGE_KEY, JSON.stringify(rates));
+  }
+
+  private validate(draft: FxRateDraft): string | null {
+    if (!/^[A-Z]{3}$/.test(draft.fromCurrency) || !/^[A-Z]{3}$/.test(draft.toCurrency)) {
+      return 'Currencies must be 3-letter ISO codes';
+    }
+    if (draft.fromCurrency === draft.toCurrency) {
+      return 'Pick two different currencies';
+    }
+    if (!(draft.rate > 0) || !isFinite(draft.rate)) {
+      return 'Rate must be greater than zero';
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.date)) {
+      return 'Rate date is invalid';
+    }
+    return null;
+  }
+
+  private normalize(draft: FxRateDraft): FxRateDraft {
+    return {
+      fromCurrency: normalizeCurrencyCode(draft.fromCurrency),
+      toCurrency: normalizeCurrencyCode(draft.toCurrency),
+      rate: draft.rate,
+      date: toRateDate(draft.date)
+    };
+  }
+
+  // A pair has at most one rate per day; saving again replaces it
+  private upsert(rates: FxRate[], draft: FxRateDraft, source: FxRateSource): FxRate[] {
+    const rate: FxRate = { ...draft, id: generateId(), source, createdAt: new Date() };
+    return [
+      ...rates.filter(r => !(r.fromCurrency === draft.fromCurrency && r.toCurrency === draft.toCurrency && r.date === draft.date)),
+      rate
+    ];
+  }
+
+  addRate(draft: FxRateDraft): FxRate {
+    const normalized = this.normalize(draft);
+    const error = this.validate(normalized);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const rates = this.upsert(this.getRates(), normalized, 'manual');
+    this.saveRates(rates);
+    return rates[rates.length - 1];
+  }
+
+  deleteRate(rateId: string): void {
+    this.saveRates(this.getRates().filter(rate => rate.id !== rateId));
+  }
+
+  // File import - one rate per row: date, from currency, to currency, rate (header row optional)
+  async importRates(file: File): Promise<FxRateImportResult> {
+    const text = await statementImportService.readFileAsText(file);
+    const rows = parseCSV(text, detectDelimiter(text)).filter(row => row.some(cell => cell.trim()));
+    const dataRows = rows.length > 0 && parseStatementAmount(rows[0][3] || '') === null ? rows.slice(1) : rows;
+    if (dataRows.length === 0) {
+      throw new Error('No rates found. Expected columns: date, from currency, to currency, rate');
+    }
+
+    const dateFormat = detectDateFormat(dataRows.map(row => row[0] || ''));
+    const errors: string[] = [];
+    let rates = this.getRates();
+    let imported = 0;
+
+    dataRows.forEach((row, index) => {
+      const line = index + (dataRows === rows ? 1 : 2);
+      const date = parseStatementDate(row[0] || '', dateFormat);
+      const rate = parseStatementAmount(row[3] || '');
+      if (!date || rate === null) {
+        errors.push(`Row ${line}: could not read the date or rate`);
+        return;
+      }
+
+      const draft = this.normalize({ fromCurrency: row[1] || '', toCurrency: row[2] || '', rate, date: toISODate(date) });
+      const error = this.validate(draft);
+      if (error) {
+        errors.push(`Row ${line}: ${error}`);
+        return;
+      }
+
+      rates = this.upsert(rates, draft, 'import');
+      imported++;
+    });
+
+    this.saveRates(rates);
+    return { imported, errors };
+  }
+
+  // Conversion
+  convert(amount: number, from: string, to: string, date: Date | string = new Date()): number | null {
+    return convertAmount(this.getRates(), amount, from, to, date);
+  }
+
+  convertTransactions(transactions: Transaction[], baseCurrency: string): { converted: Transaction[]; missing: MissingFxRate[] } {
+    return convertTransactions(this.getRates(), transactions, baseCurrency);
+  }
+}
+
+export const fxRateService = new FxRateService();
+export default fxRateService;
@@ -0,0 +1,137 @@
+/**
+ * Goal Service
+ * Wraps the goals API with contributions, linked savings accounts
+ * and the auto-contribution schedule each goal can opt into. The date of the
+ * last scheduled contribution is kept on the goal, next to the amount it added to
+ */
+
+import { format } from 'date-fns';
+import { goalApiService } from '../api/endpoints/goal.api';
+import { BankAccount, AccountType } from '../types/account.types';
+import { CreateGoalRequest, Goal, UpdateGoalRequest } from '../types/financial.types';
+import { getDueContributionDates } from '../utils/goalProgress';
+
+export interface AutoContributionResult {
+  goals: Goal[];
+  applied: number; // Number of scheduled contributions added across all goals
+}
+
+class GoalService {
+  // Goals
+  async getGoals(): Promise<Goal[]> {
+    const response = await goalApiService.getGoals();
+    return response.data || [];
+  }
+
+  private validate(data: CreateGoalRequest | UpdateGoalRequest): void {
+    if (data.name !== undefined && !data.name.trim()) {
+      throw new Error('Goal name is required');
+    }
+    if (data.targetAmount !== undefined && !(data.targetAmount > 0)) {
+      throw new Error('Target amount must be greater than zero');
+    }
+    if (data.autoContribution?.enabled && !(data.autoContribution.amount > 0)) {
+      throw new Error('Auto-contribution amount must be greater than zero');
+    }
+  }
+
+  async createGoal(data: CreateGoalRequest): Promise<Goal> {
+    this.validate(data);
+    const response = await goalApiService.createGoal({ ...data, name: data.name.trim() });
+    return response.data;
+  }
+
+  async updateGoal(goal: Goal, data: UpdateGoalRequest): Promise<Goal> {
+    this.validate(data);
+    const response = await goalApiService.updateGoal(goal.id, {
+      ...data,
+      autoContribution: data.autoContribution && {
+        ...data.autoContribution,
+        // Switching auto-contribution on starts the schedule today rather than back-filling past periods
+        lastContributionDate: goal.autoContribution?.enabled
+          ? goal.autoContribution.lastContributionDate
+          : format(new Date(), 'yyyy-MM-dd')
+      }
+    });
+    return response.data;
+  }
+
+  async deleteGoal(goalId: string): Promise<void> {
+    await goalApiService.deleteGoal(goalId);
+  }
+
+  async contribute(goal: Goal, amount: number): Promise<Goal> {
+    if (!(amount > 0)) {
+      throw new Error('Contribution must be greater than zero');
+    }
+    const response = await goalApiService.updateGoal(goal.id, {
+      currentAmount: Math.round((goal.currentAmount + amount) * 100) / 100
+    });
+    return response.data;
+  }
+
+  // Linked savings accounts
+  getLinkableAccounts(accounts: BankAccount[]): BankAccount[] {
+    return accounts.filter(account => account.isActive && account.accountType === AccountType.SAVINGS);
+  }
+
+  // A goal tied to a savings account tracks that account's balance
+  async syncWithAccount(goal: Goal, account: BankAccount): Promise<Goal> {
+    if (goal.linkedAccountId !== account.id) {
+      throw new Error('This account is not linked to the goal');
+    }
+    const response = await goalApiService.updateGoal(goal.id, { currentAmount: account.balance });
+    return response.data;
+  }
+
+  // Auto-contribution schedule
+  // Adds every scheduled contribution that has fallen due since the last one, never past the target.
+  // The amount and the date it covers are saved together, so no other browser or device adds them again.
+  // Goals tracking a linked account get their balance from the account instead.
+  async applyDueContributions(goals: Goal[], asOf: Date = new Date()): Promise<AutoContributionResult> {
+    let applied = 0;
+    const updated: Goal[] = [];
+
+    for (const goal of goals) {
+      const schedule = goal.autoContribution;
+      if (!schedule?.enabled || goal.isCompleted || goal.linkedAccountId) {
+        updated.push(goal);
+        continue;
+      }
+
+      try {
+        // Schedules saved before the date was kept on the goal start from today, since what they already
+        // added cannot be told apart from the rest of the balance
+        if (!schedule.lastContributionDate) {
+          const response = await goalApiService.updateGoal(goal.id, {
+            autoContribution: { ...schedule, lastContributionDate: format(asOf, 'yyyy-MM-dd') }
+          });
+          updated.push(response.data);
+          continue;
+        }
+
+        const due = getDueContributionDates(goal, schedule.lastContributionDate, asOf);
+        if (due.length === 0) {
+          updated.push(goal);
+          continue;
+        }
+
+        const amount = Math.min(due.length * schedule.amount, Math.max(goal.targetAmount - goal.currentAmount, 0));
+        const response = await goalApiService.updateGoal(goal.id, {
+          currentAmount: Math.round((goal.currentAmount + amount) * 100) / 100,
+          autoContribution: { ...schedule, lastContributionDate: due[due.length - 1] }
+        });
+        updated.push(response.data);
+        if (amount > 0) applied += due.length;
+      } catch {
+        // Try again on the next run
+        updated.push(goal);
+      }
+    }
+
+    return { goals: updated, applied };
+  }
+}
+
+export const goalService = new GoalService();
+export default goalService;
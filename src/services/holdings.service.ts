@@ -0,0 +1,96 @@
+/**
+ * Holdings Service
+ * Stores the transaction ledger behind each investment: buys, sells, dividends, splits and fees
+ */
+
+import { HoldingTransaction, HoldingTransactionType, Investment } from '../types/investment.types';
+import { getOpeningBuy, replayLedger } from '../utils/holdings';
+import { formatDate, generateId } from '../utils/helpers';
+
+const HOLDING_TRANSACTIONS_STORAGE_KEY = 'wealthify_holding_transactions';
+
+export type HoldingTransactionDraft = Omit<HoldingTransaction, 'id' | 'investmentId' | 'createdAt'>;
+
+class HoldingsService {
+  getTransactions(investmentId?: string): HoldingTransaction[] {
+    try {
+      const stored = localStorage.getItem(HOLDING_TRANSACTIONS_STORAGE_KEY);
+      const transactions: HoldingTransaction[] = stored ? JSON.parse(stored) : [];
+      return investmentId ? transactions.filter(t => t.investmentId === investmentId) : transactions;
+    } catch {
+      return [];
+    }
+  }
+
+  private saveTransactions(transactions: HoldingTransaction[]): void {
+    localStorage.setItem(HOLDING_TRANSACTIONS_STORAGE_KEY, JSON.stringify(transactions));
+  }
+
+  private validate(draft: HoldingTransactionDraft): void {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.date)) {
+      throw new Error('Date is required');
+    }
+    if (draft.fees < 0) {
+      throw new Error('Fees cannot be negative');
+    }
+
+    switch (draft.type) {
+      case HoldingTransactionType.BUY:
+      case HoldingTransactionType.SELL:
+        if (!(draft.quantity > 0)) throw new Error('Quantity must be greater than zero');
+        if (!(draft.price >= 0)) throw new Error('Price cannot be negative');
+        break;
+      case HoldingTransactionType.DIVIDEND:
+      case HoldingTransactionType.FEE:
+        if (!(draft.amount > 0)) throw new Error('Amount must be greater than zero');
+        break;
+      case HoldingTransactionType.SPLIT:
+        if (!draft.splitRatio || !(draft.splitRatio > 0)) throw new Error('Split ratio must be greater than zero');
+        break;
+    }
+  }
+
+  // A ledger that would sell units before they were bought can't be saved
+  private assertNotOversold(ledger: HoldingTransaction[]): void {
+    const { oversold } = replayLedger(ledger);
+    if (oversold) {
+      throw new Error(`The sale on ${formatDate(oversold.date)} would sell more units than were held`);
+    }
+  }
+
+  // The first entry for an investment recorded before the ledger existed also records its opening buy,
+  // so the units it already held aren't lost
+  addTransaction(investment: Investment, draft: HoldingTransactionDraft): HoldingTransaction {
+    this.validate(draft);
+
+    const all = this.getTransactions();
+    const existing = all.filter(t => t.investmentId === investment.id);
+    const opening = existing.length === 0 && investment.investedAmount > 0 ? [getOpeningBuy(investment)] : [];
+    const transaction: HoldingTransaction = {
+      ...draft,
+      notes: draft.notes?.trim() || undefined,
+      id: generateId(),
+      investmentId: investment.id,
+      createdAt: new Date().toISOString()
+    };
+
+    this.assertNotOversold([...existing, ...opening, transaction]);
+    this.saveTransactions([...all, ...opening, transaction]);
+    return transaction;
+  }
+
+  deleteTransaction(transactionId: string): void {
+    const all = this.getTransactions();
+    const transaction = all.find(t => t.id === transactionId);
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    const remaining = all.filter(t => t.id !== transactionId);
+    this.assertNotOversold(remaining.filter(t => t.investmentId === transaction.investmentId));
+    this.saveTransactions(remaining);
+  }
+}
+
+export const holdingsService = new HoldingsService();
+export default holdingsService;
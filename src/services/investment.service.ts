@@ -7,10 +7,14 @@ import {
   InvestmentRecommendationParams,
   InvestmentType,
   RiskLevel,
-  TimeHorizon,
-  SuggestionStatus
+  TimeHorizon
 } from '../types/investment.types';
 import { RiskProfile } from '../types/auth.types';
+import { goalService } from './goal.service';
+import { holdingsService } from './holdings.service';
+import { priceService } from './price.service';
+import { revaluePortfolio } from '../utils/valuation';
+import { SuggestionEngineInput, generateInvestmentSuggestions } from '../utils/investmentSuggestions';
 
 class InvestmentService {
   // Investment Suggestions
@@ -39,6 +43,17 @@ class InvestmentService {
     return await apiService.get<InvestmentPortfolio>('/investments/portfolio');
   }
 
+  // The portfolio revalued from stored prices and holdings ledgers, as it stood on asOf
+  async getValuedPortfolio(asOf: Date = new Date()): Promise<InvestmentPortfolio> {
+    const portfolio = await this.getPortfolio();
+    return revaluePortfolio(
+      portfolio,
+      holdingsService.getTransactions(),
+      (symbol, date) => priceService.getPriceOn(symbol, date),
+      asOf
+    );
+  }
+
   async addInvestment(investmentData: Omit<Investment, 'id' | 'portfolioId' | 'lastUpdated'>): Promise<Investment> {
     return await apiService.post<Investment>('/investments', investmentData);
   }
@@ -60,137 +75,26 @@ class InvestmentService {
     });
   }
 
-  // Mock functions for development
-  async mockGenerateInvestmentSuggestions(params: InvestmentRecommendationParams): Promise<InvestmentSuggestion[]> {
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    const suggestions: InvestmentSuggestion[] = [];
-
-    // Generate suggestions based on risk profile and surplus
-    if (params.surplusAmount < 500) {
-      // Low surplus - suggest conservative options
-      suggestions.push({
-        id: '1',
-        userId: 'user_demo',
-        type: InvestmentType.FIXED_DEPOSIT,
-        title: 'High-Yield Savings Account',
-        description: 'Start with a secure high-yield savings account to build your emergency fund.',
-        suggestedAmount: Math.min(params.surplusAmount, 300),
-        expectedReturn: 3.5,
-        riskLevel: RiskLevel.LOW,
-        timeHorizon: TimeHorizon.SHORT_TERM,
-        reasoning: 'Building an emergency fund is the first step in your investment journey.',
-        status: SuggestionStatus.PENDING,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      });
-    } else if (params.surplusAmount < 2000) {
-      // Medium surplus - balanced approach
-      if (params.riskProfile === RiskProfile.CONSERVATIVE) {
-        suggestions.push({
-          id: '2',
-          userId: 'user_demo',
-          type: InvestmentType.BONDS,
-          title: 'Government Bonds',
-          description: 'Invest in government bonds for stable returns with low risk.',
-          suggestedAmount: Math.floor(params.surplusAmount * 0.7),
-          expectedReturn: 4.2,
-          riskLevel: RiskLevel.LOW,
-          timeHorizon: TimeHorizon.MEDIUM_TERM,
-          reasoning: 'Your conservative risk profile suggests stable, government-backed investments.',
-          status: SuggestionStatus.PENDING,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        });
-      } else {
-        suggestions.push({
-          id: '3',
-          userId: 'user_demo',
-          type: InvestmentType.MUTUAL_FUND,
-          title: 'Balanced Mutual Fund',
-          description: 'Diversified mutual fund with balanced risk and return potential.',
-          suggestedAmount: Math.floor(params.surplusAmount * 0.6),
-          expectedReturn: 8.5,
-          riskLevel: RiskLevel.MEDIUM,
-          timeHorizon: TimeHorizon.MEDIUM_TERM,
-          reasoning: 'A balanced approach matching your risk tolerance with good diversification.',
-          status: SuggestionStatus.PENDING,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        });
-      }
-      
-      suggestions.push({
-        id: '4',
-        userId: 'user_demo',
-        type: InvestmentType.ETF,
-        title: 'Index ETF',
-        description: 'Low-cost index ETF for long-term wealth building.',
-        suggestedAmount: Math.floor(params.surplusAmount * 0.3),
-        expectedReturn: 7.2,
-        riskLevel: RiskLevel.MEDIUM,
-        timeHorizon: TimeHorizon.LONG_TERM,
-        reasoning: 'Index ETFs provide broad market exposure with low fees.',
-        status: SuggestionStatus.PENDING,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      });
-    } else {
-      // High surplus - more diversified options
-      if (params.riskProfile === RiskProfile.AGGRESSIVE) {
-        suggestions.push({
-          id: '5',
-          userId: 'user_demo',
-          type: InvestmentType.STOCKS,
-          title: 'Growth Stocks Portfolio',
-          description: 'Carefully selected growth stocks for high return potential.',
-          suggestedAmount: Math.floor(params.surplusAmount * 0.4),
-          expectedReturn: 12.0,
-          riskLevel: RiskLevel.HIGH,
-          timeHorizon: TimeHorizon.LONG_TERM,
-          reasoning: 'Your aggressive risk profile allows for higher-risk, higher-reward investments.',
-          status: SuggestionStatus.PENDING,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        });
-      }
-
-      suggestions.push({
-        id: '6',
-        userId: 'user_demo',
-        type: InvestmentType.REAL_ESTATE,
-        title: 'REIT Investment',
-        description: 'Real Estate Investment Trust for property market exposure.',
-        suggestedAmount: Math.floor(params.surplusAmount * 0.3),
-        expectedReturn: 9.5,
-        riskLevel: RiskLevel.MEDIUM,
-        timeHorizon: TimeHorizon.LONG_TERM,
-        reasoning: 'REITs provide real estate exposure with good liquidity.',
-        status: SuggestionStatus.PENDING,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      });
-
-      suggestions.push({
-        id: '7',
-        userId: 'user_demo',
-        type: InvestmentType.GOLD,
-        title: 'Gold ETF',
-        description: 'Gold ETF as a hedge against inflation and market volatility.',
-        suggestedAmount: Math.floor(params.surplusAmount * 0.1),
-        expectedReturn: 5.5,
-        riskLevel: RiskLevel.LOW,
-        timeHorizon: TimeHorizon.MEDIUM_TERM,
-        reasoning: 'Gold provides portfolio diversification and inflation protection.',
-        status: SuggestionStatus.PENDING,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      });
-    }
-
-    return suggestions;
+  // Rule-based suggestions from the user's surplus, current holdings and goals. Holdings or goals
+  // that fail to load are left out rather than blocking the suggestions.
+  async generateRuleBasedSuggestions(
+    params: InvestmentRecommendationParams,
+    context: Pick<SuggestionEngineInput, 'userId' | 'currency' | 'liquidSavings' | 'monthlyExpenses'>
+  ): Promise<InvestmentSuggestion[]> {
+    const [portfolioResult, goalsResult] = await Promise.allSettled([
+      this.getValuedPortfolio(),
+      goalService.getGoals()
+    ]);
+
+    return generateInvestmentSuggestions({
+      ...context,
+      params,
+      investments: portfolioResult.status === 'fulfilled' ? portfolioResult.value?.investments || [] : [],
+      goals: goalsResult.status === 'fulfilled' ? goalsResult.value : []
+    });
   }
 
+  // Mock functions for development
   async mockCalculateSavingsProjection(currentIncome: number, currentExpenses: number, savingsThreshold: number): Promise<SavingsProjection> {
     await new Promise(resolve => setTimeout(resolve, 1000));
 
@@ -216,44 +120,6 @@ class InvestmentService {
     };
   }
 
-  async mockGetInvestmentSuggestions(): Promise<InvestmentSuggestion[]> {
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    // Get from localStorage or return empty array
-    const stored = localStorage.getItem('mock_investment_suggestions');
-    return stored ? JSON.parse(stored) : [];
-  }
-
-  async mockAcceptSuggestion(suggestionId: string): Promise<{ message: string }> {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const suggestions = await this.mockGetInvestmentSuggestions();
-    const updatedSuggestions = suggestions.map(s => 
-      s.id === suggestionId 
-        ? { ...s, status: SuggestionStatus.ACCEPTED, updatedAt: new Date() }
-        : s
-    );
-    
-    localStorage.setItem('mock_investment_suggestions', JSON.stringify(updatedSuggestions));
-    
-    return { message: 'Investment suggestion accepted successfully' };
-  }
-
-  async mockRejectSuggestion(suggestionId: string): Promise<{ message: string }> {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const suggestions = await this.mockGetInvestmentSuggestions();
-    const updatedSuggestions = suggestions.map(s => 
-      s.id === suggestionId 
-        ? { ...s, status: SuggestionStatus.REJECTED, updatedAt: new Date() }
-        : s
-    );
-    
-    localStorage.setItem('mock_investment_suggestions', JSON.stringify(updatedSuggestions));
-    
-    return { message: 'Investment suggestion rejected' };
-  }
-
   // Utility functions
   calculateExpectedAnnualReturn(investment: Investment): number {
     const monthsHeld = Math.max(1, (new Date().getTime() - investment.purchaseDate.getTime()) / (1000 * 60 * 60 * 24 * 30));
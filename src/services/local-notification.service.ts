@@ -0,0 +1,86 @@
+/**
+ * Local Notification Service
+ * Notifications raised in the browser (e.g. bill reminders) that the backend doesn't know about.
+ * They are shown in the notification center alongside server notifications.
+ */
+
+import { Notification } from '../types/financial.types';
+
+const LOCAL_NOTIFICATIONS_STORAGE_KEY = 'wealthify_local_notifications';
+const LOCAL_NOTIFICATION_PREFIX = 'local_';
+const MAX_LOCAL_NOTIFICATIONS = 100;
+
+export type LocalNotificationDraft = Omit<Notification, 'id' | 'isRead' | 'isActioned' | 'createdAt'>;
+
+class LocalNotificationService {
+  isLocalId(notificationId: string): boolean {
+    return notificationId.startsWith(LOCAL_NOTIFICATION_PREFIX);
+  }
+
+  // Newest first
+  getNotifications(): Notification[] {
+    try {
+      const stored = localStorage.getItem(LOCAL_NOTIFICATIONS_STORAGE_KEY);
+      const notifications: Notification[] = stored ? JSON.parse(stored) : [];
+      return notifications.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch {
+      return [];
+    }
+  }
+
+  private saveNotifications(notifications: Notification[]): void {
+    const newestFirst = [...notifications].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    localStorage.setItem(LOCAL_NOTIFICATIONS_STORAGE_KEY, JSON.stringify(newestFirst.slice(0, MAX_LOCAL_NOTIFICATIONS)));
+  }
+
+  // The key identifies what the notification is about, so raising it twice is a no-op
+  notify(key: string, draft: LocalNotificationDraft): Notification | null {
+    const id = `${LOCAL_NOTIFICATION_PREFIX}${key}`;
+    const notifications = this.getNotifications();
+    if (notifications.some(n => n.id === id)) return null;
+
+    const notification: Notification = {
+      ...draft,
+      id,
+      isRead: false,
+      isActioned: false,
+      createdAt: new Date().toISOString()
+    };
+    this.saveNotifications([...notifications, notification]);
+    return notification;
+  }
+
+  private update(notificationId: string, changes: Partial<Notification>): Notification | null {
+    let updated: Notification | null = null;
+    this.saveNotifications(
+      this.getNotifications().map(n => {
+        if (n.id !== notificationId) return n;
+        updated = { ...n, ...changes };
+        return updated;
+      })
+    );
+    return updated;
+  }
+
+  markAsRead(notificationId: string): Notification | null {
+    return this.update(notificationId, { isRead: true, readAt: new Date().toISOString() });
+  }
+
+  markAsActioned(notificationId: string): Notification | null {
+    return this.update(notificationId, { isRead: true, isActioned: true, readAt: new Date().toISOString() });
+  }
+
+  expire(key: string): Notification | null {
+    return this.update(this.isLocalId(key) ? key : `${LOCAL_NOTIFICATION_PREFIX}${key}`, {
+      expiresAt: new Date().toISOString()
+    });
+  }
+
+  markAllAsRead(): void {
+    const readAt = new Date().toISOString();
+    this.saveNotifications(this.getNotifications().map(n => (n.isRead ? n : { ...n, isRead: true, readAt })));
+  }
+}
+
+export const localNotificationService = new LocalNotificationService();
+export default localNotificationService;
@@ -0,0 +1,171 @@
+/**
+ * Net Worth Service
+ * Stores manually valued assets and a daily time series of net worth snapshots
+ */
+
+import { format } from 'date-fns';
+import { accountApiService } from '../api/endpoints/account.api';
+import { investmentService } from './investment.service';
+import { fxRateService } from './fx-rate.service';
+import { Account } from '../types/financial.types';
+import { Investment } from '../types/investment.types';
+import { ManualAsset, NetWorthSnapshot } from '../types/networth.types';
+import {
+  ACCOUNT_NET_WORTH_CLASSES,
+  INVESTMENT_NET_WORTH_CLASSES,
+  buildNetWorthSnapshot,
+  summarizeNetWorth
+} from '../utils/netWorth';
+import { generateId } from '../utils/helpers';
+
+const MANUAL_ASSETS_STORAGE_KEY = 'wealthify_manual_assets';
+const NET_WORTH_SNAPSHOTS_STORAGE_KEY = 'wealthify_net_worth_snapshots';
+
+// Five years of daily snapshots
+const MAX_SNAPSHOTS = 1830;
+
+export type ManualAssetDraft = Pick<ManualAsset, 'name' | 'assetClass' | 'value' | 'notes'>;
+
+export interface NetWorthCaptureResult {
+  snapshot: NetWorthSnapshot;
+  unconvertedAccounts: Account[]; // Accounts with no rate to the base currency, left out of the snapshot
+  unconvertedInvestments: Investment[]; // Likewise for holdings valued in another currency
+  failedSources: string[]; // Sources that couldn't be loaded, e.g. 'accounts'
+}
+
+class NetWorthService {
+  // Manual assets
+  getManualAssets(): ManualAsset[] {
+    try {
+      const stored = localStorage.getItem(MANUAL_ASSETS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveManualAssets(assets: ManualAsset[]): void {
+    localStorage.setItem(MANUAL_ASSETS_STORAGE_KEY, JSON.stringify(assets));
+  }
+
+  private validate(draft: ManualAssetDraft): void {
+    if (!draft.name.trim()) {
+      throw new Error('Asset name is required');
+    }
+    if (!(draft.value >= 0)) {
+      throw new Error('Asset value cannot be negative');
+    }
+  }
+
+  addManualAsset(draft: ManualAssetDraft): ManualAsset {
+    this.validate(draft);
+    const now = new Date().toISOString();
+    const asset: ManualAsset = { ...draft, name: draft.name.trim(), id: generateId(), createdAt: now, updatedAt: now };
+    this.saveManualAssets([...this.getManualAssets(), asset]);
+    return asset;
+  }
+
+  updateManualAsset(assetId: string, changes: Partial<ManualAssetDraft>): ManualAsset {
+    const assets = this.getManualAssets();
+    const existing = assets.find(a => a.id === assetId);
+    if (!existing) {
+      throw new Error('Asset not found');
+    }
+
+    const updated: ManualAsset = { ...existing, ...changes, updatedAt: new Date().toISOString() };
+    this.validate(updated);
+    this.saveManualAssets(assets.map(a => (a.id === assetId ? updated : a)));
+    return updated;
+  }
+
+  deleteManualAsset(assetId: string): void {
+    this.saveManualAssets(this.getManualAssets().filter(a => a.id !== assetId));
+  }
+
+  // Snapshots
+  getSnapshots(): NetWorthSnapshot[] {
+    try {
+      const stored = localStorage.getItem(NET_WORTH_SNAPSHOTS_STORAGE_KEY);
+      const snapshots: NetWorthSnapshot[] = stored ? JSON.parse(stored) : [];
+      return snapshots.sort((a, b) => a.date.localeCompare(b.date));
+    } catch {
+      return [];
+    }
+  }
+
+  private saveSnapshot(snapshot: NetWorthSnapshot): void {
+    const snapshots = [...this.getSnapshots().filter(s => s.date !== snapshot.date), snapshot]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-MAX_SNAPSHOTS);
+    localStorage.setItem(NET_WORTH_SNAPSHOTS_STORAGE_KEY, JSON.stringify(snapshots));
+  }
+
+  // Values everything the user holds today and records it as today's snapshot. A source that fails
+  // to load keeps the values of the last snapshot rather than showing up as a sudden drop; with no
+  // earlier snapshot to carry forward, nothing is recorded until every source loads.
+  async captureSnapshot(baseCurrency: string): Promise<NetWorthCaptureResult> {
+    const [accountsResult, portfolioResult] = await Promise.allSettled([
+      accountApiService.getAllAccounts(),
+      investmentService.getValuedPortfolio()
+    ]);
+    const failedSources = [
+      ...(accountsResult.status === 'rejected' ? ['accounts'] : []),
+      ...(portfolioResult.status === 'rejected' ? ['investments'] : [])
+    ];
+    const accounts: Account[] = accountsResult.status === 'fulfilled' ? accountsResult.value.data || [] : [];
+    const investments: Investment[] = portfolioResult.status === 'fulfilled' ? portfolioResult.value?.investments || [] : [];
+
+    const converted: Account[] = [];
+    const unconvertedAccounts: Account[] = [];
+    accounts.forEach(account => {
+      const balance =
+        account.currency === baseCurrency ? account.balance : fxRateService.convert(account.balance, account.currency, baseCurrency);
+      if (balance === null) {
+        unconvertedAccounts.push(account);
+      } else {
+        converted.push({ ...account, balance });
+      }
+    });
+
+    const convertedInvestments: Investment[] = [];
+    const unconvertedInvestments: Investment[] = [];
+    investments.forEach(investment => {
+      const currency = investment.currency || baseCurrency;
+      const currentValue =
+        currency === baseCurrency ? investment.currentValue : fxRateService.convert(investment.currentValue, currency, baseCurrency);
+      if (currentValue === null) {
+        unconvertedInvestments.push(investment);
+      } else {
+        convertedInvestments.push({ ...investment, currentValue });
+      }
+    });
+
+    const date = format(new Date(), 'yyyy-MM-dd');
+    let snapshot = buildNetWorthSnapshot(
+      { accounts: converted, investments: convertedInvestments, manualAssets: this.getManualAssets() },
+      date
+    );
+
+    const last = this.getSnapshots().filter(s => s.date < date).pop();
+    if (failedSources.length > 0) {
+      if (!last) {
+        return { snapshot, unconvertedAccounts, unconvertedInvestments, failedSources };
+      }
+      const carried = [
+        ...(failedSources.includes('accounts') ? ACCOUNT_NET_WORTH_CLASSES : []),
+        ...(failedSources.includes('investments') ? INVESTMENT_NET_WORTH_CLASSES : [])
+      ];
+      const breakdown = { ...snapshot.breakdown };
+      carried.forEach(assetClass => {
+        breakdown[assetClass] = last.breakdown[assetClass] ?? 0;
+      });
+      snapshot = summarizeNetWorth(breakdown, date);
+    }
+
+    this.saveSnapshot(snapshot);
+    return { snapshot, unconvertedAccounts, unconvertedInvestments, failedSources };
+  }
+}
+
+export const netWorthService = new NetWorthService();
+export default netWorthService;
@@ -0,0 +1,323 @@
+/**
+ * Offline Ledger Service
+ * Records transaction mutations in IndexedDB while the backend is unreachable
+ * and replays them in order once connectivity returns
+ */
+
+import {
+  Transaction,
+  PendingMutation,
+  MutationType,
+  SyncConflict,
+  SyncStatus
+} from '../types/expense.types';
+import { STORES, getAll, getOne, put, remove } from '../utils/indexedDb';
+import { isNetworkError } from '../utils/errorHandling';
+import { generateId } from '../utils/helpers';
+
+export interface ReplayHandlers {
+  create: (transaction: Transaction) => Promise<Transaction>;
+  update: (transactionId: string, changes: Partial<Transaction>) => Promise<Transaction>;
+  delete: (transactionId: string) => Promise<void>;
+  fetch: (transactionId: string) => Promise<Transaction | null>;
+}
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number;
+  errors: string[];
+  isComplete: boolean; // False when replay stopped because the backend is still unreachable
+  createdIds: Record<string, string>; // Server id of each locally created row that synced, by its local id
+}
+
+// Rows marked for deletion stay in the ledger so they can be hidden until synced
+interface LedgerRow extends Transaction {
+  isDeleted?: boolean;
+}
+
+const LOCAL_ID_PREFIX = 'local_';
+
+class OfflineLedgerService {
+  private replayInFlight: Promise<ReplayResult> | null = null;
+
+  isLocalId(transactionId: string): boolean {
+    return transactionId.startsWith(LOCAL_ID_PREFIX);
+  }
+
+  // Recording
+  async recordCreate(transactionData: Omit<Transaction, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<Transaction> {
+    const now = new Date();
+    const transaction: Transaction = {
+      ...transactionData,
+      id: `${LOCAL_ID_PREFIX}${Date.now()}_${generateId()}`,
+      userId: 'current-user',
+      accountId: transactionData.bankAccountId,
+      syncStatus: SyncStatus.PENDING,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await put<LedgerRow>(STORES.LEDGER, transaction);
+    await put<PendingMutation>(STORES.MUTATIONS, {
+      type: MutationType.CREATE,
+      transactionId: transaction.id,
+      payload: transaction,
+      recordedAt: now
+    });
+
+    return transaction;
+  }
+
+  async recordUpdate(transactionId: string, changes: Partial<Transaction>, current?: Transaction): Promise<Transaction> {
+    const now = new Date();
+    const existingRow = await getOne<LedgerRow>(STORES.LEDGER, transactionId);
+    const base = existingRow || current;
+    const updated = {
+      ...base,
+      ...changes,
+      id: transactionId,
+      syncStatus: SyncStatus.PENDING,
+      updatedAt: now
+    } as Transaction;
+
+    // Edits to a row the server has never seen are folded into its pending create, and repeat edits into
+    // the pending update, so every edit is checked against the server version the first one started from
+    const mutations = await this.getPendingMutations();
+    const pendingCreate = mutations
+      .find(m => m.type === MutationType.CREATE && m.transactionId === transactionId);
+    const pendingUpdate = mutations
+      .find(m => m.type === MutationType.UPDATE && m.transactionId === transactionId);
+
+    if (pendingCreate || pendingUpdate) {
+      const pending = (pendingCreate || pendingUpdate) as PendingMutation;
+      await put<PendingMutation>(STORES.MUTATIONS, {
+        ...pending,
+        payload: { ...pending.payload, ...changes }
+      });
+    } else {
+      // A row in conflict was last seen on the server at the conflicting version, not at its local edit time
+      const conflict = (await this.getConflicts()).find(c => c.transactionId === transactionId);
+      const serverUpdatedAt = conflict ? conflict.serverTransaction.updatedAt : current?.updatedAt;
+      await put<PendingMutation>(STORES.MUTATIONS, {
+        type: MutationType.UPDATE,
+        transactionId,
+        payload: changes,
+        baseUpdatedAt: serverUpdatedAt ? new Date(serverUpdatedAt) : undefined,
+        recordedAt: now
+      });
+    }
+
+    await put<LedgerRow>(STORES.LEDGER, updated);
+    return updated;
+  }
+
+  async recordDelete(transactionId: string, current?: Transaction): Promise<void> {
+    const mutations = await this.getPendingMutations();
+    const pendingCreate = mutations
+      .find(m => m.type === MutationType.CREATE && m.transactionId === transactionId);
+
+    // Deleting a row the server has never seen just forgets it locally
+    if (pendingCreate) {
+      await this.removeMutationsFor(transactionId, mutations);
+      await remove(STORES.LEDGER, transactionId);
+      return;
+    }
+
+    await put<PendingMutation>(STORES.MUTATIONS, {
+      type: MutationType.DELETE,
+      transactionId,
+      recordedAt: new Date()
+    });
+    await put<LedgerRow>(STORES.LEDGER, {
+      ...(current as Transaction),
+      id: transactionId,
+      syncStatus: SyncStatus.PENDING,
+      isDeleted: true
+    });
+  }
+
+  // Queries
+  async getPendingMutations(): Promise<PendingMutation[]> {
+    const mutations = await getAll<PendingMutation>(STORES.MUTATIONS);
+    return mutations.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+  }
+
+  async getConflicts(): Promise<SyncConflict[]> {
+    return await getAll<SyncConflict>(STORES.CONFLICTS);
+  }
+
+  // Overlay locally recorded changes on top of the rows returned by the server
+  async mergeWithServer(serverTransactions: Transaction[]): Promise<Transaction[]> {
+    const rows = await getAll<LedgerRow>(STORES.LEDGER);
+    if (rows.length === 0) return serverTransactions;
+
+    const rowsById = new Map(rows.map(row => [row.id, row]));
+    const merged = serverTransactions
+      .filter(t => !rowsById.get(t.id)?.isDeleted)
+      .map(t => {
+        const row = rowsById.get(t.id);
+        return row ? { ...t, ...row } : t;
+      });
+
+    const serverIds = new Set(serverTransactions.map(t => t.id));
+    const localOnly = rows.filter(row => !row.isDeleted && !serverIds.has(row.id));
+
+    return [...localOnly, ...merged];
+  }
+
+  // Replay
+  replay(handlers: ReplayHandlers): Promise<ReplayResult> {
+    if (!this.replayInFlight) {
+      this.replayInFlight = this.runReplay(handlers).finally(() => {
+        this.replayInFlight = null;
+      });
+    }
+    return this.replayInFlight;
+  }
+
+  private async runReplay(handlers: ReplayHandlers): Promise<ReplayResult> {
+    const result: ReplayResult = { synced: 0, conflicts: 0, errors: [], isComplete: true, createdIds: {} };
+    const mutations = await this.getPendingMutations();
+    const conflicted = new Set((await this.getConflicts()).map(c => c.transactionId));
+
+    for (const mutation of mutations) {
+      // Changes to a row awaiting conflict review stay queued until the user picks a version
+      if (conflicted.has(mutation.transactionId)) continue;
+
+      try {
+        const isConflict = await this.applyMutation(mutation, handlers, result.createdIds);
+        if (isConflict) {
+          conflicted.add(mutation.transactionId);
+          result.conflicts++;
+        } else {
+          result.synced++;
+        }
+      } catch (error) {
+        if (isNetworkError(error)) {
+          // Stop here so later mutations are never applied before earlier ones
+          result.isComplete = false;
+          break;
+        }
+
+        // The server rejected this change outright; drop it so it does not block the queue
+        result.errors.push(
+          `Could not sync ${mutation.type} for transaction ${mutation.transactionId}: ${(error as any)?.message || error}`
+        );
+        await this.discardMutation(mutation);
+      }
+    }
+
+    return result;
+  }
+
+  // Returns true when the mutation was parked as a conflict instead of applied
+  private async applyMutation(
+    mutation: PendingMutation,
+    handlers: ReplayHandlers,
+    createdIds: Record<string, string>
+  ): Promise<boolean> {
+    switch (mutation.type) {
+      case MutationType.CREATE: {
+        const created = await handlers.create(mutation.payload as Transaction);
+        if (created?.id) {
+          createdIds[mutation.transactionId] = created.id;
+        }
+        break;
+      }
+
+      case MutationType.UPDATE: {
+        const serverTransaction = await handlers.fetch(mutation.transactionId);
+        const serverUpdatedAt = serverTransaction?.updatedAt ? new Date(serverTransaction.updatedAt) : null;
+
+        if (serverTransaction && serverUpdatedAt && mutation.baseUpdatedAt &&
+            serverUpdatedAt.getTime() > new Date(mutation.baseUpdatedAt).getTime()) {
+          await put<SyncConflict>(STORES.CONFLICTS, {
+            id: generateId(),
+            transactionId: mutation.transactionId,
+            localChanges: mutation.payload || {},
+            serverTransaction,
+            detectedAt: new Date()
+          });
+          await remove(STORES.MUTATIONS, mutation.seq as number);
+
+          const row = await getOne<LedgerRow>(STORES.LEDGER, mutation.transactionId);
+          if (row) {
+            await put<LedgerRow>(STORES.LEDGER, { ...row, syncStatus: SyncStatus.CONFLICT });
+          }
+          return true;
+        }
+
+        await handlers.update(mutation.transactionId, mutation.payload || {});
+        break;
+      }
+
+      case MutationType.DELETE:
+        await handlers.delete(mutation.transactionId);
+        break;
+    }
+
+    await this.discardMutation(mutation);
+    return false;
+  }
+
+  private async discardMutation(mutation: PendingMutation): Promise<void> {
+    await remove(STORES.MUTATIONS, mutation.seq as number);
+
+    const remaining = (await this.getPendingMutations())
+      .some(m => m.transactionId === mutation.transactionId);
+    const hasConflict = (await this.getConflicts())
+      .some(c => c.transactionId === mutation.transactionId);
+
+    if (!remaining && !hasConflict) {
+      await remove(STORES.LEDGER, mutation.transactionId);
+    }
+  }
+
+  private async removeMutationsFor(transactionId: string, mutations: PendingMutation[]): Promise<void> {
+    for (const mutation of mutations) {
+      if (mutation.transactionId === transactionId) {
+        await remove(STORES.MUTATIONS, mutation.seq as number);
+      }
+    }
+  }
+
+  // Conflict resolution
+  async resolveConflict(
+    conflictId: string,
+    resolution: 'local' | 'server',
+    handlers: ReplayHandlers
+  ): Promise<Transaction> {
+    const conflict = await getOne<SyncConflict>(STORES.CONFLICTS, conflictId);
+    if (!conflict) {
+      throw new Error('Conflict not found');
+    }
+
+    const resolved = resolution === 'local'
+      ? await handlers.update(conflict.transactionId, conflict.localChanges)
+      : conflict.serverTransaction;
+
+    // Edits queued while the conflict was open build on the local version: they go ahead on top of
+    // it when that is kept, and are dropped along with it when the server version wins
+    const queued = (await this.getPendingMutations()).filter(m => m.transactionId === conflict.transactionId);
+    for (const mutation of queued) {
+      if (resolution === 'server') {
+        await remove(STORES.MUTATIONS, mutation.seq as number);
+      } else if (mutation.type === MutationType.UPDATE) {
+        await put<PendingMutation>(STORES.MUTATIONS, {
+          ...mutation,
+          baseUpdatedAt: resolved.updatedAt ? new Date(resolved.updatedAt) : mutation.baseUpdatedAt
+        });
+      }
+    }
+
+    await remove(STORES.CONFLICTS, conflictId);
+    if (resolution === 'server' || queued.length === 0) {
+      await remove(STORES.LEDGER, conflict.transactionId);
+    }
+
+    return resolved;
+  }
+}
+
+export const offlineLedgerService = new OfflineLedgerService();
+export default offlineLedgerService;
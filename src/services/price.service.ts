@@ -0,0 +1,113 @@
+/**
+ * Price Service
+ * Keeps a price history per symbol from imported price files and manual entries,
+ * and looks up the price that applied on a given date
+ */
+
+import { PricePoint } from '../types/investment.types';
+import { ParsedPrice, normalizePriceSymbol, parsePriceFile } from '../utils/priceParser';
+
+const PRICE_HISTORY_STORAGE_KEY = 'wealthify_price_history';
+
+// Five years of daily prices per symbol
+const MAX_PRICES_PER_SYMBOL = 1830;
+
+type PriceHistory = Record<string, PricePoint[]>;
+
+export interface PriceImportResult {
+  format: 'csv' | 'amfi';
+  imported: number;
+  skipped: number; // Prices for symbols the user doesn't hold
+  errors: string[];
+}
+
+class PriceService {
+  private getHistory(): PriceHistory {
+    try {
+      const stored = localStorage.getItem(PRICE_HISTORY_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private saveHistory(history: PriceHistory): void {
+    localStorage.setItem(PRICE_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  }
+
+  // Oldest first; a later price for the same symbol and date replaces the earlier one
+  private merge(history: PriceHistory, points: PricePoint[]): PriceHistory {
+    const merged = { ...history };
+    points.forEach(point => {
+      const existing = (merged[point.symbol] || []).filter(p => p.date !== point.date);
+      merged[point.symbol] = [...existing, point].sort((a, b) => a.date.localeCompare(b.date)).slice(-MAX_PRICES_PER_SYMBOL);
+    });
+    return merged;
+  }
+
+  getPriceHistory(symbol: string): PricePoint[] {
+    return this.getHistory()[normalizePriceSymbol(symbol)] || [];
+  }
+
+  // The latest price on or before date, or null when the symbol had none yet
+  getPriceOn(symbol: string, date: string): PricePoint | null {
+    const prices = this.getPriceHistory(symbol).filter(p => p.date <= date);
+    return prices[prices.length - 1] || null;
+  }
+
+  addManualPrice(symbol: string, date: string, price: number): PricePoint {
+    if (!symbol.trim()) {
+      throw new Error('Symbol is required');
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error('Date is required');
+    }
+    if (!(price > 0)) {
+      throw new Error('Price must be greater than zero');
+    }
+
+    const point: PricePoint = { symbol: normalizePriceSymbol(symbol), date, price, source: 'manual' };
+    this.saveHistory(this.merge(this.getHistory(), [point]));
+    return point;
+  }
+
+  deletePrice(symbol: string, date: string): void {
+    const history = this.getHistory();
+    const key = normalizePriceSymbol(symbol);
+    history[key] = (history[key] || []).filter(p => p.date !== date);
+    this.saveHistory(history);
+  }
+
+  // Only prices for held symbols are kept; a full NAV file lists thousands of schemes
+  importPrices(prices: ParsedPrice[], heldSymbols: string[]): { imported: number; skipped: number } {
+    const held = new Set(heldSymbols.map(normalizePriceSymbol));
+    const points: PricePoint[] = prices
+      .filter(price => held.has(price.symbol))
+      .map(price => ({ ...price, source: 'import' }));
+
+    this.saveHistory(this.merge(this.getHistory(), points));
+    return { imported: points.length, skipped: prices.length - points.length };
+  }
+
+  private readFileAsText(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (e) => resolve((e.target?.result as string) || '');
+      reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+      reader.readAsText(file);
+    });
+  }
+
+  async importFile(file: File, heldSymbols: string[]): Promise<PriceImportResult> {
+    const parsed = parsePriceFile(await this.readFileAsText(file));
+    if (parsed.prices.length === 0) {
+      throw new Error(parsed.errors[0] || 'No prices found in the file');
+    }
+
+    const { imported, skipped } = this.importPrices(parsed.prices, heldSymbols);
+    return { format: parsed.format, imported, skipped, errors: parsed.errors };
+  }
+}
+
+export const priceService = new PriceService();
+export default priceService;
@@ -0,0 +1,83 @@
+/**
+ * Rebalancing Service
+ * Keeps the user's target allocation and drift tolerance. A target is either set
+ * by hand or derived from the current RiskProfile, so it follows a retaken questionnaire
+ */
+
+import { RiskProfile } from '../types/auth.types';
+import { TimeHorizon } from '../types/investment.types';
+import { AssetAllocation, getTargetAllocation, TargetAllocation } from '../utils/investmentSuggestions';
+import {
+  RebalanceSettings,
+  TargetAllocationSource,
+  validateTargetAllocation,
+  validateToleranceBand,
+} from '../utils/rebalancing';
+import { REBALANCE_DEFAULT_TOLERANCE } from '../utils/constants';
+
+const REBALANCE_SETTINGS_STORAGE_KEY = 'wealthify_target_allocation';
+
+const DEFAULT_SETTINGS: RebalanceSettings = {
+  source: 'risk_profile',
+  allocation: null,
+  toleranceBand: REBALANCE_DEFAULT_TOLERANCE,
+  updatedAt: new Date(0).toISOString()
+};
+
+class RebalancingService {
+  getSettings(): RebalanceSettings {
+    try {
+      const stored = localStorage.getItem(REBALANCE_SETTINGS_STORAGE_KEY);
+      return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+    } catch {
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  saveSettings(changes: {
+    source: TargetAllocationSource;
+    allocation?: AssetAllocation;
+    toleranceBand: number;
+  }): RebalanceSettings {
+    const toleranceError = validateToleranceBand(changes.toleranceBand);
+    if (toleranceError) {
+      throw new Error(toleranceError);
+    }
+
+    let allocation: AssetAllocation | null = null;
+    if (changes.source === 'manual') {
+      if (!changes.allocation) {
+        throw new Error('Enter a target for each asset class');
+      }
+      const allocationError = validateTargetAllocation(changes.allocation);
+      if (allocationError) {
+        throw new Error(allocationError);
+      }
+      allocation = changes.allocation;
+    }
+
+    const settings: RebalanceSettings = {
+      source: changes.source,
+      allocation,
+      toleranceBand: changes.toleranceBand,
+      updatedAt: new Date().toISOString()
+    };
+    localStorage.setItem(REBALANCE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    return settings;
+  }
+
+  // Rebalancing looks at the whole portfolio, so the long-term allocation applies
+  getRiskProfileTarget(riskProfile: RiskProfile, age: number): TargetAllocation {
+    return getTargetAllocation({ riskProfile, age, timeHorizon: TimeHorizon.LONG_TERM });
+  }
+
+  // The target in force: the manual one when set, otherwise the one for the risk profile
+  resolveTargetAllocation(settings: RebalanceSettings, profileTarget: TargetAllocation): TargetAllocation {
+    return settings.source === 'manual' && settings.allocation
+      ? { allocation: settings.allocation, reasons: ['You set this target yourself.'] }
+      : profileTarget;
+  }
+}
+
+export const rebalancingService = new RebalancingService();
+export default rebalancingService;
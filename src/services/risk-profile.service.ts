@@ -0,0 +1,61 @@
+/**
+ * Risk Profile Service
+ * Scores the risk questionnaire and keeps every assessment, so the current
+ * RiskProfile and how it has changed over time are both available
+ */
+
+import { RiskProfile } from '../types/auth.types';
+import { RiskAssessment, RiskProfileSnapshot, RiskQuestionnaireAnswers } from '../types/investment.types';
+import { getRiskProfileSnapshot, isQuestionnaireComplete, scoreRiskQuestionnaire } from '../utils/riskQuestionnaire';
+import { generateId } from '../utils/helpers';
+
+const RISK_ASSESSMENTS_STORAGE_KEY = 'wealthify_risk_assessments';
+
+// Enough for a retake every month for several years
+const MAX_ASSESSMENTS = 50;
+
+class RiskProfileService {
+  // Oldest first
+  getAssessments(): RiskAssessment[] {
+    try {
+      const stored = localStorage.getItem(RISK_ASSESSMENTS_STORAGE_KEY);
+      const assessments: RiskAssessment[] = stored ? JSON.parse(stored) : [];
+      return assessments.sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+    } catch {
+      return [];
+    }
+  }
+
+  getLatestAssessment(): RiskAssessment | null {
+    const assessments = this.getAssessments();
+    return assessments[assessments.length - 1] || null;
+  }
+
+  getRiskProfile(): RiskProfile | null {
+    return this.getLatestAssessment()?.riskProfile || null;
+  }
+
+  submitAssessment(answers: Partial<RiskQuestionnaireAnswers>, profile: RiskProfileSnapshot | null): RiskAssessment {
+    if (!isQuestionnaireComplete(answers)) {
+      throw new Error('Please answer every question');
+    }
+
+    const result = scoreRiskQuestionnaire(answers);
+    const assessment: RiskAssessment = {
+      id: generateId(),
+      answers,
+      score: result.score,
+      maxScore: result.maxScore,
+      riskProfile: result.riskProfile,
+      profileSnapshot: getRiskProfileSnapshot(profile),
+      completedAt: new Date().toISOString()
+    };
+
+    const assessments = [...this.getAssessments(), assessment].slice(-MAX_ASSESSMENTS);
+    localStorage.setItem(RISK_ASSESSMENTS_STORAGE_KEY, JSON.stringify(assessments));
+    return assessment;
+  }
+}
+
+export const riskProfileService = new RiskProfileService();
+export default riskProfileService;
@@ -0,0 +1,146 @@
+/**
+ * SIP Service
+ * Stores monthly SIP schedules and their pauses against portfolio holdings and raises
+ * an alert the first time an installment passes its window without a matching debit
+ */
+
+import { format } from 'date-fns';
+import { Investment, SipSchedule } from '../types/investment.types';
+import { localNotificationService } from './local-notification.service';
+import { SipInstallmentPayment, validateSipSchedule } from '../utils/sip';
+import { formatCurrency, formatDate, generateId } from '../utils/helpers';
+
+const SIP_SCHEDULES_STORAGE_KEY = 'wealthify_sip_schedules';
+
+export type SipScheduleDraft = Omit<SipSchedule, 'id' | 'isActive' | 'pauses' | 'createdAt'>;
+
+class SipService {
+  getSchedules(): SipSchedule[] {
+    try {
+      const stored = localStorage.getItem(SIP_SCHEDULES_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveSchedules(schedules: SipSchedule[]): void {
+    localStorage.setItem(SIP_SCHEDULES_STORAGE_KEY, JSON.stringify(schedules));
+  }
+
+  private getSchedule(scheduleId: string): SipSchedule {
+    const schedule = this.getSchedules().find(s => s.id === scheduleId);
+    if (!schedule) {
+      throw new Error('SIP not found');
+    }
+    return schedule;
+  }
+
+  private saveSchedule(schedule: SipSchedule): void {
+    this.saveSchedules(this.getSchedules().map(s => (s.id === schedule.id ? schedule : s)));
+  }
+
+  private validate(schedule: SipScheduleDraft): void {
+    const error = validateSipSchedule(schedule);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  // One schedule per holding; a second SIP into the same fund is a step-up or a new schedule after this one ends
+  createSchedule(draft: SipScheduleDraft): SipSchedule {
+    this.validate(draft);
+    if (this.getSchedules().some(s => s.investmentId === draft.investmentId)) {
+      throw new Error('This holding already has a SIP');
+    }
+
+    const schedule: SipSchedule = {
+      ...draft,
+      endDate: draft.endDate || undefined,
+      id: generateId(),
+      isActive: true,
+      pauses: [],
+      createdAt: new Date().toISOString()
+    };
+    this.saveSchedules([...this.getSchedules(), schedule]);
+    return schedule;
+  }
+
+  updateSchedule(scheduleId: string, changes: Partial<SipScheduleDraft>): SipSchedule {
+    const existing = this.getSchedule(scheduleId);
+    const updated: SipSchedule = { ...existing, ...changes };
+    updated.endDate = updated.endDate || undefined;
+    this.validate(updated);
+
+    this.saveSchedule(updated);
+    return updated;
+  }
+
+  // Pausing opens a pause from today and resuming closes it, so installments due in between are never expected
+  setActive(scheduleId: string, isActive: boolean): SipSchedule {
+    const existing = this.getSchedule(scheduleId);
+    if (existing.isActive === isActive) return existing;
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const pauses = existing.pauses || [];
+    const updated: SipSchedule = {
+      ...existing,
+      isActive,
+      pauses: isActive
+        ? pauses.map(pause => (pause.to ? pause : { ...pause, to: today }))
+        : [...pauses, { from: today }]
+    };
+
+    this.saveSchedule(updated);
+    return updated;
+  }
+
+  deleteSchedule(scheduleId: string): void {
+    this.saveSchedules(this.getSchedules().filter(s => s.id !== scheduleId));
+  }
+
+  // Alerts
+  private missedKey(schedule: SipSchedule, dueDate: string): string {
+    return `sip_missed:${schedule.id}:${dueDate}`;
+  }
+
+  // Raises each missed installment's alert once, and withdraws it if a late debit turns up; returns how many were new.
+  // Installments due before the SIP was added here are history, so they never raise alerts.
+  sendMissedAlerts(
+    overviews: { schedule: SipSchedule; investment: Investment; payments: SipInstallmentPayment[] }[],
+    currency: string
+  ): number {
+    let raised = 0;
+
+    overviews.forEach(({ schedule, investment, payments }) => {
+      const trackedFrom = schedule.createdAt.slice(0, 10);
+      payments.forEach(({ installment, status }) => {
+        if (installment.dueDate < trackedFrom) return;
+        const key = this.missedKey(schedule, installment.dueDate);
+        if (status === 'paid') {
+          localNotificationService.expire(key);
+          return;
+        }
+        if (status !== 'missed') return;
+
+        const notification = localNotificationService.notify(key, {
+          type: 'bill_reminder',
+          title: `${investment.name} SIP installment missed`,
+          message: `No debit of ${formatCurrency(installment.amount, currency)} was found around ${formatDate(
+            installment.dueDate
+          )}.`,
+          priority: 'high',
+          actionUrl: '/portfolio',
+          actionText: 'View SIPs',
+          relatedEntityId: investment.id
+        });
+        if (notification) raised++;
+      });
+    });
+
+    return raised;
+  }
+}
+
+export const sipService = new SipService();
+export default sipService;
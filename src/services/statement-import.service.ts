@@ -0,0 +1,476 @@
+/**
+ * Statement Import Service
+ * Parses bank statements (CSV, OFX/QFX, CAMT.053), applies a confirmed column mapping,
+ * validates rows, flags duplicates and sends the accepted rows to the bulk transaction endpoint
+ */
+
+import { transactionApiService, CreateTransactionRequest } from './transaction.api';
+import { Transaction, TransactionType } from '../types/expense.types';
+import { classificationRulesService } from './classification-rules.service';
+import {
+  ParsedStatement,
+  StructuredStatement,
+  StatementFile,
+  StatementEntry,
+  ColumnMapping,
+  ImportField,
+  ImportOptions,
+  ImportMappingProfile,
+  ImportRow,
+  ImportPreview,
+  ImportResult
+} from '../types/import.types';
+import { parseCSV, detectDelimiter } from '../utils/csvParser';
+import { parseOFX, isOFX } from '../utils/ofxParser';
+import { parseCAMT053, isCAMT053 } from '../utils/camtParser';
+import {
+  parseStatementAmount,
+  parseStatementDate,
+  toISODate,
+  normalizeDescription
+} from '../utils/importParsers';
+import { generateId } from '../utils/helpers';
+import { normalizeCurrencyCode } from '../utils/fxConversion';
+
+const PROFILES_STORAGE_KEY = 'wealthify_import_profiles';
+// Account id -> FITIDs / bank references already imported into it
+const IMPORTED_IDS_STORAGE_KEY = 'wealthify_imported_statement_ids';
+
+// Header keywords used to guess what each column holds
+const HEADER_HINTS: Array<{ field: ImportField; patterns: RegExp[] }> = [
+  { field: 'date', patterns: [/^(txn |transaction |tran |value |posting |posted )?date$/, /^date/] },
+  { field: 'debit', patterns: [/withdrawal/, /debit/, /^dr$/, /paid out/] },
+  { field: 'credit', patterns: [/deposit/, /credit/, /^cr$/, /paid in/] },
+  { field: 'amount', patterns: [/amount/, /^amt/, /value$/] },
+  { field: 'description', patterns: [/narration/, /description/, /particulars/, /details/, /remarks/, /memo/] },
+  { field: 'merchant', patterns: [/merchant/, /payee/, /beneficiary/] },
+  { field: 'reference', patterns: [/ref/, /chq/, /cheque/, /utr/] },
+  { field: 'category', patterns: [/category/] },
+];
+
+class StatementImportService {
+  // File reading & parsing
+  readFileAsText(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (e) => resolve((e.target?.result as string) || '');
+      reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+      reader.readAsText(file);
+    });
+  }
+
+  async parseStatementFile(file: File): Promise<StatementFile> {
+    const text = await this.readFileAsText(file);
+    const extension = file.name.split('.').pop()?.toLowerCase();
+
+    if (extension === 'ofx' || extension === 'qfx' || isOFX(text)) {
+      return this.toStructuredStatement(file.name, 'ofx', parseOFX(text));
+    }
+    if (extension === 'xml' || isCAMT053(text)) {
+      return this.toStructuredStatement(file.name, 'camt053', parseCAMT053(text));
+    }
+    return this.parseCSVText(file.name, text);
+  }
+
+  private toStructuredStatement(
+    fileName: string,
+    format: StructuredStatement['format'],
+    parsed: Omit<StructuredStatement, 'fileName' | 'format'> & { errors: string[] }
+  ): StructuredStatement {
+    if (parsed.entries.length === 0) {
+      throw new Error(parsed.errors[0] || 'No transactions found in the statement');
+    }
+
+    return {
+      fileName,
+      format,
+      accountId: parsed.accountId,
+      currency: parsed.currency,
+      entries: parsed.entries
+    };
+  }
+
+  async parseCSVStatement(file: File): Promise<ParsedStatement> {
+    const text = await this.readFileAsText(file);
+    return this.parseCSVText(file.name, text);
+  }
+
+  private parseCSVText(fileName: string, text: string): ParsedStatement {
+    const delimiter = detectDelimiter(text);
+    const [headers = [], ...rows] = parseCSV(text, delimiter);
+
+    if (headers.length === 0) {
+      throw new Error('The file is empty');
+    }
+
+    return {
+      fileName,
+      format: 'csv',
+      headers: headers.map(h => h.trim()),
+      rows,
+      delimiter
+    };
+  }
+
+  // Column mapping
+  suggestMapping(headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    const used = new Set<ImportField>();
+
+    headers.forEach((header, index) => {
+      const normalized = header.trim().toLowerCase().replace(/[._]/g, ' ').replace(/\s+/g, ' ');
+      const hint = HEADER_HINTS.find(({ field, patterns }) =>
+        !used.has(field) && patterns.some(pattern => pattern.test(normalized))
+      );
+
+      mapping[index] = hint ? hint.field : 'ignore';
+      if (hint) used.add(hint.field);
+    });
+
+    return mapping;
+  }
+
+  validateMapping(mapping: ColumnMapping): string[] {
+    const fields = Object.values(mapping);
+    const errors: string[] = [];
+
+    if (!fields.includes('date')) {
+      errors.push('Map a column to Date');
+    }
+    if (!fields.includes('description')) {
+      errors.push('Map a column to Description');
+    }
+    if (!fields.includes('amount') && !fields.includes('debit') && !fields.includes('credit')) {
+      errors.push('Map either an Amount column or Debit/Credit columns');
+    }
+
+    return errors;
+  }
+
+  // Mapping profiles
+  getHeaderSignature(headers: string[]): string {
+    return headers.map(h => h.trim().toLowerCase()).join('|');
+  }
+
+  getProfiles(): ImportMappingProfile[] {
+    try {
+      const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  findProfileForHeaders(headers: string[]): ImportMappingProfile | undefined {
+    const signature = this.getHeaderSignature(headers);
+    return this.getProfiles().find(profile => profile.headerSignature === signature);
+  }
+
+  saveProfile(
+    name: string,
+    headers: string[],
+    mapping: ColumnMapping,
+    options: Pick<ImportOptions, 'dateFormat' | 'invertSign'>
+  ): ImportMappingProfile {
+    const profiles = this.getProfiles();
+    const headerSignature = this.getHeaderSignature(headers);
+    const now = new Date().toISOString();
+    const existing = profiles.find(p => p.name.toLowerCase() === name.trim().toLowerCase());
+
+    const profile: ImportMappingProfile = {
+      id: existing?.id || generateId(),
+      name: name.trim(),
+      headerSignature,
+      mapping,
+      dateFormat: options.dateFormat,
+      invertSign: options.invertSign,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    const updatedProfiles = existing
+      ? profiles.map(p => (p.id === existing.id ? profile : p))
+      : [...profiles, profile];
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(updatedProfiles));
+
+    return profile;
+  }
+
+  deleteProfile(profileId: string): void {
+    const profiles = this.getProfiles().filter(p => p.id !== profileId);
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  }
+
+  // Row validation
+  private getCell(raw: string[], mapping: ColumnMapping, field: ImportField): string {
+    const entry = Object.entries(mapping).find(([, mapped]) => mapped === field);
+    return entry ? (raw[Number(entry[0])] ?? '').trim() : '';
+  }
+
+  mapRow(raw: string[], rowNumber: number, mapping: ColumnMapping, options: ImportOptions): ImportRow {
+    const errors: string[] = [];
+
+    const dateText = this.getCell(raw, mapping, 'date');
+    const date = parseStatementDate(dateText, options.dateFormat);
+    if (!date) {
+      errors.push(dateText ? `Invalid date "${dateText}" (expected ${options.dateFormat})` : 'Missing date');
+    }
+
+    const description = this.getCell(raw, mapping, 'description');
+    if (!description) {
+      errors.push('Missing description');
+    }
+
+    let signedAmount: number | null = null;
+    const amountText = this.getCell(raw, mapping, 'amount');
+    const debitText = this.getCell(raw, mapping, 'debit');
+    const creditText = this.getCell(raw, mapping, 'credit');
+
+    if (amountText) {
+      signedAmount = parseStatementAmount(amountText);
+      if (signedAmount === null) errors.push(`Invalid amount "${amountText}"`);
+    } else {
+      const debit = parseStatementAmount(debitText);
+      const credit = parseStatementAmount(creditText);
+
+      if (debitText && debit === null) errors.push(`Invalid debit "${debitText}"`);
+      if (creditText && credit === null) errors.push(`Invalid credit "${creditText}"`);
+
+      if (debit) {
+        signedAmount = -Math.abs(debit);
+      } else if (credit) {
+        signedAmount = Math.abs(credit);
+      } else if (debit === 0 || credit === 0) {
+        // A "0.00" on one side with nothing usable on the other still needs a reason
+        signedAmount = 0;
+      } else if (!(debitText && debit === null) && !(creditText && credit === null)) {
+        errors.push('Missing amount');
+      }
+    }
+
+    if (signedAmount === 0) {
+      errors.push('Amount is zero');
+    }
+
+    if (errors.length > 0 || signedAmount === null || !date) {
+      return { rowNumber, raw, errors, isSelected: false };
+    }
+
+    if (options.invertSign) {
+      signedAmount = -signedAmount;
+    }
+
+    const categoryText = this.getCell(raw, mapping, 'category');
+    const merchant = this.getCell(raw, mapping, 'merchant');
+    const reference = this.getCell(raw, mapping, 'reference');
+
+    const type = signedAmount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME;
+    const transaction: CreateTransactionRequest = {
+      accountId: options.accountId,
+      amount: Math.abs(signedAmount),
+      type: signedAmount < 0 ? 'Expense' : 'Income',
+      category: categoryText || classificationRulesService.categorize({
+        description,
+        merchant,
+        amount: signedAmount,
+        accountId: options.accountId,
+        type
+      }),
+      description,
+      transactionDate: toISODate(date),
+      merchant: merchant || undefined,
+      tags: reference ? [`ref:${reference}`] : undefined,
+      currencyCode: options.currencyCode ? normalizeCurrencyCode(options.currencyCode) : undefined
+    };
+
+    return { rowNumber, raw, transaction, errors, isSelected: true };
+  }
+
+  // The currency the statement gives wins over the account's own
+  entryToRow(entry: StatementEntry, rowNumber: number, accountId: string, accountCurrency?: string): ImportRow {
+    const currency = entry.currency || accountCurrency;
+    const description = [entry.payee, entry.memo].filter(Boolean).join(' - ') || entry.externalId;
+
+    const transaction: CreateTransactionRequest = {
+      accountId,
+      amount: Math.abs(entry.amount),
+      type: entry.amount < 0 ? 'Expense' : 'Income',
+      category: classificationRulesService.categorize({
+        description,
+        merchant: entry.payee,
+        amount: entry.amount,
+        accountId,
+        type: entry.amount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME
+      }),
+      description,
+      transactionDate: toISODate(entry.postedDate),
+      merchant: entry.payee,
+      tags: entry.reference ? [`ref:${entry.reference}`] : undefined,
+      externalReference: entry.externalId,
+      currencyCode: currency ? normalizeCurrencyCode(currency) : undefined
+    };
+
+    const errors = entry.amount === 0 ? ['Amount is zero'] : [];
+
+    return {
+      rowNumber,
+      raw: [transaction.transactionDate, String(entry.amount), entry.payee || '', entry.memo || '', entry.externalId],
+      transaction: errors.length === 0 ? transaction : undefined,
+      externalId: entry.externalId,
+      errors,
+      isSelected: errors.length === 0
+    };
+  }
+
+  // Imported statement ids
+  private getImportedIdRegistry(): Record<string, string[]> {
+    try {
+      const stored = localStorage.getItem(IMPORTED_IDS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  getImportedIds(accountId: string): Set<string> {
+    return new Set(this.getImportedIdRegistry()[accountId] || []);
+  }
+
+  private recordImportedIds(accountId: string, ids: string[]): void {
+    const registry = this.getImportedIdRegistry();
+    registry[accountId] = Array.from(new Set([...(registry[accountId] || []), ...ids]));
+    localStorage.setItem(IMPORTED_IDS_STORAGE_KEY, JSON.stringify(registry));
+  }
+
+  // Duplicate detection
+  private getDuplicateKey(date: string, amount: number, type: string, description: string): string {
+    return `${date}|${Math.abs(amount).toFixed(2)}|${type.toLowerCase()}|${normalizeDescription(description)}`;
+  }
+
+  private buildExistingIndex(existing: Transaction[]): Map<string, Transaction> {
+    const index = new Map<string, Transaction>();
+    existing.forEach(t => {
+      const date = t.transactionDate?.split('T')[0] || toISODate(new Date(t.date));
+      const isIncoming = t.type === TransactionType.TRANSFER ? t.amount > 0 : t.type === TransactionType.INCOME;
+      const type = isIncoming ? 'income' : 'expense';
+      index.set(this.getDuplicateKey(date, t.amount, type, t.description), t);
+    });
+    return index;
+  }
+
+  buildPreview(
+    statement: ParsedStatement,
+    mapping: ColumnMapping,
+    options: ImportOptions,
+    existingTransactions: Transaction[]
+  ): ImportPreview {
+    // +2: header row plus 1-based numbering, so it matches what the user sees in a spreadsheet
+    const rows = statement.rows.map((raw, index) => this.mapRow(raw, index + 2, mapping, options));
+    return this.markDuplicates(rows, options.accountId, existingTransactions);
+  }
+
+  buildStructuredPreview(
+    statement: StructuredStatement,
+    accountId: string,
+    existingTransactions: Transaction[],
+    accountCurrency?: string
+  ): ImportPreview {
+    const rows = statement.entries.map((entry, index) => this.entryToRow(entry, index + 1, accountId, accountCurrency));
+    return this.markDuplicates(rows, accountId, existingTransactions);
+  }
+
+  private markDuplicates(rows: ImportRow[], accountId: string, existingTransactions: Transaction[]): ImportPreview {
+    const existingIndex = this.buildExistingIndex(existingTransactions);
+    const seenInFile = new Map<string, number>();
+
+    // FITIDs are unique per account, so a match means this exact bank transaction was imported before
+    const importedIds = this.getImportedIds(accountId);
+    existingTransactions.forEach(t => {
+      if (t.externalReference && (t.accountId || t.bankAccountId) === accountId) {
+        importedIds.add(t.externalReference);
+      }
+    });
+    const seenIds = new Map<string, number>();
+
+    rows.forEach(row => {
+      if (!row.transaction) return;
+
+      if (row.externalId) {
+        if (importedIds.has(row.externalId)) {
+          row.duplicateOf = `Already imported (bank reference ${row.externalId})`;
+          row.isSelected = false;
+          return;
+        }
+        if (seenIds.has(row.externalId)) {
+          row.duplicateOf = `Same bank reference as row ${seenIds.get(row.externalId)} in this file`;
+          row.isSelected = false;
+          return;
+        }
+        // A bank reference not seen before identifies a distinct transaction, even when it looks like another
+        seenIds.set(row.externalId, row.rowNumber);
+        return;
+      }
+
+      const { transactionDate, amount, type, description } = row.transaction;
+      const key = this.getDuplicateKey(transactionDate, amount, type, description);
+      const existingMatch = existingIndex.get(key);
+
+      if (existingMatch) {
+        row.duplicateOf = `Already recorded: ${existingMatch.description}`;
+        row.isSelected = false;
+      } else if (seenInFile.has(key)) {
+        row.duplicateOf = `Same as row ${seenInFile.get(key)} in this file`;
+        row.isSelected = false;
+      } else {
+        seenInFile.set(key, row.rowNumber);
+      }
+    });
+
+    return this.summarize(rows);
+  }
+
+  summarize(rows: ImportRow[]): ImportPreview {
+    return {
+      rows,
+      validCount: rows.filter(r => r.transaction && !r.duplicateOf).length,
+      errorCount: rows.filter(r => r.errors.length > 0).length,
+      duplicateCount: rows.filter(r => r.duplicateOf).length
+    };
+  }
+
+  // Commit
+  async commitImport(rows: ImportRow[]): Promise<ImportResult> {
+    const selected = rows.filter(r => r.isSelected && r.transaction);
+    const skipped = rows.length - selected.length;
+
+    if (selected.length === 0) {
+      return { imported: 0, skipped, errors: [], transactionIds: [] };
+    }
+
+    try {
+      const transactions = selected.map(r => r.transaction as CreateTransactionRequest);
+      const created = await transactionApiService.bulkCreateTransactions({ transactions });
+
+      const importedIds = transactions.filter(t => t.externalReference);
+      if (importedIds.length > 0) {
+        this.recordImportedIds(importedIds[0].accountId, importedIds.map(t => t.externalReference as string));
+      }
+      return {
+        imported: selected.length,
+        skipped,
+        errors: [],
+        transactionIds: (created || []).map(t => t.id)
+      };
+    } catch (error) {
+      return {
+        imported: 0,
+        skipped,
+        errors: [error instanceof Error ? error.message : (error as any)?.message || 'Import failed'],
+        transactionIds: []
+      };
+    }
+  }
+}
+
+export const statementImportService = new StatementImportService();
+export default statementImportService;
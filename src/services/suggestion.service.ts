@@ -0,0 +1,156 @@
+/**
+ * Suggestion Service
+ * Keeps generated investment suggestions until they expire or are acted on, and
+ * follows accepted ones through to a portfolio investment once the debit shows up
+ */
+
+import { Transaction } from '../types/expense.types';
+import { Investment, InvestmentSuggestion, PendingInvestment, SuggestionStatus } from '../types/investment.types';
+import { investmentService } from './investment.service';
+import { expireSuggestions, getSuggestionExpiry } from '../utils/suggestionLifecycle';
+import { generateId } from '../utils/helpers';
+
+const SUGGESTIONS_STORAGE_KEY = 'wealthify_investment_suggestions';
+const PENDING_INVESTMENTS_STORAGE_KEY = 'wealthify_pending_investments';
+
+// Decided and expired suggestions are kept for history, up to this many
+const MAX_SUGGESTIONS = 100;
+
+class SuggestionService {
+  // Suggestions, newest first, with any that ran past their window marked expired
+  getSuggestions(asOf: Date = new Date()): InvestmentSuggestion[] {
+    let stored: InvestmentSuggestion[] = [];
+    try {
+      const raw = localStorage.getItem(SUGGESTIONS_STORAGE_KEY);
+      stored = (raw ? JSON.parse(raw) : []).map((suggestion: InvestmentSuggestion) => ({
+        ...suggestion,
+        createdAt: new Date(suggestion.createdAt),
+        updatedAt: new Date(suggestion.updatedAt),
+        expiresAt: suggestion.expiresAt ? new Date(suggestion.expiresAt) : undefined,
+        acceptedAt: suggestion.acceptedAt ? new Date(suggestion.acceptedAt) : undefined
+      }));
+    } catch {
+      return [];
+    }
+
+    const suggestions = expireSuggestions(stored, asOf);
+    if (suggestions.some((suggestion, index) => suggestion.status !== stored[index].status)) {
+      this.saveSuggestions(suggestions);
+    }
+    return suggestions;
+  }
+
+  private saveSuggestions(suggestions: InvestmentSuggestion[]): void {
+    localStorage.setItem(SUGGESTIONS_STORAGE_KEY, JSON.stringify(suggestions.slice(0, MAX_SUGGESTIONS)));
+  }
+
+  // A new batch replaces whatever was still pending; ids get the generation time so batches never collide
+  saveGeneratedSuggestions(generated: InvestmentSuggestion[], surplusAmount: number): InvestmentSuggestion[] {
+    const generatedAt = new Date();
+    const batch = generated.map(suggestion => ({
+      ...suggestion,
+      id: `${suggestion.id}-${generatedAt.getTime()}`,
+      surplusBasis: surplusAmount,
+      expiresAt: getSuggestionExpiry(generatedAt),
+      createdAt: generatedAt,
+      updatedAt: generatedAt
+    }));
+    const decided = this.getSuggestions().filter(suggestion => suggestion.status !== SuggestionStatus.PENDING);
+
+    this.saveSuggestions([...batch, ...decided]);
+    return this.getSuggestions();
+  }
+
+  private updateSuggestion(suggestionId: string, changes: Partial<InvestmentSuggestion>): InvestmentSuggestion {
+    const suggestions = this.getSuggestions();
+    const suggestion = suggestions.find(s => s.id === suggestionId);
+    if (!suggestion) {
+      throw new Error('Suggestion not found');
+    }
+    if (suggestion.status !== SuggestionStatus.PENDING) {
+      throw new Error(`This suggestion has already been ${suggestion.status}`);
+    }
+
+    const updated = { ...suggestion, ...changes, updatedAt: new Date() };
+    this.saveSuggestions(suggestions.map(s => (s.id === suggestionId ? updated : s)));
+    return updated;
+  }
+
+  // Accepting puts the investment on hold until the money is seen leaving an account
+  acceptSuggestion(suggestionId: string, investmentAmount?: number): PendingInvestment {
+    const amount = investmentAmount ?? this.getSuggestions().find(s => s.id === suggestionId)?.suggestedAmount ?? 0;
+    if (!(amount > 0)) {
+      throw new Error('Investment amount must be greater than zero');
+    }
+
+    const suggestion = this.updateSuggestion(suggestionId, { status: SuggestionStatus.ACCEPTED, acceptedAt: new Date() });
+    const pending: PendingInvestment = {
+      id: generateId(),
+      suggestionId,
+      type: suggestion.type,
+      name: suggestion.title,
+      amount,
+      status: 'awaiting_debit',
+      acceptedAt: new Date().toISOString()
+    };
+    this.savePendingInvestments([...this.getPendingInvestments(), pending]);
+    return pending;
+  }
+
+  rejectSuggestion(suggestionId: string): InvestmentSuggestion {
+    return this.updateSuggestion(suggestionId, { status: SuggestionStatus.REJECTED });
+  }
+
+  // Pending investments
+  getPendingInvestments(): PendingInvestment[] {
+    try {
+      const stored = localStorage.getItem(PENDING_INVESTMENTS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private savePendingInvestments(pendingInvestments: PendingInvestment[]): void {
+    localStorage.setItem(PENDING_INVESTMENTS_STORAGE_KEY, JSON.stringify(pendingInvestments));
+  }
+
+  private updatePendingInvestment(pendingId: string, changes: Partial<PendingInvestment>): void {
+    this.savePendingInvestments(
+      this.getPendingInvestments().map(pending => (pending.id === pendingId ? { ...pending, ...changes } : pending))
+    );
+  }
+
+  // Adds the investment to the portfolio at the amount actually debited
+  async confirmPendingInvestment(pending: PendingInvestment, debit: Transaction): Promise<Investment> {
+    if (pending.status !== 'awaiting_debit') {
+      throw new Error(`This investment has already been ${pending.status}`);
+    }
+
+    const amount = Math.abs(debit.amount);
+    const investment = await investmentService.addInvestment({
+      type: pending.type,
+      name: pending.name,
+      investedAmount: amount,
+      currentValue: amount,
+      returns: 0,
+      returnPercentage: 0,
+      quantity: 0,
+      purchaseDate: new Date(debit.date)
+    });
+
+    this.updatePendingInvestment(pending.id, {
+      status: 'confirmed',
+      matchedTransactionId: debit.id,
+      investmentId: investment.id
+    });
+    return investment;
+  }
+
+  cancelPendingInvestment(pendingId: string): void {
+    this.updatePendingInvestment(pendingId, { status: 'cancelled' });
+  }
+}
+
+export const suggestionService = new SuggestionService();
+export default suggestionService;
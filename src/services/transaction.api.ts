@@ -13,6 +13,8 @@ export interface CreateTransactionRequest {
   merchant?: string;
   location?: string;
   tags?: string[];
+  externalReference?: string; // Bank-assigned id (e.g. OFX FITID) for imported transactions
+  currencyCode?: string; // ISO code the amount is in; the user's base currency when absent
 }
 
 export interface UpdateTransactionRequest {
@@ -0,0 +1,209 @@
+/**
+ * Transfer Service
+ * Records transfers between the user's own accounts, links matching
+ * expense/income pairs from imports and marks both sides as transfers
+ */
+
+import { expenseService } from './expense.service';
+import {
+  Transaction,
+  TransactionCategory,
+  TransactionSource,
+  TransactionType,
+  Transfer,
+  TransferMatch,
+  TransferOrigin
+} from '../types/expense.types';
+import { TRANSFER_MATCH_MAX_DAYS, findTransferMatches, getTransferPairKey } from '../utils/transferMatching';
+import { generateId } from '../utils/helpers';
+
+const TRANSFERS_STORAGE_KEY = 'wealthify_transfers';
+const DISMISSED_TRANSFER_PAIRS_STORAGE_KEY = 'wealthify_dismissed_transfer_pairs';
+
+export interface CreateTransferRequest {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  date: Date;
+  description: string;
+}
+
+class TransferService {
+  // Transfer storage
+  getTransfers(): Transfer[] {
+    try {
+      const stored = localStorage.getItem(TRANSFERS_STORAGE_KEY);
+      const transfers: Transfer[] = stored ? JSON.parse(stored) : [];
+      return transfers.map(t => ({ ...t, date: new Date(t.date), createdAt: new Date(t.createdAt) }));
+    } catch {
+      return [];
+    }
+  }
+
+  private saveTransfers(transfers: Transfer[]): void {
+    localStorage.setItem(TRANSFERS_STORAGE_KEY, JSON.stringify(transfers));
+  }
+
+  // Expense/income pairs the user unlinked or dismissed, so matching never offers them again
+  private getDismissedPairs(): Set<string> {
+    try {
+      const stored = localStorage.getItem(DISMISSED_TRANSFER_PAIRS_STORAGE_KEY);
+      return new Set<string>(stored ? JSON.parse(stored) : []);
+    } catch {
+      return new Set();
+    }
+  }
+
+  private dismissPair(outgoingId: string, incomingId: string): void {
+    const dismissed = this.getDismissedPairs().add(getTransferPairKey(outgoingId, incomingId));
+    localStorage.setItem(DISMISSED_TRANSFER_PAIRS_STORAGE_KEY, JSON.stringify(Array.from(dismissed)));
+  }
+
+  // Creating transfers
+  async createTransfer(request: CreateTransferRequest): Promise<{ transfer: Transfer; legs: Transaction[] }> {
+    if (!request.fromAccountId || !request.toAccountId) {
+      throw new Error('Select both accounts for the transfer');
+    }
+    if (request.fromAccountId === request.toAccountId) {
+      throw new Error('Cannot transfer to the same account');
+    }
+    if (!(request.amount > 0)) {
+      throw new Error('Transfer amount must be greater than zero');
+    }
+
+    const transferId = generateId();
+    const amount = Math.abs(request.amount);
+    const leg = {
+      description: request.description || 'Transfer',
+      date: request.date,
+      category: TransactionCategory.OTHER,
+      type: TransactionType.TRANSFER,
+      source: TransactionSource.MANUAL,
+      isRecurring: false,
+      isManuallyClassified: true,
+      transferId
+    };
+
+    const outgoing = await expenseService.createTransaction({
+      ...leg,
+      amount: -amount,
+      bankAccountId: request.fromAccountId,
+      transferAccountId: request.toAccountId
+    });
+    let incoming: Transaction;
+    try {
+      incoming = await expenseService.createTransaction({
+        ...leg,
+        amount,
+        bankAccountId: request.toAccountId,
+        transferAccountId: request.fromAccountId
+      });
+    } catch (error) {
+      // Never leave a one-sided transfer behind; the original failure is what the user needs to see
+      await expenseService.deleteTransaction(outgoing.id, outgoing).catch(() => undefined);
+      throw error;
+    }
+
+    const transfer: Transfer = {
+      id: transferId,
+      fromAccountId: request.fromAccountId,
+      toAccountId: request.toAccountId,
+      amount,
+      date: request.date,
+      description: leg.description,
+      outgoingTransactionId: outgoing.id,
+      incomingTransactionId: incoming.id,
+      origin: TransferOrigin.CREATED,
+      createdAt: new Date()
+    };
+    this.saveTransfers([...this.getTransfers(), transfer]);
+
+    return { transfer, legs: [outgoing, incoming] };
+  }
+
+  // Legs created offline carry local ids until they sync; point their transfers at the server rows
+  remapTransactionIds(idMap: Record<string, string>): void {
+    if (Object.keys(idMap).length === 0) return;
+
+    this.saveTransfers(this.getTransfers().map(transfer => ({
+      ...transfer,
+      outgoingTransactionId: idMap[transfer.outgoingTransactionId] || transfer.outgoingTransactionId,
+      incomingTransactionId: idMap[transfer.incomingTransactionId] || transfer.incomingTransactionId
+    })));
+  }
+
+  // Matching imported rows
+  findMatches(transactions: Transaction[]): TransferMatch[] {
+    return findTransferMatches(transactions, TRANSFER_MATCH_MAX_DAYS, this.getDismissedPairs());
+  }
+
+  dismissMatch(match: TransferMatch): void {
+    this.dismissPair(match.outgoing.id, match.incoming.id);
+  }
+
+  linkMatch(match: TransferMatch, origin: TransferOrigin = TransferOrigin.MATCHED): Transfer {
+    const { outgoing, incoming } = match;
+    const transfer: Transfer = {
+      id: generateId(),
+      fromAccountId: (outgoing.bankAccountId || outgoing.accountId) as string,
+      toAccountId: (incoming.bankAccountId || incoming.accountId) as string,
+      amount: Math.abs(outgoing.amount),
+      date: new Date(outgoing.date),
+      description: outgoing.description,
+      outgoingTransactionId: outgoing.id,
+      incomingTransactionId: incoming.id,
+      origin,
+      createdAt: new Date()
+    };
+
+    this.saveTransfers([...this.getTransfers(), transfer]);
+    return transfer;
+  }
+
+  // Link every pair that involves a newly imported row and has exactly one possible counterpart.
+  // Older rows are only linked alongside a new one; pairs among them are left for the user to review.
+  autoLinkMatches(transactions: Transaction[], importedIds: string[]): Transfer[] {
+    const imported = new Set(importedIds);
+    return this.findMatches(transactions)
+      .filter(match => match.isUnique && (imported.has(match.outgoing.id) || imported.has(match.incoming.id)))
+      .map(match => this.linkMatch(match, TransferOrigin.AUTO_MATCHED));
+  }
+
+  // Only linked pairs can be unlinked; created transfers have no income/expense to fall back to
+  unlinkTransfer(transferId: string): void {
+    const transfers = this.getTransfers();
+    const transfer = transfers.find(t => t.id === transferId);
+    if (!transfer) return;
+    if (transfer.origin === TransferOrigin.CREATED) {
+      throw new Error('Delete the transfer transactions instead of unlinking them');
+    }
+
+    this.saveTransfers(transfers.filter(t => t.id !== transferId));
+    this.dismissPair(transfer.outgoingTransactionId, transfer.incomingTransactionId);
+  }
+
+  // Mark both sides of every recorded transfer on a fetched transaction list
+  applyTransfers(transactions: Transaction[]): Transaction[] {
+    const legs = new Map<string, { transfer: Transfer; otherAccountId: string }>();
+    this.getTransfers().forEach(transfer => {
+      legs.set(transfer.outgoingTransactionId, { transfer, otherAccountId: transfer.toAccountId });
+      legs.set(transfer.incomingTransactionId, { transfer, otherAccountId: transfer.fromAccountId });
+    });
+
+    return transactions.map(transaction => {
+      const leg = legs.get(transaction.id);
+      if (!leg) return transaction;
+
+      return {
+        ...transaction,
+        type: TransactionType.TRANSFER,
+        transferId: leg.transfer.id,
+        transferAccountId: leg.otherAccountId,
+        isMatchedTransfer: leg.transfer.origin !== TransferOrigin.CREATED
+      };
+    });
+  }
+}
+
+export const transferService = new TransferService();
+export default transferService;
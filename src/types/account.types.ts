@@ -9,6 +9,11 @@ export interface BankAccount {
   bankAggregatorId?: string;
   externalAccountId?: string;
   consentExpiresAt?: string;
+  minimumBalance?: number; // Balance the account shouldn't drop below, e.g. a bank's required minimum
+  loan?: LoanTerms; // Set on LOAN accounts
+  creditLimit?: number; // CREDIT accounts
+  statementClosingDay?: number; // 1-31; months without that day close on their last day
+  paymentDueDay?: number; // 1-31; the first such day after the statement closes
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -24,6 +29,10 @@ export interface LinkAccountRequest {
   bankAggregatorId?: string;
   externalAccountId?: string;
   consentExpiresAt?: string;
+  loan?: LoanTerms;
+  creditLimit?: number;
+  statementClosingDay?: number;
+  paymentDueDay?: number;
 }
 
 export interface UpdateAccountRequest {
@@ -37,6 +46,23 @@ export enum AccountType {
   CHECKING = "CHECKING",
   CREDIT = "CREDIT",
   CURRENT = "CURRENT",
+  LOAN = "LOAN",
+}
+
+export enum LoanKind {
+  HOME = "home",
+  CAR = "car",
+  PERSONAL = "personal",
+  EDUCATION = "education",
+  OTHER = "other",
+}
+
+export interface LoanTerms {
+  kind: LoanKind;
+  principal: number;
+  annualInterestRate: number; // Percent, e.g. 8.5
+  tenureMonths: number;
+  startDate: string; // yyyy-MM-dd of the first EMI
 }
 
 export interface AccountSummary {
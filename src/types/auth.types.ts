@@ -24,6 +24,7 @@ export interface UserProfile {
   phoneNumber: string;
   dateOfBirth?: string;
   occupation?: string;
+  annualIncome?: number;
   avatar?: string;
   isEmailVerified: boolean;
   isPhoneVerified: boolean;
@@ -187,6 +188,7 @@ export interface UpdateProfileRequest {
   phoneNumber?: string;
   dateOfBirth?: string;
   occupation?: string;
+  annualIncome?: number;
   avatar?: string;
   currency?: string;
   timezone?: string;
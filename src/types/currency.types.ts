@@ -0,0 +1,29 @@
+/**
+ * Currency Types
+ * Types for the locally stored FX rate table and currency conversion
+ */
+
+export type FxRateSource = 'manual' | 'import';
+
+// 1 unit of fromCurrency is worth `rate` units of toCurrency on `date`
+export interface FxRate {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: string; // yyyy-MM-dd
+  source: FxRateSource;
+  createdAt: Date;
+}
+
+export interface FxRateImportResult {
+  imported: number;
+  errors: string[];
+}
+
+// A currency pair that had no usable rate while converting totals
+export interface MissingFxRate {
+  fromCurrency: string;
+  toCurrency: string;
+  count: number; // Transactions left out of converted totals
+}
@@ -0,0 +1,59 @@
+/**
+ * Envelope Budget Types
+ * Zero-based budgeting: income is assigned into envelopes and spending draws them down
+ */
+
+import { TransactionCategory } from './expense.types';
+
+export enum BudgetingMode {
+  CAP = 'cap', // Spending limit per category and period (server budgets)
+  ENVELOPE = 'envelope'
+}
+
+export interface Envelope {
+  id: string;
+  name: string;
+  categories: TransactionCategory[]; // A category belongs to at most one envelope
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type EnvelopeAssignmentSource = 'assign' | 'move';
+
+// Money put into (positive) or taken out of (negative) an envelope for a month
+export interface EnvelopeAssignment {
+  id: string;
+  envelopeId: string;
+  period: string; // yyyy-MM
+  amount: number;
+  source: EnvelopeAssignmentSource;
+  moveId?: string; // Shared by both sides of a move between envelopes
+  createdAt: Date;
+}
+
+export interface EnvelopeIncome {
+  id: string;
+  amount: number;
+  date: Date;
+  description: string;
+  source: 'transaction' | 'income_entry';
+}
+
+export interface EnvelopeBalance {
+  envelope: Envelope;
+  carriedOver: number; // Unspent balance rolled over from earlier months
+  assigned: number;
+  spent: number;
+  available: number; // Negative when overspent
+}
+
+export interface EnvelopePeriodSummary {
+  period: string;
+  income: EnvelopeIncome[]; // Received during the period
+  incomeTotal: number;
+  assignedTotal: number;
+  uncoveredOverspending: number; // Overspending left at the end of earlier months
+  toBeAssigned: number; // Income not yet in an envelope; negative when more was assigned or spent than received
+  envelopes: EnvelopeBalance[];
+  unassignedSpending: number; // Expenses in categories that have no envelope
+}
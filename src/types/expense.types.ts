@@ -2,6 +2,7 @@ export interface Transaction {
   id: string;
   userId: string;
   amount: number;
+  currencyCode?: string; // ISO code of the account the amount is in; the user's base currency when absent
   description: string;
   date: Date;
   category: TransactionCategory;
@@ -11,16 +12,67 @@ export interface Transaction {
   merchant?: string;
   location?: string;
   tags?: string[];
+  externalReference?: string;
   transactionDate?: string;
   accountId?: string;
   isRecurring: boolean;
   recurringId?: string;
   bankAccountId?: string;
   isManuallyClassified: boolean;
+  syncStatus?: SyncStatus;
+  splits?: TransactionSplit[];
+  transferId?: string;
+  transferAccountId?: string; // The other account of a transfer
+  isMatchedTransfer?: boolean; // Stored as income/expense on the server and linked as a transfer locally
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Money moved between two of the user's accounts; each side is a TRANSFER transaction
+export interface Transfer {
+  id: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  date: Date;
+  description: string;
+  outgoingTransactionId: string;
+  incomingTransactionId: string;
+  origin: TransferOrigin;
+  createdAt: Date;
+}
+
+export enum TransferOrigin {
+  CREATED = 'created', // Entered as a transfer
+  MATCHED = 'matched', // Existing expense/income pair linked by the user
+  AUTO_MATCHED = 'auto_matched' // Existing pair linked automatically after import
+}
+
+// An expense in one account and an income in another that look like the two sides of a transfer
+export interface TransferMatch {
+  outgoing: Transaction;
+  incoming: Transaction;
+  daysApart: number;
+  isUnique: boolean; // Neither side has another possible counterpart, so it is safe to link automatically
+}
+
+// One category line of a split transaction; line amounts are positive and sum to the parent amount
+export interface TransactionSplit {
+  id: string;
+  category: TransactionCategory;
+  amount: number;
+  note?: string;
+}
+
+// Spending attributed to a single category (a whole transaction or one of its split lines)
+export interface CategoryLine {
+  transactionId: string;
+  category: TransactionCategory;
+  amount: number; // Signed like the parent transaction
+  date: Date;
+  type: TransactionType;
+}
+
 export interface BankAccount {
   id: string;
   userId: string;
@@ -49,10 +101,34 @@ export interface Budget {
   year?: number; // Keep for backwards compatibility
   alertThreshold: number; // Percentage (e.g., 80 for 80%)
   isActive: boolean;
+  carryOver?: BudgetCarryOver;
+  carriedIn?: number; // Surplus (positive) or deficit (negative) brought in from the previous period
   createdAt: Date;
   updatedAt: Date;
 }
 
+// What a budget takes with it into its next period
+export enum BudgetCarryOver {
+  NONE = 'none',
+  SURPLUS = 'surplus',
+  DEFICIT = 'deficit',
+  BOTH = 'both'
+}
+
+// One materialized period of a recurring budget; closed periods are stored and no longer recalculated
+export interface BudgetPeriodSnapshot {
+  budgetId: string;
+  periodKey: string; // Start date of the period (yyyy-MM-dd)
+  startDate: string;
+  endDate: string;
+  budgetAmount: number;
+  carriedIn: number;
+  spent: number;
+  remaining: number; // budgetAmount + carriedIn - spent
+  isClosed: boolean;
+  closedAt?: Date;
+}
+
 export interface RecurringTransaction {
   id: string;
   userId: string;
@@ -64,6 +140,20 @@ export interface RecurringTransaction {
   isActive: boolean;
   confidence: number; // ML confidence score
   createdAt: Date;
+  merchant?: string;
+  type?: TransactionType;
+  status?: RecurringStatus;
+  occurrences?: number;
+  lastDate?: Date;
+  transactionIds?: string[];
+  cancelledAt?: Date;
+}
+
+export enum RecurringStatus {
+  DETECTED = 'detected',
+  CONFIRMED = 'confirmed',
+  DISMISSED = 'dismissed',
+  CANCELLED = 'cancelled'
 }
 
 export enum TransactionCategory {
@@ -84,7 +174,8 @@ export enum TransactionCategory {
 
 export enum TransactionType {
   INCOME = 'income',
-  EXPENSE = 'expense'
+  EXPENSE = 'expense',
+  TRANSFER = 'transfer' // Movement between the user's own accounts; neither income nor expense
 }
 
 export enum TransactionSource {
@@ -99,6 +190,14 @@ export enum AccountType {
   CREDIT = 'credit'
 }
 
+export enum BudgetPeriodType {
+  DAILY = 'Daily',
+  WEEKLY = 'Weekly',
+  MONTHLY = 'Monthly',
+  QUARTERLY = 'Quarterly',
+  YEARLY = 'Yearly'
+}
+
 export enum RecurringFrequency {
   WEEKLY = 'weekly',
   BIWEEKLY = 'biweekly',
@@ -107,6 +206,37 @@ export enum RecurringFrequency {
   YEARLY = 'yearly'
 }
 
+export enum SyncStatus {
+  SYNCED = 'synced',
+  PENDING = 'pending',
+  CONFLICT = 'conflict'
+}
+
+export enum MutationType {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete'
+}
+
+// A transaction change recorded while the backend was unreachable
+export interface PendingMutation {
+  seq?: number;
+  type: MutationType;
+  transactionId: string;
+  payload?: Partial<Transaction>;
+  baseUpdatedAt?: Date; // Server updatedAt the local edit was based on
+  recordedAt: Date;
+}
+
+// Server row changed after the local edit was made
+export interface SyncConflict {
+  id: string;
+  transactionId: string;
+  localChanges: Partial<Transaction>;
+  serverTransaction: Transaction;
+  detectedAt: Date;
+}
+
 export interface CSVTransactionImport {
   date: string;
   description: string;
@@ -114,8 +244,46 @@ export interface CSVTransactionImport {
   category?: string;
 }
 
+export enum RuleMatchType {
+  EQUALS = 'equals',
+  CONTAINS = 'contains',
+  REGEX = 'regex'
+}
+
+export enum RuleMatchField {
+  MERCHANT = 'merchant',
+  DESCRIPTION = 'description',
+  ANY = 'any' // Merchant or description
+}
+
+// User-defined categorization rule; rules are evaluated by ascending priority and the first match wins
 export interface TransactionClassificationRule {
+  id: string;
+  name: string;
   pattern: string;
+  matchType: RuleMatchType;
+  matchField: RuleMatchField;
+  minAmount?: number; // Absolute amount, inclusive
+  maxAmount?: number;
+  accountId?: string;
+  type?: TransactionType; // Only match transactions of this type
   category: TransactionCategory;
+  priority: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The transaction attributes a rule can match on
+export interface ClassificationInput {
+  description: string;
+  merchant?: string;
+  amount: number;
+  accountId?: string;
   type: TransactionType;
 }
+
+export interface RulePreview {
+  matched: Transaction[];
+  toRecategorize: Transaction[]; // Matched and currently in a different category
+}
@@ -20,6 +20,8 @@ export interface Account {
   description?: string;
   interestRate?: number;
   creditLimit?: number;
+  statementClosingDay?: number; // Credit cards: 1-31, clamped to the month's last day
+  paymentDueDay?: number; // Credit cards: 1-31
   minimumBalance?: number;
   createdAt: string;
   updatedAt: string;
@@ -36,6 +38,8 @@ export interface CreateAccountRequest {
   description?: string;
   interestRate?: number;
   creditLimit?: number;
+  statementClosingDay?: number;
+  paymentDueDay?: number;
   minimumBalance?: number;
 }
 
@@ -47,6 +51,8 @@ export interface UpdateAccountRequest {
   description?: string;
   interestRate?: number;
   creditLimit?: number;
+  statementClosingDay?: number;
+  paymentDueDay?: number;
   minimumBalance?: number;
   isActive?: boolean;
   isPrimary?: boolean;
@@ -82,6 +88,16 @@ export interface Transaction {
   createdAt: string;
   updatedAt: string;
   account?: Account;
+  splits?: TransactionSplit[];
+}
+
+// One category line of a split transaction; line amounts are positive and sum to the parent amount
+export interface TransactionSplit {
+  id: string;
+  category: string;
+  subcategory?: string;
+  amount: number;
+  note?: string;
 }
 
 export interface CreateTransactionRequest {
@@ -97,6 +113,7 @@ export interface CreateTransactionRequest {
   tags?: string[];
   notes?: string;
   receiptFile?: File;
+  splits?: TransactionSplit[];
 }
 
 export interface UpdateTransactionRequest {
@@ -110,6 +127,7 @@ export interface UpdateTransactionRequest {
   tags?: string[];
   notes?: string;
   isReviewed?: boolean;
+  splits?: TransactionSplit[];
 }
 
 export interface BulkTransactionRequest {
@@ -225,6 +243,7 @@ export interface BudgetAlert {
   currentAmount: number;
   isRead: boolean;
   createdAt: string;
+  periodKey?: string; // Start date (yyyy-MM-dd) of the budget period the alert was raised in
 }
 
 // Goal Types
@@ -245,6 +264,7 @@ export interface Goal {
     enabled: boolean;
     amount: number;
     frequency: 'weekly' | 'monthly' | 'quarterly';
+    lastContributionDate?: string; // yyyy-MM-dd of the last scheduled contribution added to currentAmount
   };
   milestones: GoalMilestone[];
   createdAt: string;
@@ -272,6 +292,7 @@ export interface CreateGoalRequest {
     enabled: boolean;
     amount: number;
     frequency: 'weekly' | 'monthly' | 'quarterly';
+    lastContributionDate?: string;
   };
 }
 
@@ -279,6 +300,7 @@ export interface UpdateGoalRequest {
   name?: string;
   description?: string;
   targetAmount?: number;
+  currentAmount?: number;
   targetDate?: string;
   priority?: 'low' | 'medium' | 'high';
   category?: string;
@@ -287,6 +309,7 @@ export interface UpdateGoalRequest {
     enabled: boolean;
     amount: number;
     frequency: 'weekly' | 'monthly' | 'quarterly';
+    lastContributionDate?: string;
   };
 }
 
@@ -332,10 +355,21 @@ export interface Bill {
   name: string;
   amount: number;
   dueDate: string;
-  frequency: 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+  frequency: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
   category: string;
   isPaid: boolean;
   accountId: string;
+  merchant?: string; // Payee matched against transactions; falls back to the bill name
+  recurringSeriesId?: string; // Detected recurring series the bill was created from
+  payments?: BillPayment[];
+  createdAt?: string;
+}
+
+export interface BillPayment {
+  dueDate: string; // Due date of the cycle this payment settled
+  amount: number;
+  paidAt: string;
+  transactionId?: string; // Unset when marked paid by hand
 }
 
 export interface SpendingAnalysis {
@@ -496,6 +530,9 @@ export interface NotificationSettings {
     digestFrequency: 'daily' | 'weekly' | 'monthly';
     reminderDays: number;
   };
+  thresholds: {
+    creditUtilization: number; // Percentage of a card's limit that triggers a warning
+  };
 }
 
 // API Response Types
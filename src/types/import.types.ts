@@ -0,0 +1,110 @@
+/**
+ * Statement Import Types
+ * Types for parsing bank statements, mapping columns and previewing rows before import
+ */
+
+import { CreateTransactionRequest } from '../services/transaction.api';
+
+export type StatementFormat = 'csv' | 'ofx' | 'camt053';
+
+// What a statement column represents
+export type ImportField =
+  | 'date'
+  | 'description'
+  | 'amount'
+  | 'debit'
+  | 'credit'
+  | 'category'
+  | 'merchant'
+  | 'reference'
+  | 'ignore';
+
+export const STATEMENT_DATE_FORMATS = [
+  'dd/MM/yyyy',
+  'dd/MM/yy',
+  'dd-MM-yyyy',
+  'dd-MM-yy',
+  'dd.MM.yyyy',
+  'dd MMM yyyy',
+  'dd-MMM-yyyy',
+  'dd-MMM-yy',
+  'yyyy-MM-dd',
+  'MM/dd/yyyy',
+] as const;
+
+export type StatementDateFormat = typeof STATEMENT_DATE_FORMATS[number];
+
+export interface ParsedStatement {
+  fileName: string;
+  format: 'csv';
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+}
+
+// A single transaction read from a structured (OFX/QFX or CAMT.053) statement
+export interface StatementEntry {
+  externalId: string; // FITID for OFX, AcctSvcrRef/NtryRef for CAMT.053
+  postedDate: Date;
+  amount: number; // Signed: negative for debits
+  payee?: string;
+  memo?: string;
+  reference?: string; // Cheque number or end-to-end id
+  currency?: string;
+}
+
+export interface StructuredStatement {
+  fileName: string;
+  format: Exclude<StatementFormat, 'csv'>;
+  accountId?: string; // Account number as reported in the file
+  currency?: string;
+  entries: StatementEntry[];
+}
+
+export type StatementFile = ParsedStatement | StructuredStatement;
+
+// Column index -> field
+export type ColumnMapping = Record<number, ImportField>;
+
+export interface ImportOptions {
+  accountId: string;
+  currencyCode?: string; // The account's currency, which every row in its statement is in
+  dateFormat: StatementDateFormat;
+  invertSign: boolean; // Credit card exports often list purchases as positive amounts
+}
+
+// Saved per-bank mapping so the same export layout is recognised next time
+export interface ImportMappingProfile {
+  id: string;
+  name: string;
+  headerSignature: string;
+  mapping: ColumnMapping;
+  dateFormat: StatementDateFormat;
+  invertSign: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  raw: string[];
+  transaction?: CreateTransactionRequest;
+  externalId?: string;
+  errors: string[];
+  duplicateOf?: string; // Description of the existing transaction it matches
+  isSelected: boolean;
+}
+
+export interface ImportPreview {
+  rows: ImportRow[];
+  validCount: number;
+  errorCount: number;
+  duplicateCount: number;
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  errors: string[];
+  transactionIds: string[]; // Ids the server gave the imported rows
+}
@@ -11,11 +11,50 @@ export interface InvestmentSuggestion {
   riskLevel: RiskLevel;
   timeHorizon: TimeHorizon;
   reasoning: string;
+  targetAllocation?: number; // Percentage of the portfolio this asset class should make up
+  rank?: number; // 1 is the most important; rule-based suggestions are returned in rank order
   status: SuggestionStatus;
+  surplusBasis?: number; // The projected surplus the suggestion was generated for
+  expiresAt?: Date;
+  acceptedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// An accepted suggestion waiting for the money to leave the user's account
+export type PendingInvestmentStatus = 'awaiting_debit' | 'confirmed' | 'cancelled';
+
+export interface PendingInvestment {
+  id: string;
+  suggestionId: string;
+  type: InvestmentType;
+  name: string;
+  amount: number;
+  status: PendingInvestmentStatus;
+  acceptedAt: string; // ISO timestamp
+  matchedTransactionId?: string; // The debit the user confirmed
+  investmentId?: string; // The portfolio investment created on confirmation
+}
+
+// A monthly SIP into a holding; installments are worked out from the schedule rather than stored
+export interface SipSchedule {
+  id: string;
+  investmentId: string;
+  amount: number; // Monthly installment in the first year
+  dayOfMonth: number; // 1-31; months without that day fall due on their last day
+  stepUpPercentage: number; // Added to the installment on each anniversary of the first one
+  startDate: string; // yyyy-MM-dd; the first installment is the first due day on or after this
+  endDate?: string; // yyyy-MM-dd; open-ended when missing
+  isActive: boolean;
+  pauses?: SipPause[]; // Oldest first; installments due while paused are not expected
+  createdAt: string;
+}
+
+export interface SipPause {
+  from: string; // yyyy-MM-dd the SIP was paused
+  to?: string; // yyyy-MM-dd it was resumed; missing while still paused
+}
+
 export interface InvestmentPortfolio {
   id: string;
   userId: string;
@@ -35,6 +74,7 @@ export interface Investment {
   symbol?: string;
   investedAmount: number;
   currentValue: number;
+  currency?: string; // Currency the holding is valued in; the user's base currency when absent
   returns: number;
   returnPercentage: number;
   quantity: number;
@@ -42,6 +82,106 @@ export interface Investment {
   lastUpdated: Date;
 }
 
+// Holdings ledger
+export enum HoldingTransactionType {
+  BUY = 'buy',
+  SELL = 'sell',
+  DIVIDEND = 'dividend',
+  SPLIT = 'split',
+  FEE = 'fee'
+}
+
+export interface HoldingTransaction {
+  id: string;
+  investmentId: string;
+  type: HoldingTransactionType;
+  date: string; // yyyy-MM-dd
+  quantity: number; // Units bought or sold; 0 for other types
+  price: number; // Per unit for buys and sells; 0 for other types
+  amount: number; // Cash received (dividend) or paid (fee); 0 for buys, sells and splits
+  fees: number; // Brokerage and taxes on a buy or sell
+  splitRatio?: number; // Units held after the split per unit held before, e.g. 2 for a 2:1 split
+  notes?: string;
+  createdAt: string;
+}
+
+export interface HoldingLot {
+  buyTransactionId: string;
+  date: string;
+  quantity: number; // Units still held from this buy
+  costPerUnit: number; // Including the buy's fees, adjusted for later splits
+}
+
+export interface RealizedGain {
+  sellTransactionId: string;
+  date: string;
+  quantity: number;
+  proceeds: number; // After the sell's fees
+  costBasis: number;
+  gain: number;
+}
+
+export interface HoldingPosition {
+  investmentId: string;
+  quantity: number;
+  averageCost: number;
+  costBasis: number; // Of the units still held
+  marketValue: number;
+  unrealizedGain: number;
+  realizedGain: number;
+  dividends: number;
+  fees: number; // Standalone fees; buy and sell fees are part of cost and proceeds
+  totalReturn: number; // Unrealized + realized + dividends - fees
+  xirr: number | null; // Annualised percentage; null when it can't be solved
+  lots: HoldingLot[];
+  realizedGains: RealizedGain[];
+  hasLedger: boolean; // False when the position is derived from the investment's own totals
+}
+
+export interface PortfolioPerformance {
+  positions: HoldingPosition[];
+  costBasis: number;
+  marketValue: number;
+  unrealizedGain: number;
+  realizedGain: number;
+  dividends: number;
+  fees: number;
+  totalReturn: number;
+  xirr: number | null;
+}
+
+// Valuation
+export type PriceSource = 'import' | 'manual';
+
+export interface PricePoint {
+  symbol: string; // Upper-case ticker, scheme code or ISIN
+  date: string; // yyyy-MM-dd
+  price: number; // Per unit
+  source: PriceSource;
+}
+
+// Risk profile questionnaire
+export type RiskQuestionId = 'horizon' | 'lossTolerance' | 'incomeStability' | 'dependents';
+
+export type RiskQuestionnaireAnswers = Record<RiskQuestionId, string>; // Chosen option value per question
+
+// The profile fields the assessment was based on; a big change to them calls for a retake
+export interface RiskProfileSnapshot {
+  annualIncome?: number;
+  occupation?: string;
+  dateOfBirth?: string;
+}
+
+export interface RiskAssessment {
+  id: string;
+  answers: RiskQuestionnaireAnswers;
+  score: number;
+  maxScore: number;
+  riskProfile: RiskProfile;
+  profileSnapshot: RiskProfileSnapshot;
+  completedAt: string; // ISO timestamp
+}
+
 export enum InvestmentType {
   MUTUAL_FUND = 'mutual_fund',
   ETF = 'etf',
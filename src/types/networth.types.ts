@@ -0,0 +1,50 @@
+/**
+ * Net Worth Types
+ * Point-in-time snapshots of everything the user owns and owes, broken down by asset class
+ */
+
+export enum NetWorthClass {
+  CASH = 'cash', // Checking and savings accounts
+  INVESTMENTS = 'investments',
+  PROPERTY = 'property',
+  VEHICLES = 'vehicles',
+  OTHER_ASSETS = 'other_assets',
+  CREDIT_CARDS = 'credit_cards',
+  LOANS = 'loans'
+}
+
+export type ManualAssetClass = NetWorthClass.PROPERTY | NetWorthClass.VEHICLES | NetWorthClass.OTHER_ASSETS;
+
+// Something the user owns that no account or portfolio reports, valued by hand
+export interface ManualAsset {
+  id: string;
+  name: string;
+  assetClass: ManualAssetClass;
+  value: number; // In the user's base currency
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NetWorthSnapshot {
+  date: string; // yyyy-MM-dd; one snapshot per day, the latest of the day wins
+  totalAssets: number;
+  totalLiabilities: number; // Positive amount owed
+  netWorth: number;
+  breakdown: Record<NetWorthClass, number>; // Liability classes hold positive amounts owed
+}
+
+export interface NetWorthClassChange {
+  assetClass: NetWorthClass;
+  previous: number;
+  current: number;
+  change: number;
+}
+
+export interface MonthlyNetWorthChange {
+  month: string; // yyyy-MM
+  netWorth: number;
+  change: number; // Against the previous month's closing snapshot
+  changePercentage: number;
+  classChanges: NetWorthClassChange[];
+}
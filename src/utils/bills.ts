@@ -0,0 +1,108 @@
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import { Bill } from '@/types/financial.types';
+import { RecurringFrequency, Transaction, TransactionType } from '@/types/expense.types';
+import { BILL_PAYMENT_WINDOW_DAYS, RECURRING_AMOUNT_TOLERANCE } from './constants';
+import { getMerchantKey, getMonthlyMultiplier, getNextOccurrence } from './recurringDetection';
+
+export type BillFrequency = Bill['frequency'];
+
+export type BillStatus = 'paid' | 'overdue' | 'due_soon' | 'upcoming';
+
+export interface BillOccurrence {
+  bill: Bill;
+  dueDate: string; // yyyy-MM-dd
+  isPaid: boolean;
+}
+
+export const BILL_FREQUENCY_OPTIONS: { value: BillFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every two weeks' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+// A bill cycle never walks further than this many periods in one pass
+const MAX_BILL_CYCLES = 60;
+
+const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Bill frequencies share their values with the recurring detector's
+export const getNextDueDate = (dueDate: string, frequency: BillFrequency): string =>
+  toDateKey(getNextOccurrence(parseISO(dueDate), frequency as RecurringFrequency));
+
+export const getBillStatus = (bill: Bill, reminderDays: number, asOf: Date = new Date()): BillStatus => {
+  if (bill.isPaid) return 'paid';
+  const daysLeft = differenceInCalendarDays(parseISO(bill.dueDate), startOfDay(asOf));
+  if (daysLeft < 0) return 'overdue';
+  return daysLeft <= reminderDays ? 'due_soon' : 'upcoming';
+};
+
+export const getBillMerchantKey = (bill: Bill): string =>
+  getMerchantKey({ merchant: bill.merchant || bill.name, description: bill.name });
+
+// Payments can land a little before the due date, but never inside the next cycle's window
+const getPaymentWindow = (bill: Bill): { start: string; end: string } => {
+  const due = parseISO(bill.dueDate);
+  const next = parseISO(getNextDueDate(bill.dueDate, bill.frequency));
+  const lead = Math.min(BILL_PAYMENT_WINDOW_DAYS, Math.floor(differenceInCalendarDays(next, due) / 2));
+  return { start: toDateKey(addDays(due, -lead)), end: toDateKey(addDays(next, -lead - 1)) };
+};
+
+// The expense that most likely paid the bill's current cycle, closest to the due date first
+export const findBillPayment = (bill: Bill, transactions: Transaction[], usedTransactionIds: Set<string>): Transaction | null => {
+  const merchantKey = getBillMerchantKey(bill);
+  if (!merchantKey) return null;
+  const window = getPaymentWindow(bill);
+  const due = parseISO(bill.dueDate);
+
+  const candidates = transactions.filter(transaction => {
+    if (transaction.type !== TransactionType.EXPENSE || usedTransactionIds.has(transaction.id)) return false;
+    if (bill.accountId && transaction.accountId && transaction.accountId !== bill.accountId) return false;
+    const day = toDateKey(new Date(transaction.date));
+    if (day < window.start || day > window.end) return false;
+    if (Math.abs(Math.abs(transaction.amount) - bill.amount) > bill.amount * RECURRING_AMOUNT_TOLERANCE) return false;
+    const key = getMerchantKey(transaction);
+    return !!key && (key.startsWith(merchantKey) || merchantKey.startsWith(key));
+  });
+
+  const distance = (transaction: Transaction) => Math.abs(differenceInCalendarDays(new Date(transaction.date), due));
+  return candidates.sort((a, b) => distance(a) - distance(b))[0] || null;
+};
+
+// Once a paid cycle's due date has passed the bill moves on to its next, unpaid cycle
+export const rollBillForward = (bill: Bill, asOf: Date = new Date()): Bill => {
+  const today = toDateKey(asOf);
+  let current = bill;
+  for (let cycle = 0; current.isPaid && current.dueDate < today && cycle < MAX_BILL_CYCLES; cycle++) {
+    current = { ...current, dueDate: getNextDueDate(current.dueDate, current.frequency), isPaid: false };
+  }
+  return current;
+};
+
+// Due dates of every bill between start and end (inclusive), for calendar views
+export const getBillOccurrences = (bills: Bill[], start: Date, end: Date): BillOccurrence[] => {
+  const from = toDateKey(start);
+  const to = toDateKey(end);
+  const occurrences: BillOccurrence[] = [];
+
+  bills.forEach(bill => {
+    // Settled cycles inside the range come from the payment history
+    (bill.payments || [])
+      .filter(payment => payment.dueDate >= from && payment.dueDate <= to && payment.dueDate !== bill.dueDate)
+      .forEach(payment => occurrences.push({ bill, dueDate: payment.dueDate, isPaid: true }));
+
+    let dueDate = bill.dueDate;
+    for (let cycle = 0; dueDate <= to && cycle < MAX_BILL_CYCLES; cycle++) {
+      if (dueDate >= from) {
+        occurrences.push({ bill, dueDate, isPaid: cycle === 0 && bill.isPaid });
+      }
+      dueDate = getNextDueDate(dueDate, bill.frequency);
+    }
+  });
+
+  return occurrences.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+};
+
+export const getMonthlyBillTotal = (bills: Bill[]): number =>
+  bills.reduce((sum, bill) => sum + bill.amount * getMonthlyMultiplier(bill.frequency as RecurringFrequency), 0);
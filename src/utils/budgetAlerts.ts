@@ -0,0 +1,96 @@
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { Budget } from '@/types/expense.types';
+import { BudgetAlert } from '@/types/financial.types';
+import { parseBudgetDate } from './budgetPeriods';
+
+// Utilization levels (percent) worth a heads-up on the way to the budget's own alert threshold
+export const BUDGET_ALERT_MILESTONES = [50, 75];
+
+const EXCEEDED_LEVEL = 100;
+
+export interface BudgetAlertLevel {
+  type: BudgetAlert['type'];
+  threshold: number;
+}
+
+export interface BudgetOverrunForecast {
+  budgetId: string;
+  exceedDate: string; // yyyy-MM-dd, the day spending is expected to pass the budget
+  projectedSpent: number; // Spending by the end of the period at the current burn rate
+  projectedOverrun: number;
+  dailyBurnRate: number;
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const getBudgetAvailable = (budget: Budget): number =>
+  (budget.budgetAmount || budget.amount || 0) + (budget.carriedIn || 0);
+
+export const getBudgetUtilization = (budget: Budget): number => {
+  const available = getBudgetAvailable(budget);
+  return available > 0 ? (Math.abs(budget.spent) / available) * 100 : 0;
+};
+
+// Every level a budget can cross, lowest first
+export const getBudgetAlertLevels = (budget: Budget): BudgetAlertLevel[] => {
+  const threshold = budget.alertThreshold > 0 && budget.alertThreshold < EXCEEDED_LEVEL ? budget.alertThreshold : null;
+  const milestones = BUDGET_ALERT_MILESTONES.filter(level => threshold === null || level < threshold);
+
+  return [
+    ...milestones.map(level => ({ type: 'milestone' as const, threshold: level })),
+    ...(threshold !== null ? [{ type: 'threshold' as const, threshold }] : []),
+    { type: 'exceeded', threshold: EXCEEDED_LEVEL },
+  ];
+};
+
+export const getCrossedLevels = (budget: Budget): number[] => {
+  const utilization = getBudgetUtilization(budget);
+  return getBudgetAlertLevels(budget)
+    .filter(level => utilization >= level.threshold)
+    .map(level => level.threshold);
+};
+
+export const describeBudgetAlert = (budget: Budget, level: BudgetAlertLevel, currency: (amount: number) => string): string => {
+  const name = budget.name || budget.category;
+  const spent = currency(Math.abs(budget.spent));
+  const available = currency(getBudgetAvailable(budget));
+
+  switch (level.type) {
+    case 'exceeded':
+      return `${name} is over budget: ${spent} spent of ${available}`;
+    case 'threshold':
+      return `${name} has reached its ${level.threshold}% alert threshold: ${spent} of ${available} spent`;
+    default:
+      return `${name} is ${level.threshold}% used: ${spent} of ${available} spent`;
+  }
+};
+
+// Projects spending to the end of the current period from the average daily spend so far.
+// Returns null when the budget is already exceeded or is on course to stay within it.
+export const forecastBudgetOverrun = (budget: Budget, asOf: Date = new Date()): BudgetOverrunForecast | null => {
+  const start = parseBudgetDate(budget.startDate);
+  const end = parseBudgetDate(budget.endDate);
+  const spent = Math.abs(budget.spent);
+  const available = getBudgetAvailable(budget);
+  if (!start || !end || spent <= 0 || spent >= available) return null;
+
+  const today = startOfDay(asOf);
+  if (today < start || today > end) return null;
+
+  const daysElapsed = differenceInCalendarDays(today, start) + 1;
+  const periodDays = differenceInCalendarDays(end, start) + 1;
+  const dailyBurnRate = spent / daysElapsed;
+  const projectedSpent = dailyBurnRate * periodDays;
+  if (projectedSpent <= available) return null;
+
+  // The day cumulative spending first goes past what's available
+  const daysUntilExceeded = Math.floor((available - spent) / dailyBurnRate) + 1;
+
+  return {
+    budgetId: budget.id,
+    exceedDate: format(addDays(today, daysUntilExceeded), 'yyyy-MM-dd'),
+    projectedSpent: roundMoney(projectedSpent),
+    projectedOverrun: roundMoney(projectedSpent - available),
+    dailyBurnRate: roundMoney(dailyBurnRate),
+  };
+};
@@ -0,0 +1,194 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  format,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  subDays,
+} from 'date-fns';
+import {
+  Budget,
+  BudgetCarryOver,
+  BudgetPeriodSnapshot,
+  BudgetPeriodType,
+  Transaction,
+} from '@/types/expense.types';
+import { getExpenseCategoryLines } from './transactionSplits';
+
+// Oldest period still materialized for a budget; older history only survives as stored snapshots
+export const MAX_BUDGET_PERIODS = 120;
+
+export interface BudgetPeriodWindow {
+  index: number;
+  startDate: string; // yyyy-MM-dd, inclusive
+  endDate: string; // yyyy-MM-dd, inclusive
+}
+
+const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+export const toPeriodType = (period: string): BudgetPeriodType =>
+  (Object.values(BudgetPeriodType) as string[]).includes(period)
+    ? (period as BudgetPeriodType)
+    : BudgetPeriodType.MONTHLY;
+
+// Budget dates come back as yyyy-MM-dd or full ISO timestamps; only the calendar day matters
+export const parseBudgetDate = (value: string): Date | null => {
+  const parsed = parseISO(value.slice(0, 10));
+  return isValid(parsed) ? parsed : null;
+};
+
+const addPeriods = (type: BudgetPeriodType, date: Date, count: number): Date => {
+  switch (type) {
+    case BudgetPeriodType.DAILY:
+      return addDays(date, count);
+    case BudgetPeriodType.WEEKLY:
+      return addWeeks(date, count);
+    case BudgetPeriodType.QUARTERLY:
+      return addMonths(date, count * 3);
+    case BudgetPeriodType.YEARLY:
+      return addYears(date, count);
+    default:
+      return addMonths(date, count);
+  }
+};
+
+export const getPeriodWindow = (type: BudgetPeriodType, anchor: Date, index: number): BudgetPeriodWindow => ({
+  index,
+  startDate: toDateKey(addPeriods(type, anchor, index)),
+  endDate: toDateKey(subDays(addPeriods(type, anchor, index + 1), 1)),
+});
+
+// Calendar-aligned first period for a new budget (weeks start on Monday)
+export const getInitialPeriodWindow = (type: BudgetPeriodType, date: Date = new Date()): BudgetPeriodWindow => {
+  const start =
+    type === BudgetPeriodType.DAILY
+      ? startOfDay(date)
+      : type === BudgetPeriodType.WEEKLY
+      ? startOfWeek(date, { weekStartsOn: 1 })
+      : type === BudgetPeriodType.QUARTERLY
+      ? startOfQuarter(date)
+      : type === BudgetPeriodType.YEARLY
+      ? startOfYear(date)
+      : startOfMonth(date);
+  return getPeriodWindow(type, start, 0);
+};
+
+// Index of the period containing the date, counted from the budget's first period
+export const getPeriodIndex = (type: BudgetPeriodType, anchor: Date, date: Date): number => {
+  const day = toDateKey(startOfDay(date));
+  const estimate =
+    type === BudgetPeriodType.DAILY
+      ? differenceInCalendarDays(date, anchor)
+      : type === BudgetPeriodType.WEEKLY
+      ? Math.floor(differenceInCalendarDays(date, anchor) / 7)
+      : Math.floor(
+          differenceInCalendarMonths(date, anchor) /
+            (type === BudgetPeriodType.QUARTERLY ? 3 : type === BudgetPeriodType.YEARLY ? 12 : 1)
+        );
+
+  // Month arithmetic can land one period off around month ends
+  let index = estimate;
+  while (getPeriodWindow(type, anchor, index).startDate > day) index--;
+  while (getPeriodWindow(type, anchor, index).endDate < day) index++;
+  return index;
+};
+
+export const CARRY_OVER_OPTIONS: { value: BudgetCarryOver; label: string }[] = [
+  { value: BudgetCarryOver.NONE, label: 'Start fresh each period' },
+  { value: BudgetCarryOver.SURPLUS, label: 'Carry over unspent money' },
+  { value: BudgetCarryOver.DEFICIT, label: 'Carry over overspending' },
+  { value: BudgetCarryOver.BOTH, label: 'Carry over both' },
+];
+
+export const getCarriedAmount = (mode: BudgetCarryOver | undefined, remaining: number): number => {
+  switch (mode) {
+    case BudgetCarryOver.SURPLUS:
+      return Math.max(remaining, 0);
+    case BudgetCarryOver.DEFICIT:
+      return Math.min(remaining, 0);
+    case BudgetCarryOver.BOTH:
+      return remaining;
+    default:
+      return 0;
+  }
+};
+
+export const getSpentInWindow = (budget: Budget, transactions: Transaction[], window: BudgetPeriodWindow): number =>
+  getExpenseCategoryLines(transactions)
+    .filter(line => {
+      const day = toDateKey(line.date);
+      return line.category === budget.category && day >= window.startDate && day <= window.endDate;
+    })
+    .reduce((sum, line) => sum + Math.abs(line.amount), 0);
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Every period from the budget's start up to the one containing asOf, oldest first.
+// Stored closed snapshots are reused as-is; open periods are recalculated from transactions.
+export const materializeBudgetPeriods = (
+  budget: Budget,
+  transactions: Transaction[],
+  asOf: Date,
+  storedSnapshots: BudgetPeriodSnapshot[] = [],
+  serverSpent?: number // Spending the backend reports for the budget's own start/end window
+): BudgetPeriodSnapshot[] => {
+  const anchor = parseBudgetDate(budget.startDate);
+  if (!anchor) return [];
+
+  const type = toPeriodType(budget.period);
+  const end = parseBudgetDate(budget.endDate);
+  let lastIndex = Math.max(getPeriodIndex(type, anchor, asOf), 0);
+  if (!budget.isActive && end) {
+    lastIndex = Math.min(lastIndex, Math.max(getPeriodIndex(type, anchor, end), 0));
+  }
+  const firstIndex = Math.max(0, lastIndex - MAX_BUDGET_PERIODS + 1);
+
+  const stored = new Map(storedSnapshots.map(snapshot => [snapshot.periodKey, snapshot]));
+  const today = toDateKey(asOf);
+  const serverStart = budget.startDate.slice(0, 10);
+  const serverEnd = budget.endDate.slice(0, 10);
+  const snapshots: BudgetPeriodSnapshot[] = [];
+  let carriedIn = 0;
+
+  for (let index = firstIndex; index <= lastIndex; index++) {
+    const window = getPeriodWindow(type, anchor, index);
+    const existing = stored.get(window.startDate);
+
+    if (existing?.isClosed) {
+      snapshots.push(existing);
+      carriedIn = getCarriedAmount(budget.carryOver, existing.remaining);
+      continue;
+    }
+
+    const isServerWindow = window.startDate === serverStart && window.endDate === serverEnd;
+    const spent = roundMoney(
+      isServerWindow && serverSpent !== undefined ? serverSpent : getSpentInWindow(budget, transactions, window)
+    );
+    const budgetAmount = budget.budgetAmount || budget.amount || 0;
+    const remaining = roundMoney(budgetAmount + carriedIn - spent);
+
+    snapshots.push({
+      budgetId: budget.id,
+      periodKey: window.startDate,
+      startDate: window.startDate,
+      endDate: window.endDate,
+      budgetAmount,
+      carriedIn: roundMoney(carriedIn),
+      spent,
+      remaining,
+      isClosed: window.endDate < today,
+    });
+    carriedIn = getCarriedAmount(budget.carryOver, remaining);
+  }
+
+  return snapshots;
+};
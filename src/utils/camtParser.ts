@@ -0,0 +1,107 @@
+// ISO 20022 CAMT.053 (bank-to-customer statement) parsing
+import { StatementEntry } from '@/types/import.types';
+
+// Elements are namespaced by message version (camt.053.001.02, .08, ...) so match on local name only
+const children = (parent: Element | Document, name: string): Element[] => {
+  return Array.from(parent.getElementsByTagNameNS('*', name));
+};
+
+const first = (parent: Element | undefined, ...path: string[]): Element | undefined => {
+  let current: Element | undefined = parent;
+  for (const name of path) {
+    if (!current) return undefined;
+    current = children(current, name)[0];
+  }
+  return current;
+};
+
+const text = (parent: Element | undefined, ...path: string[]): string | undefined => {
+  const value = first(parent, ...path)?.textContent?.trim();
+  return value || undefined;
+};
+
+const parseISODate = (value: string | undefined): Date | null => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const isCAMT053 = (content: string): boolean => {
+  const head = content.slice(0, 2000);
+  return /camt\.053/i.test(head) || /<BkToCstmrStmt>/i.test(head);
+};
+
+export interface CAMTStatement {
+  accountId?: string;
+  currency?: string;
+  entries: StatementEntry[];
+  errors: string[];
+}
+
+export const parseCAMT053 = (content: string): CAMTStatement => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML');
+  }
+
+  const entries: StatementEntry[] = [];
+  const errors: string[] = [];
+  const statement = children(doc, 'Stmt')[0];
+  if (!statement) {
+    throw new Error('No statement (Stmt) found in the CAMT.053 file');
+  }
+
+  const account = first(statement, 'Acct');
+  const accountId = text(account, 'IBAN') || text(account, 'Othr', 'Id');
+  const currency = text(account, 'Ccy');
+
+  // A file may carry several statements (one per account/day); entries from all of them are read
+  children(doc, 'Ntry').forEach((entry, index) => {
+    // Sts is a plain code in older versions and <Sts><Cd>BOOK</Cd></Sts> from .08 onwards
+    const status = text(entry, 'Sts');
+    if (status && status !== 'BOOK') return;
+
+    const amountElement = first(entry, 'Amt');
+    const amount = parseFloat(amountElement?.textContent || '');
+    const isDebit = text(entry, 'CdtDbtInd') === 'DBIT';
+    const bookedOn = text(entry, 'BookgDt', 'Dt') || text(entry, 'BookgDt', 'DtTm') ||
+      text(entry, 'ValDt', 'Dt') || text(entry, 'ValDt', 'DtTm');
+    const postedDate = parseISODate(bookedOn);
+
+    if (isNaN(amount) || !postedDate) {
+      errors.push(`Entry ${index + 1}: missing or invalid amount or booking date`);
+      return;
+    }
+
+    const details = first(entry, 'NtryDtls', 'TxDtls');
+    const counterparty = isDebit
+      ? text(details, 'RltdPties', 'Cdtr', 'Nm')
+      : text(details, 'RltdPties', 'Dbtr', 'Nm');
+    const endToEndId = text(details, 'Refs', 'EndToEndId');
+    const remittance = children(details || entry, 'Ustrd')
+      .map(element => element.textContent?.trim())
+      .filter(Boolean)
+      .join(' ');
+
+    const externalId = text(entry, 'AcctSvcrRef') || text(entry, 'NtryRef') ||
+      text(details, 'Refs', 'AcctSvcrRef');
+    if (!externalId) {
+      errors.push(`Entry ${index + 1}: no bank reference (AcctSvcrRef or NtryRef)`);
+      return;
+    }
+
+    entries.push({
+      externalId,
+      postedDate,
+      amount: isDebit ? -Math.abs(amount) : Math.abs(amount),
+      payee: counterparty,
+      memo: remittance || text(entry, 'AddtlNtryInf'),
+      reference: endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined,
+      currency: amountElement?.getAttribute('Ccy') || currency
+    });
+  });
+
+  return { accountId, currency, entries, errors };
+};
@@ -0,0 +1,299 @@
+import { addDays, addMonths, addWeeks, addYears, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import { Bill, CashFlowProjection } from '@/types/financial.types';
+import { RecurringStatus, RecurringTransaction, TransactionType } from '@/types/expense.types';
+import { IncomeFrequency, IncomePlanSource, IncomeSourceType } from '@/types/income.types';
+import { PayCycle, SalaryPlan } from '@/types/salary.types';
+import { getBillOccurrences } from './bills';
+import { getNextPayDate } from './helpers';
+import { getNextOccurrence } from './recurringDetection';
+
+export const CASH_FLOW_HORIZONS = [30, 90, 180] as const;
+
+export type CashFlowHorizon = (typeof CASH_FLOW_HORIZONS)[number];
+
+export type CashFlowEventSource = 'salary' | 'income' | 'recurring' | 'bill';
+
+export interface ForecastAccount {
+  id: string;
+  name: string;
+  balance: number; // In the forecast currency
+  minimumBalance?: number;
+}
+
+export interface CashFlowEvent {
+  date: string; // yyyy-MM-dd
+  amount: number; // Positive for money in, negative for money out
+  label: string;
+  source: CashFlowEventSource;
+  accountId: string;
+  certainty: number; // 0-1, how sure we are the event happens for this amount
+}
+
+export interface CashFlowForecastDay extends CashFlowProjection {
+  lowerBalance: number;
+  upperBalance: number;
+  accountBalances: Record<string, number>;
+}
+
+export interface CashFlowShortfall {
+  accountId: string;
+  accountName: string;
+  date: string; // First day of the dip
+  lowestBalance: number;
+  lowestDate: string;
+  threshold: number;
+  type: 'below_minimum' | 'overdrawn';
+}
+
+export interface CashFlowForecastInput {
+  accounts: ForecastAccount[];
+  salaryPlans: SalaryPlan[];
+  incomeSources: IncomePlanSource[];
+  recurringTransactions: RecurringTransaction[];
+  bills: Bill[];
+}
+
+export interface CashFlowForecast {
+  startingBalance: number;
+  days: CashFlowForecastDay[];
+  events: CashFlowEvent[];
+  shortfalls: CashFlowShortfall[];
+}
+
+const SALARY_CERTAINTY = 0.95;
+const BILL_CERTAINTY = 0.95;
+const INCOME_SOURCE_CERTAINTY: Record<IncomeSourceType, number> = {
+  SALARY: 0.9,
+  RENTAL: 0.85,
+  INVESTMENT: 0.7,
+  BUSINESS: 0.6,
+  FREELANCE: 0.5,
+  OTHER: 0.5,
+};
+
+// Roughly a 90% band either side of the expected balance
+const BAND_Z_SCORE = 1.645;
+// Confidence falls from the events' own certainty to about half of it by day 180
+const CONFIDENCE_DECAY_PER_DAY = 0.0025;
+// Guards the schedule walk for long-running daily sources
+const MAX_SCHEDULE_STEPS = 10000;
+
+const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+const stepIncomeFrequency = (date: Date, frequency: IncomeFrequency): Date => {
+  switch (frequency) {
+    case 'DAILY':
+      return addDays(date, 1);
+    case 'WEEKLY':
+      return addWeeks(date, 1);
+    case 'QUARTERLY':
+      return addMonths(date, 3);
+    case 'YEARLY':
+      return addYears(date, 1);
+    default:
+      return addMonths(date, 1);
+  }
+};
+
+const stepPayCycle = (date: Date, payCycle: PayCycle): Date => {
+  switch (payCycle) {
+    case PayCycle.WEEKLY:
+      return addWeeks(date, 1);
+    case PayCycle.BIWEEKLY:
+      return addWeeks(date, 2);
+    case PayCycle.QUARTERLY:
+      return addMonths(date, 3);
+    default:
+      return addMonths(date, 1);
+  }
+};
+
+// Dates from first, stepping forward, that fall within [from, to]
+const scheduleDates = (first: Date, step: (date: Date) => Date, from: string, to: string, until?: string): string[] => {
+  const dates: string[] = [];
+  let date = first;
+  for (let i = 0; i < MAX_SCHEDULE_STEPS; i++) {
+    const key = toDateKey(date);
+    if (key > to || (until && key > until)) break;
+    if (key >= from) dates.push(key);
+    date = step(date);
+  }
+  return dates;
+};
+
+// Income, salary and recurring series aren't tied to an account, so they land in the largest spending account
+const getDefaultAccountId = (accounts: ForecastAccount[]): string =>
+  [...accounts].sort((a, b) => b.balance - a.balance)[0]?.id || '';
+
+export const getCashFlowEvents = (input: CashFlowForecastInput, horizonDays: number, asOf: Date = new Date()): CashFlowEvent[] => {
+  const today = startOfDay(asOf);
+  const from = toDateKey(today);
+  const to = toDateKey(addDays(today, horizonDays));
+  const defaultAccountId = getDefaultAccountId(input.accounts);
+  const accountIds = new Set(input.accounts.map(account => account.id));
+  const events: CashFlowEvent[] = [];
+
+  const activeSalaryPlans = input.salaryPlans.filter(plan => plan.isActive);
+  activeSalaryPlans.forEach(plan => {
+    scheduleDates(getNextPayDate(plan.payDay, addDays(today, -1)), date => stepPayCycle(date, plan.payCycle), from, to).forEach(date =>
+      events.push({
+        date,
+        amount: plan.expectedNetSalary,
+        label: `Salary from ${plan.employer}`,
+        source: 'salary',
+        accountId: defaultAccountId,
+        certainty: SALARY_CERTAINTY,
+      })
+    );
+  });
+
+  // A salary plan already covers pay, so salary-type income sources would count it twice
+  const incomeSources = input.incomeSources.filter(
+    source => source.isActive && !(activeSalaryPlans.length > 0 && source.type === 'SALARY')
+  );
+  incomeSources.forEach(source => {
+    const until = source.endDate ? source.endDate.slice(0, 10) : undefined;
+    scheduleDates(parseISO(source.startDate), date => stepIncomeFrequency(date, source.frequency), from, to, until).forEach(date =>
+      events.push({
+        date,
+        amount: source.expectedAmount,
+        label: source.name,
+        source: 'income',
+        accountId: defaultAccountId,
+        certainty: INCOME_SOURCE_CERTAINTY[source.type] ?? INCOME_SOURCE_CERTAINTY.OTHER,
+      })
+    );
+  });
+
+  // Planned income is what the user told us to expect; detected income series only fill in when there is none
+  const hasPlannedIncome = activeSalaryPlans.length > 0 || incomeSources.length > 0;
+  const billedSeries = new Set(input.bills.map(bill => bill.recurringSeriesId).filter(Boolean));
+  input.recurringTransactions
+    .filter(
+      series =>
+        series.isActive &&
+        series.status !== RecurringStatus.DISMISSED &&
+        series.status !== RecurringStatus.CANCELLED &&
+        !billedSeries.has(series.id) &&
+        !(hasPlannedIncome && series.type === TransactionType.INCOME)
+    )
+    .forEach(series => {
+      const sign = series.type === TransactionType.INCOME ? 1 : -1;
+      scheduleDates(new Date(series.nextDate), date => getNextOccurrence(date, series.frequency), from, to).forEach(date =>
+        events.push({
+          date,
+          amount: sign * Math.abs(series.amount),
+          label: series.merchant || series.description,
+          source: 'recurring',
+          accountId: defaultAccountId,
+          certainty: series.confidence,
+        })
+      );
+    });
+
+  const billEvent = (bill: Bill, date: string): CashFlowEvent => ({
+    date,
+    amount: -bill.amount,
+    label: bill.name,
+    source: 'bill',
+    accountId: accountIds.has(bill.accountId) ? bill.accountId : defaultAccountId,
+    certainty: BILL_CERTAINTY,
+  });
+  // An overdue bill still has to be paid, so it counts today
+  input.bills
+    .filter(bill => !bill.isPaid && bill.dueDate < from)
+    .forEach(bill => events.push(billEvent(bill, from)));
+  getBillOccurrences(input.bills, today, parseISO(to))
+    .filter(occurrence => !occurrence.isPaid)
+    .forEach(occurrence => events.push(billEvent(occurrence.bill, occurrence.dueDate)));
+
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Consecutive days an account spends under a threshold, reported from the day it drops below
+const findShortfalls = (
+  account: ForecastAccount,
+  days: CashFlowForecastDay[],
+  threshold: number,
+  type: CashFlowShortfall['type']
+): CashFlowShortfall[] => {
+  const shortfalls: CashFlowShortfall[] = [];
+  let current: CashFlowShortfall | null = null;
+
+  days.forEach(day => {
+    const balance = day.accountBalances[account.id];
+    if (balance < threshold) {
+      if (!current) {
+        current = { accountId: account.id, accountName: account.name, date: day.date, lowestBalance: balance, lowestDate: day.date, threshold, type };
+        shortfalls.push(current);
+      } else if (balance < current.lowestBalance) {
+        current.lowestBalance = balance;
+        current.lowestDate = day.date;
+      }
+    } else {
+      current = null;
+    }
+  });
+
+  return shortfalls;
+};
+
+export const forecastCashFlow = (input: CashFlowForecastInput, horizonDays: number, asOf: Date = new Date()): CashFlowForecast => {
+  const today = startOfDay(asOf);
+  const events = getCashFlowEvents(input, horizonDays, asOf);
+  const balances: Record<string, number> = Object.fromEntries(input.accounts.map(account => [account.id, account.balance]));
+  const startingBalance = input.accounts.reduce((sum, account) => sum + account.balance, 0);
+
+  const days: CashFlowForecastDay[] = [];
+  let balance = startingBalance;
+  let variance = 0;
+  let weightedCertainty = 0;
+  let totalWeight = 0;
+  let eventIndex = 0;
+
+  for (let offset = 0; offset <= horizonDays; offset++) {
+    const date = toDateKey(addDays(today, offset));
+    let inflow = 0;
+    let outflow = 0;
+
+    for (; eventIndex < events.length && events[eventIndex].date === date; eventIndex++) {
+      const event = events[eventIndex];
+      if (event.amount >= 0) inflow += event.amount;
+      else outflow += -event.amount;
+      if (event.accountId in balances) balances[event.accountId] += event.amount;
+      balance += event.amount;
+
+      const spread = Math.abs(event.amount) * (1 - event.certainty);
+      variance += spread * spread;
+      weightedCertainty += Math.abs(event.amount) * event.certainty;
+      totalWeight += Math.abs(event.amount);
+    }
+
+    const band = BAND_Z_SCORE * Math.sqrt(variance);
+    const eventCertainty = totalWeight > 0 ? weightedCertainty / totalWeight : 1;
+    days.push({
+      date,
+      projectedBalance: Math.round(balance * 100) / 100,
+      projectedInflow: Math.round(inflow * 100) / 100,
+      projectedOutflow: Math.round(outflow * 100) / 100,
+      confidence: Math.round(Math.max(0, eventCertainty * (1 - offset * CONFIDENCE_DECAY_PER_DAY)) * 100) / 100,
+      lowerBalance: Math.round((balance - band) * 100) / 100,
+      upperBalance: Math.round((balance + band) * 100) / 100,
+      accountBalances: { ...balances },
+    });
+  }
+
+  const shortfalls = input.accounts
+    .flatMap(account => {
+      const minimum = account.minimumBalance ?? 0;
+      return minimum > 0
+        ? [...findShortfalls(account, days, minimum, 'below_minimum'), ...findShortfalls(account, days, 0, 'overdrawn')]
+        : findShortfalls(account, days, 0, 'overdrawn');
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return { startingBalance, days, events, shortfalls };
+};
+
+export const daysUntilShortfall = (shortfall: CashFlowShortfall, asOf: Date = new Date()): number =>
+  differenceInCalendarDays(parseISO(shortfall.date), startOfDay(asOf));
@@ -0,0 +1,74 @@
+import {
+  ClassificationInput,
+  RuleMatchField,
+  RuleMatchType,
+  TransactionClassificationRule,
+} from '@/types/expense.types';
+
+// Returns an error message when the pattern can't be used, e.g. an invalid regular expression
+export const validateRulePattern = (pattern: string, matchType: RuleMatchType): string | null => {
+  if (!pattern.trim()) return 'Pattern is required';
+  if (matchType !== RuleMatchType.REGEX) return null;
+
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch {
+    return 'Pattern is not a valid regular expression';
+  }
+};
+
+const matchesText = (value: string | undefined, pattern: string, matchType: RuleMatchType): boolean => {
+  if (!value) return false;
+  const text = value.trim().toLowerCase();
+  const needle = pattern.trim().toLowerCase();
+
+  switch (matchType) {
+    case RuleMatchType.EQUALS:
+      return text === needle;
+    case RuleMatchType.CONTAINS:
+      return text.includes(needle);
+    case RuleMatchType.REGEX:
+      try {
+        return new RegExp(pattern, 'i').test(value);
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+};
+
+export const ruleMatches = (rule: TransactionClassificationRule, input: ClassificationInput): boolean => {
+  if (!rule.isActive) return false;
+  if (rule.type && rule.type !== input.type) return false;
+  if (rule.accountId && rule.accountId !== input.accountId) return false;
+
+  const amount = Math.abs(input.amount);
+  if (rule.minAmount !== undefined && amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && amount > rule.maxAmount) return false;
+
+  switch (rule.matchField) {
+    case RuleMatchField.MERCHANT:
+      return matchesText(input.merchant, rule.pattern, rule.matchType);
+    case RuleMatchField.DESCRIPTION:
+      return matchesText(input.description, rule.pattern, rule.matchType);
+    default:
+      return matchesText(input.merchant, rule.pattern, rule.matchType) ||
+        matchesText(input.description, rule.pattern, rule.matchType);
+  }
+};
+
+// Lowest priority number first; ties resolved by creation order so results are stable
+export const sortRules = (rules: TransactionClassificationRule[]): TransactionClassificationRule[] => {
+  return [...rules].sort((a, b) =>
+    a.priority - b.priority || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+};
+
+export const findMatchingRule = (
+  rules: TransactionClassificationRule[],
+  input: ClassificationInput
+): TransactionClassificationRule | undefined => {
+  return sortRules(rules).find(rule => ruleMatches(rule, input));
+};
@@ -11,23 +11,49 @@ export const OTP_EXPIRY_MINUTES = 10;
 export const OTP_LENGTH = 6;
 
 // Savings and Budget
-export const DEFAULT_CURRENCIES = ['INR'];
+export const DEFAULT_CURRENCIES = ['INR', 'USD', 'EUR', 'GBP', 'CAD', 'AUD'];
+export const DEFAULT_BASE_CURRENCY = 'INR';
 export const DEFAULT_BUDGET_ALERT_THRESHOLD = 80; // 80%
 export const SAVINGS_LOW_ALERT_THRESHOLD = 0.9; // 90% of threshold
 
 // Investment
 export const INVESTMENT_SUGGESTION_CACHE_HOURS = 24;
+export const SUGGESTION_REGENERATE_SURPLUS_CHANGE = 0.2; // A 20% shift in the projected surplus makes suggestions stale
+export const SUGGESTION_DEBIT_MATCH_DAYS = 30; // Debits this long after accepting can confirm the investment
+export const SUGGESTION_EXPENSE_AVERAGE_MONTHS = 3; // Completed months averaged into the monthly expenses suggestions plan around
 export const MIN_INVESTMENT_AMOUNT = 100;
+export const EMERGENCY_FUND_TARGET_MONTHS = 6; // Months of expenses held in savings before investing
+export const EMERGENCY_FUND_CRITICAL_MONTHS = 3; // Below this, the whole surplus goes to the emergency fund
+export const GOAL_NEAR_TERM_MONTHS = 36; // Goals due sooner are funded from low-risk instruments
+export const RISK_REASSESSMENT_MONTHS = 12;
+export const RISK_REASSESSMENT_INCOME_CHANGE = 0.2; // A 20% change in annual income prompts a retake
+export const REBALANCE_DEFAULT_TOLERANCE = 5; // Percentage points an asset class may drift from target before rebalancing
+export const REBALANCE_MAX_TOLERANCE = 25;
+export const SIP_DEBIT_MATCH_WINDOW_DAYS = 5; // SIP debits up to five days either side of the due date count
+export const SIP_PROJECTION_YEARS = 10; // How far an open-ended SIP is projected
 
 // Transaction Classification
 export const CLASSIFICATION_CONFIDENCE_THRESHOLD = 0.8;
 export const RECURRING_DETECTION_MIN_OCCURRENCES = 3;
+export const RECURRING_AMOUNT_TOLERANCE = 0.1; // Amounts within 10% belong to the same series
 
 // Alerts
 export const SALARY_MISSING_GRACE_DAYS = 2;
 export const BUDGET_NEAR_THRESHOLD = 80; // 80%
 export const BUDGET_BREACH_THRESHOLD = 100; // 100%
 
+// Bills
+export const BILL_PAYMENT_WINDOW_DAYS = 7; // Payments up to a week before the due date settle the bill
+export const DEFAULT_BILL_REMINDER_DAYS = 3;
+
+// Credit cards
+export const CREDIT_CARD_MINIMUM_DUE_PERCENT = 5; // Of the statement balance
+export const CREDIT_CARD_MINIMUM_DUE_FLOOR = 100; // In the card's currency; smaller balances are due in full
+export const DEFAULT_CREDIT_UTILIZATION_THRESHOLD = 30;
+
+// Loans
+export const LOAN_EMI_MATCH_WINDOW_DAYS = 5; // EMI debits up to five days either side of the due date count
+
 // Date Formats
 export const DATE_FORMAT = 'yyyy-MM-dd';
 export const DATETIME_FORMAT = 'yyyy-MM-dd HH:mm:ss';
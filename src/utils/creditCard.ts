@@ -0,0 +1,139 @@
+import { addDays, addMonths, format, getDaysInMonth, startOfDay } from 'date-fns';
+import { BankAccount } from '@/types/account.types';
+import { Transaction, TransactionType } from '@/types/expense.types';
+import { CREDIT_CARD_MINIMUM_DUE_FLOOR, CREDIT_CARD_MINIMUM_DUE_PERCENT } from './constants';
+
+export type StatementStatus = 'paid' | 'minimum_paid' | 'due' | 'overdue' | 'no_balance';
+
+export interface StatementCycle {
+  periodStart: string; // yyyy-MM-dd, first day of the last closed statement
+  periodEnd: string; // Closing date of the last statement
+  dueDate: string; // Payment due date of the last statement
+  nextClosingDate: string; // When the current, open cycle closes
+}
+
+export interface CreditCardStatement extends StatementCycle {
+  charges: number; // Spending posted during the statement period
+  credits: number; // Payments and refunds posted during the statement period
+  statementBalance: number;
+  minimumDue: number;
+  paidSinceStatement: number;
+  status: StatementStatus;
+}
+
+export interface CreditCardSummary {
+  account: BankAccount;
+  outstanding: number;
+  creditLimit: number | null;
+  availableCredit: number | null;
+  utilization: number | null; // Percentage of the limit in use; null without a limit
+  currentCycleCharges: number; // Spending since the last statement closed
+  statement: CreditCardStatement | null; // Null until the closing and due days are set
+}
+
+const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+// The given day of the month containing date, or the month's last day when it is shorter
+const dayInMonth = (date: Date, day: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), Math.min(day, getDaysInMonth(date)));
+
+export const getStatementCycle = (closingDay: number, dueDay: number, asOf: Date = new Date()): StatementCycle => {
+  const today = startOfDay(asOf);
+  const closingThisMonth = dayInMonth(today, closingDay);
+  // A statement closing today is still open until the day ends
+  const periodEnd = closingThisMonth < today ? closingThisMonth : dayInMonth(addMonths(today, -1), closingDay);
+  const previousClosing = dayInMonth(addMonths(periodEnd, -1), closingDay);
+  const nextClosing = dayInMonth(addMonths(periodEnd, 1), closingDay);
+  const dueThisMonth = dayInMonth(periodEnd, dueDay);
+  const dueDate = dueThisMonth > periodEnd ? dueThisMonth : dayInMonth(addMonths(periodEnd, 1), dueDay);
+
+  return {
+    periodStart: toDateKey(addDays(previousClosing, 1)),
+    periodEnd: toDateKey(periodEnd),
+    dueDate: toDateKey(dueDate),
+    nextClosingDate: toDateKey(nextClosing),
+  };
+};
+
+export const calculateMinimumDue = (statementBalance: number, creditLimit: number | null): number => {
+  if (statementBalance <= 0) return 0;
+  if (statementBalance <= CREDIT_CARD_MINIMUM_DUE_FLOOR) return round(statementBalance);
+  // Anything over the limit is due in full on top of the percentage
+  const overLimit = creditLimit ? Math.max(statementBalance - creditLimit, 0) : 0;
+  const percentage = (statementBalance - overLimit) * (CREDIT_CARD_MINIMUM_DUE_PERCENT / 100);
+  return round(Math.min(Math.max(percentage, CREDIT_CARD_MINIMUM_DUE_FLOOR) + overLimit, statementBalance));
+};
+
+// Charges are expenses on the card; anything else posted to it (payments, refunds, transfers in) is a credit
+const sumCardActivity = (transactions: Transaction[], from: string, to: string) =>
+  transactions.reduce(
+    (totals, transaction) => {
+      const day = toDateKey(new Date(transaction.date));
+      if (day < from || day > to) return totals;
+      const amount = Math.abs(transaction.amount);
+      return transaction.type === TransactionType.EXPENSE
+        ? { ...totals, charges: totals.charges + amount }
+        : { ...totals, credits: totals.credits + amount };
+    },
+    { charges: 0, credits: 0 }
+  );
+
+// The statement balance is rebuilt from today's outstanding by undoing what posted after the statement closed
+export const summarizeCreditCard = (
+  account: BankAccount,
+  transactions: Transaction[],
+  asOf: Date = new Date()
+): CreditCardSummary => {
+  const cardTransactions = transactions.filter(transaction => transaction.accountId === account.id);
+  const outstanding = Math.abs(account.balance);
+  const creditLimit = account.creditLimit && account.creditLimit > 0 ? account.creditLimit : null;
+  const today = toDateKey(asOf);
+
+  let statement: CreditCardStatement | null = null;
+  let currentCycleCharges = 0;
+  if (account.statementClosingDay && account.paymentDueDay) {
+    const cycle = getStatementCycle(account.statementClosingDay, account.paymentDueDay, asOf);
+    const period = sumCardActivity(cardTransactions, cycle.periodStart, cycle.periodEnd);
+    const since = sumCardActivity(cardTransactions, toDateKey(addDays(new Date(`${cycle.periodEnd}T00:00:00`), 1)), today);
+    const statementBalance = round(Math.max(outstanding - since.charges + since.credits, 0));
+    const minimumDue = calculateMinimumDue(statementBalance, creditLimit);
+    const paidSinceStatement = round(since.credits);
+
+    const status: StatementStatus =
+      statementBalance === 0
+        ? 'no_balance'
+        : paidSinceStatement >= statementBalance
+        ? 'paid'
+        : paidSinceStatement >= minimumDue
+        ? 'minimum_paid'
+        : cycle.dueDate < today
+        ? 'overdue'
+        : 'due';
+
+    statement = {
+      ...cycle,
+      charges: round(period.charges),
+      credits: round(period.credits),
+      statementBalance,
+      minimumDue,
+      paidSinceStatement,
+      status,
+    };
+    currentCycleCharges = round(since.charges);
+  }
+
+  return {
+    account,
+    outstanding: round(outstanding),
+    creditLimit,
+    availableCredit: creditLimit !== null ? round(creditLimit - outstanding) : null,
+    utilization: creditLimit !== null ? Math.round((outstanding / creditLimit) * 1000) / 10 : null,
+    currentCycleCharges,
+    statement,
+  };
+};
+
+export const validateStatementDay = (day: number | undefined): boolean =>
+  day === undefined || (Number.isInteger(day) && day >= 1 && day <= 31);
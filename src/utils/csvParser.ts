@@ -0,0 +1,96 @@
+// RFC 4180 CSV parsing (quoted fields, escaped quotes, CRLF/LF, embedded newlines)
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+// Pick the delimiter that splits the first few lines into the most consistent column count
+export const detectDelimiter = (text: string): string => {
+  const sampleLines = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '').slice(0, 10);
+  if (sampleLines.length === 0) return ',';
+
+  let bestDelimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = sampleLines.map(line => parseCSV(line, delimiter)[0]?.length ?? 0);
+    const columns = counts[0];
+    if (columns < 2) continue;
+
+    const consistentLines = counts.filter(count => count === columns).length;
+    const score = consistentLines * columns;
+    if (score > bestScore) {
+      bestScore = score;
+      bestDelimiter = delimiter;
+    }
+  }
+
+  return bestDelimiter;
+};
+
+export const parseCSV = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  // Strip UTF-8 byte order mark written by Excel exports
+  if (text.charCodeAt(0) === 0xfeff) {
+    i = 1;
+  }
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    // Skip completely blank lines
+    if (!(row.length === 1 && row[0].trim() === '')) {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          // Escaped quote inside a quoted field
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+        i++;
+        continue;
+      }
+      field += char;
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r') {
+      endRow();
+      if (text[i + 1] === '\n') i++;
+    } else if (char === '\n') {
+      endRow();
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
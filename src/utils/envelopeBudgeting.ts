@@ -0,0 +1,147 @@
+import { addMonths, format, parse } from 'date-fns';
+import { Transaction, TransactionType } from '@/types/expense.types';
+import { IncomeEntry } from '@/types/income.types';
+import {
+  Envelope,
+  EnvelopeAssignment,
+  EnvelopeBalance,
+  EnvelopeIncome,
+  EnvelopePeriodSummary,
+} from '@/types/envelope.types';
+import { getExpenseCategoryLines } from './transactionSplits';
+
+export const toPeriodKey = (date: Date | string): string => format(new Date(date), 'yyyy-MM');
+
+export const shiftPeriod = (period: string, months: number): string =>
+  format(addMonths(parse(period, 'yyyy-MM', new Date()), months), 'yyyy-MM');
+
+export const formatPeriod = (period: string): string =>
+  format(parse(period, 'yyyy-MM', new Date()), 'MMMM yyyy');
+
+// Income transactions plus income entries that weren't already recorded as a transaction
+export const collectEnvelopeIncome = (transactions: Transaction[], entries: IncomeEntry[]): EnvelopeIncome[] => {
+  const incomeTransactions = transactions.filter(t => t.type === TransactionType.INCOME);
+  const references = new Set(
+    incomeTransactions.flatMap(t => [t.id, t.externalReference].filter(Boolean) as string[])
+  );
+
+  return [
+    ...incomeTransactions.map(t => ({
+      id: t.id,
+      amount: Math.abs(t.amount),
+      date: new Date(t.date),
+      description: t.description,
+      source: 'transaction' as const,
+    })),
+    ...entries
+      .filter(entry => !entry.transactionReference || !references.has(entry.transactionReference))
+      .map(entry => ({
+        id: entry.id,
+        amount: Math.abs(entry.amount),
+        date: new Date(entry.receivedDate),
+        description: entry.description,
+        source: 'income_entry' as const,
+      })),
+  ];
+};
+
+// Every month from the earliest activity up to the requested one
+const getPeriodRange = (earliest: string | undefined, period: string): string[] => {
+  const periods: string[] = [];
+  let current = earliest && earliest < period ? earliest : period;
+  while (current <= period) {
+    periods.push(current);
+    current = shiftPeriod(current, 1);
+  }
+  return periods;
+};
+
+const sumBy = <T>(items: T[], value: (item: T) => number): number =>
+  items.reduce((sum, item) => sum + value(item), 0);
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Unspent balances roll over month to month; an overspent envelope starts the next month at zero
+// and the shortfall comes out of the money still to be assigned
+export const summarizeEnvelopePeriod = (
+  envelopes: Envelope[],
+  assignments: EnvelopeAssignment[],
+  transactions: Transaction[],
+  income: EnvelopeIncome[],
+  period: string
+): EnvelopePeriodSummary => {
+  const envelopeByCategory = new Map<string, string>();
+  envelopes.forEach(envelope => envelope.categories.forEach(category => envelopeByCategory.set(category, envelope.id)));
+
+  const spentByPeriod = new Map<string, Map<string, number>>();
+  const unassignedByPeriod = new Map<string, number>();
+  getExpenseCategoryLines(transactions).forEach(line => {
+    const linePeriod = toPeriodKey(line.date);
+    const envelopeId = envelopeByCategory.get(line.category);
+    if (!envelopeId) {
+      unassignedByPeriod.set(linePeriod, (unassignedByPeriod.get(linePeriod) || 0) + Math.abs(line.amount));
+      return;
+    }
+    const spent = spentByPeriod.get(linePeriod) || new Map<string, number>();
+    spent.set(envelopeId, (spent.get(envelopeId) || 0) + Math.abs(line.amount));
+    spentByPeriod.set(linePeriod, spent);
+  });
+
+  const activityPeriods = [
+    ...assignments.map(a => a.period),
+    ...income.map(i => toPeriodKey(i.date)),
+    ...spentByPeriod.keys(),
+  ].sort();
+
+  const carry = new Map<string, number>();
+  let uncoveredOverspending = 0;
+  let balances: EnvelopeBalance[] = [];
+
+  getPeriodRange(activityPeriods[0], period).forEach(current => {
+    balances = envelopes.map(envelope => {
+      const carriedOver = carry.get(envelope.id) || 0;
+      const assigned = sumBy(
+        assignments.filter(a => a.envelopeId === envelope.id && a.period === current),
+        a => a.amount
+      );
+      const spent = spentByPeriod.get(current)?.get(envelope.id) || 0;
+      return {
+        envelope,
+        carriedOver: roundMoney(carriedOver),
+        assigned: roundMoney(assigned),
+        spent: roundMoney(spent),
+        available: roundMoney(carriedOver + assigned - spent),
+      };
+    });
+
+    if (current < period) {
+      balances.forEach(balance => {
+        if (balance.available < 0) {
+          uncoveredOverspending += -balance.available;
+          carry.set(balance.envelope.id, 0);
+        } else {
+          carry.set(balance.envelope.id, balance.available);
+        }
+      });
+    }
+  });
+
+  const periodIncome = income.filter(i => toPeriodKey(i.date) === period);
+  const incomeThrough = sumBy(income.filter(i => toPeriodKey(i.date) <= period), i => i.amount);
+  const assignedThrough = sumBy(assignments.filter(a => a.period <= period), a => a.amount);
+  const unassignedThrough = sumBy(
+    Array.from(unassignedByPeriod.entries()).filter(([key]) => key <= period),
+    ([, amount]) => amount
+  );
+
+  return {
+    period,
+    income: periodIncome,
+    incomeTotal: roundMoney(sumBy(periodIncome, i => i.amount)),
+    assignedTotal: roundMoney(sumBy(assignments.filter(a => a.period === period), a => a.amount)),
+    uncoveredOverspending: roundMoney(uncoveredOverspending),
+    toBeAssigned: roundMoney(incomeThrough - assignedThrough - uncoveredOverspending - unassignedThrough),
+    envelopes: balances,
+    unassignedSpending: roundMoney(unassignedByPeriod.get(period) || 0),
+  };
+};
@@ -145,6 +145,13 @@ export const handleApiError = (error: any, toast?: ToastContextType): AppError =
   return appError;
 };
 
+// True when the request never reached the backend (offline, DNS, CORS, timeout)
+export const isNetworkError = (error: any): boolean => {
+  if (!error) return false;
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return error.code === 'NETWORK_ERROR' || (error.request && !error.response);
+};
+
 // Retry utility with proper TypeScript generics
 export const withRetry = async function<T>(
   operation: () => Promise<T>,
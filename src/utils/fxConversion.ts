@@ -0,0 +1,111 @@
+import { format } from 'date-fns';
+import { FxRate, MissingFxRate } from '@/types/currency.types';
+import { Transaction } from '@/types/expense.types';
+
+export const normalizeCurrencyCode = (code: string): string => code.trim().toUpperCase();
+
+// Rates are keyed by calendar day; an unreadable date comes back empty
+export const toRateDate = (date: Date | string): string => {
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? '' : format(parsed, 'yyyy-MM-dd');
+};
+
+// Most recent rate for the pair on or before the date, falling back to the earliest one after it
+const findDirectRate = (rates: FxRate[], from: string, to: string, date: string): number | null => {
+  let best: FxRate | null = null;
+  let earliestAfter: FxRate | null = null;
+
+  for (const rate of rates) {
+    if (rate.fromCurrency !== from || rate.toCurrency !== to) continue;
+    if (rate.date <= date) {
+      if (!best || rate.date > best.date) best = rate;
+    } else if (!earliestAfter || rate.date < earliestAfter.date) {
+      earliestAfter = rate;
+    }
+  }
+
+  const match = best || earliestAfter;
+  return match ? match.rate : null;
+};
+
+// Direct pair first, then the inverse of the opposite pair
+const findPairRate = (rates: FxRate[], from: string, to: string, date: string): number | null => {
+  const direct = findDirectRate(rates, from, to, date);
+  if (direct !== null) return direct;
+
+  const inverse = findDirectRate(rates, to, from, date);
+  return inverse ? 1 / inverse : null;
+};
+
+// Rate to multiply an amount in `from` by to get `to`; crosses one intermediate currency when needed
+export const findRate = (rates: FxRate[], from: string, to: string, date: Date | string): number | null => {
+  const source = normalizeCurrencyCode(from);
+  const target = normalizeCurrencyCode(to);
+  if (source === target) return 1;
+
+  const day = toRateDate(date);
+  const pairRate = findPairRate(rates, source, target, day);
+  if (pairRate !== null) return pairRate;
+
+  const intermediates = new Set(rates.flatMap(rate => [rate.fromCurrency, rate.toCurrency]));
+  for (const via of intermediates) {
+    if (via === source || via === target) continue;
+    const first = findPairRate(rates, source, via, day);
+    const second = first !== null ? findPairRate(rates, via, target, day) : null;
+    if (first !== null && second !== null) return first * second;
+  }
+
+  return null;
+};
+
+// Null when no rate is known for the pair
+export const convertAmount = (
+  rates: FxRate[],
+  amount: number,
+  from: string,
+  to: string,
+  date: Date | string
+): number | null => {
+  const rate = findRate(rates, from, to, date);
+  return rate === null ? null : Math.round(amount * rate * 100) / 100;
+};
+
+export const getTransactionCurrency = (transaction: Transaction, fallback: string): string =>
+  normalizeCurrencyCode(transaction.currencyCode || fallback);
+
+// Converts amounts (and split lines) into the base currency; transactions without a rate are reported, not guessed
+export const convertTransactions = (
+  rates: FxRate[],
+  transactions: Transaction[],
+  baseCurrency: string
+): { converted: Transaction[]; missing: MissingFxRate[] } => {
+  const base = normalizeCurrencyCode(baseCurrency);
+  const converted: Transaction[] = [];
+  const missing = new Map<string, MissingFxRate>();
+
+  transactions.forEach(transaction => {
+    const currency = getTransactionCurrency(transaction, base);
+    if (currency === base) {
+      converted.push(transaction);
+      return;
+    }
+
+    const rate = findRate(rates, currency, base, transaction.date);
+    if (rate === null) {
+      const key = `${currency}-${base}`;
+      const entry = missing.get(key) || { fromCurrency: currency, toCurrency: base, count: 0 };
+      missing.set(key, { ...entry, count: entry.count + 1 });
+      return;
+    }
+
+    const toBase = (amount: number) => Math.round(amount * rate * 100) / 100;
+    converted.push({
+      ...transaction,
+      amount: toBase(transaction.amount),
+      splits: transaction.splits?.map(split => ({ ...split, amount: toBase(split.amount) })),
+    });
+  });
+
+  return { converted, missing: Array.from(missing.values()) };
+};
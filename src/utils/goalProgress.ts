@@ -0,0 +1,133 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  format,
+  isValid,
+  parseISO,
+  startOfDay,
+} from 'date-fns';
+import { Goal, GoalMilestone, GoalProgress } from '@/types/financial.types';
+
+type ContributionFrequency = NonNullable<Goal['autoContribution']>['frequency'];
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+// Schedules stop after twenty years of weekly contributions
+const MAX_CONTRIBUTION_PERIODS = 1040;
+
+const CONTRIBUTIONS_PER_MONTH: Record<ContributionFrequency, number> = {
+  weekly: 52 / 12,
+  monthly: 1,
+  quarterly: 1 / 3,
+};
+
+export const CONTRIBUTION_FREQUENCY_OPTIONS: { value: ContributionFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+];
+
+const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Goal dates come back as yyyy-MM-dd or full ISO timestamps; only the calendar day matters
+export const parseGoalDate = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const parsed = parseISO(value.slice(0, 10));
+  return isValid(parsed) ? parsed : null;
+};
+
+const addContributionPeriods = (frequency: ContributionFrequency, date: Date, count: number): Date => {
+  switch (frequency) {
+    case 'weekly':
+      return addWeeks(date, count);
+    case 'quarterly':
+      return addMonths(date, count * 3);
+    default:
+      return addMonths(date, count);
+  }
+};
+
+export const getMonthlyAutoContribution = (goal: Goal): number =>
+  goal.autoContribution?.enabled && goal.autoContribution.amount > 0
+    ? goal.autoContribution.amount * CONTRIBUTIONS_PER_MONTH[goal.autoContribution.frequency]
+    : 0;
+
+// Auto-contribution dates fall one period after the goal was created, then every period after that
+const getContributionDates = (goal: Goal, after: string, until: string | null, limit: number): string[] => {
+  const anchor = parseGoalDate(goal.createdAt);
+  if (!anchor || !goal.autoContribution?.enabled || goal.autoContribution.amount <= 0) return [];
+
+  const dates: string[] = [];
+  for (let index = 1; dates.length < limit && index <= MAX_CONTRIBUTION_PERIODS; index++) {
+    const date = toDateKey(addContributionPeriods(goal.autoContribution.frequency, anchor, index));
+    if (until && date > until) break;
+    if (date > after) dates.push(date);
+  }
+  return dates;
+};
+
+// Contributions that fell due after the last one applied, up to and including asOf
+export const getDueContributionDates = (goal: Goal, lastAppliedDate: string | undefined, asOf: Date = new Date()): string[] =>
+  getContributionDates(goal, lastAppliedDate || '', toDateKey(asOf), MAX_CONTRIBUTION_PERIODS);
+
+export const getUpcomingContributionDates = (goal: Goal, count: number, asOf: Date = new Date()): string[] =>
+  getContributionDates(goal, toDateKey(asOf), null, count);
+
+export const isMilestoneReached = (goal: Goal, milestone: GoalMilestone): boolean =>
+  milestone.isCompleted || goal.currentAmount >= milestone.amount;
+
+// Monthly pace used for projections: the auto-contribution if one is set up, otherwise the saving rate so far
+const getMonthlyPace = (goal: Goal, asOf: Date): number => {
+  const automatic = getMonthlyAutoContribution(goal);
+  if (automatic > 0) return automatic;
+
+  const created = parseGoalDate(goal.createdAt);
+  if (!created || goal.currentAmount <= 0) return 0;
+  const monthsElapsed = Math.max(differenceInCalendarDays(asOf, created) / DAYS_PER_MONTH, 1);
+  return goal.currentAmount / monthsElapsed;
+};
+
+export const calculateGoalProgress = (goal: Goal, asOf: Date = new Date()): GoalProgress => {
+  const today = startOfDay(asOf);
+  const remainingAmount = roundMoney(Math.max(goal.targetAmount - goal.currentAmount, 0));
+  const progress = goal.targetAmount > 0 ? Math.min((goal.currentAmount / goal.targetAmount) * 100, 100) : 0;
+
+  const targetDate = parseGoalDate(goal.targetDate);
+  const days = targetDate ? Math.max(differenceInCalendarDays(targetDate, today), 0) : 0;
+  const monthsLeft = days / DAYS_PER_MONTH;
+
+  // With less than a month to go, whatever is left is needed now
+  const monthlyContributionNeeded = roundMoney(remainingAmount / Math.max(monthsLeft, 1));
+
+  const pace = getMonthlyPace(goal, today);
+  let projectedCompletionDate = '';
+  if (remainingAmount === 0) {
+    projectedCompletionDate = toDateKey(today);
+  } else if (pace > 0) {
+    projectedCompletionDate = toDateKey(addDays(today, Math.ceil((remainingAmount / pace) * DAYS_PER_MONTH)));
+  }
+
+  const isOnTrack =
+    remainingAmount === 0 ||
+    (!!targetDate && projectedCompletionDate !== '' && projectedCompletionDate <= toDateKey(targetDate));
+
+  return {
+    goalId: goal.id,
+    currentAmount: goal.currentAmount,
+    targetAmount: goal.targetAmount,
+    progress,
+    remainingAmount,
+    timeToTarget: {
+      days,
+      months: Math.floor(monthsLeft),
+      years: Math.floor(monthsLeft / 12),
+    },
+    monthlyContributionNeeded,
+    isOnTrack,
+    projectedCompletionDate,
+  };
+};
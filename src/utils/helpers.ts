@@ -12,12 +12,17 @@ export const formatDate = (date: Date | string, formatString: string = 'MMM dd,
 };
 
 // Currency formatting
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-IN', {
-    style: 'currency',
-    currency: 'INR',
-    minimumFractionDigits: 2
-  }).format(amount);
+export const formatCurrency = (amount: number, currency: string = 'INR'): string => {
+  try {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2
+    }).format(amount);
+  } catch {
+    // Unknown ISO code - show the code rather than failing the render
+    return `${currency} ${amount.toFixed(2)}`;
+  }
 };
 
 // Percentage formatting
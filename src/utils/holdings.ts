@@ -0,0 +1,276 @@
+import { differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import {
+  HoldingLot,
+  HoldingPosition,
+  HoldingTransaction,
+  HoldingTransactionType,
+  Investment,
+  PortfolioPerformance,
+  RealizedGain,
+} from '@/types/investment.types';
+
+export interface CashFlow {
+  date: string; // yyyy-MM-dd
+  amount: number; // Negative for money put in, positive for money taken out
+}
+
+export interface LedgerReplay {
+  lots: HoldingLot[];
+  realizedGains: RealizedGain[];
+  dividends: number;
+  fees: number;
+  cashFlows: CashFlow[];
+  oversold: HoldingTransaction | null; // First sell of more units than were held at the time
+}
+
+export const HOLDING_TRANSACTION_TYPE_OPTIONS: { value: HoldingTransactionType; label: string }[] = [
+  { value: HoldingTransactionType.BUY, label: 'Buy' },
+  { value: HoldingTransactionType.SELL, label: 'Sell' },
+  { value: HoldingTransactionType.DIVIDEND, label: 'Dividend' },
+  { value: HoldingTransactionType.SPLIT, label: 'Split / bonus' },
+  { value: HoldingTransactionType.FEE, label: 'Fee' },
+];
+
+// Quantities below this are rounding noise from splits and partial sells
+const QUANTITY_EPSILON = 1e-6;
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Chronological, with same-day entries in the order they were recorded
+export const sortHoldingTransactions = (transactions: HoldingTransaction[]): HoldingTransaction[] =>
+  [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+
+// A unit priced on one date is worth less after a split multiplies the units, and more before it
+export const adjustPriceForSplits = (
+  price: number,
+  investmentId: string,
+  transactions: HoldingTransaction[],
+  pricedOn: string,
+  asOf: string
+): number => {
+  const [from, to] = pricedOn <= asOf ? [pricedOn, asOf] : [asOf, pricedOn];
+  const factor = transactions
+    .filter(
+      transaction =>
+        transaction.investmentId === investmentId &&
+        transaction.type === HoldingTransactionType.SPLIT &&
+        transaction.date > from &&
+        transaction.date <= to
+    )
+    .reduce((product, transaction) => product * (transaction.splitRatio || 1), 1);
+  return pricedOn <= asOf ? price / factor : price * factor;
+};
+
+// Price of one unit on asOf, taken from the investment's own valuation and adjusted for any splits
+// since it was valued. Holdings without units (e.g. fixed deposits) are treated as a single unit.
+export const getUnitPrice = (
+  investment: Investment,
+  transactions: HoldingTransaction[] = [],
+  asOf: Date = new Date()
+): number =>
+  adjustPriceForSplits(
+    investment.quantity > 0 ? investment.currentValue / investment.quantity : investment.currentValue,
+    investment.id,
+    transactions,
+    toDateKey(new Date(investment.lastUpdated)),
+    toDateKey(asOf)
+  );
+
+// Investments recorded before the ledger existed get one opening buy built from their totals
+export const getOpeningBuy = (investment: Investment): HoldingTransaction => {
+  const quantity = investment.quantity > 0 ? investment.quantity : 1;
+  const date = toDateKey(new Date(investment.purchaseDate));
+  return {
+    id: `opening_${investment.id}`,
+    investmentId: investment.id,
+    type: HoldingTransactionType.BUY,
+    date,
+    quantity,
+    price: investment.investedAmount / quantity,
+    amount: 0,
+    fees: 0,
+    createdAt: `${date}T00:00:00.000Z`,
+  };
+};
+
+// Entries up to asOf, so a holding can be valued as it stood on any date
+const getLedger = (investment: Investment, transactions: HoldingTransaction[], asOf: Date): HoldingTransaction[] => {
+  const cutoff = toDateKey(asOf);
+  const ledger = transactions.filter(transaction => transaction.investmentId === investment.id);
+  return (ledger.length > 0 ? ledger : [getOpeningBuy(investment)]).filter(transaction => transaction.date <= cutoff);
+};
+
+// Replays a holding's ledger in date order, matching sells to the oldest lots first (FIFO)
+export const replayLedger = (transactions: HoldingTransaction[]): LedgerReplay => {
+  const lots: HoldingLot[] = [];
+  const realizedGains: RealizedGain[] = [];
+  const cashFlows: CashFlow[] = [];
+  let dividends = 0;
+  let fees = 0;
+  let oversold: HoldingTransaction | null = null;
+
+  sortHoldingTransactions(transactions).forEach(transaction => {
+    switch (transaction.type) {
+      case HoldingTransactionType.BUY: {
+        const cost = transaction.quantity * transaction.price + transaction.fees;
+        lots.push({
+          buyTransactionId: transaction.id,
+          date: transaction.date,
+          quantity: transaction.quantity,
+          costPerUnit: cost / transaction.quantity,
+        });
+        cashFlows.push({ date: transaction.date, amount: -cost });
+        break;
+      }
+      case HoldingTransactionType.SELL: {
+        const proceeds = transaction.quantity * transaction.price - transaction.fees;
+        let remaining = transaction.quantity;
+        let costBasis = 0;
+        while (remaining > QUANTITY_EPSILON && lots.length > 0) {
+          const lot = lots[0];
+          const used = Math.min(lot.quantity, remaining);
+          costBasis += used * lot.costPerUnit;
+          lot.quantity -= used;
+          remaining -= used;
+          if (lot.quantity <= QUANTITY_EPSILON) lots.shift();
+        }
+        if (remaining > QUANTITY_EPSILON && !oversold) oversold = transaction;
+
+        realizedGains.push({
+          sellTransactionId: transaction.id,
+          date: transaction.date,
+          quantity: transaction.quantity - remaining,
+          proceeds: round(proceeds),
+          costBasis: round(costBasis),
+          gain: round(proceeds - costBasis),
+        });
+        cashFlows.push({ date: transaction.date, amount: proceeds });
+        break;
+      }
+      case HoldingTransactionType.DIVIDEND:
+        dividends += transaction.amount;
+        cashFlows.push({ date: transaction.date, amount: transaction.amount });
+        break;
+      case HoldingTransactionType.FEE:
+        fees += transaction.amount;
+        cashFlows.push({ date: transaction.date, amount: -transaction.amount });
+        break;
+      case HoldingTransactionType.SPLIT: {
+        const ratio = transaction.splitRatio || 1;
+        lots.forEach(lot => {
+          lot.quantity *= ratio;
+          lot.costPerUnit /= ratio;
+        });
+        break;
+      }
+    }
+  });
+
+  return { lots, realizedGains, dividends, fees, cashFlows, oversold };
+};
+
+const presentValue = (flows: { years: number; amount: number }[], rate: number): number =>
+  flows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, flow.years), 0);
+
+// Annualised internal rate of return of irregular cash flows, as a percentage. Newton's method
+// converges for ordinary portfolios; bisection takes over when it doesn't.
+export const calculateXirr = (cashFlows: CashFlow[]): number | null => {
+  const flows = cashFlows.filter(flow => flow.amount !== 0);
+  if (!flows.some(flow => flow.amount < 0) || !flows.some(flow => flow.amount > 0)) return null;
+
+  const first = flows.map(flow => flow.date).sort()[0];
+  const timed = flows.map(flow => ({
+    years: differenceInCalendarDays(parseISO(flow.date), parseISO(first)) / 365,
+    amount: flow.amount,
+  }));
+  if (timed.every(flow => flow.years === 0)) return null;
+
+  let rate = 0.1;
+  for (let i = 0; i < 100; i++) {
+    const value = presentValue(timed, rate);
+    const derivative = timed.reduce(
+      (sum, flow) => sum - (flow.years * flow.amount) / Math.pow(1 + rate, flow.years + 1),
+      0
+    );
+    if (Math.abs(value) < 1e-7) return Math.round(rate * 10000) / 100;
+    if (derivative === 0) break;
+    const next = rate - value / derivative;
+    if (!Number.isFinite(next) || next <= -1) break;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  if (Math.sign(presentValue(timed, low)) === Math.sign(presentValue(timed, high))) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(presentValue(timed, mid)) === Math.sign(presentValue(timed, low))) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.round(((low + high) / 2) * 10000) / 100;
+};
+
+export const buildHoldingPosition = (
+  investment: Investment,
+  transactions: HoldingTransaction[],
+  asOf: Date = new Date()
+): HoldingPosition => {
+  const replay = replayLedger(getLedger(investment, transactions, asOf));
+
+  const quantity = replay.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const costBasis = replay.lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerUnit, 0);
+  const marketValue = quantity * getUnitPrice(investment, transactions, asOf);
+  const realizedGain = replay.realizedGains.reduce((sum, gain) => sum + gain.gain, 0);
+  const unrealizedGain = marketValue - costBasis;
+  const cashFlows =
+    marketValue > 0 ? [...replay.cashFlows, { date: toDateKey(startOfDay(asOf)), amount: marketValue }] : replay.cashFlows;
+
+  return {
+    investmentId: investment.id,
+    quantity,
+    averageCost: quantity > QUANTITY_EPSILON ? round(costBasis / quantity) : 0,
+    costBasis: round(costBasis),
+    marketValue: round(marketValue),
+    unrealizedGain: round(unrealizedGain),
+    realizedGain: round(realizedGain),
+    dividends: round(replay.dividends),
+    fees: round(replay.fees),
+    totalReturn: round(unrealizedGain + realizedGain + replay.dividends - replay.fees),
+    xirr: calculateXirr(cashFlows),
+    lots: replay.lots,
+    realizedGains: replay.realizedGains,
+    hasLedger: transactions.some(transaction => transaction.investmentId === investment.id),
+  };
+};
+
+// Portfolio XIRR pools every holding's cash flows, so it weights holdings by money and time
+export const summarizePortfolioPerformance = (
+  investments: Investment[],
+  transactions: HoldingTransaction[],
+  asOf: Date = new Date()
+): PortfolioPerformance => {
+  const positions = investments.map(investment => buildHoldingPosition(investment, transactions, asOf));
+  const sum = (field: keyof Pick<HoldingPosition, 'costBasis' | 'marketValue' | 'unrealizedGain' | 'realizedGain' | 'dividends' | 'fees' | 'totalReturn'>) =>
+    round(positions.reduce((total, position) => total + position[field], 0));
+
+  const cashFlows = investments.flatMap(investment => replayLedger(getLedger(investment, transactions, asOf)).cashFlows);
+  const marketValue = sum('marketValue');
+  if (marketValue > 0) cashFlows.push({ date: toDateKey(startOfDay(asOf)), amount: marketValue });
+
+  return {
+    positions,
+    costBasis: sum('costBasis'),
+    marketValue,
+    unrealizedGain: sum('unrealizedGain'),
+    realizedGain: sum('realizedGain'),
+    dividends: sum('dividends'),
+    fees: sum('fees'),
+    totalReturn: sum('totalReturn'),
+    xirr: calculateXirr(cashFlows),
+  };
+};
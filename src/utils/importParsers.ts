@@ -0,0 +1,74 @@
+import { parse, isValid, format } from 'date-fns';
+import { STATEMENT_DATE_FORMATS, StatementDateFormat } from '@/types/import.types';
+
+// Parse statement amounts such as "1,23,456.00", "(250.00)", "1,200.50 Dr", "₹ 500", "-75"
+export const parseStatementAmount = (value: string): number | null => {
+  if (!value) return null;
+
+  let text = value.trim();
+  if (text === '' || text === '-') return null;
+
+  let negative = false;
+
+  const drCr = text.match(/\s*(dr|cr)\.?$/i);
+  if (drCr) {
+    negative = drCr[1].toLowerCase() === 'dr';
+    text = text.slice(0, drCr.index).trim();
+  }
+
+  if (text.startsWith('(') && text.endsWith(')')) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+
+  // Remove currency markers and grouping separators (Western and Indian lakh/crore grouping)
+  text = text.replace(/₹|rs\.?|inr|\$|€|£/gi, '').replace(/[,\s]/g, '');
+
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  if (!/^\d*\.?\d+$/.test(text)) return null;
+
+  const amount = parseFloat(text);
+  return negative ? -amount : amount;
+};
+
+export const parseStatementDate = (value: string, dateFormat: StatementDateFormat): Date | null => {
+  if (!value) return null;
+  const parsed = parse(value.trim(), dateFormat, new Date());
+  if (!isValid(parsed)) return null;
+
+  // "05/01/24" parsed as yyyy would land in year 24 - treat it as not matching the format
+  return parsed.getFullYear() >= 1900 ? parsed : null;
+};
+
+// First format (Indian day-first layouts preferred) that parses every sample value
+export const detectDateFormat = (samples: string[]): StatementDateFormat => {
+  const values = samples.map(s => s.trim()).filter(Boolean).slice(0, 25);
+  if (values.length === 0) return 'dd/MM/yyyy';
+
+  const match = STATEMENT_DATE_FORMATS.find(dateFormat =>
+    values.every(value => parseStatementDate(value, dateFormat) !== null)
+  );
+  return match || 'dd/MM/yyyy';
+};
+
+export const toISODate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Lowercase, strip reference numbers and punctuation so "UPI/1234/SWIGGY" ~ "upi swiggy"
+export const normalizeDescription = (description: string): string => {
+  return description
+    .toLowerCase()
+    .replace(/\d{4,}/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/\s+/g, ' ');
+};
@@ -0,0 +1,68 @@
+// Minimal promise wrapper around IndexedDB for local-first data
+const DB_NAME = 'wealthify_local';
+const DB_VERSION = 1;
+
+export const STORES = {
+  LEDGER: 'ledger',
+  MUTATIONS: 'mutations',
+  CONFLICTS: 'conflicts',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.LEDGER)) {
+          db.createObjectStore(STORES.LEDGER, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.MUTATIONS)) {
+          // Auto-incrementing key keeps mutations in the order they were recorded
+          db.createObjectStore(STORES.MUTATIONS, { keyPath: 'seq', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(STORES.CONFLICTS)) {
+          db.createObjectStore(STORES.CONFLICTS, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const getOne = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).get(key) as IDBRequest<T | undefined>);
+};
+
+export const put = async <T>(store: StoreName, value: T): Promise<IDBValidKey> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const remove = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
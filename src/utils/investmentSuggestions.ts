@@ -0,0 +1,340 @@
+import { format } from 'date-fns';
+import { RiskProfile } from '@/types/auth.types';
+import { Goal } from '@/types/financial.types';
+import {
+  Investment,
+  InvestmentRecommendationParams,
+  InvestmentSuggestion,
+  InvestmentType,
+  RiskLevel,
+  SuggestionStatus,
+  TimeHorizon,
+} from '@/types/investment.types';
+import {
+  EMERGENCY_FUND_CRITICAL_MONTHS,
+  EMERGENCY_FUND_TARGET_MONTHS,
+  GOAL_NEAR_TERM_MONTHS,
+  MIN_INVESTMENT_AMOUNT,
+} from './constants';
+import { calculateGoalProgress, getMonthlyAutoContribution, parseGoalDate } from './goalProgress';
+import { formatCurrency } from './helpers';
+
+export type AssetClass = 'equity' | 'debt' | 'gold' | 'real_estate';
+
+export type AssetAllocation = Record<AssetClass, number>;
+
+export interface SuggestionEngineInput {
+  userId: string;
+  currency: string;
+  params: InvestmentRecommendationParams;
+  investments: Investment[];
+  liquidSavings: number; // Savings, checking and current account balances
+  monthlyExpenses: number;
+  goals: Goal[];
+}
+
+export interface TargetAllocation {
+  allocation: AssetAllocation; // Percentages summing to 100
+  reasons: string[]; // The rules that shaped it, in the order they applied
+}
+
+interface Instrument {
+  type: InvestmentType;
+  title: string;
+  description: string;
+  riskLevel: RiskLevel;
+  timeHorizon: TimeHorizon;
+}
+
+export const ASSET_CLASSES: AssetClass[] = ['equity', 'debt', 'gold', 'real_estate'];
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  equity: 'Equity',
+  debt: 'Debt',
+  gold: 'Gold',
+  real_estate: 'Real estate',
+};
+
+// Long-run annual returns used for planning, not promises
+export const EXPECTED_RETURNS: Record<InvestmentType, number> = {
+  [InvestmentType.MUTUAL_FUND]: 8.5,
+  [InvestmentType.ETF]: 7.2,
+  [InvestmentType.STOCKS]: 12,
+  [InvestmentType.BONDS]: 4.2,
+  [InvestmentType.FIXED_DEPOSIT]: 3.5,
+  [InvestmentType.GOLD]: 5.5,
+  [InvestmentType.CRYPTO]: 15,
+  [InvestmentType.REAL_ESTATE]: 9.5,
+};
+
+const PROFILE_EQUITY_ADJUSTMENT: Record<RiskProfile, number> = {
+  [RiskProfile.CONSERVATIVE]: -20,
+  [RiskProfile.BALANCED]: 0,
+  [RiskProfile.AGGRESSIVE]: 15,
+};
+
+const HORIZON_EQUITY_CAP: Record<TimeHorizon, number> = {
+  [TimeHorizon.SHORT_TERM]: 20,
+  [TimeHorizon.MEDIUM_TERM]: 60,
+  [TimeHorizon.LONG_TERM]: 100,
+};
+
+const GOAL_PRIORITY_ORDER: Record<Goal['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const getAssetClass = (type: InvestmentType): AssetClass => {
+  switch (type) {
+    case InvestmentType.BONDS:
+    case InvestmentType.FIXED_DEPOSIT:
+      return 'debt';
+    case InvestmentType.GOLD:
+      return 'gold';
+    case InvestmentType.REAL_ESTATE:
+      return 'real_estate';
+    default:
+      return 'equity';
+  }
+};
+
+export const getCurrentAllocation = (investments: Investment[]): AssetAllocation => {
+  const allocation: AssetAllocation = { equity: 0, debt: 0, gold: 0, real_estate: 0 };
+  investments.forEach(investment => {
+    allocation[getAssetClass(investment.type)] += investment.currentValue;
+  });
+  return allocation;
+};
+
+// Starts from "100 minus age" in equity, then tilts for the risk profile and caps for the horizon
+export const getTargetAllocation = (
+  params: Pick<InvestmentRecommendationParams, 'age' | 'riskProfile' | 'timeHorizon'>
+): TargetAllocation => {
+  const reasons: string[] = [];
+  const ageBased = clamp(100 - params.age, 20, 80);
+  reasons.push(`At ${params.age}, about ${ageBased}% in equity suits your age.`);
+
+  let equity = ageBased;
+  const adjustment = PROFILE_EQUITY_ADJUSTMENT[params.riskProfile] ?? 0;
+  if (adjustment !== 0) {
+    equity = clamp(equity + adjustment, 10, 90);
+    reasons.push(
+      `Your ${params.riskProfile} risk profile moves that ${adjustment > 0 ? 'up' : 'down'} to ${equity}%.`
+    );
+  }
+
+  const cap = HORIZON_EQUITY_CAP[params.timeHorizon] ?? 100;
+  if (equity > cap) {
+    equity = cap;
+    reasons.push(`Money needed within ${params.timeHorizon === TimeHorizon.SHORT_TERM ? 'a year' : 'five years'} keeps equity at or below ${cap}%.`);
+  }
+
+  const gold = 10;
+  const realEstate = params.riskProfile === RiskProfile.AGGRESSIVE && params.timeHorizon === TimeHorizon.LONG_TERM ? 10 : 0;
+  equity = Math.min(equity, 100 - gold - realEstate);
+  reasons.push(`Gold holds ${gold}% as a hedge${realEstate > 0 ? `, REITs ${realEstate}% for property exposure` : ''}, and debt takes the rest.`);
+
+  return {
+    allocation: { equity, debt: 100 - equity - gold - realEstate, gold, real_estate: realEstate },
+    reasons,
+  };
+};
+
+const getInstrument = (assetClass: AssetClass, params: InvestmentRecommendationParams): Instrument => {
+  switch (assetClass) {
+    case 'debt':
+      return params.timeHorizon === TimeHorizon.SHORT_TERM
+        ? {
+            type: InvestmentType.FIXED_DEPOSIT,
+            title: 'Fixed Deposit',
+            description: 'A fixed deposit locks in a rate for the short time you plan to stay invested.',
+            riskLevel: RiskLevel.LOW,
+            timeHorizon: TimeHorizon.SHORT_TERM,
+          }
+        : {
+            type: InvestmentType.BONDS,
+            title: 'Government Bonds',
+            description: 'Government and PSU bonds for steady, low-risk income.',
+            riskLevel: RiskLevel.LOW,
+            timeHorizon: TimeHorizon.MEDIUM_TERM,
+          };
+    case 'gold':
+      return {
+        type: InvestmentType.GOLD,
+        title: 'Gold ETF',
+        description: 'Gold ETF as a hedge against inflation and market volatility.',
+        riskLevel: RiskLevel.LOW,
+        timeHorizon: TimeHorizon.MEDIUM_TERM,
+      };
+    case 'real_estate':
+      return {
+        type: InvestmentType.REAL_ESTATE,
+        title: 'REIT Investment',
+        description: 'Real Estate Investment Trust for property market exposure.',
+        riskLevel: RiskLevel.MEDIUM,
+        timeHorizon: TimeHorizon.LONG_TERM,
+      };
+    default:
+      return params.riskProfile === RiskProfile.AGGRESSIVE
+        ? {
+            type: InvestmentType.STOCKS,
+            title: 'Growth Stocks Portfolio',
+            description: 'A basket of growth stocks for higher return potential.',
+            riskLevel: RiskLevel.HIGH,
+            timeHorizon: TimeHorizon.LONG_TERM,
+          }
+        : {
+            type: InvestmentType.MUTUAL_FUND,
+            title: 'Equity Index Fund',
+            description: 'A low-cost index fund for broad, diversified market exposure.',
+            riskLevel: RiskLevel.MEDIUM,
+            timeHorizon: TimeHorizon.LONG_TERM,
+          };
+  }
+};
+
+// Ranked suggestions for this month's surplus. The emergency fund comes first, then near-term goals,
+// then whatever is left goes to the asset classes furthest below their target. Same input, same output.
+export const generateInvestmentSuggestions = (
+  input: SuggestionEngineInput,
+  asOf: Date = new Date()
+): InvestmentSuggestion[] => {
+  const { params, currency } = input;
+  const money = (amount: number) => formatCurrency(amount, currency);
+  const createdAt = new Date(`${format(asOf, 'yyyy-MM-dd')}T00:00:00`);
+  const suggestions: Omit<InvestmentSuggestion, 'rank'>[] = [];
+  let available = Math.floor(Math.max(params.surplusAmount, 0));
+
+  const build = (
+    id: string,
+    instrument: Instrument,
+    suggestedAmount: number,
+    reasoning: string[],
+    targetAllocation?: number
+  ): Omit<InvestmentSuggestion, 'rank'> => ({
+    id,
+    userId: input.userId,
+    ...instrument,
+    suggestedAmount,
+    expectedReturn: EXPECTED_RETURNS[instrument.type],
+    reasoning: reasoning.join(' '),
+    targetAllocation,
+    status: SuggestionStatus.PENDING,
+    createdAt,
+    updatedAt: createdAt,
+  });
+
+  // Rule 1: build the emergency fund before taking market risk
+  if (input.monthlyExpenses > 0) {
+    const coverage = input.liquidSavings / input.monthlyExpenses;
+    const shortfall = EMERGENCY_FUND_TARGET_MONTHS * input.monthlyExpenses - input.liquidSavings;
+    if (shortfall > 0) {
+      const share = coverage < EMERGENCY_FUND_CRITICAL_MONTHS ? 1 : 0.5;
+      const amount = Math.floor(Math.min(shortfall, available * share));
+      if (amount >= MIN_INVESTMENT_AMOUNT) {
+        suggestions.push(
+          build(
+            'emergency-fund',
+            {
+              type: InvestmentType.FIXED_DEPOSIT,
+              title: 'Emergency Fund',
+              description: 'Keep this in a high-yield savings account or sweep-in deposit you can reach within a day.',
+              riskLevel: RiskLevel.LOW,
+              timeHorizon: TimeHorizon.SHORT_TERM,
+            },
+            amount,
+            [
+              `Your savings cover ${coverage.toFixed(1)} months of expenses; the aim is ${EMERGENCY_FUND_TARGET_MONTHS}.`,
+              coverage < EMERGENCY_FUND_CRITICAL_MONTHS
+                ? `Below ${EMERGENCY_FUND_CRITICAL_MONTHS} months, all of the surplus goes here first.`
+                : 'Half of the surplus goes here until the gap is closed.',
+              `${money(round(shortfall))} is still needed.`,
+            ]
+          )
+        );
+        available -= amount;
+      }
+    }
+  }
+
+  // Rule 2: goals due within a few years are funded from low-risk instruments, using at most half of what's left
+  let goalBudget = Math.floor(available / 2);
+  input.goals
+    .filter(goal => !goal.isCompleted && parseGoalDate(goal.targetDate) !== null)
+    .map(goal => ({ goal, progress: calculateGoalProgress(goal, asOf) }))
+    .filter(({ progress }) => progress.remainingAmount > 0 && progress.timeToTarget.months <= GOAL_NEAR_TERM_MONTHS)
+    .sort(
+      (a, b) =>
+        GOAL_PRIORITY_ORDER[a.goal.priority] - GOAL_PRIORITY_ORDER[b.goal.priority] ||
+        a.goal.targetDate.localeCompare(b.goal.targetDate) ||
+        a.goal.id.localeCompare(b.goal.id)
+    )
+    .forEach(({ goal, progress }) => {
+      const autoContribution = getMonthlyAutoContribution(goal);
+      const needed = progress.monthlyContributionNeeded - autoContribution;
+      const amount = Math.floor(Math.min(needed, goalBudget));
+      if (amount < MIN_INVESTMENT_AMOUNT) return;
+
+      const months = progress.timeToTarget.months;
+      const instrument = getInstrument('debt', {
+        ...params,
+        timeHorizon: months < 12 ? TimeHorizon.SHORT_TERM : TimeHorizon.MEDIUM_TERM,
+      });
+      suggestions.push(
+        build(
+          `goal-${goal.id}`,
+          { ...instrument, title: `${instrument.title} for "${goal.name}"` },
+          amount,
+          [
+            `"${goal.name}" is due in ${months < 1 ? 'under a month' : `${months} month${months === 1 ? '' : 's'}`} and needs about ${money(progress.monthlyContributionNeeded)} a month.`,
+            autoContribution > 0 ? `Your auto-contribution already covers ${money(round(autoContribution))} of that.` : '',
+            'Money needed this soon shouldn\'t ride out a market fall.',
+          ].filter(Boolean)
+        )
+      );
+      goalBudget -= amount;
+      available -= amount;
+    });
+
+  // Rule 3: spread the rest across the asset classes furthest below their target
+  if (available >= MIN_INVESTMENT_AMOUNT) {
+    const target = getTargetAllocation(params);
+    const current = getCurrentAllocation(input.investments);
+    const currentTotal = ASSET_CLASSES.reduce((sum, assetClass) => sum + current[assetClass], 0);
+    const totalAfter = currentTotal + available;
+    const gaps = ASSET_CLASSES.map(assetClass => ({
+      assetClass,
+      gap: Math.max((totalAfter * target.allocation[assetClass]) / 100 - current[assetClass], 0),
+    }));
+    const totalGap = gaps.reduce((sum, { gap }) => sum + gap, 0);
+
+    gaps
+      .map(({ assetClass, gap }) => ({
+        assetClass,
+        amount: totalGap > 0 ? Math.floor((available * gap) / totalGap) : 0,
+      }))
+      .filter(({ amount }) => amount >= MIN_INVESTMENT_AMOUNT)
+      .sort((a, b) => b.amount - a.amount || ASSET_CLASSES.indexOf(a.assetClass) - ASSET_CLASSES.indexOf(b.assetClass))
+      .forEach(({ assetClass, amount }) => {
+        const targetPercent = target.allocation[assetClass];
+        const currentPercent = currentTotal > 0 ? Math.round((current[assetClass] / currentTotal) * 100) : 0;
+        suggestions.push(
+          build(
+            `allocation-${assetClass}`,
+            getInstrument(assetClass, params),
+            amount,
+            [
+              currentTotal > 0
+                ? `${ASSET_CLASS_LABELS[assetClass]} is ${currentPercent}% of your portfolio against a ${targetPercent}% target.`
+                : `${ASSET_CLASS_LABELS[assetClass]} should make up ${targetPercent}% of a new portfolio.`,
+              ...target.reasons,
+            ],
+            targetPercent
+          )
+        );
+      });
+  }
+
+  return suggestions.map((suggestion, index) => ({ ...suggestion, rank: index + 1 }));
+};
@@ -0,0 +1,242 @@
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import { BankAccount, LoanKind, LoanTerms } from '@/types/account.types';
+import { Transaction, TransactionType } from '@/types/expense.types';
+import { LOAN_EMI_MATCH_WINDOW_DAYS, RECURRING_AMOUNT_TOLERANCE } from './constants';
+import { normalizeDescription } from './importParsers';
+
+export type PrepaymentStrategy = 'reduce_tenure' | 'reduce_emi';
+
+export interface LoanPrepayment {
+  date: string; // yyyy-MM-dd; applied with the first EMI on or after this date
+  amount: number;
+  strategy: PrepaymentStrategy;
+}
+
+export interface AmortizationRow {
+  installment: number; // 1-based
+  dueDate: string; // yyyy-MM-dd
+  openingBalance: number;
+  emi: number;
+  interest: number;
+  principal: number;
+  prepayment: number;
+  closingBalance: number;
+}
+
+export interface LoanSummary {
+  emi: number;
+  totalInterest: number;
+  totalPayment: number;
+  payoffDate: string;
+  installmentsPaid: number;
+  installmentsRemaining: number;
+  principalPaidToDate: number;
+  interestPaidToDate: number;
+  outstandingPrincipal: number;
+  nextDueDate: string | null;
+}
+
+export type InstallmentStatus = 'paid' | 'due' | 'missed' | 'upcoming';
+
+export interface InstallmentPayment {
+  row: AmortizationRow;
+  status: InstallmentStatus;
+  transaction?: Transaction; // The EMI debit matched to this row
+}
+
+export interface PrepaymentScenario {
+  strategy: PrepaymentStrategy;
+  emi: number; // EMI after the prepayment
+  installments: number;
+  payoffDate: string;
+  totalInterest: number;
+  interestSaved: number;
+  monthsSaved: number;
+}
+
+export const LOAN_KIND_OPTIONS: { value: LoanKind; label: string }[] = [
+  { value: LoanKind.HOME, label: 'Home loan' },
+  { value: LoanKind.CAR, label: 'Car loan' },
+  { value: LoanKind.PERSONAL, label: 'Personal loan' },
+  { value: LoanKind.EDUCATION, label: 'Education loan' },
+  { value: LoanKind.OTHER, label: 'Other loan' },
+];
+
+export const PREPAYMENT_STRATEGY_LABELS: Record<PrepaymentStrategy, string> = {
+  reduce_tenure: 'Keep EMI, finish sooner',
+  reduce_emi: 'Keep end date, lower EMI',
+};
+
+// Stops a schedule that can never be repaid (EMI below the interest) from running forever
+const MAX_INSTALLMENTS = 1200;
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const monthlyRate = (annualInterestRate: number): number => annualInterestRate / 12 / 100;
+
+export const calculateEmi = (principal: number, annualInterestRate: number, months: number): number => {
+  if (principal <= 0 || months <= 0) return 0;
+  const rate = monthlyRate(annualInterestRate);
+  if (rate === 0) return round(principal / months);
+  const growth = Math.pow(1 + rate, months);
+  return round((principal * rate * growth) / (growth - 1));
+};
+
+export const validateLoanTerms = (terms: LoanTerms): string | null => {
+  if (!(terms.principal > 0)) return 'Loan amount must be greater than zero';
+  if (!(terms.annualInterestRate >= 0) || terms.annualInterestRate > 100) return 'Interest rate must be between 0 and 100%';
+  if (!Number.isInteger(terms.tenureMonths) || terms.tenureMonths <= 0) return 'Tenure must be a whole number of months';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(terms.startDate)) return 'First EMI date is required';
+  return null;
+};
+
+// Prepayments are paid alongside the EMI they fall due with. Reducing the EMI keeps the
+// original end date; reducing the tenure keeps the EMI so the loan finishes early.
+export const buildAmortizationSchedule = (terms: LoanTerms, prepayments: LoanPrepayment[] = []): AmortizationRow[] => {
+  const rate = monthlyRate(terms.annualInterestRate);
+  const start = parseISO(terms.startDate);
+  const pending = [...prepayments].sort((a, b) => a.date.localeCompare(b.date));
+  const rows: AmortizationRow[] = [];
+  let balance = terms.principal;
+  let emi = calculateEmi(terms.principal, terms.annualInterestRate, terms.tenureMonths);
+
+  for (let installment = 1; balance > 0.005 && installment <= MAX_INSTALLMENTS; installment++) {
+    const dueDate = format(addMonths(start, installment - 1), 'yyyy-MM-dd');
+    const openingBalance = balance;
+    const interest = round(balance * rate);
+    // The last scheduled EMI clears whatever the rounded EMIs left behind instead of spilling into an extra month
+    const principal = installment >= terms.tenureMonths
+      ? balance
+      : round(Math.min(Math.max(emi - interest, 0), balance));
+    balance = round(balance - principal);
+
+    let prepayment = 0;
+    let strategy: PrepaymentStrategy | null = null;
+    while (pending.length > 0 && pending[0].date <= dueDate) {
+      const next = pending.shift() as LoanPrepayment;
+      const amount = round(Math.min(next.amount, balance - prepayment));
+      prepayment = round(prepayment + Math.max(amount, 0));
+      strategy = next.strategy;
+    }
+    balance = round(balance - prepayment);
+
+    rows.push({
+      installment,
+      dueDate,
+      openingBalance,
+      emi: round(interest + principal),
+      interest,
+      principal,
+      prepayment,
+      closingBalance: balance,
+    });
+
+    if (prepayment > 0 && strategy === 'reduce_emi') {
+      emi = calculateEmi(balance, terms.annualInterestRate, Math.max(terms.tenureMonths - installment, 1));
+    }
+  }
+
+  return rows;
+};
+
+// Only installments matched to an EMI debit count as paid; a missed EMI stays in the outstanding principal
+export const summarizeLoan = (
+  schedule: AmortizationRow[],
+  payments: InstallmentPayment[],
+  asOf: Date = new Date()
+): LoanSummary => {
+  const today = format(startOfDay(asOf), 'yyyy-MM-dd');
+  const paid = payments.filter(payment => payment.status === 'paid').map(payment => payment.row);
+  const upcoming = schedule.find(row => row.dueDate > today);
+  const principal = schedule[0]?.openingBalance ?? 0;
+  const principalPaidToDate = round(paid.reduce((sum, row) => sum + row.principal + row.prepayment, 0));
+
+  return {
+    emi: schedule[0]?.emi ?? 0,
+    totalInterest: round(schedule.reduce((sum, row) => sum + row.interest, 0)),
+    totalPayment: round(schedule.reduce((sum, row) => sum + row.emi + row.prepayment, 0)),
+    payoffDate: schedule[schedule.length - 1]?.dueDate ?? '',
+    installmentsPaid: paid.length,
+    installmentsRemaining: schedule.length - paid.length,
+    principalPaidToDate,
+    interestPaidToDate: round(paid.reduce((sum, row) => sum + row.interest, 0)),
+    outstandingPrincipal: round(Math.max(principal - principalPaidToDate, 0)),
+    nextDueDate: upcoming?.dueDate ?? null,
+  };
+};
+
+// Words that identify an EMI debit for this loan: the lender, the loan's name and the generic markers
+const getEmiKeywords = (account: BankAccount): string[] => {
+  const names = normalizeDescription(`${account.bankName} ${account.accountName}`)
+    .split(' ')
+    .filter(word => word.length > 2 && word !== 'bank' && word !== 'loan');
+  return ['emi', 'loan', ...names];
+};
+
+// Matches expense transactions to schedule rows: within LOAN_EMI_MATCH_WINDOW_DAYS of the due date,
+// within tolerance of the EMI and either paid into the loan account or described like an EMI.
+// Rows still inside their window are 'due'; rows past it without a payment are 'missed'.
+export const matchEmiPayments = (
+  account: BankAccount,
+  schedule: AmortizationRow[],
+  transactions: Transaction[],
+  asOf: Date = new Date()
+): InstallmentPayment[] => {
+  const today = format(startOfDay(asOf), 'yyyy-MM-dd');
+  const keywords = getEmiKeywords(account);
+  const used = new Set<string>();
+
+  const isEmiDebit = (transaction: Transaction): boolean => {
+    if (transaction.type !== TransactionType.EXPENSE && transaction.transferAccountId !== account.id) return false;
+    if (transaction.accountId === account.id || transaction.transferAccountId === account.id) return true;
+    const words = normalizeDescription(`${transaction.merchant || ''} ${transaction.description}`).split(' ');
+    return keywords.some(keyword => words.includes(keyword));
+  };
+  const candidates = transactions.filter(isEmiDebit);
+
+  return schedule.map(row => {
+    const due = parseISO(row.dueDate);
+    const windowStart = format(addDays(due, -LOAN_EMI_MATCH_WINDOW_DAYS), 'yyyy-MM-dd');
+    const windowEnd = format(addDays(due, LOAN_EMI_MATCH_WINDOW_DAYS), 'yyyy-MM-dd');
+    const distance = (transaction: Transaction) => Math.abs(differenceInCalendarDays(new Date(transaction.date), due));
+
+    const transaction = candidates
+      .filter(candidate => {
+        if (used.has(candidate.id)) return false;
+        const day = format(new Date(candidate.date), 'yyyy-MM-dd');
+        if (day < windowStart || day > windowEnd) return false;
+        return Math.abs(Math.abs(candidate.amount) - row.emi) <= row.emi * RECURRING_AMOUNT_TOLERANCE;
+      })
+      .sort((a, b) => distance(a) - distance(b))[0];
+
+    if (transaction) {
+      used.add(transaction.id);
+      return { row, status: 'paid', transaction };
+    }
+    const status: InstallmentStatus = row.dueDate > today ? 'upcoming' : windowEnd >= today ? 'due' : 'missed';
+    return { row, status };
+  });
+};
+
+// What a one-off prepayment would do under each strategy, compared with not prepaying
+export const simulatePrepayment = (terms: LoanTerms, amount: number, date: string): PrepaymentScenario[] => {
+  const baseline = buildAmortizationSchedule(terms);
+  const baselineInterest = baseline.reduce((sum, row) => sum + row.interest, 0);
+
+  return (['reduce_tenure', 'reduce_emi'] as PrepaymentStrategy[]).map(strategy => {
+    const schedule = buildAmortizationSchedule(terms, [{ date, amount, strategy }]);
+    const totalInterest = round(schedule.reduce((sum, row) => sum + row.interest, 0));
+    const prepaidAt = schedule.findIndex(row => row.prepayment > 0);
+    const nextRow = prepaidAt >= 0 ? schedule[prepaidAt + 1] : undefined;
+
+    return {
+      strategy,
+      emi: nextRow?.emi ?? 0,
+      installments: schedule.length,
+      payoffDate: schedule[schedule.length - 1]?.dueDate ?? '',
+      totalInterest,
+      interestSaved: round(baselineInterest - totalInterest),
+      monthsSaved: baseline.length - schedule.length,
+    };
+  });
+};
@@ -0,0 +1,127 @@
+import { Account } from '@/types/financial.types';
+import { AccountType } from '@/types/api.types';
+import { Investment } from '@/types/investment.types';
+import {
+  ManualAsset,
+  MonthlyNetWorthChange,
+  NetWorthClass,
+  NetWorthSnapshot
+} from '@/types/networth.types';
+
+// Classes valued from each source, so a source that fails to load can keep its last known values
+export const ACCOUNT_NET_WORTH_CLASSES = [NetWorthClass.CASH, NetWorthClass.CREDIT_CARDS, NetWorthClass.LOANS];
+export const INVESTMENT_NET_WORTH_CLASSES = [NetWorthClass.INVESTMENTS];
+
+export const NET_WORTH_CLASSES: { value: NetWorthClass; label: string; isLiability: boolean }[] = [
+  { value: NetWorthClass.CASH, label: 'Cash', isLiability: false },
+  { value: NetWorthClass.INVESTMENTS, label: 'Investments', isLiability: false },
+  { value: NetWorthClass.PROPERTY, label: 'Property', isLiability: false },
+  { value: NetWorthClass.VEHICLES, label: 'Vehicles', isLiability: false },
+  { value: NetWorthClass.OTHER_ASSETS, label: 'Other assets', isLiability: false },
+  { value: NetWorthClass.CREDIT_CARDS, label: 'Credit cards', isLiability: true },
+  { value: NetWorthClass.LOANS, label: 'Loans', isLiability: true },
+];
+
+export const MANUAL_ASSET_CLASS_OPTIONS = NET_WORTH_CLASSES.filter(option =>
+  [NetWorthClass.PROPERTY, NetWorthClass.VEHICLES, NetWorthClass.OTHER_ASSETS].includes(option.value)
+);
+
+export const isLiabilityClass = (assetClass: NetWorthClass): boolean =>
+  NET_WORTH_CLASSES.some(option => option.value === assetClass && option.isLiability);
+
+export const getNetWorthClassLabel = (assetClass: NetWorthClass): string =>
+  NET_WORTH_CLASSES.find(option => option.value === assetClass)?.label || assetClass;
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const emptyBreakdown = (): Record<NetWorthClass, number> =>
+  Object.fromEntries(NET_WORTH_CLASSES.map(option => [option.value, 0])) as Record<NetWorthClass, number>;
+
+// Investment accounts are left out because the portfolio already reports those holdings
+const getAccountClass = (account: Account): NetWorthClass | null => {
+  switch (account.accountType) {
+    case AccountType.CREDIT_CARD:
+      return NetWorthClass.CREDIT_CARDS;
+    case AccountType.LOAN:
+      return NetWorthClass.LOANS;
+    case AccountType.INVESTMENT:
+      return null;
+    default:
+      return NetWorthClass.CASH;
+  }
+};
+
+export interface NetWorthSources {
+  accounts: Account[]; // Balances already in the base currency
+  investments: Investment[];
+  manualAssets: ManualAsset[];
+}
+
+export const buildNetWorthSnapshot = ({ accounts, investments, manualAssets }: NetWorthSources, date: string): NetWorthSnapshot => {
+  const breakdown = emptyBreakdown();
+
+  accounts
+    .filter(account => account.isActive)
+    .forEach(account => {
+      const assetClass = getAccountClass(account);
+      if (!assetClass) return;
+      // Debt balances are reported either signed or as the amount owed; both mean money owed
+      breakdown[assetClass] += isLiabilityClass(assetClass) ? Math.abs(account.balance) : account.balance;
+    });
+  investments.forEach(investment => {
+    breakdown[NetWorthClass.INVESTMENTS] += investment.currentValue;
+  });
+  manualAssets.forEach(asset => {
+    breakdown[asset.assetClass] += asset.value;
+  });
+
+  return summarizeNetWorth(breakdown, date);
+};
+
+// Totals a per-class breakdown into a snapshot
+export const summarizeNetWorth = (breakdown: Record<NetWorthClass, number>, date: string): NetWorthSnapshot => {
+  const rounded = Object.fromEntries(
+    NET_WORTH_CLASSES.map(option => [option.value, round(breakdown[option.value] ?? 0)])
+  ) as Record<NetWorthClass, number>;
+  const totalAssets = round(
+    NET_WORTH_CLASSES.filter(option => !option.isLiability).reduce((sum, option) => sum + rounded[option.value], 0)
+  );
+  const totalLiabilities = round(
+    NET_WORTH_CLASSES.filter(option => option.isLiability).reduce((sum, option) => sum + rounded[option.value], 0)
+  );
+
+  return { date, totalAssets, totalLiabilities, netWorth: round(totalAssets - totalLiabilities), breakdown: rounded };
+};
+
+// Each month is represented by its last snapshot and compared with the month before it that has one
+export const getMonthlyNetWorthChanges = (snapshots: NetWorthSnapshot[]): MonthlyNetWorthChange[] => {
+  const closing = new Map<string, NetWorthSnapshot>();
+  [...snapshots]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(snapshot => closing.set(snapshot.date.slice(0, 7), snapshot));
+
+  const months = [...closing.keys()].sort();
+  return months.map((month, index) => {
+    const current = closing.get(month) as NetWorthSnapshot;
+    const previous = index > 0 ? closing.get(months[index - 1]) : undefined;
+    const change = previous ? round(current.netWorth - previous.netWorth) : 0;
+
+    return {
+      month,
+      netWorth: current.netWorth,
+      change,
+      changePercentage: previous && previous.netWorth !== 0 ? round((change / Math.abs(previous.netWorth)) * 100) : 0,
+      classChanges: NET_WORTH_CLASSES.map(option => {
+        const before = previous?.breakdown[option.value] ?? 0;
+        const after = current.breakdown[option.value] ?? 0;
+        return {
+          assetClass: option.value,
+          previous: before,
+          current: after,
+          // Paying down a liability raises net worth, so its change counts the other way
+          change: previous ? round(option.isLiability ? before - after : after - before) : 0
+        };
+      })
+    };
+  });
+};
@@ -0,0 +1,40 @@
+import { Notification, NotificationSettings } from '@/types/financial.types';
+import { DEFAULT_BILL_REMINDER_DAYS, DEFAULT_CREDIT_UTILIZATION_THRESHOLD } from './constants';
+
+export const NOTIFICATIONS_PAGE_SIZE = 10;
+
+// Used until the user's saved settings load, or when none have been saved yet
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  emailNotifications: {
+    budgetAlerts: true,
+    goalMilestones: true,
+    billReminders: true,
+    weeklyReports: false,
+    monthlyReports: true,
+    securityAlerts: true,
+  },
+  pushNotifications: {
+    budgetAlerts: true,
+    goalMilestones: true,
+    billReminders: true,
+    transactionAlerts: false,
+    securityAlerts: true,
+  },
+  frequency: {
+    digestFrequency: 'weekly',
+    reminderDays: DEFAULT_BILL_REMINDER_DAYS,
+  },
+  thresholds: {
+    creditUtilization: DEFAULT_CREDIT_UTILIZATION_THRESHOLD,
+  },
+};
+
+export const isNotificationExpired = (notification: Notification, now: Date = new Date()): boolean =>
+  !!notification.expiresAt && new Date(notification.expiresAt).getTime() <= now.getTime();
+
+// Expired notifications no longer need attention, so they never count as unread
+export const isNotificationUnread = (notification: Notification, now: Date = new Date()): boolean =>
+  !notification.isRead && !isNotificationExpired(notification, now);
+
+// Action links pointing inside the app are routed; anything else opens in a new tab
+export const isInternalActionUrl = (url: string): boolean => url.startsWith('/') && !url.startsWith('//');
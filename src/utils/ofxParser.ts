@@ -0,0 +1,88 @@
+// OFX/QFX parsing for both OFX 1.x (SGML, unclosed leaf tags) and OFX 2.x (XML)
+import { StatementEntry } from '@/types/import.types';
+
+const decodeEntities = (value: string): string => {
+  return value
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&');
+};
+
+// Leaf value of <TAG>value, whether or not the tag is closed
+const readTag = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1]).trim() : '';
+  return value || undefined;
+};
+
+// OFX dates look like 20240315, 20240315120000 or 20240315120000.000[-5:EST]
+export const parseOFXDate = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  return isNaN(date.getTime()) || date.getDate() !== Number(day) ? null : date;
+};
+
+export const isOFX = (text: string): boolean => {
+  return /OFXHEADER|<OFX>/i.test(text.slice(0, 2000));
+};
+
+export interface OFXStatement {
+  accountId?: string;
+  currency?: string;
+  entries: StatementEntry[];
+  errors: string[];
+}
+
+// Some European banks write the decimal separator as a comma; whichever of '.' or ',' comes last is the
+// decimal point and the other only groups thousands
+const parseOFXAmount = (value: string): number => {
+  const text = value.replace(/\s/g, '');
+  return text.lastIndexOf(',') > text.lastIndexOf('.')
+    ? parseFloat(text.replace(/\./g, '').replace(',', '.'))
+    : parseFloat(text.replace(/,/g, ''));
+};
+
+export const parseOFX = (text: string): OFXStatement => {
+  const entries: StatementEntry[] = [];
+  const errors: string[] = [];
+  const currency = readTag(text, 'CURDEF');
+
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  blocks.forEach((block, index) => {
+    const fitId = readTag(block, 'FITID');
+    const postedText = readTag(block, 'DTPOSTED');
+    const amountText = readTag(block, 'TRNAMT');
+
+    const postedDate = postedText ? parseOFXDate(postedText) : null;
+    const amount = amountText ? parseOFXAmount(amountText) : NaN;
+
+    if (!fitId || !postedDate || isNaN(amount)) {
+      errors.push(`Transaction ${index + 1}: missing or invalid FITID, DTPOSTED or TRNAMT`);
+      return;
+    }
+
+    entries.push({
+      externalId: fitId,
+      postedDate,
+      amount,
+      payee: readTag(block, 'NAME') || readTag(block, 'PAYEE'),
+      memo: readTag(block, 'MEMO'),
+      reference: readTag(block, 'CHECKNUM') || readTag(block, 'REFNUM'),
+      currency: readTag(block, 'CURSYM') || currency
+    });
+  });
+
+  return {
+    accountId: readTag(text, 'ACCTID'),
+    currency,
+    entries,
+    errors
+  };
+};
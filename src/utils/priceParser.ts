@@ -0,0 +1,87 @@
+// Price files: CSV of symbol/date/price, and AMFI NAV text (NAVAll.txt)
+import { PricePoint } from '@/types/investment.types';
+import { parseCSV, detectDelimiter } from './csvParser';
+import { detectDateFormat, parseStatementAmount, parseStatementDate, toISODate } from './importParsers';
+
+export type ParsedPrice = Omit<PricePoint, 'source'>;
+
+export interface ParsedPriceFile {
+  format: 'csv' | 'amfi';
+  prices: ParsedPrice[];
+  errors: string[];
+}
+
+export const normalizePriceSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+// AMFI rows are "Scheme Code;ISIN Payout/Growth;ISIN Reinvestment;Scheme Name;Net Asset Value;Date"
+export const isAMFINav = (text: string): boolean => {
+  const head = text.slice(0, 2000);
+  return /scheme code\s*;/i.test(head) || /^\d+;[^;\n]*;[^;\n]*;[^;\n]+;[\d.]+;\d{2}-[a-z]{3}-\d{4}\s*$/im.test(head);
+};
+
+export const parseAMFINav = (text: string): ParsedPriceFile => {
+  const prices: ParsedPrice[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const fields = line.split(';').map(field => field.trim());
+    // Fund house and category headings, blank lines and the header have no numeric scheme code
+    if (fields.length < 6 || !/^\d+$/.test(fields[0])) return;
+
+    const [code, isinGrowth, isinReinvest, , nav, dateText] = fields;
+    const price = parseFloat(nav);
+    const date = parseStatementDate(dateText, 'dd-MMM-yyyy');
+    if (!(price > 0) || !date) {
+      // Schemes without a current NAV publish "N.A."
+      if (!/^n\.?a\.?$/i.test(nav)) errors.push(`Line ${index + 1}: unreadable NAV or date`);
+      return;
+    }
+
+    // Stored under the scheme code and each ISIN so a holding can use any of them as its symbol
+    [code, isinGrowth, isinReinvest]
+      .filter(symbol => symbol && symbol !== '-')
+      .forEach(symbol => prices.push({ symbol: normalizePriceSymbol(symbol), date: toISODate(date), price }));
+  });
+
+  if (prices.length === 0 && errors.length === 0) errors.push('No NAVs found in the file');
+  return { format: 'amfi', prices, errors };
+};
+
+const findColumn = (headers: string[], patterns: RegExp[]): number =>
+  headers.findIndex(header => patterns.some(pattern => pattern.test(header)));
+
+export const parsePriceCSV = (text: string): ParsedPriceFile => {
+  const [headerRow = [], ...rows] = parseCSV(text, detectDelimiter(text));
+  const headers = headerRow.map(header => header.trim().toLowerCase());
+  const symbolColumn = findColumn(headers, [/symbol/, /ticker/, /isin/, /scheme code/, /^code$/]);
+  const dateColumn = findColumn(headers, [/date/]);
+  const priceColumn = findColumn(headers, [/price/, /nav/, /close/, /value/]);
+
+  if (symbolColumn < 0 || dateColumn < 0 || priceColumn < 0) {
+    return { format: 'csv', prices: [], errors: ['The file needs symbol, date and price columns'] };
+  }
+
+  const dataRows = rows.filter(row => row.some(cell => cell.trim()));
+  // Cells without digits can't be dates in any format, so they don't get a say in which one is used
+  const dateFormat = detectDateFormat(
+    dataRows.map(row => row[dateColumn] || '').filter(value => /\d/.test(value))
+  );
+  const prices: ParsedPrice[] = [];
+  const errors: string[] = [];
+
+  dataRows.forEach((row, index) => {
+    const symbol = normalizePriceSymbol(row[symbolColumn] || '');
+    const date = parseStatementDate(row[dateColumn] || '', dateFormat);
+    const price = parseStatementAmount(row[priceColumn] || '');
+    if (!symbol || !date || price === null || price <= 0) {
+      errors.push(`Row ${index + 2}: needs a symbol, a date and a positive price`);
+      return;
+    }
+    prices.push({ symbol, date: toISODate(date), price });
+  });
+
+  return { format: 'csv', prices, errors };
+};
+
+export const parsePriceFile = (text: string): ParsedPriceFile =>
+  isAMFINav(text) ? parseAMFINav(text) : parsePriceCSV(text);
@@ -0,0 +1,180 @@
+import { Investment } from '@/types/investment.types';
+import { REBALANCE_MAX_TOLERANCE } from './constants';
+import {
+  ASSET_CLASSES,
+  ASSET_CLASS_LABELS,
+  AssetAllocation,
+  AssetClass,
+  getAssetClass,
+  getCurrentAllocation,
+} from './investmentSuggestions';
+
+export type TargetAllocationSource = 'risk_profile' | 'manual';
+
+export type RebalanceMode = 'buy_sell' | 'contributions_only';
+
+export interface RebalanceSettings {
+  source: TargetAllocationSource;
+  allocation: AssetAllocation | null; // Only kept for a manual target; a risk profile target is derived each time
+  toleranceBand: number; // Percentage points either side of target
+  updatedAt: string;
+}
+
+export interface AllocationDrift {
+  assetClass: AssetClass;
+  currentValue: number;
+  currentPercentage: number;
+  targetPercentage: number;
+  drift: number; // Percentage points over (+) or under (-) target
+  isOutsideBand: boolean;
+}
+
+export interface RebalanceHoldingTrade {
+  investmentId: string;
+  name: string;
+  amount: number;
+}
+
+export interface RebalanceTrade {
+  assetClass: AssetClass;
+  action: 'buy' | 'sell';
+  amount: number;
+  holdings: RebalanceHoldingTrade[]; // Empty when a buy has no existing holding in the class to add to
+}
+
+export interface RebalancePlan {
+  mode: RebalanceMode;
+  isNeeded: boolean; // Some asset class sits outside the tolerance band
+  trades: RebalanceTrade[];
+  totalBuys: number;
+  totalSells: number;
+  projectedDrift: AllocationDrift[]; // Where each class lands once the trades are made
+}
+
+export interface RebalancePlanOptions {
+  mode: RebalanceMode;
+  toleranceBand: number;
+  contribution?: number; // New money to invest alongside the plan
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const sumAllocation = (allocation: AssetAllocation): number =>
+  ASSET_CLASSES.reduce((sum, assetClass) => sum + allocation[assetClass], 0);
+
+// Why an allocation can't be used as a target, or null when it can
+export const validateTargetAllocation = (allocation: AssetAllocation): string | null => {
+  const invalid = ASSET_CLASSES.find(assetClass => !(allocation[assetClass] >= 0 && allocation[assetClass] <= 100));
+  if (invalid) {
+    return `${ASSET_CLASS_LABELS[invalid]} must be between 0% and 100%`;
+  }
+  const total = round(sumAllocation(allocation));
+  return total === 100 ? null : `Target allocation must add up to 100% (currently ${total}%)`;
+};
+
+export const validateToleranceBand = (toleranceBand: number): string | null =>
+  toleranceBand > 0 && toleranceBand <= REBALANCE_MAX_TOLERANCE
+    ? null
+    : `Drift tolerance must be more than 0 and at most ${REBALANCE_MAX_TOLERANCE} percentage points`;
+
+const getDrift = (values: AssetAllocation, target: AssetAllocation, toleranceBand: number): AllocationDrift[] => {
+  const total = sumAllocation(values);
+  return ASSET_CLASSES.map(assetClass => {
+    const currentPercentage = total > 0 ? (values[assetClass] / total) * 100 : 0;
+    const drift = currentPercentage - target[assetClass];
+    return {
+      assetClass,
+      currentValue: round(values[assetClass]),
+      currentPercentage: round(currentPercentage),
+      targetPercentage: target[assetClass],
+      drift: round(drift),
+      isOutsideBand: total > 0 && Math.abs(drift) > toleranceBand,
+    };
+  });
+};
+
+export const getAllocationDrift = (
+  investments: Investment[],
+  target: AssetAllocation,
+  toleranceBand: number
+): AllocationDrift[] => getDrift(getCurrentAllocation(investments), target, toleranceBand);
+
+// Splits a class-level trade across its holdings in proportion to their value
+const splitAcrossHoldings = (investments: Investment[], assetClass: AssetClass, amount: number): RebalanceHoldingTrade[] => {
+  const holdings = investments.filter(
+    investment => getAssetClass(investment.type) === assetClass && investment.currentValue > 0
+  );
+  const classValue = holdings.reduce((sum, investment) => sum + investment.currentValue, 0);
+  return holdings
+    .map(investment => ({
+      investmentId: investment.id,
+      name: investment.name,
+      amount: round((amount * investment.currentValue) / classValue),
+    }))
+    .filter(trade => trade.amount > 0)
+    .sort((a, b) => b.amount - a.amount);
+};
+
+// Spreads new money over the underweight classes in proportion to how far each is below target.
+// Every class at target once the money is in would need exactly the contribution, so it is never overspent.
+const getContributionAmounts = (values: AssetAllocation, target: AssetAllocation, contribution: number): AssetAllocation => {
+  const total = sumAllocation(values) + contribution;
+  const shortfalls = ASSET_CLASSES.map(assetClass => Math.max(0, (total * target[assetClass]) / 100 - values[assetClass]));
+  const totalShortfall = shortfalls.reduce((sum, shortfall) => sum + shortfall, 0);
+
+  const amounts: AssetAllocation = { equity: 0, debt: 0, gold: 0, real_estate: 0 };
+  ASSET_CLASSES.forEach((assetClass, index) => {
+    amounts[assetClass] =
+      totalShortfall > 0
+        ? (contribution * shortfalls[index]) / totalShortfall
+        : (contribution * target[assetClass]) / 100;
+  });
+  return amounts;
+};
+
+// Buy/sell plans trade every class back to target once any class leaves the band, and otherwise only
+// place new money. Contribution-only plans never sell; they steer new money towards what's underweight.
+export const buildRebalancePlan = (
+  investments: Investment[],
+  target: AssetAllocation,
+  { mode, toleranceBand, contribution = 0 }: RebalancePlanOptions
+): RebalancePlan => {
+  const values = getCurrentAllocation(investments);
+  const isNeeded = getDrift(values, target, toleranceBand).some(drift => drift.isOutsideBand);
+  const newMoney = Math.max(0, contribution);
+
+  let amounts: AssetAllocation;
+  if (mode === 'buy_sell' && isNeeded) {
+    const total = sumAllocation(values) + newMoney;
+    amounts = { equity: 0, debt: 0, gold: 0, real_estate: 0 };
+    ASSET_CLASSES.forEach(assetClass => {
+      amounts[assetClass] = (total * target[assetClass]) / 100 - values[assetClass];
+    });
+  } else {
+    amounts = getContributionAmounts(values, target, newMoney);
+  }
+
+  const trades: RebalanceTrade[] = ASSET_CLASSES.map(assetClass => {
+    const amount = round(Math.abs(amounts[assetClass]));
+    return {
+      assetClass,
+      action: amounts[assetClass] < 0 ? ('sell' as const) : ('buy' as const),
+      amount,
+      holdings: splitAcrossHoldings(investments, assetClass, amount),
+    };
+  }).filter(trade => trade.amount > 0);
+
+  const projected = { ...values };
+  ASSET_CLASSES.forEach(assetClass => {
+    projected[assetClass] = Math.max(0, values[assetClass] + amounts[assetClass]);
+  });
+
+  return {
+    mode,
+    isNeeded,
+    trades,
+    totalBuys: round(trades.filter(trade => trade.action === 'buy').reduce((sum, trade) => sum + trade.amount, 0)),
+    totalSells: round(trades.filter(trade => trade.action === 'sell').reduce((sum, trade) => sum + trade.amount, 0)),
+    projectedDrift: getDrift(projected, target, toleranceBand),
+  };
+};
@@ -0,0 +1,197 @@
+import { addMonths, addWeeks, addYears, differenceInCalendarDays, startOfDay } from 'date-fns';
+import {
+  RecurringFrequency,
+  RecurringStatus,
+  RecurringTransaction,
+  Transaction,
+  TransactionCategory,
+  TransactionType,
+} from '@/types/expense.types';
+import { RECURRING_AMOUNT_TOLERANCE, RECURRING_DETECTION_MIN_OCCURRENCES } from './constants';
+import { normalizeDescription } from './importParsers';
+
+// Expected interval and the range of gaps (in days) still treated as that frequency
+const FREQUENCY_WINDOWS: Array<{ frequency: RecurringFrequency; days: number; min: number; max: number }> = [
+  { frequency: RecurringFrequency.WEEKLY, days: 7, min: 6, max: 8 },
+  { frequency: RecurringFrequency.BIWEEKLY, days: 14, min: 12, max: 16 },
+  { frequency: RecurringFrequency.MONTHLY, days: 30.44, min: 26, max: 35 },
+  { frequency: RecurringFrequency.QUARTERLY, days: 91.3, min: 82, max: 100 },
+  { frequency: RecurringFrequency.YEARLY, days: 365.25, min: 350, max: 380 },
+];
+
+// Payment-rail noise that differs between charges from the same merchant
+const MERCHANT_STOP_WORDS = new Set([
+  'upi', 'pos', 'ach', 'nach', 'ecs', 'neft', 'imps', 'rtgs', 'si', 'autopay', 'payment', 'debit',
+  'credit', 'card', 'txn', 'ref', 'to', 'from', 'by', 'for', 'www', 'com', 'in', 'ltd', 'pvt',
+]);
+
+export const getMerchantKey = (transaction: Pick<Transaction, 'merchant' | 'description'>): string => {
+  const words = normalizeDescription(transaction.merchant || transaction.description)
+    .split(' ')
+    .filter(word => word.length > 1 && !MERCHANT_STOP_WORDS.has(word) && !/^\d+$/.test(word));
+  return words.slice(0, 3).join(' ');
+};
+
+export const getNextOccurrence = (date: Date, frequency: RecurringFrequency): Date => {
+  switch (frequency) {
+    case RecurringFrequency.WEEKLY:
+      return addWeeks(date, 1);
+    case RecurringFrequency.BIWEEKLY:
+      return addWeeks(date, 2);
+    case RecurringFrequency.QUARTERLY:
+      return addMonths(date, 3);
+    case RecurringFrequency.YEARLY:
+      return addYears(date, 1);
+    default:
+      return addMonths(date, 1);
+  }
+};
+
+// Approximate number of occurrences per month, for normalising subscription costs
+export const getMonthlyMultiplier = (frequency: RecurringFrequency): number => {
+  const window = FREQUENCY_WINDOWS.find(w => w.frequency === frequency);
+  return window ? 30.44 / window.days : 1;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const transactionDate = (transaction: Transaction): Date => startOfDay(new Date(transaction.date));
+
+// Split one merchant's transactions into groups whose amounts are within tolerance of each other
+const clusterByAmount = (transactions: Transaction[]): Transaction[][] => {
+  const sorted = [...transactions].sort((a, b) => Math.abs(a.amount) - Math.abs(b.amount));
+  const clusters: Transaction[][] = [];
+  let current: Transaction[] = [];
+  let total = 0;
+
+  sorted.forEach(transaction => {
+    const amount = Math.abs(transaction.amount);
+    const mean = current.length > 0 ? total / current.length : amount;
+
+    if (current.length > 0 && Math.abs(amount - mean) > mean * RECURRING_AMOUNT_TOLERANCE) {
+      clusters.push(current);
+      current = [];
+      total = 0;
+    }
+    current.push(transaction);
+    total += amount;
+  });
+
+  if (current.length > 0) clusters.push(current);
+  return clusters;
+};
+
+const mostCommon = <T,>(values: T[]): T => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+const analyseSeries = (
+  transactions: Transaction[],
+  asOf: Date
+): Omit<RecurringTransaction, 'id'> | null => {
+  // One charge per day - duplicates on the same day would otherwise look like a 0-day interval
+  const byDay = new Map<number, Transaction>();
+  transactions.forEach(t => byDay.set(transactionDate(t).getTime(), t));
+  const series = [...byDay.values()].sort((a, b) => transactionDate(a).getTime() - transactionDate(b).getTime());
+
+  if (series.length < RECURRING_DETECTION_MIN_OCCURRENCES) return null;
+
+  const intervals = series.slice(1).map((t, i) => differenceInCalendarDays(transactionDate(t), transactionDate(series[i])));
+  const typicalInterval = median(intervals);
+  const window = FREQUENCY_WINDOWS.find(w => typicalInterval >= w.min && typicalInterval <= w.max);
+  if (!window) return null;
+
+  // Share of gaps that fit the inferred frequency
+  const regularity = intervals.filter(days => days >= window.min && days <= window.max).length / intervals.length;
+  if (regularity < 0.5) return null;
+
+  const amounts = series.map(t => Math.abs(t.amount));
+  const typicalAmount = median(amounts);
+  const meanAmount = amounts.reduce((sum, a) => sum + a, 0) / amounts.length;
+  const deviation = Math.sqrt(amounts.reduce((sum, a) => sum + (a - meanAmount) ** 2, 0) / amounts.length);
+  const amountStability = meanAmount > 0 ? Math.max(0, 1 - deviation / meanAmount) : 0;
+  const historyStrength = Math.min(1, series.length / 6);
+
+  const last = series[series.length - 1];
+  const lastDate = transactionDate(last);
+  const daysSinceLast = differenceInCalendarDays(startOfDay(asOf), lastDate);
+  // A series that has skipped two expected charges has probably stopped
+  const isActive = daysSinceLast <= window.days * 2 + (window.max - window.days);
+
+  let confidence = 0.5 * regularity + 0.3 * amountStability + 0.2 * historyStrength;
+  if (!isActive) confidence *= 0.5;
+
+  let nextDate = getNextOccurrence(lastDate, window.frequency);
+  while (isActive && nextDate < startOfDay(asOf)) {
+    nextDate = getNextOccurrence(nextDate, window.frequency);
+  }
+
+  return {
+    userId: last.userId,
+    description: last.description,
+    merchant: last.merchant,
+    amount: Math.round(typicalAmount * 100) / 100, // Absolute; direction is given by type
+    type: last.type,
+    category: mostCommon<TransactionCategory>(series.map(t => t.category)),
+    frequency: window.frequency,
+    nextDate,
+    isActive,
+    confidence: Math.round(confidence * 100) / 100,
+    occurrences: series.length,
+    lastDate,
+    transactionIds: series.map(t => t.id),
+    status: RecurringStatus.DETECTED,
+    createdAt: transactionDate(series[0]),
+  };
+};
+
+// Cluster transactions by merchant and amount, then keep the clusters that repeat at a regular interval
+export const detectRecurringSeries = (
+  transactions: Transaction[],
+  asOf: Date = new Date()
+): RecurringTransaction[] => {
+  const groups = new Map<string, Transaction[]>();
+
+  transactions.forEach(transaction => {
+    if (!transaction.amount || isNaN(new Date(transaction.date).getTime())) return;
+    // Moving money between own accounts is not a subscription or bill
+    if (transaction.type === TransactionType.TRANSFER) return;
+    const merchantKey = getMerchantKey(transaction);
+    if (!merchantKey) return;
+
+    const type = transaction.type === TransactionType.INCOME ? TransactionType.INCOME : TransactionType.EXPENSE;
+    const key = `${type}:${merchantKey}`;
+    groups.set(key, [...(groups.get(key) || []), transaction]);
+  });
+
+  const detected: RecurringTransaction[] = [];
+  const usedIds = new Set<string>();
+
+  groups.forEach((group, key) => {
+    clusterByAmount(group).forEach(cluster => {
+      const candidate = analyseSeries(cluster, asOf);
+      if (!candidate) return;
+
+      // Same merchant billed twice on the same schedule (e.g. two plans) - keep ids distinct and stable
+      let id = `${key}:${candidate.frequency}`;
+      for (let n = 2; usedIds.has(id); n++) {
+        id = `${key}:${candidate.frequency}:${n}`;
+      }
+      usedIds.add(id);
+      detected.push({ ...candidate, id });
+    });
+  });
+
+  return detected.sort((a, b) => b.confidence - a.confidence || a.nextDate.getTime() - b.nextDate.getTime());
+};
+
+// Days until the next expected charge (negative once overdue)
+export const daysUntil = (date: Date, asOf: Date = new Date()): number => {
+  return differenceInCalendarDays(startOfDay(date), startOfDay(asOf));
+};
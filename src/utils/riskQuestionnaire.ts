@@ -0,0 +1,172 @@
+import { differenceInCalendarMonths, differenceInYears, isValid, parseISO } from 'date-fns';
+import { RiskProfile } from '@/types/auth.types';
+import {
+  RiskAssessment,
+  RiskProfileSnapshot,
+  RiskQuestionId,
+  RiskQuestionnaireAnswers,
+} from '@/types/investment.types';
+import { RISK_REASSESSMENT_INCOME_CHANGE, RISK_REASSESSMENT_MONTHS } from './constants';
+
+export interface RiskQuestionOption {
+  value: string;
+  label: string;
+  score: number; // 1 (most cautious) to 4 (most risk-tolerant)
+  explanation: string;
+}
+
+export interface RiskQuestion {
+  id: RiskQuestionId;
+  title: string;
+  question: string;
+  options: RiskQuestionOption[];
+}
+
+export interface RiskQuestionnaireResult {
+  score: number;
+  maxScore: number;
+  riskProfile: RiskProfile;
+  explanation: string[]; // One line per answer, then why the profile was chosen
+}
+
+export const RISK_QUESTIONS: RiskQuestion[] = [
+  {
+    id: 'horizon',
+    title: 'Investment horizon',
+    question: 'When do you expect to need most of the money you invest?',
+    options: [
+      { value: 'under_1y', label: 'Within a year', score: 1, explanation: 'Money needed within a year has no time to recover from a fall.' },
+      { value: '1_3y', label: 'In 1 to 3 years', score: 2, explanation: 'A few years leaves little room to wait out a downturn.' },
+      { value: '3_7y', label: 'In 3 to 7 years', score: 3, explanation: 'Several years lets most market dips recover.' },
+      { value: 'over_7y', label: 'More than 7 years away', score: 4, explanation: 'A long horizon can ride out several market cycles.' },
+    ],
+  },
+  {
+    id: 'lossTolerance',
+    title: 'Loss tolerance',
+    question: 'Your investments fall 20% in a month. What do you do?',
+    options: [
+      { value: 'sell_all', label: 'Sell everything to stop further losses', score: 1, explanation: 'You would rather lock in a loss than watch it grow.' },
+      { value: 'sell_some', label: 'Sell some and wait', score: 2, explanation: 'Large falls make you uneasy enough to cut back.' },
+      { value: 'hold', label: 'Hold and wait for a recovery', score: 3, explanation: 'You can sit through a fall without acting on it.' },
+      { value: 'buy_more', label: 'Invest more while prices are low', score: 4, explanation: 'You see falls as a chance to buy.' },
+    ],
+  },
+  {
+    id: 'incomeStability',
+    title: 'Income stability',
+    question: 'How predictable is your income?',
+    options: [
+      { value: 'irregular', label: 'Irregular or currently between jobs', score: 1, explanation: 'An unpredictable income may force you to sell at a bad time.' },
+      { value: 'variable', label: 'Varies month to month (freelance, commission, business)', score: 2, explanation: 'A variable income calls for a larger cushion.' },
+      { value: 'stable', label: 'A steady salary', score: 3, explanation: 'A steady salary means you are unlikely to need to sell.' },
+      { value: 'very_stable', label: 'A steady salary plus other income', score: 4, explanation: 'More than one steady income gives you room to take risk.' },
+    ],
+  },
+  {
+    id: 'dependents',
+    title: 'Dependents',
+    question: 'How many people depend on your income?',
+    options: [
+      { value: 'three_plus', label: 'Three or more', score: 1, explanation: 'Several dependents make a loss costlier to absorb.' },
+      { value: 'two', label: 'Two', score: 2, explanation: 'Two dependents call for some caution.' },
+      { value: 'one', label: 'One', score: 3, explanation: 'One dependent leaves moderate room for risk.' },
+      { value: 'none', label: 'No one', score: 4, explanation: 'Only you are affected by how your investments do.' },
+    ],
+  },
+];
+
+export const RISK_PROFILE_DESCRIPTIONS: Record<RiskProfile, string> = {
+  [RiskProfile.CONSERVATIVE]: 'Protecting what you have matters more than growth. Suggestions lean on debt and deposits.',
+  [RiskProfile.BALANCED]: 'You accept some ups and downs for better long-term growth. Suggestions mix equity and debt.',
+  [RiskProfile.AGGRESSIVE]: 'You can ride out large swings for the highest long-term growth. Suggestions lean on equity.',
+};
+
+const MAX_OPTION_SCORE = 4;
+
+// Totals of 4-8 are conservative, 9-12 balanced and 13-16 aggressive
+const CONSERVATIVE_MAX_SCORE = 8;
+const BALANCED_MAX_SCORE = 12;
+
+export const getRiskQuestionOption = (questionId: RiskQuestionId, value: string): RiskQuestionOption | undefined =>
+  RISK_QUESTIONS.find(question => question.id === questionId)?.options.find(option => option.value === value);
+
+export const isQuestionnaireComplete = (answers: Partial<RiskQuestionnaireAnswers>): answers is RiskQuestionnaireAnswers =>
+  RISK_QUESTIONS.every(question => !!getRiskQuestionOption(question.id, answers[question.id] || ''));
+
+// Someone who would sell everything after a fall is conservative whatever else they answer
+export const scoreRiskQuestionnaire = (answers: RiskQuestionnaireAnswers): RiskQuestionnaireResult => {
+  const explanation: string[] = [];
+  let score = 0;
+  RISK_QUESTIONS.forEach(question => {
+    const option = getRiskQuestionOption(question.id, answers[question.id]);
+    if (!option) return;
+    score += option.score;
+    explanation.push(`${question.title}: ${option.explanation}`);
+  });
+
+  const maxScore = RISK_QUESTIONS.length * MAX_OPTION_SCORE;
+  let riskProfile =
+    score <= CONSERVATIVE_MAX_SCORE
+      ? RiskProfile.CONSERVATIVE
+      : score <= BALANCED_MAX_SCORE
+      ? RiskProfile.BALANCED
+      : RiskProfile.AGGRESSIVE;
+  explanation.push(`You scored ${score} out of ${maxScore}, which is ${riskProfile}.`);
+
+  if (answers.lossTolerance === 'sell_all' && riskProfile !== RiskProfile.CONSERVATIVE) {
+    riskProfile = RiskProfile.CONSERVATIVE;
+    explanation.push('Because you would sell everything after a fall, your profile is kept at conservative.');
+  }
+
+  return { score, maxScore, riskProfile, explanation };
+};
+
+export const getRiskProfileSnapshot = (profile: RiskProfileSnapshot | null | undefined): RiskProfileSnapshot => ({
+  annualIncome: profile?.annualIncome || undefined,
+  occupation: profile?.occupation?.trim() || undefined,
+  dateOfBirth: profile?.dateOfBirth || undefined,
+});
+
+// Why the user should retake the questionnaire, or null when the latest assessment still stands
+export const getReassessmentReason = (
+  latest: RiskAssessment | null,
+  profile: RiskProfileSnapshot | null | undefined,
+  asOf: Date = new Date()
+): string | null => {
+  if (!latest) return 'You haven\'t taken the risk questionnaire yet.';
+
+  const monthsSince = differenceInCalendarMonths(asOf, parseISO(latest.completedAt));
+  if (monthsSince >= RISK_REASSESSMENT_MONTHS) {
+    return `Your last assessment was ${monthsSince} months ago. Circumstances change, so it's worth retaking once a year.`;
+  }
+
+  if (!profile) return null;
+  const current = getRiskProfileSnapshot(profile);
+  const previous = latest.profileSnapshot;
+
+  if (current.annualIncome && previous.annualIncome) {
+    const change = (current.annualIncome - previous.annualIncome) / previous.annualIncome;
+    if (Math.abs(change) >= RISK_REASSESSMENT_INCOME_CHANGE) {
+      return `Your annual income has ${change > 0 ? 'risen' : 'fallen'} by ${Math.round(Math.abs(change) * 100)}% since your last assessment.`;
+    }
+  } else if (!!current.annualIncome !== !!previous.annualIncome) {
+    return 'Your annual income has changed since your last assessment.';
+  }
+  if ((current.occupation || '').toLowerCase() !== (previous.occupation || '').toLowerCase()) {
+    return 'Your occupation has changed since your last assessment.';
+  }
+  if (current.dateOfBirth !== previous.dateOfBirth) {
+    return 'Your date of birth has changed since your last assessment.';
+  }
+  return null;
+};
+
+// Whole years between a yyyy-MM-dd birth date and asOf, or null when it's missing or invalid
+export const getAgeFromDateOfBirth = (dateOfBirth: string | undefined, asOf: Date = new Date()): number | null => {
+  if (!dateOfBirth) return null;
+  const birth = parseISO(dateOfBirth.slice(0, 10));
+  if (!isValid(birth)) return null;
+  const age = differenceInYears(asOf, birth);
+  return age >= 0 ? age : null;
+};
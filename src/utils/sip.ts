@@ -0,0 +1,213 @@
+import { addDays, addMonths, differenceInCalendarDays, endOfMonth, format, parseISO, startOfDay, startOfMonth } from 'date-fns';
+import { Transaction, TransactionType } from '@/types/expense.types';
+import { Investment, SipSchedule } from '@/types/investment.types';
+import { RECURRING_AMOUNT_TOLERANCE, SIP_DEBIT_MATCH_WINDOW_DAYS, SIP_PROJECTION_YEARS } from './constants';
+import { normalizeDescription } from './importParsers';
+import { EXPECTED_RETURNS } from './investmentSuggestions';
+import { InstallmentStatus } from './loanAmortization';
+
+export interface SipInstallment {
+  installment: number; // 1-based
+  dueDate: string; // yyyy-MM-dd
+  amount: number; // After any step-ups
+}
+
+export interface SipInstallmentPayment {
+  installment: SipInstallment;
+  status: InstallmentStatus;
+  transaction?: Transaction; // The debit matched to this installment
+}
+
+export interface SipProjectionPoint {
+  date: string; // yyyy-MM-dd
+  invested: number; // Cumulative, including what the holding already cost
+  value: number;
+}
+
+// Stops an open-ended schedule with a start date far in the past from walking forever
+const MAX_INSTALLMENTS = 1200;
+
+// Words in fund names that say nothing about which fund a debit was for
+const GENERIC_FUND_WORDS = new Set(['fund', 'growth', 'direct', 'regular', 'plan', 'option', 'idcw', 'the']);
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+export const validateSipSchedule = (
+  schedule: Pick<SipSchedule, 'amount' | 'dayOfMonth' | 'stepUpPercentage' | 'startDate' | 'endDate'>
+): string | null => {
+  if (!(schedule.amount > 0)) return 'SIP amount must be greater than zero';
+  if (!Number.isInteger(schedule.dayOfMonth) || schedule.dayOfMonth < 1 || schedule.dayOfMonth > 31) {
+    return 'Day of month must be between 1 and 31';
+  }
+  if (!(schedule.stepUpPercentage >= 0) || schedule.stepUpPercentage > 100) return 'Step-up must be between 0 and 100%';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(schedule.startDate)) return 'Start date is required';
+  if (schedule.endDate && schedule.endDate < schedule.startDate) return 'End date must be after the start date';
+  return null;
+};
+
+// The SIP's due day in a given month; short months fall due on their last day
+const getDueDateInMonth = (month: Date, dayOfMonth: number): Date => {
+  const lastDay = endOfMonth(month).getDate();
+  const due = startOfMonth(month);
+  due.setDate(Math.min(dayOfMonth, lastDay));
+  return due;
+};
+
+// Installments step up once a year, on the anniversary of the first one
+export const getSipInstallmentAmount = (schedule: SipSchedule, installment: number): number =>
+  round(schedule.amount * Math.pow(1 + schedule.stepUpPercentage / 100, Math.floor((installment - 1) / 12)));
+
+// Pauses run from the day the SIP was paused up to, but not including, the day it was resumed
+const isPausedOn = (schedule: SipSchedule, dueDate: string): boolean =>
+  (schedule.pauses || []).some(pause => pause.from <= dueDate && (!pause.to || dueDate < pause.to));
+
+// Every installment due up to asOf, plus the next one still to come; months spent paused are left out
+// but still count towards the step-up, which follows the calendar
+export const buildSipInstallments = (schedule: SipSchedule, asOf: Date = new Date()): SipInstallment[] => {
+  const today = toDateKey(startOfDay(asOf));
+  const installments: SipInstallment[] = [];
+  let month = startOfMonth(parseISO(schedule.startDate));
+  if (toDateKey(getDueDateInMonth(month, schedule.dayOfMonth)) < schedule.startDate) {
+    month = addMonths(month, 1);
+  }
+
+  for (let installment = 1; installment <= MAX_INSTALLMENTS; installment++) {
+    const dueDate = toDateKey(getDueDateInMonth(month, schedule.dayOfMonth));
+    if (schedule.endDate && dueDate > schedule.endDate) break;
+
+    if (!isPausedOn(schedule, dueDate)) {
+      installments.push({ installment, dueDate, amount: getSipInstallmentAmount(schedule, installment) });
+    }
+    if (dueDate > today) break;
+    month = addMonths(month, 1);
+  }
+
+  return installments;
+};
+
+// Mandate markers that appear on SIP debits for any fund
+const SIP_DEBIT_MARKERS = ['sip', 'nach', 'ach', 'mutual'];
+
+// Words in the fund's own name and symbol that identify a debit for this SIP
+const getFundKeywords = (investment: Investment): string[] =>
+  normalizeDescription(`${investment.name} ${investment.symbol || ''}`)
+    .split(' ')
+    .filter(word => word.length > 2 && !GENERIC_FUND_WORDS.has(word));
+
+export interface SipMatchInput {
+  schedule: SipSchedule;
+  investment: Investment;
+  installments: SipInstallment[];
+}
+
+// Matches expense transactions to every schedule's installments: within SIP_DEBIT_MATCH_WINDOW_DAYS of the
+// due date, within tolerance of the installment and described like a SIP or the fund. A debit settles only
+// one installment across all schedules, so two SIPs of the same amount on the same day need two debits;
+// installments are settled earliest first, preferring debits that name their fund, then the closest date.
+// Installments still inside their window are 'due'; ones past it without a debit are 'missed'.
+export const matchSipInstallments = (
+  inputs: SipMatchInput[],
+  transactions: Transaction[],
+  asOf: Date = new Date()
+): Map<string, SipInstallmentPayment[]> => {
+  const today = toDateKey(startOfDay(asOf));
+  const used = new Set<string>();
+  const expenses = transactions
+    .filter(transaction => transaction.type === TransactionType.EXPENSE)
+    .map(transaction => ({
+      transaction,
+      words: normalizeDescription(`${transaction.merchant || ''} ${transaction.description}`).split(' '),
+    }));
+
+  const queue = inputs.flatMap(({ schedule, investment, installments }) => {
+    const fundKeywords = getFundKeywords(investment);
+    return installments.map(installment => ({ schedule, fundKeywords, installment }));
+  });
+  queue.sort(
+    (a, b) =>
+      a.installment.dueDate.localeCompare(b.installment.dueDate) ||
+      a.schedule.createdAt.localeCompare(b.schedule.createdAt)
+  );
+
+  const matched = new Map<SipInstallment, Transaction>();
+  queue.forEach(({ fundKeywords, installment }) => {
+    const due = parseISO(installment.dueDate);
+    const windowStart = toDateKey(addDays(due, -SIP_DEBIT_MATCH_WINDOW_DAYS));
+    const windowEnd = toDateKey(addDays(due, SIP_DEBIT_MATCH_WINDOW_DAYS));
+    const distance = (transaction: Transaction) => Math.abs(differenceInCalendarDays(new Date(transaction.date), due));
+    const namesFund = (words: string[]) => fundKeywords.some(keyword => words.includes(keyword));
+
+    const best = expenses
+      .filter(({ transaction, words }) => {
+        if (used.has(transaction.id)) return false;
+        if (!namesFund(words) && !SIP_DEBIT_MARKERS.some(marker => words.includes(marker))) return false;
+        const day = toDateKey(new Date(transaction.date));
+        if (day < windowStart || day > windowEnd) return false;
+        return Math.abs(Math.abs(transaction.amount) - installment.amount) <= installment.amount * RECURRING_AMOUNT_TOLERANCE;
+      })
+      .sort(
+        (a, b) =>
+          Number(namesFund(b.words)) - Number(namesFund(a.words)) ||
+          distance(a.transaction) - distance(b.transaction) ||
+          a.transaction.id.localeCompare(b.transaction.id)
+      )[0];
+
+    if (best) {
+      used.add(best.transaction.id);
+      matched.set(installment, best.transaction);
+    }
+  });
+
+  return new Map(
+    inputs.map(({ schedule, installments }) => [
+      schedule.id,
+      installments.map(installment => {
+        const transaction = matched.get(installment);
+        if (transaction) return { installment, status: 'paid', transaction };
+
+        const windowEnd = toDateKey(addDays(parseISO(installment.dueDate), SIP_DEBIT_MATCH_WINDOW_DAYS));
+        const status: InstallmentStatus =
+          installment.dueDate > today ? 'upcoming' : windowEnd >= today ? 'due' : 'missed';
+        return { installment, status };
+      }),
+    ])
+  );
+};
+
+// Grows the holding at its type's expected return, adding each future installment on its due date.
+// One point per year from asOf until the SIP ends, or SIP_PROJECTION_YEARS for an open-ended one.
+export const projectSipCorpus = (
+  schedule: SipSchedule,
+  investment: Investment,
+  asOf: Date = new Date()
+): SipProjectionPoint[] => {
+  const start = startOfDay(asOf);
+  const horizon = addMonths(start, SIP_PROJECTION_YEARS * 12);
+  const end = schedule.endDate && parseISO(schedule.endDate) < horizon ? parseISO(schedule.endDate) : horizon;
+  const monthlyReturn = (EXPECTED_RETURNS[investment.type] ?? 0) / 12 / 100;
+
+  const future = buildSipInstallments(schedule, end).filter(
+    installment => installment.dueDate > toDateKey(start) && installment.dueDate <= toDateKey(end)
+  );
+
+  let invested = investment.investedAmount;
+  let value = investment.currentValue;
+  const points: SipProjectionPoint[] = [{ date: toDateKey(start), invested: round(invested), value: round(value) }];
+
+  let next = 0;
+  for (let month = 1; addMonths(start, month - 1) < end; month++) {
+    const periodEnd = addMonths(start, month) < end ? addMonths(start, month) : end;
+    value *= 1 + monthlyReturn;
+    for (; next < future.length && future[next].dueDate <= toDateKey(periodEnd); next++) {
+      invested += future[next].amount;
+      value += future[next].amount;
+    }
+    if (month % 12 === 0 || periodEnd === end) {
+      points.push({ date: toDateKey(periodEnd), invested: round(invested), value: round(value) });
+    }
+  }
+
+  return points;
+};
@@ -0,0 +1,94 @@
+import { addDays, addHours, format, parseISO } from 'date-fns';
+import { Transaction, TransactionType } from '@/types/expense.types';
+import { InvestmentSuggestion, PendingInvestment, SuggestionStatus } from '@/types/investment.types';
+import {
+  INVESTMENT_SUGGESTION_CACHE_HOURS,
+  RECURRING_AMOUNT_TOLERANCE,
+  SUGGESTION_DEBIT_MATCH_DAYS,
+  SUGGESTION_REGENERATE_SURPLUS_CHANGE,
+} from './constants';
+
+export const getSuggestionExpiry = (generatedAt: Date): Date => addHours(generatedAt, INVESTMENT_SUGGESTION_CACHE_HOURS);
+
+export const isSuggestionExpired = (suggestion: InvestmentSuggestion, asOf: Date = new Date()): boolean =>
+  suggestion.status === SuggestionStatus.PENDING && !!suggestion.expiresAt && suggestion.expiresAt.getTime() <= asOf.getTime();
+
+// Pending suggestions past their window become expired; decisions already made are left alone
+export const expireSuggestions = (
+  suggestions: InvestmentSuggestion[],
+  asOf: Date = new Date()
+): InvestmentSuggestion[] =>
+  suggestions.map(suggestion =>
+    isSuggestionExpired(suggestion, asOf)
+      ? { ...suggestion, status: SuggestionStatus.EXPIRED, updatedAt: suggestion.expiresAt || asOf }
+      : suggestion
+  );
+
+// Why pending suggestions should be replaced with fresh ones, or null when they still fit
+export const getRegenerationReason = (
+  suggestions: InvestmentSuggestion[],
+  surplusAmount: number
+): string | null => {
+  const pending = suggestions.filter(suggestion => suggestion.status === SuggestionStatus.PENDING);
+  if (pending.length === 0) {
+    return suggestions.some(suggestion => suggestion.status === SuggestionStatus.EXPIRED)
+      ? 'Your earlier suggestions expired.'
+      : null;
+  }
+
+  const basis = pending[0].surplusBasis;
+  if (basis === undefined) return null;
+  const change = basis > 0 ? Math.abs(surplusAmount - basis) / basis : surplusAmount > 0 ? 1 : 0;
+  return change >= SUGGESTION_REGENERATE_SURPLUS_CHANGE
+    ? `Your projected surplus has ${surplusAmount > basis ? 'grown' : 'shrunk'} by ${Math.round(change * 100)}% since your suggestions were made.`
+    : null;
+};
+
+// The debit that paid for an accepted suggestion: an expense within the match window after accepting,
+// for about the accepted amount. The earliest such debit wins, then the closest amount.
+export const findInvestmentDebit = (
+  pending: PendingInvestment,
+  transactions: Transaction[],
+  excludedIds: Set<string> = new Set()
+): Transaction | undefined => {
+  const accepted = parseISO(pending.acceptedAt);
+  const windowStart = format(accepted, 'yyyy-MM-dd');
+  const windowEnd = format(addDays(accepted, SUGGESTION_DEBIT_MATCH_DAYS), 'yyyy-MM-dd');
+  const difference = (transaction: Transaction) => Math.abs(Math.abs(transaction.amount) - pending.amount);
+
+  return transactions
+    .filter(transaction => {
+      if (transaction.type !== TransactionType.EXPENSE || excludedIds.has(transaction.id)) return false;
+      const day = format(new Date(transaction.date), 'yyyy-MM-dd');
+      if (day < windowStart || day > windowEnd) return false;
+      return difference(transaction) <= pending.amount * RECURRING_AMOUNT_TOLERANCE;
+    })
+    .sort(
+      (a, b) =>
+        new Date(a.date).getTime() - new Date(b.date).getTime() ||
+        difference(a) - difference(b) ||
+        a.id.localeCompare(b.id)
+    )[0];
+};
+
+// Debits for every investment still awaiting one; a debit is only ever matched to one investment
+export const matchInvestmentDebits = (
+  pendingInvestments: PendingInvestment[],
+  transactions: Transaction[]
+): Map<string, Transaction> => {
+  const used = new Set(
+    pendingInvestments.map(pending => pending.matchedTransactionId).filter((id): id is string => !!id)
+  );
+  const matches = new Map<string, Transaction>();
+  pendingInvestments
+    .filter(pending => pending.status === 'awaiting_debit')
+    .sort((a, b) => a.acceptedAt.localeCompare(b.acceptedAt))
+    .forEach(pending => {
+      const debit = findInvestmentDebit(pending, transactions, used);
+      if (debit) {
+        used.add(debit.id);
+        matches.set(pending.id, debit);
+      }
+    });
+  return matches;
+};
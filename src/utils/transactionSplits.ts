@@ -0,0 +1,61 @@
+import {
+  CategoryLine,
+  Transaction,
+  TransactionSplit,
+  TransactionType,
+} from '@/types/expense.types';
+
+// Amounts are compared in paise so floating point sums don't reject valid splits
+const toMinorUnits = (amount: number): number => Math.round(Math.abs(amount) * 100);
+
+export const getSplitRemainder = (parentAmount: number, splits: Pick<TransactionSplit, 'amount'>[]): number => {
+  const allocated = splits.reduce((sum, split) => sum + toMinorUnits(split.amount), 0);
+  return (toMinorUnits(parentAmount) - allocated) / 100;
+};
+
+// Returns an error message when the split lines can't be saved
+export const validateSplits = (parentAmount: number, splits: TransactionSplit[]): string | null => {
+  if (splits.length < 2) {
+    return 'A split needs at least two lines';
+  }
+  if (splits.some(split => !(split.amount > 0))) {
+    return 'Every split line needs an amount greater than zero';
+  }
+
+  const remainder = getSplitRemainder(parentAmount, splits);
+  if (remainder !== 0) {
+    return remainder > 0
+      ? `Split lines are ${remainder.toFixed(2)} short of the transaction amount`
+      : `Split lines exceed the transaction amount by ${Math.abs(remainder).toFixed(2)}`;
+  }
+
+  return null;
+};
+
+export const isSplit = (transaction: Transaction): boolean => (transaction.splits?.length ?? 0) > 0;
+
+// A split transaction contributes one line per split, everything else a single line for its own category
+export const getCategoryLines = (transaction: Transaction): CategoryLine[] => {
+  const sign = transaction.amount < 0 ? -1 : 1;
+  const base = {
+    transactionId: transaction.id,
+    date: new Date(transaction.date),
+    type: transaction.type,
+  };
+
+  if (!isSplit(transaction)) {
+    return [{ ...base, category: transaction.category, amount: transaction.amount }];
+  }
+
+  return (transaction.splits as TransactionSplit[]).map(split => ({
+    ...base,
+    category: split.category,
+    amount: sign * Math.abs(split.amount),
+  }));
+};
+
+export const getExpenseCategoryLines = (transactions: Transaction[]): CategoryLine[] => {
+  return transactions
+    .filter(t => t.type === TransactionType.EXPENSE)
+    .flatMap(getCategoryLines);
+};
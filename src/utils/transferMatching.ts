@@ -0,0 +1,61 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { Transaction, TransactionType, TransferMatch } from '@/types/expense.types';
+
+export const TRANSFER_MATCH_MAX_DAYS = 3;
+
+const accountOf = (transaction: Transaction): string | undefined =>
+  transaction.bankAccountId || transaction.accountId;
+
+const minorUnits = (amount: number): number => Math.round(Math.abs(amount) * 100);
+
+export const getTransferPairKey = (outgoingId: string, incomingId: string): string => `${outgoingId}:${incomingId}`;
+
+// Pair expenses in one account with incomes of the same amount in another account a few days apart.
+// Pairs the user has said are not transfers are never offered again.
+export const findTransferMatches = (
+  transactions: Transaction[],
+  maxDaysApart: number = TRANSFER_MATCH_MAX_DAYS,
+  dismissedPairs: Set<string> = new Set()
+): TransferMatch[] => {
+  const eligible = transactions.filter(t => !t.transferId && accountOf(t) && t.amount !== 0);
+  const outgoing = eligible.filter(t => t.type === TransactionType.EXPENSE);
+  const incoming = eligible.filter(t => t.type === TransactionType.INCOME);
+
+  const incomingByAmount = new Map<number, Transaction[]>();
+  incoming.forEach(t => {
+    const key = minorUnits(t.amount);
+    incomingByAmount.set(key, [...(incomingByAmount.get(key) || []), t]);
+  });
+
+  const candidates: Array<{ outgoing: Transaction; incoming: Transaction; daysApart: number }> = [];
+  outgoing.forEach(out => {
+    (incomingByAmount.get(minorUnits(out.amount)) || []).forEach(inc => {
+      if (accountOf(inc) === accountOf(out) || dismissedPairs.has(getTransferPairKey(out.id, inc.id))) return;
+      const daysApart = Math.abs(differenceInCalendarDays(new Date(inc.date), new Date(out.date)));
+      if (daysApart <= maxDaysApart) {
+        candidates.push({ outgoing: out, incoming: inc, daysApart });
+      }
+    });
+  });
+
+  const candidateCount = new Map<string, number>();
+  candidates.forEach(({ outgoing: out, incoming: inc }) => {
+    candidateCount.set(out.id, (candidateCount.get(out.id) || 0) + 1);
+    candidateCount.set(inc.id, (candidateCount.get(inc.id) || 0) + 1);
+  });
+
+  // Closest dates first; each transaction can only be one side of one transfer
+  const used = new Set<string>();
+  return candidates
+    .sort((a, b) => a.daysApart - b.daysApart)
+    .filter(({ outgoing: out, incoming: inc }) => {
+      if (used.has(out.id) || used.has(inc.id)) return false;
+      used.add(out.id);
+      used.add(inc.id);
+      return true;
+    })
+    .map(match => ({
+      ...match,
+      isUnique: candidateCount.get(match.outgoing.id) === 1 && candidateCount.get(match.incoming.id) === 1,
+    }));
+};
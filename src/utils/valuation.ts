@@ -0,0 +1,73 @@
+import { format } from 'date-fns';
+import { HoldingTransaction, Investment, InvestmentPortfolio, PricePoint } from '@/types/investment.types';
+import { adjustPriceForSplits, buildHoldingPosition, getUnitPrice } from './holdings';
+import { normalizePriceSymbol } from './priceParser';
+
+export type PriceLookup = (symbol: string, date: string) => PricePoint | null;
+
+export interface InvestmentValuation {
+  investment: Investment; // Revalued as of the valuation date
+  price: PricePoint | null; // Null when no price was known and the last valuation was kept
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Holdings without a symbol are priced under their id, so manual prices still work for them
+export const getPriceSymbol = (investment: Investment): string =>
+  normalizePriceSymbol(investment.symbol || investment.id);
+
+// Units and cost come from the ledger as it stood on asOf, the unit price from the latest known
+// price on or before asOf, falling back to the investment's last valuation. Either price is
+// adjusted for splits between the day it was set and asOf.
+export const revalueInvestment = (
+  investment: Investment,
+  transactions: HoldingTransaction[],
+  getPrice: PriceLookup,
+  asOf: Date = new Date()
+): InvestmentValuation => {
+  const date = format(asOf, 'yyyy-MM-dd');
+  const price = getPrice(getPriceSymbol(investment), date);
+  const position = buildHoldingPosition(investment, transactions, asOf);
+  const unitPrice = price
+    ? adjustPriceForSplits(price.price, investment.id, transactions, price.date, date)
+    : getUnitPrice(investment, transactions, asOf);
+  const currentValue = round(position.quantity * unitPrice);
+  const returns = round(currentValue - position.costBasis);
+
+  return {
+    investment: {
+      ...investment,
+      quantity: position.hasLedger ? position.quantity : investment.quantity,
+      investedAmount: position.costBasis,
+      currentValue,
+      returns,
+      returnPercentage: position.costBasis > 0 ? round((returns / position.costBasis) * 100) : 0,
+      lastUpdated: asOf, // Units and price now both stand as of asOf, so later splits are measured from here
+    },
+    price,
+  };
+};
+
+export const revaluePortfolio = (
+  portfolio: InvestmentPortfolio,
+  transactions: HoldingTransaction[],
+  getPrice: PriceLookup,
+  asOf: Date = new Date()
+): InvestmentPortfolio => {
+  const investments = portfolio.investments.map(
+    investment => revalueInvestment(investment, transactions, getPrice, asOf).investment
+  );
+  const totalValue = round(investments.reduce((sum, investment) => sum + investment.currentValue, 0));
+  const totalInvested = round(investments.reduce((sum, investment) => sum + investment.investedAmount, 0));
+  const totalReturns = round(totalValue - totalInvested);
+
+  return {
+    ...portfolio,
+    investments,
+    totalValue,
+    totalInvested,
+    totalReturns,
+    returnPercentage: totalInvested > 0 ? round((totalReturns / totalInvested) * 100) : 0,
+    lastUpdated: new Date(),
+  };
+};